@@ -19,6 +19,7 @@ import './i18n/config';
 const LoginPage = lazy(() => import('./pages/auth/LoginPage').then(m => ({ default: m.LoginPage })));
 const RestaurantsListPage = lazy(() => import('./pages/restaurants/RestaurantsListPage').then(m => ({ default: m.RestaurantsListPage })));
 const SlotsListPage = lazy(() => import('./pages/slots/SlotsListPage').then(m => ({ default: m.SlotsListPage })));
+const SlotSimulatorPage = lazy(() => import('./pages/slots/SlotSimulatorPage').then(m => ({ default: m.SlotSimulatorPage })));
 const DictionariesPage = lazy(() => import('./pages/dictionaries/DictionariesPage').then(m => ({ default: m.DictionariesPage })));
 const StatisticsPage = lazy(() => import('./pages/statistics/StatisticsPage').then(m => ({ default: m.StatisticsPage })));
 const AdvertisersListPage = lazy(() => import('./pages/advertisement/AdvertisersListPage'));
@@ -99,6 +100,14 @@ function AppRouter() {
                       </ErrorBoundary>
                     }
                   />
+                  <Route
+                    path="slot-simulator"
+                    element={
+                      <ErrorBoundary fallback={<DictionariesErrorFallback />} resetKeys={[location.pathname]}>
+                        <SlotSimulatorPage />
+                      </ErrorBoundary>
+                    }
+                  />
 
                   {/* Advertisement - reset on route change */}
                   <Route
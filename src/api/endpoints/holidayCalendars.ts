@@ -0,0 +1,6 @@
+/**
+ * Holiday Calendars API endpoint
+ * Manages shared holiday calendars referenced by schedules
+ */
+
+export { realHolidayCalendarsApi as holidayCalendarsApi } from '../real/holidayCalendars';
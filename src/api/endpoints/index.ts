@@ -5,4 +5,6 @@ export { slotsApi } from './slots';
 export { auditApi } from './audit';
 export { advertisersApi, campaignsApi, creativesApi } from './advertisement';
 export { schedulesApi } from './schedules';
+export { holidayCalendarsApi } from './holidayCalendars';
+export { statsApi } from './stats';
 
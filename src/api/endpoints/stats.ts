@@ -0,0 +1,6 @@
+/**
+ * Stats API endpoint
+ * Provides campaign delivery statistics
+ */
+
+export { realStatsApi as statsApi } from '../real/stats';
@@ -6,7 +6,7 @@
 import { realApiFetch, parseJsonResponse } from './client';
 import { env } from '../../config/env';
 import { API_ENDPOINTS } from '../../config/api';
-import type { AuditEvent, AuditEntityType } from '../../types';
+import type { AuditEvent, AuditAction, AuditEntityType } from '../../types';
 
 const AUDIT_BASE_URL = `${env.apiBaseUrl}${API_ENDPOINTS.audit}`;
 
@@ -17,6 +17,12 @@ export const realAuditApi = {
   getEvents: async (params?: {
     entityType?: AuditEntityType;
     entityId?: number | string;
+    actorId?: number;
+    action?: AuditAction;
+    /** Unix timestamp (seconds), inclusive */
+    from?: number;
+    /** Unix timestamp (seconds), inclusive */
+    to?: number;
   }): Promise<AuditEvent[]> => {
     const queryParams = new URLSearchParams();
     
@@ -27,6 +33,22 @@ export const realAuditApi = {
     if (params?.entityId) {
       queryParams.append('entityId', String(params.entityId));
     }
+
+    if (params?.actorId) {
+      queryParams.append('actorId', String(params.actorId));
+    }
+
+    if (params?.action) {
+      queryParams.append('action', params.action);
+    }
+
+    if (params?.from) {
+      queryParams.append('from', String(params.from));
+    }
+
+    if (params?.to) {
+      queryParams.append('to', String(params.to));
+    }
     
     const url = queryParams.toString() 
       ? `${AUDIT_BASE_URL}?${queryParams.toString()}`
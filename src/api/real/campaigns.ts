@@ -54,6 +54,7 @@ const campaignTransformer = createApiTransformer<ApiCampaign, Campaign & { hash?
       placements: slot.placements || []
     }))
   })),
+  rotationAutoOptimize: apiCampaign.rotationAutoOptimize ?? false,
   blocked: apiCampaign.isBlocked,
   hash: apiCampaign.hash,
 }),
@@ -83,6 +84,7 @@ const campaignTransformer = createApiTransformer<ApiCampaign, Campaign & { hash?
     menuTypes: campaign.menuTypes,
     slots: campaign.slots,
     targets: campaign.targets,
+    rotationAutoOptimize: campaign.rotationAutoOptimize,
     isBlocked: campaign.blocked,
     hash: campaign.hash,
   })
@@ -113,6 +115,7 @@ const transformToApi = (data: CampaignFormData) => ({
   menuTypes: data.menuTypes.map(String),
   slots: data.slots.map(String),
   targets: data.targets,
+  rotationAutoOptimize: data.rotationAutoOptimize,
   isBlocked: data.blocked,
 });
 
@@ -2,7 +2,7 @@
  * Real API Client with authentication and error handling
  */
 
-import { parseApiError, ApiError } from '../errors';
+import { parseApiError, ApiError, type ApiErrorResponse } from '../errors';
 import { navigationService } from '../../utils/navigationService';
 import { logger } from '../../utils/logger';
 import { env } from '../../config/env';
@@ -312,6 +312,91 @@ export const realApiFetch = async (
   }
 };
 
+/**
+ * Multipart upload with progress reporting.
+ * Uses XMLHttpRequest because fetch does not expose upload progress; not retried or deduplicated.
+ *
+ * @param url - Upload endpoint
+ * @param body - Multipart form data, the browser sets the Content-Type with the boundary
+ * @param options.onProgress - Called with the uploaded percent (0-100)
+ * @param options.signal - Aborts the upload
+ * @returns Parsed JSON response
+ * @throws ApiError for non-2xx responses, DOMException (AbortError) when aborted
+ */
+export const realApiUpload = <T>(
+  url: string,
+  body: FormData,
+  options: { onProgress?: (percent: number) => void; signal?: AbortSignal } = {}
+): Promise<T> => {
+  const { onProgress, signal } = options;
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Request aborted', 'AbortError'));
+      return;
+    }
+
+    const startTime = performance.now();
+    const xhr = new XMLHttpRequest();
+    const handleAbort = () => xhr.abort();
+
+    xhr.open('POST', url);
+    xhr.withCredentials = true; // Same as credentials: 'include' in realApiFetch
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      logger.api('POST', url, xhr.status, performance.now() - startTime);
+
+      if (xhr.status === 401) {
+        handleUnauthorized();
+        reject(new ApiError(401, 0, 'Unauthorized'));
+        return;
+      }
+
+      let data: unknown = null;
+      try {
+        data = xhr.responseText ? JSON.parse(xhr.responseText) : null;
+      } catch {
+        // Non-JSON body, handled below
+      }
+
+      if (xhr.status < 200 || xhr.status >= 300) {
+        const error = (data || {}) as Partial<ApiErrorResponse>;
+        reject(new ApiError(xhr.status, error.code || 0, error.message || xhr.statusText));
+        return;
+      }
+
+      if (data === null) {
+        reject(new ApiError(xhr.status, 0, 'Invalid JSON response from server'));
+        return;
+      }
+
+      resolve(data as T);
+    };
+
+    xhr.onerror = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      logger.api('POST', url, undefined, performance.now() - startTime);
+      reject(new TypeError('Network request failed'));
+    };
+
+    xhr.onabort = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      logger.debug('API upload aborted', { url });
+      reject(new DOMException('Request aborted', 'AbortError'));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+    xhr.send(body);
+  });
+};
+
 /**
  * Export circuit breaker for monitoring/testing purposes
  */
@@ -1,8 +1,9 @@
-import { realApiFetch, parseJsonResponse } from './client';
+import { realApiFetch, realApiUpload, parseJsonResponse } from './client';
 import { createApiTransformer } from './transformer';
 import { env } from '../../config/env';
 import { API_ENDPOINTS } from '../../config/api';
-import type { Creative, CreativeFormData, ApiCreative, ApiCreativeRequest } from '../../types';
+import { DEFAULT_CREATIVE_WEIGHT } from '../../utils/creativeRotationUtils';
+import type { Creative, CreativeFormData, CreativeModerationStatus, ApiCreative, ApiCreativeRequest, ApiCreativeUpload, ApiCreativeModerationRequest } from '../../types';
 
 const CREATIVES_BASE_URL = `${env.apiBaseUrl}${API_ENDPOINTS.creatives}`;
 
@@ -21,6 +22,12 @@ const creativeTransformer = createApiTransformer<ApiCreative, Creative>(
     previewWidth: apiCreative.previewWidth,
     previewHeight: apiCreative.previewHeight,
     blocked: apiCreative.isBlocked,
+    // Creatives saved before moderation was introduced were already live
+    moderationStatus: apiCreative.moderationStatus ?? 'approved',
+    rejectionReason: apiCreative.rejectionReason,
+    weight: apiCreative.weight ?? DEFAULT_CREATIVE_WEIGHT,
+    startDate: apiCreative.startDate || undefined,
+    endDate: apiCreative.endDate || undefined,
     hash: apiCreative.hash,
   }),
   // Transform internal type to API request (not used directly, see transformToApi below)
@@ -36,6 +43,11 @@ const creativeTransformer = createApiTransformer<ApiCreative, Creative>(
     previewWidth: creative.previewWidth,
     previewHeight: creative.previewHeight,
     isBlocked: creative.blocked,
+    moderationStatus: creative.moderationStatus,
+    rejectionReason: creative.rejectionReason,
+    weight: creative.weight,
+    startDate: creative.startDate,
+    endDate: creative.endDate,
     hash: creative.hash,
   })
 );
@@ -54,6 +66,11 @@ const transformToApi = (formData: CreativeFormData): ApiCreativeRequest => {
     previewWidth: formData.previewWidth,
     previewHeight: formData.previewHeight,
     isBlocked: formData.blocked,
+    moderationStatus: formData.moderationStatus,
+    rejectionReason: formData.rejectionReason,
+    weight: formData.weight,
+    startDate: formData.startDate,
+    endDate: formData.endDate,
     hash: formData.hash,
   };
 };
@@ -107,4 +124,33 @@ export const realCreativesApi = {
     if (!apiCreative) throw new Error('Empty response from creative block');
     return creativeTransformer.fromApi(apiCreative);
   },
+
+  /**
+   * Move a creative through moderation: submit for review (pending), approve or reject with a reason
+   */
+  moderate: async (id: string, status: CreativeModerationStatus, rejectionReason?: string): Promise<Creative> => {
+    const body: ApiCreativeModerationRequest = { moderationStatus: status, rejectionReason };
+    const response = await realApiFetch(`${CREATIVES_BASE_URL}/${id}/moderation`, {
+      method: 'PATCH',
+      body: JSON.stringify(body),
+    });
+    const apiCreative = await parseJsonResponse<ApiCreative>(response);
+    if (!apiCreative) throw new Error('Empty response from creative moderation');
+    return creativeTransformer.fromApi(apiCreative);
+  },
+
+  /**
+   * Upload a creative file (HTML5 zip bundle, image or video) to the server storage
+   * @returns Hosted URL to use as the creative dataUrl
+   */
+  upload: async (
+    file: File,
+    options: { onProgress?: (percent: number) => void; signal?: AbortSignal } = {}
+  ): Promise<string> => {
+    const body = new FormData();
+    body.append('file', file, file.name);
+    const result = await realApiUpload<ApiCreativeUpload>(`${CREATIVES_BASE_URL}/upload`, body, options);
+    if (!result.url) throw new Error('Empty URL in creative upload response');
+    return result.url;
+  },
 };
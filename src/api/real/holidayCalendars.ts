@@ -0,0 +1,99 @@
+/**
+ * Holiday Calendars API
+ * Manages shared holiday calendars, a calendar applies to every schedule that references it
+ */
+
+import { realApiFetch, parseJsonResponse } from './client';
+import { createApiTransformer } from './transformer';
+import { env } from '../../config/env';
+import { API_ENDPOINTS } from '../../config/api';
+import type { HolidayCalendar, HolidayCalendarFormData, ApiHolidayCalendar } from '../../types';
+
+const HOLIDAY_CALENDARS_BASE_URL = `${env.apiBaseUrl}${API_ENDPOINTS.holidayCalendars}`;
+
+const holidayCalendarTransformer = createApiTransformer<ApiHolidayCalendar, HolidayCalendar & { hash?: string }>(
+  (apiCalendar) => ({
+    id: String(apiCalendar.id),
+    name: apiCalendar.name,
+    holidays: apiCalendar.holidays || [],
+    blocked: apiCalendar.isBlocked,
+    hash: apiCalendar.hash,
+  }),
+  (calendar) => ({
+    id: calendar.id,
+    name: calendar.name,
+    holidays: calendar.holidays,
+    isBlocked: calendar.blocked,
+    hash: calendar.hash,
+  })
+);
+
+const transformToApi = (data: HolidayCalendarFormData) => ({
+  name: data.name,
+  holidays: data.holidays,
+  isBlocked: data.blocked,
+});
+
+export const realHolidayCalendarsApi = {
+  /**
+   * Get all holiday calendars
+   */
+  list: async (): Promise<HolidayCalendar[]> => {
+    const response = await realApiFetch(HOLIDAY_CALENDARS_BASE_URL, {
+      method: 'GET',
+    });
+
+    const apiCalendars = await parseJsonResponse<ApiHolidayCalendar[]>(response);
+    return holidayCalendarTransformer.fromApiList(apiCalendars || []);
+  },
+
+  /**
+   * Get a single holiday calendar by ID
+   */
+  getById: async (id: string): Promise<HolidayCalendar & { hash?: string }> => {
+    const response = await realApiFetch(`${HOLIDAY_CALENDARS_BASE_URL}/${id}`, {
+      method: 'GET',
+    });
+
+    const apiCalendar = await parseJsonResponse<ApiHolidayCalendar>(response);
+    if (!apiCalendar) throw new Error('Empty response for holiday calendar');
+    return holidayCalendarTransformer.fromApi(apiCalendar);
+  },
+
+  /**
+   * Create a new holiday calendar
+   */
+  create: async (data: HolidayCalendarFormData): Promise<HolidayCalendar> => {
+    const response = await realApiFetch(HOLIDAY_CALENDARS_BASE_URL, {
+      method: 'POST',
+      body: JSON.stringify(transformToApi(data)),
+    });
+
+    const apiCalendar = await parseJsonResponse<ApiHolidayCalendar>(response);
+    if (!apiCalendar) throw new Error('Empty response from holiday calendar creation');
+    return holidayCalendarTransformer.fromApi(apiCalendar);
+  },
+
+  /**
+   * Update an existing holiday calendar
+   */
+  update: async (id: string, data: HolidayCalendarFormData, hash?: string): Promise<HolidayCalendar> => {
+    const response = await realApiFetch(`${HOLIDAY_CALENDARS_BASE_URL}/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ ...transformToApi(data), ...(hash ? { hash } : {}) }),
+    });
+
+    const apiCalendar = await parseJsonResponse<ApiHolidayCalendar>(response);
+    if (!apiCalendar) throw new Error('Empty response from holiday calendar update');
+    return holidayCalendarTransformer.fromApi(apiCalendar);
+  },
+
+  /**
+   * Delete a holiday calendar
+   */
+  delete: async (id: string): Promise<void> => {
+    await realApiFetch(`${HOLIDAY_CALENDARS_BASE_URL}/${id}`, {
+      method: 'DELETE',
+    });
+  },
+};
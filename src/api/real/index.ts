@@ -3,3 +3,5 @@ export * from './restaurants';
 export * from './dictionaries';
 export * from './audit';
 export * from './schedules';
+export * from './holidayCalendars';
+export * from './stats';
@@ -7,25 +7,70 @@ import { realApiFetch, parseJsonResponse } from './client';
 import { createApiTransformer } from './transformer';
 import { env } from '../../config/env';
 import { API_ENDPOINTS } from '../../config/api';
-import type { Schedule, ScheduleFormData, DaySchedule, ApiSchedule, ApiDaySchedule } from '../../types';
+import type {
+  Schedule,
+  ScheduleFormData,
+  DaySchedule,
+  ScheduleException,
+  ApiSchedule,
+  ApiDaySchedule,
+  ApiScheduleException,
+  TimeWindow,
+  ApiTimeWindow,
+} from '../../types';
+import { sortTimeWindows, windowsFromLegacyHours } from '../../utils/timeWindowUtils';
 
 const SCHEDULES_BASE_URL = `${env.apiBaseUrl}${API_ENDPOINTS.schedules}`;
 
+// Create transformer for time windows (minutes from midnight on both sides)
+const timeWindowTransformer = createApiTransformer<ApiTimeWindow, TimeWindow>(
+  (apiWindow) => ({
+    startTime: apiWindow.start,
+    endTime: apiWindow.end,
+  }),
+  (window) => ({
+    start: window.startTime,
+    end: window.endTime,
+  })
+);
+
+// Windows of a day or an exception, falling back to the legacy whole-hour range
+const windowsFromApi = (source: { windows?: ApiTimeWindow[]; start?: number; end?: number }): TimeWindow[] =>
+  source.windows
+    ? sortTimeWindows(timeWindowTransformer.fromApiList(source.windows))
+    : windowsFromLegacyHours(source.start, source.end);
+
 // Create transformer for day schedule data
 const dayScheduleTransformer = createApiTransformer<ApiDaySchedule, DaySchedule>(
   // Transform API day schedule to internal format
   (apiDay) => ({
     day: apiDay.day as DaySchedule['day'],
     enabled: apiDay.enabled,
-    startTime: apiDay.start,
-    endTime: apiDay.end,
+    windows: windowsFromApi(apiDay),
   }),
   // Transform internal day schedule to API format
   (day) => ({
     day: day.day,
     enabled: day.enabled,
-    start: day.startTime,
-    end: day.endTime,
+    windows: timeWindowTransformer.toApiList(day.windows),
+  })
+);
+
+// Create transformer for date exceptions
+const exceptionTransformer = createApiTransformer<ApiScheduleException, ScheduleException>(
+  (apiException) => ({
+    startDate: apiException.startDate,
+    endDate: apiException.endDate,
+    closed: apiException.isClosed,
+    windows: windowsFromApi(apiException),
+    note: apiException.note,
+  }),
+  (exception) => ({
+    startDate: exception.startDate,
+    endDate: exception.endDate,
+    isClosed: exception.closed,
+    windows: timeWindowTransformer.toApiList(exception.windows),
+    note: exception.note,
   })
 );
 
@@ -38,6 +83,8 @@ const scheduleTransformer = createApiTransformer<ApiSchedule, Schedule & { hash?
     color: apiSchedule.color,
     blocked: apiSchedule.isBlocked,
     weekSchedule: dayScheduleTransformer.fromApiList(apiSchedule.weekSchedule),
+    exceptions: exceptionTransformer.fromApiList(apiSchedule.exceptions || []),
+    holidayCalendarIds: (apiSchedule.holidayCalendarIds || []).map(String),
     hash: apiSchedule.hash,
   }),
   // Transform internal format to API request (not used directly, see transformToApi below)
@@ -47,6 +94,8 @@ const scheduleTransformer = createApiTransformer<ApiSchedule, Schedule & { hash?
     color: schedule.color,
     isBlocked: schedule.blocked,
     weekSchedule: dayScheduleTransformer.toApiList(schedule.weekSchedule),
+    exceptions: exceptionTransformer.toApiList(schedule.exceptions),
+    holidayCalendarIds: schedule.holidayCalendarIds,
     hash: schedule.hash,
   })
 );
@@ -57,6 +106,8 @@ const transformToApi = (data: ScheduleFormData) => ({
   color: data.color,
   isBlocked: data.blocked,
   weekSchedule: dayScheduleTransformer.toApiList(data.weekSchedule),
+  exceptions: exceptionTransformer.toApiList(data.exceptions),
+  holidayCalendarIds: data.holidayCalendarIds,
 });
 
 export const realSchedulesApi = {
@@ -75,7 +126,7 @@ export const realSchedulesApi = {
   /**
    * Get a single schedule by ID
    */
-  getById: async (id: string): Promise<Schedule> => {
+  getById: async (id: string): Promise<Schedule & { hash?: string }> => {
     const response = await realApiFetch(`${SCHEDULES_BASE_URL}/${id}`, {
       method: 'GET',
     });
@@ -0,0 +1,73 @@
+/**
+ * Stats API
+ * Delivery statistics (impressions, clicks, spend) for campaigns
+ */
+
+import { realApiFetch, parseJsonResponse } from './client';
+import { env } from '../../config/env';
+import { API_ENDPOINTS } from '../../config/api';
+import type { StatsGroupBy, StatsPoint, StatsQuery, StatsRow } from '../../types';
+
+const STATS_BASE_URL = `${env.apiBaseUrl}${API_ENDPOINTS.stats}`;
+
+/**
+ * Build query string from stats query, skipping empty filters
+ */
+const buildStatsQuery = (query: StatsQuery, extra?: Record<string, string>): string => {
+  const queryParams = new URLSearchParams();
+
+  queryParams.append('from', String(query.from));
+  queryParams.append('to', String(query.to));
+
+  if (query.advertiserId) {
+    queryParams.append('advertiserId', query.advertiserId);
+  }
+
+  if (query.campaignId) {
+    queryParams.append('campaignId', query.campaignId);
+  }
+
+  if (query.creativeId) {
+    queryParams.append('creativeId', query.creativeId);
+  }
+
+  if (query.slotId) {
+    queryParams.append('slotId', query.slotId);
+  }
+
+  if (query.restaurantId) {
+    queryParams.append('restaurantId', query.restaurantId);
+  }
+
+  Object.entries(extra || {}).forEach(([key, value]) => queryParams.append(key, value));
+
+  return queryParams.toString();
+};
+
+export const realStatsApi = {
+  /**
+   * Get totals for the period grouped by entity
+   */
+  getSummary: async (groupBy: StatsGroupBy, query: StatsQuery): Promise<StatsRow[]> => {
+    const response = await realApiFetch(
+      `${STATS_BASE_URL}/summary?${buildStatsQuery(query, { groupBy })}`,
+      {
+        method: 'GET',
+      }
+    );
+    return parseJsonResponse<StatsRow[]>(response).then(data => data || []);
+  },
+
+  /**
+   * Get daily totals for the period
+   */
+  getTimeSeries: async (query: StatsQuery): Promise<StatsPoint[]> => {
+    const response = await realApiFetch(
+      `${STATS_BASE_URL}/timeseries?${buildStatsQuery(query, { granularity: 'day' })}`,
+      {
+        method: 'GET',
+      }
+    );
+    return parseJsonResponse<StatsPoint[]>(response).then(data => data || []);
+  },
+};
@@ -23,6 +23,7 @@ import { SearchField } from '../ui/molecules';
 import { useMultilingualName, useDataSelection } from '../../hooks';
 import { useDictionariesStore } from '../../store/dictionariesStore';
 import { useRestaurantsStore } from '../../store/restaurantsStore';
+import { matchesTargetingRules } from '../../utils/reachUtils';
 
 interface AddRestaurantsModalProps {
   open: boolean;
@@ -80,30 +81,8 @@ export const AddRestaurantsModal = memo(({
         }
       }
 
-      // Location filter (districts)
-      if (filters.locations.length > 0) {
-        const matchesLocation = filters.locations.includes(restaurant.districtId);
-        if (filters.locationsMode === 'allowed' && !matchesLocation) return false;
-        if (filters.locationsMode === 'denied' && matchesLocation) return false;
-      }
-
-      // Restaurant type filter
-      if (filters.restaurantTypes.length > 0) {
-        const typeIds = Array.isArray(restaurant.typeId) ? restaurant.typeId : [restaurant.typeId];
-        const matchesType = typeIds.some((typeId: string) => filters.restaurantTypes.includes(typeId));
-        if (filters.restaurantTypesMode === 'allowed' && !matchesType) return false;
-        if (filters.restaurantTypesMode === 'denied' && matchesType) return false;
-      }
-
-      // Menu type filter
-      if (filters.menuTypes.length > 0) {
-        const menuTypeIds = Array.isArray(restaurant.menuTypeId) ? restaurant.menuTypeId : [restaurant.menuTypeId];
-        const matchesMenuType = menuTypeIds.some((menuTypeId: string) => filters.menuTypes.includes(menuTypeId));
-        if (filters.menuTypesMode === 'allowed' && !matchesMenuType) return false;
-        if (filters.menuTypesMode === 'denied' && matchesMenuType) return false;
-      }
-
-      return true;
+      // Location (districts), restaurant type and menu type filters
+      return matchesTargetingRules(restaurant, filters);
     });
   }, [restaurants, excludeIds, searchTerm, filters, getDisplayName]);
 
@@ -0,0 +1,447 @@
+/**
+ * Campaign Bulk Edit Dialog
+ * Applies the same changes to several campaigns: edit → preview → per-item report.
+ * Every campaign is refetched and saved with its own hash, so each update can
+ * fail independently (e.g. with 460 when someone changed it meanwhile).
+ */
+
+import { memo, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Box,
+  Stack,
+  Chip,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Button, Select, TextField } from '../ui/atoms';
+import { campaignsApi } from '../../api';
+import { isApiError } from '../../api/errors';
+import { useMultilingualName } from '../../hooks';
+import { useDictionariesStore } from '../../store/dictionariesStore';
+import { logger } from '../../utils/logger';
+import { formatDate } from '../../utils/dateUtils';
+import { formatMoney } from '../../utils/statsUtils';
+import {
+  applyBulkChanges,
+  getBulkChangeList,
+  countChangedTargets,
+  hasBulkChanges,
+  type BulkTargetsActionType,
+  type CampaignBulkChange,
+  type CampaignBulkChanges,
+} from '../../utils/campaignBulkUtils';
+import type { Campaign, CampaignTarget } from '../../types';
+
+type BulkStep = 'edit' | 'preview' | 'results';
+
+type BulkItemStatus = 'pending' | 'success' | 'skipped' | 'conflict' | 'error';
+
+interface BulkItemResult {
+  status: BulkItemStatus;
+  message?: string;
+}
+
+interface BulkEditForm {
+  status: '' | 'active' | 'blocked';
+  extendDays: string;
+  priority: string;
+  weight: string;
+  budgetPercent: string;
+  targetsAction: '' | BulkTargetsActionType;
+  slotId: string;
+  scheduleId: string;
+}
+
+const EMPTY_FORM: BulkEditForm = {
+  status: '',
+  extendDays: '',
+  priority: '',
+  weight: '',
+  budgetPercent: '',
+  targetsAction: '',
+  slotId: '',
+  scheduleId: '',
+};
+
+const STATUS_COLORS = {
+  pending: 'default',
+  success: 'success',
+  skipped: 'default',
+  conflict: 'warning',
+  error: 'error',
+} as const;
+
+const TARGETS_ACTIONS: BulkTargetsActionType[] = ['addSlot', 'removeSlot', 'addSchedule', 'removeSchedule'];
+
+const parseNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const toBulkChanges = (form: BulkEditForm): CampaignBulkChanges => {
+  const priority = parseNumber(form.priority);
+  const weight = parseNumber(form.weight);
+  const budgetPercent = parseNumber(form.budgetPercent);
+  const needsSlot = form.targetsAction === 'addSlot' || form.targetsAction === 'removeSlot';
+  const needsSchedule = form.targetsAction === 'addSchedule' || form.targetsAction === 'removeSchedule';
+  const targetsActionComplete = (!needsSlot || form.slotId) && (!needsSchedule || form.scheduleId);
+
+  return {
+    blocked: form.status ? form.status === 'blocked' : undefined,
+    extendDays: parseNumber(form.extendDays),
+    priority: priority !== undefined ? Math.max(0, priority) : undefined,
+    weight: weight !== undefined ? Math.max(0, weight) : undefined,
+    budgetPercent: budgetPercent !== undefined ? Math.max(-100, budgetPercent) : undefined,
+    targetsAction: form.targetsAction && targetsActionComplete
+      ? { type: form.targetsAction, slotId: form.slotId || undefined, scheduleId: form.scheduleId || undefined }
+      : undefined,
+  };
+};
+
+interface CampaignBulkEditDialogProps {
+  open: boolean;
+  /** Selected campaigns as shown in the list */
+  campaigns: Campaign[];
+  onClose: () => void;
+  /** Called after a run with the IDs that were not saved */
+  onCompleted: (failedIds: string[]) => void;
+}
+
+export const CampaignBulkEditDialog = memo(({ open, campaigns, onClose, onCompleted }: CampaignBulkEditDialogProps) => {
+  const { t } = useTranslation();
+  const { getDisplayName } = useMultilingualName();
+  const { slots, schedules } = useDictionariesStore();
+  const [step, setStep] = useState<BulkStep>('edit');
+  const [form, setForm] = useState<BulkEditForm>(EMPTY_FORM);
+  const [results, setResults] = useState<Record<string, BulkItemResult>>({});
+  const [running, setRunning] = useState(false);
+
+  const changes = useMemo(() => toBulkChanges(form), [form]);
+
+  const preview = useMemo(
+    () => campaigns.map((campaign) => ({ campaign, changes: getBulkChangeList(campaign, changes) })),
+    [campaigns, changes]
+  );
+  const changedCount = preview.filter((item) => item.changes.length > 0).length;
+
+  const slotOptions = useMemo(
+    () => slots.map((slot) => ({ value: slot.id, label: getDisplayName(slot.name) })),
+    [slots, getDisplayName]
+  );
+  const scheduleOptions = useMemo(
+    () => schedules.map((schedule) => ({ value: schedule.id, label: getDisplayName(schedule.name) })),
+    [schedules, getDisplayName]
+  );
+
+  const updateForm = (field: keyof BulkEditForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const formatChange = (change: CampaignBulkChange): string => {
+    const label = t(`campaigns.bulk.fields.${change.field}`);
+    switch (change.field) {
+      case 'blocked':
+        return `${label}: ${t(`common.status.${change.after ? 'blocked' : 'active'}`)}`;
+      case 'endDate':
+        return `${label}: ${formatDate(change.before as number)} → ${formatDate(change.after as number)}`;
+      case 'budget':
+        return `${label}: ${formatMoney(change.before as number)} → ${formatMoney(change.after as number)}`;
+      case 'targets':
+        return `${label}: ${t('campaigns.bulk.targetsChanged', {
+          count: countChangedTargets(change.before as CampaignTarget[], change.after as CampaignTarget[]),
+        })}`;
+      default:
+        return `${label}: ${String(change.before)} → ${String(change.after)}`;
+    }
+  };
+
+  const run = async (ids: string[]) => {
+    setStep('results');
+    setRunning(true);
+    setResults((prev) => ({
+      ...prev,
+      ...Object.fromEntries(ids.map((id) => [id, { status: 'pending' as const }])),
+    }));
+
+    const failed: string[] = [];
+
+    // Sequential on purpose: every item gets its own result and the API is not flooded
+    for (const id of ids) {
+      let result: BulkItemResult;
+      try {
+        const latest = await campaignsApi.getById(id);
+        const updated = applyBulkChanges(latest, changes);
+        if (getBulkChangeList(latest, changes).length === 0) {
+          result = { status: 'skipped' };
+        } else {
+          await campaignsApi.update(id, { ...updated, hash: latest.hash || '' });
+          result = { status: 'success' };
+        }
+      } catch (error) {
+        failed.push(id);
+        if (isApiError(error) && error.isObjectChanged()) {
+          // Expected when someone else saved the campaign meanwhile, reported in the results
+          logger.warn('Campaign was changed by another user', { campaignId: id });
+          result = { status: 'conflict', message: t('campaigns.bulk.conflict') };
+        } else {
+          logger.error('Bulk campaign update failed', error as Error, { entityType: 'campaign', campaignId: id });
+          result = {
+            status: 'error',
+            message: isApiError(error) ? error.getUserMessage() : t('common.error.saveFailed'),
+          };
+        }
+      }
+      setResults((prev) => ({ ...prev, [id]: result }));
+    }
+
+    setRunning(false);
+    onCompleted(failed);
+  };
+
+  const failedIds = Object.entries(results)
+    .filter(([, result]) => result.status === 'conflict' || result.status === 'error')
+    .map(([id]) => id);
+  const doneCount = Object.values(results).filter((result) => result.status !== 'pending').length;
+  const totalCount = Object.keys(results).length;
+
+  return (
+    <Dialog
+      open={open}
+      onClose={running ? undefined : onClose}
+      maxWidth="md"
+      fullWidth
+      disableRestoreFocus
+      container={() => document.getElementById('modal-root')}
+    >
+      <DialogTitle>{t('campaigns.bulk.title', { count: campaigns.length })}</DialogTitle>
+      <DialogContent>
+        {step === 'edit' && (
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <Select
+              name="status"
+              label={t('common.statusLabel')}
+              value={form.status}
+              onChange={(value) => updateForm('status', String(value))}
+              options={[
+                { value: '', label: t('campaigns.bulk.keep') },
+                { value: 'active', label: t('common.status.active') },
+                { value: 'blocked', label: t('common.status.blocked') },
+              ]}
+              fullWidth
+            />
+            <Stack direction="row" spacing={2}>
+              <TextField
+                name="extendDays"
+                label={t('campaigns.bulk.extendDays')}
+                type="number"
+                value={form.extendDays}
+                onChange={(event) => updateForm('extendDays', event.target.value)}
+                helperText={t('campaigns.bulk.extendDaysHelper')}
+                fullWidth
+              />
+              <TextField
+                name="budgetPercent"
+                label={t('campaigns.bulk.budgetPercent')}
+                type="number"
+                value={form.budgetPercent}
+                onChange={(event) => updateForm('budgetPercent', event.target.value)}
+                helperText={t('campaigns.bulk.budgetPercentHelper')}
+                fullWidth
+              />
+            </Stack>
+            <Stack direction="row" spacing={2}>
+              <TextField
+                name="priority"
+                label={t('campaigns.fields.priority')}
+                type="number"
+                value={form.priority}
+                onChange={(event) => updateForm('priority', event.target.value)}
+                helperText={t('campaigns.bulk.emptyKeeps')}
+                fullWidth
+              />
+              <TextField
+                name="weight"
+                label={t('campaigns.fields.weight')}
+                type="number"
+                value={form.weight}
+                onChange={(event) => updateForm('weight', event.target.value)}
+                helperText={t('campaigns.bulk.emptyKeeps')}
+                fullWidth
+              />
+            </Stack>
+            <Select
+              name="targetsAction"
+              label={t('campaigns.bulk.targetsAction')}
+              value={form.targetsAction}
+              onChange={(value) => updateForm('targetsAction', String(value))}
+              options={[
+                { value: '', label: t('campaigns.bulk.keep') },
+                ...TARGETS_ACTIONS.map((action) => ({ value: action, label: t(`campaigns.bulk.targetsActions.${action}`) })),
+              ]}
+              fullWidth
+            />
+            {form.targetsAction && (
+              <Stack direction="row" spacing={2}>
+                <Select
+                  name="slotId"
+                  label={t('campaigns.bulk.slot')}
+                  value={form.slotId}
+                  onChange={(value) => updateForm('slotId', String(value))}
+                  options={[
+                    ...(form.targetsAction === 'addSchedule' || form.targetsAction === 'removeSchedule'
+                      ? [{ value: '', label: t('campaigns.bulk.allSlots') }]
+                      : []),
+                    ...slotOptions,
+                  ]}
+                  fullWidth
+                />
+                <Select
+                  name="scheduleId"
+                  label={t('campaigns.bulk.schedule')}
+                  value={form.scheduleId}
+                  onChange={(value) => updateForm('scheduleId', String(value))}
+                  options={[
+                    ...(form.targetsAction === 'addSlot' ? [{ value: '', label: t('campaigns.bulk.noSchedule') }] : []),
+                    ...scheduleOptions,
+                  ]}
+                  disabled={form.targetsAction === 'removeSlot'}
+                  fullWidth
+                />
+              </Stack>
+            )}
+          </Stack>
+        )}
+
+        {step === 'preview' && (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              {t('campaigns.bulk.previewDescription', { count: changedCount, total: campaigns.length })}
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('campaigns.fields.name')}</TableCell>
+                  <TableCell>{t('campaigns.bulk.changes')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {preview.map(({ campaign, changes: campaignChanges }) => (
+                  <TableRow key={campaign.id}>
+                    <TableCell sx={{ verticalAlign: 'top' }}>{getDisplayName(campaign.name)}</TableCell>
+                    <TableCell>
+                      {campaignChanges.length > 0 ? (
+                        campaignChanges.map((change) => (
+                          <Typography key={change.field} variant="body2">
+                            {formatChange(change)}
+                          </Typography>
+                        ))
+                      ) : (
+                        <Typography variant="body2" color="text.secondary">
+                          {t('campaigns.bulk.noChanges')}
+                        </Typography>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+
+        {step === 'results' && (
+          <>
+            <Box sx={{ mb: 2 }}>
+              <LinearProgress variant="determinate" value={totalCount > 0 ? (doneCount / totalCount) * 100 : 0} />
+              <Typography variant="caption" color="text.secondary">
+                {t('campaigns.bulk.progress', { done: doneCount, total: totalCount })}
+              </Typography>
+            </Box>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('campaigns.fields.name')}</TableCell>
+                  <TableCell>{t('campaigns.bulk.result')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {campaigns
+                  .filter((campaign) => results[String(campaign.id)])
+                  .map((campaign) => {
+                    const result = results[String(campaign.id)];
+                    return (
+                      <TableRow key={campaign.id}>
+                        <TableCell>{getDisplayName(campaign.name)}</TableCell>
+                        <TableCell>
+                          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                            <Chip
+                              size="small"
+                              color={STATUS_COLORS[result.status]}
+                              label={t(`campaigns.bulk.statuses.${result.status}`)}
+                            />
+                            {result.message && (
+                              <Typography variant="body2" color="text.secondary">
+                                {result.message}
+                              </Typography>
+                            )}
+                          </Box>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {step === 'edit' && (
+          <>
+            <Button onClick={onClose} variant="text" color="secondary">
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={() => setStep('preview')} variant="contained" disabled={!hasBulkChanges(changes)}>
+              {t('campaigns.bulk.preview')}
+            </Button>
+          </>
+        )}
+        {step === 'preview' && (
+          <>
+            <Button onClick={() => setStep('edit')} variant="text" color="secondary">
+              {t('common.back')}
+            </Button>
+            <Button
+              onClick={() => run(preview.filter((item) => item.changes.length > 0).map((item) => String(item.campaign.id)))}
+              variant="contained"
+              disabled={changedCount === 0}
+            >
+              {t('campaigns.bulk.apply', { count: changedCount })}
+            </Button>
+          </>
+        )}
+        {step === 'results' && (
+          <>
+            <Button onClick={() => run(failedIds)} variant="text" disabled={running || failedIds.length === 0}>
+              {t('campaigns.bulk.retryFailed', { count: failedIds.length })}
+            </Button>
+            <Button onClick={onClose} variant="contained" disabled={running}>
+              {t('common.close')}
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+});
+
+CampaignBulkEditDialog.displayName = 'CampaignBulkEditDialog';
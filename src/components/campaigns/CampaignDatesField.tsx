@@ -0,0 +1,99 @@
+/**
+ * Campaign Dates Field
+ * Start and end dates of a campaign, which are wall-clock time of the targeted restaurants.
+ * Viewed in another timezone the dates become date-times of that zone and are converted back
+ * on change; the preview lists when the campaign starts and ends for each restaurant zone.
+ */
+
+import { memo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Box, Stack, Typography } from '@mui/material';
+import { Controller, useWatch, type Control } from 'react-hook-form';
+import { TextField } from '../ui/atoms';
+import { FormField } from '../ui/molecules';
+import { TimezoneSwitcher } from '../common/TimezoneSwitcher';
+import { useTimezoneView } from '../../hooks';
+import { dateTimeInputToTimestamp, formatTimestamp, timestampToDateTimeInput } from '../../utils/dateUtils';
+import { convertWallClock } from '../../utils/timezoneUtils';
+
+interface CampaignDatesFieldProps {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  control: Control<any>;
+  /** Zones of the targeted restaurants, most used first */
+  timezones: string[];
+}
+
+type DateFieldName = 'startDate' | 'endDate';
+
+export const CampaignDatesField = memo(({ control, timezones }: CampaignDatesFieldProps) => {
+  const { t } = useTranslation();
+  const timezoneView = useTimezoneView(timezones);
+  const { targetTimezone, viewTimezone } = timezoneView;
+  const startDate: number = useWatch({ control, name: 'startDate' });
+  const endDate: number = useWatch({ control, name: 'endDate' });
+  const converted = viewTimezone !== targetTimezone;
+  const previewTimezones = timezones.length > 0 ? timezones : [targetTimezone];
+
+  const renderDateTime = (name: DateFieldName) => (
+    <Controller
+      name={name}
+      control={control}
+      render={({ field, fieldState: { error } }) => (
+        <TextField
+          name={field.name}
+          label={t(`campaigns.fields.${name}`)}
+          type="datetime-local"
+          value={field.value ? timestampToDateTimeInput(convertWallClock(field.value, targetTimezone, viewTimezone)) : ''}
+          onChange={(event) => field.onChange(
+            event.target.value ? convertWallClock(dateTimeInputToTimestamp(event.target.value), viewTimezone, targetTimezone) : 0
+          )}
+          onBlur={field.onBlur}
+          error={!!error}
+          helperText={error?.message}
+          required
+        />
+      )}
+    />
+  );
+
+  return (
+    <Box>
+      <Box sx={{ mb: 2 }}>
+        <TimezoneSwitcher timezones={timezones} {...timezoneView} />
+      </Box>
+
+      <Stack direction="row" spacing={2}>
+        {converted ? (
+          <>
+            {renderDateTime('startDate')}
+            {renderDateTime('endDate')}
+          </>
+        ) : (
+          <>
+            <FormField name="startDate" control={control} type="date" label={t('campaigns.fields.startDate')} required />
+            <FormField name="endDate" control={control} type="date" label={t('campaigns.fields.endDate')} required />
+          </>
+        )}
+      </Stack>
+
+      {(converted || previewTimezones.length > 1) && startDate > 0 && endDate > 0 && (
+        <Box sx={{ mt: 1, p: 1.5, borderRadius: 1, bgcolor: 'action.hover' }}>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.5 }}>
+            {t('timezones.preview.title', { zone: viewTimezone })}
+          </Typography>
+          {previewTimezones.map((timezone) => (
+            <Typography key={timezone} variant="body2">
+              {t('timezones.preview.range', {
+                zone: timezone,
+                start: formatTimestamp(convertWallClock(startDate, timezone, viewTimezone)),
+                end: formatTimestamp(convertWallClock(endDate, timezone, viewTimezone)),
+              })}
+            </Typography>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+});
+
+CampaignDatesField.displayName = 'CampaignDatesField';
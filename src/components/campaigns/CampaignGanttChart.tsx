@@ -0,0 +1,365 @@
+/**
+ * Campaign Gantt Chart
+ * Campaigns drawn as bars from startDate to endDate, grouped by advertiser or slot.
+ * Bars can be dragged to move the campaign or by their edges to change one date.
+ * A coverage strip under each group marks empty periods and overlaps.
+ */
+
+import { memo, useMemo, useState, type PointerEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Box, Paper, Tooltip, Typography, ToggleButton, ToggleButtonGroup, alpha, useTheme } from '@mui/material';
+import { useMultilingualName } from '../../hooks';
+import { SECONDS_PER_DAY, formatDate } from '../../utils/dateUtils';
+import { getWallClockNow } from '../../utils/timezoneUtils';
+import {
+  getDayStart,
+  getGanttRange,
+  getGanttBars,
+  getCoverageSegments,
+  shiftCampaignDates,
+  type GanttBar,
+} from '../../utils/ganttUtils';
+import { CAMPAIGN_LIFECYCLE_STATUSES, getCampaignLifecycleStatus, type CampaignLifecycleStatus } from '../../utils/campaignStatusUtils';
+import type { Advertiser, Campaign, Slot } from '../../types';
+
+const LABEL_WIDTH = 220;
+const HEADER_HEIGHT = 40;
+const LANE_HEIGHT = 28;
+const BAR_HEIGHT = 20;
+const COVERAGE_HEIGHT = 6;
+const DAY_WIDTHS = [4, 8, 16, 32];
+
+type GroupBy = 'advertiser' | 'slot';
+type DragMode = 'move' | 'start' | 'end';
+
+interface DragState {
+  campaignId: string;
+  mode: DragMode;
+  originX: number;
+  deltaDays: number;
+}
+
+interface GanttGroup {
+  key: string;
+  label: string;
+  bars: GanttBar[];
+  lanes: number;
+}
+
+interface CampaignGanttChartProps {
+  campaigns: Campaign[];
+  advertisers: Advertiser[];
+  slots: Slot[];
+  /** Spend per campaign ID; without it no bar is shown as exhausted */
+  spend?: Map<string, number> | null;
+  /** Persist new dates, the bar keeps its new position until the promise settles */
+  onDatesChange: (campaign: Campaign, dates: Pick<Campaign, 'startDate' | 'endDate'>) => Promise<void>;
+}
+
+export const CampaignGanttChart = memo(({ campaigns, advertisers, slots, spend, onDatesChange }: CampaignGanttChartProps) => {
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const { getDisplayName } = useMultilingualName();
+  const [groupBy, setGroupBy] = useState<GroupBy>('advertiser');
+  const [dayWidth, setDayWidth] = useState(DAY_WIDTHS[1]);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // Dates of bars being saved, shown until the list is refetched
+  const [pending, setPending] = useState<Record<string, Pick<Campaign, 'startDate' | 'endDate'>>>({});
+  // Wall-clock time like the campaign dates the bars are drawn from
+  const now = getWallClockNow();
+  // Day precision keeps the range stable between renders
+  const today = getDayStart(now);
+
+  const displayed = useMemo(
+    () => campaigns.map((campaign) => {
+      const dates = pending[String(campaign.id)];
+      return dates ? { ...campaign, ...dates } : campaign;
+    }),
+    [campaigns, pending]
+  );
+
+  const range = useMemo(() => getGanttRange(displayed, today), [displayed, today]);
+
+  const groups = useMemo<GanttGroup[]>(() => {
+    const members = new Map<string, { label: string; campaigns: Campaign[] }>();
+    const add = (key: string, label: string, campaign: Campaign) => {
+      const group = members.get(key) || { label, campaigns: [] };
+      group.campaigns.push(campaign);
+      members.set(key, group);
+    };
+
+    displayed.forEach((campaign) => {
+      if (groupBy === 'advertiser') {
+        const advertiser = advertisers.find((item) => String(item.id) === campaign.advertiserId);
+        add(campaign.advertiserId, getDisplayName(advertiser?.name, campaign.advertiserId), campaign);
+        return;
+      }
+      // No slots means the campaign runs in every slot
+      const slotIds = campaign.slots.length > 0 ? campaign.slots : slots.map((slot) => slot.id);
+      slotIds.forEach((slotId) => {
+        const slot = slots.find((item) => item.id === slotId);
+        add(slotId, getDisplayName(slot?.name, slotId), campaign);
+      });
+    });
+
+    return Array.from(members.entries())
+      .map(([key, group]) => {
+        const bars = getGanttBars(group.campaigns, range.start);
+        return { key, label: group.label, bars, lanes: Math.max(1, ...bars.map((bar) => bar.lane + 1)) };
+      })
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, [displayed, groupBy, advertisers, slots, range.start, getDisplayName]);
+
+  const months = useMemo(() => {
+    const result: { day: number; label: string }[] = [];
+    for (let day = 0; day < range.days; day++) {
+      const date = new Date((range.start + day * SECONDS_PER_DAY) * 1000);
+      if (day === 0 || date.getUTCDate() === 1) {
+        result.push({
+          day,
+          label: date.toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' }),
+        });
+      }
+    }
+    return result;
+  }, [range]);
+
+  const timelineWidth = range.days * dayWidth;
+  const todayX = ((now - range.start) / SECONDS_PER_DAY) * dayWidth;
+
+  // Bars are colored by the campaign lifecycle status, as in the table
+  const statusColors: Record<CampaignLifecycleStatus, string> = {
+    running: theme.palette.primary.main,
+    upcoming: theme.palette.info.light,
+    exhausted: theme.palette.warning.main,
+    ended: theme.palette.grey[400],
+    blocked: theme.palette.grey[500],
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>, campaign: Campaign) => {
+    const edge = (event.target as HTMLElement).dataset.edge as DragMode | undefined;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({ campaignId: String(campaign.id), mode: edge || 'move', originX: event.clientX, deltaDays: 0 });
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const deltaDays = Math.round((event.clientX - drag.originX) / dayWidth);
+    if (deltaDays !== drag.deltaDays) setDrag({ ...drag, deltaDays });
+  };
+
+  const handlePointerUp = async (campaign: Campaign) => {
+    if (!drag) return;
+    const { mode, deltaDays } = drag;
+    setDrag(null);
+    if (deltaDays === 0) return;
+
+    const id = String(campaign.id);
+    const original = campaigns.find((item) => String(item.id) === id) || campaign;
+    const dates = shiftCampaignDates(original, mode, deltaDays);
+    setPending((prev) => ({ ...prev, [id]: dates }));
+    try {
+      await onDatesChange(original, dates);
+    } finally {
+      setPending((prev) => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+    }
+  };
+
+  const renderBar = (bar: GanttBar, groupKey: string) => {
+    const id = String(bar.campaign.id);
+    const isDragged = drag?.campaignId === id;
+    const delta = isDragged ? drag.deltaDays : 0;
+    const mode = isDragged ? drag.mode : 'move';
+    const startDay = bar.startDay + (mode === 'end' ? 0 : delta);
+    const days = Math.max(1, bar.days + (mode === 'start' ? -delta : mode === 'end' ? delta : 0));
+    const status = getCampaignLifecycleStatus(bar.campaign, now, spend?.get(id));
+    const preview = isDragged ? shiftCampaignDates(bar.campaign, mode, delta) : bar.campaign;
+
+    return (
+      <Tooltip
+        key={`${groupKey}-${id}`}
+        title={`${getDisplayName(bar.campaign.name)}: ${formatDate(preview.startDate)} – ${formatDate(preview.endDate)} (${t(`campaigns.lifecycle.${status}`)})`}
+        disableInteractive
+      >
+        <Box
+          onPointerDown={(event) => handlePointerDown(event, bar.campaign)}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => handlePointerUp(bar.campaign)}
+          sx={{
+            position: 'absolute',
+            left: startDay * dayWidth,
+            top: bar.lane * LANE_HEIGHT + (LANE_HEIGHT - BAR_HEIGHT) / 2,
+            width: days * dayWidth,
+            height: BAR_HEIGHT,
+            bgcolor: statusColors[status],
+            opacity: pending[id] ? 0.6 : 1,
+            borderRadius: 1,
+            color: 'common.white',
+            cursor: isDragged ? 'grabbing' : 'grab',
+            overflow: 'hidden',
+            whiteSpace: 'nowrap',
+            textOverflow: 'ellipsis',
+            fontSize: 12,
+            lineHeight: `${BAR_HEIGHT}px`,
+            px: 1,
+            userSelect: 'none',
+            touchAction: 'none',
+            boxShadow: isDragged ? 3 : 0,
+          }}
+        >
+          <Box data-edge="start" sx={{ position: 'absolute', left: 0, top: 0, bottom: 0, width: 6, cursor: 'ew-resize' }} />
+          {getDisplayName(bar.campaign.name)}
+          <Box data-edge="end" sx={{ position: 'absolute', right: 0, top: 0, bottom: 0, width: 6, cursor: 'ew-resize' }} />
+        </Box>
+      </Tooltip>
+    );
+  };
+
+  const coverageColor = (count: number) => {
+    if (count === 0) return alpha(theme.palette.error.main, 0.25);
+    if (count === 1) return alpha(theme.palette.success.main, 0.5);
+    return theme.palette.warning.main;
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={groupBy}
+          onChange={(_, value: GroupBy | null) => value && setGroupBy(value)}
+        >
+          <ToggleButton value="advertiser">{t('campaigns.gantt.groupByAdvertiser')}</ToggleButton>
+          <ToggleButton value="slot">{t('campaigns.gantt.groupBySlot')}</ToggleButton>
+        </ToggleButtonGroup>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={dayWidth}
+          onChange={(_, value: number | null) => value && setDayWidth(value)}
+          aria-label={t('campaigns.gantt.zoom')}
+        >
+          {DAY_WIDTHS.map((width, index) => (
+            <ToggleButton key={width} value={width}>
+              {`${index + 1}x`}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <Box sx={{ flexGrow: 1 }} />
+        {CAMPAIGN_LIFECYCLE_STATUSES.map((status) => (
+          <Box key={status} sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+            <Box sx={{ width: 12, height: 12, borderRadius: 0.5, bgcolor: statusColors[status] }} />
+            <Typography variant="caption">{t(`campaigns.lifecycle.${status}`)}</Typography>
+          </Box>
+        ))}
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+          <Box sx={{ width: 12, height: COVERAGE_HEIGHT, bgcolor: coverageColor(0) }} />
+          <Typography variant="caption">{t('campaigns.gantt.empty')}</Typography>
+        </Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+          <Box sx={{ width: 12, height: COVERAGE_HEIGHT, bgcolor: coverageColor(2) }} />
+          <Typography variant="caption">{t('campaigns.gantt.overlap')}</Typography>
+        </Box>
+      </Box>
+
+      {groups.length === 0 ? (
+        <Typography color="text.secondary">{t('campaigns.noCampaignsFound')}</Typography>
+      ) : (
+        <Box sx={{ display: 'flex', overflow: 'hidden' }}>
+          {/* Group labels */}
+          <Box sx={{ width: LABEL_WIDTH, flexShrink: 0, pt: `${HEADER_HEIGHT}px` }}>
+            {groups.map((group) => (
+              <Box
+                key={group.key}
+                sx={{
+                  height: group.lanes * LANE_HEIGHT + COVERAGE_HEIGHT,
+                  borderTop: 1,
+                  borderColor: 'divider',
+                  pr: 1,
+                  display: 'flex',
+                  alignItems: 'center',
+                }}
+              >
+                <Typography variant="body2" noWrap title={group.label}>
+                  {group.label}
+                </Typography>
+              </Box>
+            ))}
+          </Box>
+
+          {/* Timeline */}
+          <Box sx={{ flexGrow: 1, overflowX: 'auto' }}>
+            <Box sx={{ position: 'relative', width: timelineWidth }}>
+              <Box sx={{ position: 'relative', height: HEADER_HEIGHT }}>
+                {months.map((month) => (
+                  <Box
+                    key={month.day}
+                    sx={{
+                      position: 'absolute',
+                      left: month.day * dayWidth,
+                      top: 0,
+                      height: HEADER_HEIGHT,
+                      borderLeft: 1,
+                      borderColor: 'divider',
+                      pl: 0.5,
+                    }}
+                  >
+                    <Typography variant="caption" color="text.secondary" noWrap>
+                      {month.label}
+                    </Typography>
+                  </Box>
+                ))}
+              </Box>
+
+              {groups.map((group) => (
+                <Box
+                  key={group.key}
+                  sx={{ position: 'relative', height: group.lanes * LANE_HEIGHT + COVERAGE_HEIGHT, borderTop: 1, borderColor: 'divider' }}
+                >
+                  {group.bars.map((bar) => renderBar(bar, group.key))}
+                  {getCoverageSegments(group.bars, range.days).map((segment) => (
+                    <Box
+                      key={segment.startDay}
+                      sx={{
+                        position: 'absolute',
+                        left: segment.startDay * dayWidth,
+                        width: segment.days * dayWidth,
+                        bottom: 0,
+                        height: COVERAGE_HEIGHT,
+                        bgcolor: coverageColor(segment.count),
+                      }}
+                    />
+                  ))}
+                </Box>
+              ))}
+
+              {/* Today marker */}
+              <Box
+                sx={{
+                  position: 'absolute',
+                  left: todayX,
+                  top: 0,
+                  bottom: 0,
+                  width: 2,
+                  bgcolor: 'error.main',
+                  pointerEvents: 'none',
+                }}
+              />
+            </Box>
+          </Box>
+        </Box>
+      )}
+
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+        {t('campaigns.gantt.hint')}
+      </Typography>
+    </Paper>
+  );
+});
+
+CampaignGanttChart.displayName = 'CampaignGanttChart';
@@ -0,0 +1,81 @@
+/**
+ * Campaign Pacing Cell
+ * Compact budget burn indicator for the campaigns table
+ */
+
+import { memo, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Box, LinearProgress, Tooltip, Typography } from '@mui/material';
+import { getCurrentTimestamp } from '../../utils/dateUtils';
+import { formatMoney } from '../../utils/statsUtils';
+import { getPacingPlan, getPlannedSpendToDate, getPacingState } from '../../utils/pacingUtils';
+import type { Campaign } from '../../types';
+
+const PACING_STATE_COLORS = {
+  ahead: 'warning',
+  onTrack: 'success',
+  behind: 'error',
+} as const;
+
+interface CampaignPacingCellProps {
+  campaign: Campaign;
+  /** Spend since start, undefined when delivery stats are not available */
+  spent?: number;
+}
+
+export const CampaignPacingCell = memo(({ campaign, spent }: CampaignPacingCellProps) => {
+  const { t } = useTranslation();
+
+  const plannedToDate = useMemo(
+    () => getPlannedSpendToDate(getPacingPlan(campaign), getCurrentTimestamp()),
+    [campaign]
+  );
+
+  if (campaign.budget <= 0) {
+    return <Typography variant="body2" color="text.secondary">—</Typography>;
+  }
+
+  const plannedPercent = Math.min(100, (plannedToDate / campaign.budget) * 100);
+  const hasActual = spent !== undefined;
+  const spentPercent = hasActual ? Math.min(100, (spent / campaign.budget) * 100) : 0;
+  const state = hasActual ? getPacingState(spent, plannedToDate) : null;
+
+  const tooltip = hasActual
+    ? `${t(`campaigns.pacing.states.${state}`)}: ${formatMoney(spent)} / ${formatMoney(plannedToDate)}`
+    : `${t('campaigns.pacing.plannedToDate')}: ${formatMoney(plannedToDate)}`;
+
+  return (
+    <Tooltip title={tooltip}>
+      <Box sx={{ minWidth: 120 }}>
+        <Box sx={{ position: 'relative' }}>
+          <LinearProgress
+            variant="determinate"
+            value={hasActual ? spentPercent : plannedPercent}
+            color={state ? PACING_STATE_COLORS[state] : 'inherit'}
+            sx={{ height: 6, borderRadius: 3 }}
+          />
+          {/* Planned-to-date marker */}
+          {hasActual && (
+            <Box
+              sx={{
+                position: 'absolute',
+                top: -2,
+                left: `${plannedPercent}%`,
+                width: 2,
+                height: 10,
+                bgcolor: 'text.primary',
+              }}
+            />
+          )}
+        </Box>
+        <Typography variant="caption" color="text.secondary">
+          {hasActual
+            ? `${spentPercent.toFixed(0)}% / ${plannedPercent.toFixed(0)}%`
+            : `${t('campaigns.pacing.plan')}: ${plannedPercent.toFixed(0)}%`}
+        </Typography>
+      </Box>
+    </Tooltip>
+  );
+});
+
+CampaignPacingCell.displayName = 'CampaignPacingCell';
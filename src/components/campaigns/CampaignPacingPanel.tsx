@@ -0,0 +1,200 @@
+/**
+ * Campaign Pacing Panel
+ * Ideal spend curve implied by the spend strategy, daily cap, overdelivery
+ * ceiling and, when delivery stats are available, the actual spend
+ */
+
+import { memo, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Box, Paper, Typography, Alert, Chip, CircularProgress, useTheme } from '@mui/material';
+import { statsApi } from '../../api';
+import { useFetch } from '../../hooks';
+import { getCurrentTimestamp } from '../../utils/dateUtils';
+import { formatMoney } from '../../utils/statsUtils';
+import {
+  getPacingPlan,
+  getActualSpend,
+  getPlannedSpendToDate,
+  getPacingState,
+  type PacingSettings,
+} from '../../utils/pacingUtils';
+import { TimeSeriesChart, type TimeSeriesChartLine } from '../statistics/TimeSeriesChart';
+
+const PACING_STATE_COLORS = {
+  ahead: 'warning',
+  onTrack: 'success',
+  behind: 'error',
+} as const;
+
+interface CampaignPacingPanelProps {
+  settings: PacingSettings;
+  /** Set for saved campaigns to overlay actual spend */
+  campaignId?: string;
+}
+
+export const CampaignPacingPanel = memo(({ settings, campaignId }: CampaignPacingPanelProps) => {
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const now = getCurrentTimestamp();
+
+  const plan = useMemo(() => getPacingPlan(settings), [settings]);
+
+  const hasStarted = settings.startDate <= now;
+  const { data: series, loading, error } = useFetch(
+    async () => {
+      if (!campaignId || !hasStarted) return [];
+      return statsApi.getTimeSeries({
+        from: settings.startDate,
+        to: Math.min(settings.endDate, getCurrentTimestamp()),
+        campaignId,
+      });
+    },
+    [campaignId, hasStarted, settings.startDate, settings.endDate]
+  );
+
+  const actual = useMemo(() => getActualSpend(plan, series || []), [plan, series]);
+  const spentToDate = actual.length > 0 ? actual[actual.length - 1].cumulative : 0;
+  const plannedToDate = getPlannedSpendToDate(plan, now);
+  const showActual = Boolean(campaignId) && hasStarted && !error;
+  const pacingState = getPacingState(spentToDate, plannedToDate);
+
+  const dailyLines = useMemo<TimeSeriesChartLine[]>(() => {
+    const lines: TimeSeriesChartLine[] = [
+      {
+        label: t('campaigns.pacing.planned'),
+        points: plan.days.map((day) => ({ timestamp: day.timestamp, value: day.planned })),
+        color: theme.palette.primary.main,
+        dashed: true,
+      },
+    ];
+    if (showActual && actual.length > 0) {
+      lines.push({
+        label: t('campaigns.pacing.actual'),
+        points: actual.map((day) => ({ timestamp: day.timestamp, value: day.spend })),
+        color: theme.palette.success.main,
+      });
+    }
+    return lines;
+  }, [plan, actual, showActual, t, theme]);
+
+  const burnLines = useMemo<TimeSeriesChartLine[]>(() => {
+    const lines: TimeSeriesChartLine[] = [
+      {
+        label: t('campaigns.pacing.planned'),
+        points: plan.days.map((day) => ({ timestamp: day.timestamp, value: day.cumulative })),
+        color: theme.palette.primary.main,
+        dashed: true,
+      },
+    ];
+    if (showActual && actual.length > 0) {
+      lines.push({
+        label: t('campaigns.pacing.actual'),
+        points: actual.map((day) => ({ timestamp: day.timestamp, value: day.cumulative })),
+        color: theme.palette.success.main,
+      });
+    }
+    return lines;
+  }, [plan, actual, showActual, t, theme]);
+
+  const dailyReferences = useMemo(
+    () =>
+      plan.dailyCap > 0
+        ? [
+            { label: t('campaigns.pacing.dailyCap'), value: plan.dailyCap, color: theme.palette.warning.main },
+            { label: t('campaigns.pacing.ceiling'), value: plan.dailyCeiling, color: theme.palette.error.main },
+          ]
+        : undefined,
+    [plan, t, theme]
+  );
+
+  const budgetReferences = useMemo(
+    () => [{ label: t('campaigns.pacing.budget'), value: settings.budget, color: theme.palette.error.main }],
+    [settings.budget, t, theme]
+  );
+
+  if (plan.days.length === 0 || settings.budget <= 0) {
+    return (
+      <Alert severity="info" sx={{ mt: 1 }}>
+        {t('campaigns.pacing.incomplete')}
+      </Alert>
+    );
+  }
+
+  const averageDaily = (settings.budget - plan.unallocated) / plan.days.length;
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, mt: 1 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, mb: 1 }}>
+        <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+          {t('campaigns.pacing.title')}
+        </Typography>
+        {loading && campaignId && <CircularProgress size={20} />}
+      </Box>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+        <Chip size="small" label={t(`campaigns.spendStrategies.${settings.spendStrategy}`)} />
+        <Chip size="small" variant="outlined" label={t('campaigns.pacing.days', { count: plan.days.length })} />
+        <Chip
+          size="small"
+          variant="outlined"
+          label={`${t('campaigns.pacing.averageDaily')}: ${formatMoney(averageDaily)}`}
+        />
+        {plan.dailyCap > 0 && (
+          <Chip
+            size="small"
+            variant="outlined"
+            label={`${t('campaigns.pacing.ceiling')}: ${formatMoney(plan.dailyCeiling)}`}
+          />
+        )}
+        {showActual && (
+          <Chip
+            size="small"
+            color={PACING_STATE_COLORS[pacingState]}
+            label={`${t(`campaigns.pacing.states.${pacingState}`)}: ${formatMoney(spentToDate)} / ${formatMoney(plannedToDate)}`}
+          />
+        )}
+      </Box>
+
+      {plan.unallocated > 0.005 && (
+        <Alert severity="warning" sx={{ mb: 1 }}>
+          {t('campaigns.pacing.unallocated', { amount: formatMoney(plan.unallocated) })}
+        </Alert>
+      )}
+      {plan.cappedDays > 0 && (
+        <Alert severity="warning" sx={{ mb: 1 }}>
+          {t(`campaigns.pacing.capped.${settings.spendStrategy === 'frontload' ? 'frontload' : 'even'}`, {
+            count: plan.cappedDays,
+            total: plan.days.length,
+          })}
+        </Alert>
+      )}
+      {Boolean(campaignId) && hasStarted && error && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+          {t('campaigns.pacing.actualUnavailable')}
+        </Typography>
+      )}
+
+      <Typography variant="body2" sx={{ fontWeight: 500, mt: 1 }}>
+        {t('campaigns.pacing.dailySpend')}
+      </Typography>
+      <TimeSeriesChart
+        lines={dailyLines}
+        references={dailyReferences}
+        height={200}
+        formatValue={formatMoney}
+      />
+
+      <Typography variant="body2" sx={{ fontWeight: 500, mt: 2 }}>
+        {t('campaigns.pacing.budgetBurn')}
+      </Typography>
+      <TimeSeriesChart
+        lines={burnLines}
+        references={budgetReferences}
+        height={200}
+        formatValue={formatMoney}
+      />
+    </Paper>
+  );
+});
+
+CampaignPacingPanel.displayName = 'CampaignPacingPanel';
@@ -0,0 +1,191 @@
+/**
+ * Campaign Review Summary
+ * Human-readable overview of a campaign before it is created (last wizard step)
+ */
+
+import { memo, type ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Box, Paper, Stack, Typography } from '@mui/material';
+import { Edit as EditIcon } from '@mui/icons-material';
+import { Button } from '../ui/atoms';
+import { useMultilingualName } from '../../hooks';
+import { useAdvertisersStore } from '../../store/advertisersStore';
+import { useDictionariesStore } from '../../store/dictionariesStore';
+import { formatDate } from '../../utils/dateUtils';
+import { formatMoney, getPeriodDays } from '../../utils/statsUtils';
+import type { CampaignFormData } from '../../types';
+
+interface CampaignReviewSummaryProps {
+  data: CampaignFormData;
+  /** Jump back to a wizard step to change it */
+  onEditStep: (step: number) => void;
+}
+
+interface SummarySectionProps {
+  title: string;
+  onEdit: () => void;
+  rows: { label: string; value: ReactNode }[];
+}
+
+const SummarySection = ({ title, onEdit, rows }: SummarySectionProps) => {
+  const { t } = useTranslation();
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+          {title}
+        </Typography>
+        <Button size="small" variant="text" startIcon={<EditIcon fontSize="small" />} onClick={onEdit}>
+          {t('common.edit')}
+        </Button>
+      </Box>
+      {rows.map((row) => (
+        <Box key={row.label} sx={{ display: 'flex', gap: 2, py: 0.5 }}>
+          <Typography variant="body2" color="text.secondary" sx={{ width: 220, flexShrink: 0 }}>
+            {row.label}
+          </Typography>
+          <Typography variant="body2" sx={{ wordBreak: 'break-word' }}>
+            {row.value}
+          </Typography>
+        </Box>
+      ))}
+    </Paper>
+  );
+};
+
+export const CampaignReviewSummary = memo(({ data, onEditStep }: CampaignReviewSummaryProps) => {
+  const { t } = useTranslation();
+  const { getDisplayName } = useMultilingualName();
+  const getAdvertiserById = useAdvertisersStore((state) => state.getAdvertiserById);
+  const { locations, restaurantTypes, menuTypes, slots } = useDictionariesStore();
+
+  const advertiser = getAdvertiserById(data.advertiserId);
+
+  const formatWindow = (seconds: number): string => {
+    if (seconds > 0 && seconds % 3600 === 0) return t('campaigns.review.hours', { count: seconds / 3600 });
+    if (seconds > 0 && seconds % 60 === 0) return t('campaigns.review.minutes', { count: seconds / 60 });
+    return t('campaigns.review.seconds', { count: seconds });
+  };
+
+  const formatCap = (cap: { count: number; window_sec: number }, unit: 'impressions' | 'clicks'): string =>
+    t(`campaigns.review.cap.${unit}`, { count: cap.count, window: formatWindow(cap.window_sec) });
+
+  const formatRule = (mode: 'allowed' | 'denied', ids: string[], names: string[], allLabel: string): string => {
+    if (ids.length === 0) return allLabel;
+    return `${t(`campaigns.modes.${mode}`)}: ${names.join(', ')}`;
+  };
+
+  const slotNames = data.slots.map((id) => getDisplayName(slots.find((slot) => slot.id === id)?.name, id));
+  const targetSlotCount = data.targets.reduce((sum, target) => sum + target.slots.length, 0);
+
+  return (
+    <Stack spacing={2} sx={{ mt: 1 }}>
+      <SummarySection
+        title={t('campaigns.wizard.steps.general')}
+        onEdit={() => onEditStep(0)}
+        rows={[
+          { label: t('campaigns.fields.advertiser'), value: getDisplayName(advertiser?.name, data.advertiserId) },
+          { label: t('campaigns.fields.name'), value: getDisplayName(data.name) },
+          ...(data.description ? [{ label: t('campaigns.fields.description'), value: data.description }] : []),
+          {
+            label: t('campaigns.review.period'),
+            value: `${formatDate(data.startDate)} – ${formatDate(data.endDate)} (${t('campaigns.pacing.days', {
+              count: data.endDate >= data.startDate ? getPeriodDays(data.startDate, data.endDate) : 0,
+            })})`,
+          },
+          { label: t('campaigns.fields.priority'), value: String(data.priority) },
+          { label: t('campaigns.fields.weight'), value: String(data.weight) },
+          { label: t('campaigns.fields.overdeliveryRatio'), value: `${data.overdeliveryRatio}%` },
+          { label: t('common.statusLabel'), value: t(`common.status.${data.blocked ? 'blocked' : 'active'}`) },
+        ]}
+      />
+
+      <SummarySection
+        title={t('campaigns.wizard.steps.budget')}
+        onEdit={() => onEditStep(1)}
+        rows={[
+          { label: t('campaigns.fields.budget'), value: formatMoney(data.budget) },
+          {
+            label: t('campaigns.fields.budgetDaily'),
+            value: data.budgetDaily > 0 ? formatMoney(data.budgetDaily) : t('campaigns.review.unlimited'),
+          },
+          { label: t('campaigns.fields.price'), value: `${formatMoney(data.price)} ${data.pricingModel}` },
+          { label: t('campaigns.fields.spendStrategy'), value: t(`campaigns.spendStrategies.${data.spendStrategy}`) },
+        ]}
+      />
+
+      <SummarySection
+        title={t('campaigns.wizard.steps.frequency')}
+        onEdit={() => onEditStep(2)}
+        rows={[
+          {
+            label: t('campaigns.fields.frequencyCapStrategy'),
+            value: t(`campaigns.frequencyCapStrategies.${data.frequencyCapStrategy}`),
+          },
+          {
+            label: t('campaigns.fields.frequencyCapPerUser'),
+            value: `${formatCap(data.frequencyCap.per_user.impressions, 'impressions')}; ${formatCap(data.frequencyCap.per_user.clicks, 'clicks')}`,
+          },
+          {
+            label: t('campaigns.fields.frequencyCapPerSession'),
+            value: `${formatCap(data.frequencyCap.per_session.impressions, 'impressions')}; ${formatCap(data.frequencyCap.per_session.clicks, 'clicks')}`,
+          },
+        ]}
+      />
+
+      <SummarySection
+        title={t('campaigns.wizard.steps.audience')}
+        onEdit={() => onEditStep(3)}
+        rows={[
+          {
+            label: t('campaigns.fields.locations'),
+            value: formatRule(
+              data.locationsMode,
+              data.locations,
+              data.locations.map((id) => locations.find((location) => location.id === id)?.name || id),
+              t('campaigns.allLocations')
+            ),
+          },
+          {
+            label: t('campaigns.fields.restaurantTypes'),
+            value: formatRule(
+              data.restaurantTypesMode,
+              data.restaurantTypes,
+              data.restaurantTypes.map((id) => getDisplayName(restaurantTypes.find((type) => type.id === id)?.name, id)),
+              t('campaigns.allRestaurantTypes')
+            ),
+          },
+          {
+            label: t('campaigns.fields.menuTypes'),
+            value: formatRule(
+              data.menuTypesMode,
+              data.menuTypes,
+              data.menuTypes.map((id) => getDisplayName(menuTypes.find((type) => type.id === id)?.name, id)),
+              t('campaigns.allMenuTypes')
+            ),
+          },
+          {
+            label: t('campaigns.fields.placements'),
+            value: slotNames.length > 0 ? slotNames.join(', ') : t('campaigns.allPlacements'),
+          },
+        ]}
+      />
+
+      <SummarySection
+        title={t('campaigns.wizard.steps.targeting')}
+        onEdit={() => onEditStep(4)}
+        rows={[
+          {
+            label: t('campaigns.review.restaurants'),
+            value: data.targets.length > 0
+              ? t('campaigns.review.targets', { count: data.targets.length, slots: targetSlotCount })
+              : t('campaigns.review.noTargets'),
+          },
+        ]}
+      />
+    </Stack>
+  );
+});
+
+CampaignReviewSummary.displayName = 'CampaignReviewSummary';
@@ -0,0 +1,273 @@
+/**
+ * Campaign Rotation Tab
+ * Traffic split between the servable creatives of a campaign: weights edited together as percentages,
+ * optional creative start/end dates and, when delivery stats are available, CTR per creative
+ * with an auto-optimize toggle that weights creatives by their CTR.
+ */
+
+import { memo, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  Box,
+  CircularProgress,
+  FormControlLabel,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Button } from '../ui/atoms';
+import { StatusChip } from '../ui/molecules';
+import { creativesApi, statsApi } from '../../api';
+import { useFetch, useMultilingualName } from '../../hooks';
+import type { StatsTotals } from '../../types';
+import { dateInputToTimestamp, getCurrentTimestamp, timestampToDateInput } from '../../utils/dateUtils';
+import { calculateCtr, formatNumber } from '../../utils/statsUtils';
+import { CREATIVE_MODERATION_CHIP_STATUS, isCreativeServable } from '../../utils/creativeModerationUtils';
+import {
+  getEndOfDay,
+  getOptimizedPercentages,
+  getRotationDateIssue,
+  getRotationDraft,
+  getRotationTotal,
+  toPercentages,
+  type CreativeRotationDraft,
+  type CreativeRotationEntry,
+} from '../../utils/creativeRotationUtils';
+
+interface CampaignRotationTabProps {
+  /** Saved campaign, new campaigns have no creatives yet */
+  campaignId?: string;
+  startDate: number;
+  endDate: number;
+  /** Edited rotation, null until the user changes something */
+  draft: CreativeRotationDraft | null;
+  onChange: (draft: CreativeRotationDraft) => void;
+  autoOptimize: boolean;
+  onAutoOptimizeChange: (autoOptimize: boolean) => void;
+}
+
+const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+
+export const CampaignRotationTab = memo(({
+  campaignId,
+  startDate,
+  endDate,
+  draft,
+  onChange,
+  autoOptimize,
+  onAutoOptimizeChange,
+}: CampaignRotationTabProps) => {
+  const { t } = useTranslation();
+  const { getDisplayName } = useMultilingualName();
+
+  const { data: creatives, loading, error } = useFetch(async () => {
+    if (!campaignId) return [];
+    return (await creativesApi.list()).filter((creative) => String(creative.campaignId) === campaignId);
+  }, [campaignId]);
+
+  // Delivery per creative since the campaign start; the comparison is hidden without stats
+  const hasStarted = startDate <= getCurrentTimestamp();
+  const { data: stats, error: statsError } = useFetch(async () => {
+    if (!campaignId || !hasStarted) return new Map<string, StatsTotals>();
+    const rows = await statsApi.getSummary('creative', {
+      from: startDate,
+      to: Math.min(endDate, getCurrentTimestamp()),
+      campaignId,
+    });
+    return new Map(rows.map((row) => [String(row.id), row]));
+  }, [campaignId, hasStarted, startDate, endDate]);
+
+  // Only servable creatives share the traffic, the others are listed apart
+  const list = useMemo(() => (creatives || []).filter(isCreativeServable), [creatives]);
+  const excluded = useMemo(() => (creatives || []).filter((creative) => !isCreativeServable(creative)), [creatives]);
+  const savedDraft = useMemo(() => getRotationDraft(list), [list]);
+  const current = draft ?? savedDraft;
+  const total = getRotationTotal(current);
+  const hasStats = hasStarted && Boolean(stats) && !statsError;
+
+  const updateEntry = (id: string, changes: Partial<CreativeRotationEntry>) => {
+    onChange({ ...current, [id]: { ...current[id], ...changes } });
+  };
+
+  const applyPercentages = (percentages: number[]) => {
+    onChange(Object.fromEntries(list.map((creative, index) => [
+      creative.id,
+      { ...current[creative.id], weight: percentages[index] },
+    ])));
+  };
+
+  const handleAutoOptimizeChange = (enabled: boolean) => {
+    onAutoOptimizeChange(enabled);
+    if (enabled && stats) {
+      applyPercentages(getOptimizedPercentages(list.map((creative) => stats.get(creative.id))));
+    }
+  };
+
+  if (!campaignId) {
+    return <Alert severity="info">{t('campaigns.rotation.saveFirst')}</Alert>;
+  }
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+        <CircularProgress size={32} />
+      </Box>
+    );
+  }
+
+  if (error) {
+    return <Alert severity="error">{t('campaigns.rotation.loadFailed')}</Alert>;
+  }
+
+  if (list.length === 0 && excluded.length === 0) {
+    return <Alert severity="info">{t('campaigns.rotation.empty')}</Alert>;
+  }
+
+  const excludedList = excluded.length > 0 && (
+    <Box>
+      <Typography variant="subtitle2">{t('campaigns.rotation.excluded')}</Typography>
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+        {t('campaigns.rotation.excludedHelp')}
+      </Typography>
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+        {excluded.map((creative) => (
+          <Box key={creative.id} sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+            <Typography variant="body2">{getDisplayName(creative.name)}</Typography>
+            <StatusChip
+              status={creative.blocked ? 'blocked' : CREATIVE_MODERATION_CHIP_STATUS[creative.moderationStatus]}
+              label={creative.blocked ? t('common.blocked') : t(`creatives.moderation.statuses.${creative.moderationStatus}`)}
+            />
+          </Box>
+        ))}
+      </Box>
+    </Box>
+  );
+
+  if (list.length === 0) {
+    return (
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+        <Alert severity="warning">{t('campaigns.rotation.noServable')}</Alert>
+        {excludedList}
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+      <Typography variant="body2" color="text.secondary">
+        {t('campaigns.rotation.description')}
+      </Typography>
+
+      <Box sx={{ overflowX: 'auto' }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('campaigns.rotation.creative')}</TableCell>
+              {hasStats && <TableCell align="right">{t('campaigns.rotation.impressions')}</TableCell>}
+              {hasStats && <TableCell align="right">{t('campaigns.rotation.clicks')}</TableCell>}
+              {hasStats && <TableCell align="right">{t('campaigns.rotation.ctr')}</TableCell>}
+              <TableCell sx={{ width: 120 }}>{t('campaigns.rotation.share')}</TableCell>
+              <TableCell sx={{ width: 170 }}>{t('campaigns.rotation.startDate')}</TableCell>
+              <TableCell sx={{ width: 170 }}>{t('campaigns.rotation.endDate')}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {list.map((creative) => {
+              const entry = current[creative.id];
+              const row = stats?.get(creative.id);
+              const dateIssue = getRotationDateIssue(entry, { startDate, endDate });
+
+              return (
+                <TableRow key={creative.id}>
+                  <TableCell>
+                    <Typography variant="body2">{getDisplayName(creative.name)}</Typography>
+                  </TableCell>
+                  {hasStats && <TableCell align="right">{formatNumber(row?.impressions ?? 0)}</TableCell>}
+                  {hasStats && <TableCell align="right">{formatNumber(row?.clicks ?? 0)}</TableCell>}
+                  {hasStats && <TableCell align="right">{row ? formatPercent(calculateCtr(row)) : '—'}</TableCell>}
+                  <TableCell>
+                    <TextField
+                      type="number"
+                      size="small"
+                      value={entry.weight}
+                      onChange={(event) => updateEntry(creative.id, { weight: Math.max(0, Math.round(Number(event.target.value) || 0)) })}
+                      disabled={autoOptimize}
+                      slotProps={{ htmlInput: { min: 0, max: 100 }, input: { endAdornment: '%' } }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      type="date"
+                      size="small"
+                      value={entry.startDate ? timestampToDateInput(entry.startDate) : ''}
+                      onChange={(event) => updateEntry(creative.id, {
+                        startDate: event.target.value ? dateInputToTimestamp(event.target.value) : undefined,
+                      })}
+                      error={dateIssue !== null}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      type="date"
+                      size="small"
+                      value={entry.endDate ? timestampToDateInput(entry.endDate) : ''}
+                      onChange={(event) => updateEntry(creative.id, {
+                        endDate: event.target.value ? getEndOfDay(dateInputToTimestamp(event.target.value)) : undefined,
+                      })}
+                      error={dateIssue !== null}
+                      helperText={dateIssue ? t(`campaigns.rotation.dateIssues.${dateIssue}`) : undefined}
+                    />
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+        <Typography variant="body2" color={total === 100 ? 'text.secondary' : 'error'} sx={{ flexGrow: 1 }}>
+          {t('campaigns.rotation.total', { total })}
+        </Typography>
+        <Button variant="text" onClick={() => applyPercentages(toPercentages(list.map(() => 1)))} disabled={autoOptimize}>
+          {t('campaigns.rotation.even')}
+        </Button>
+        <Button
+          variant="text"
+          onClick={() => applyPercentages(toPercentages(list.map((creative) => current[creative.id].weight)))}
+          disabled={autoOptimize || total === 100}
+        >
+          {t('campaigns.rotation.normalize')}
+        </Button>
+      </Box>
+
+      {total !== 100 && <Alert severity="error">{t('campaigns.rotation.totalInvalid')}</Alert>}
+
+      {excludedList}
+
+      <Box>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={autoOptimize}
+              onChange={(event) => handleAutoOptimizeChange(event.target.checked)}
+              disabled={!hasStats && !autoOptimize}
+            />
+          }
+          label={t('campaigns.rotation.autoOptimize')}
+        />
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+          {hasStats ? t('campaigns.rotation.autoOptimizeHelp') : t('campaigns.rotation.noStats')}
+        </Typography>
+      </Box>
+    </Box>
+  );
+});
+
+CampaignRotationTab.displayName = 'CampaignRotationTab';
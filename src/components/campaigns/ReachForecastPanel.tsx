@@ -0,0 +1,99 @@
+/**
+ * Reach Forecast Panel
+ * Live estimate of matching restaurants, slot-hours and impressions
+ * implied by the campaign targeting rules, slots and explicit targets
+ */
+
+import { memo, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Box, Paper, Typography, Alert } from '@mui/material';
+import { useDictionariesStore } from '../../store/dictionariesStore';
+import { useRestaurantsStore } from '../../store/restaurantsStore';
+import { formatNumber } from '../../utils/statsUtils';
+import { getReachForecast, type TargetingRules } from '../../utils/reachUtils';
+import type { CampaignTarget } from '../../types';
+
+interface ReachForecastPanelProps {
+  rules: TargetingRules;
+  /** Campaign slot IDs, empty = all slots */
+  slotIds: string[];
+  targets: CampaignTarget[];
+}
+
+const ForecastValue = ({ label, value }: { label: string; value: string }) => (
+  <Box sx={{ minWidth: 140 }}>
+    <Typography variant="caption" color="text.secondary">
+      {label}
+    </Typography>
+    <Typography variant="h6">{value}</Typography>
+  </Box>
+);
+
+export const ReachForecastPanel = memo(({ rules, slotIds, targets }: ReachForecastPanelProps) => {
+  const { t } = useTranslation();
+  const { restaurants } = useRestaurantsStore();
+  const { slots, schedules } = useDictionariesStore();
+
+  const forecast = useMemo(
+    () =>
+      getReachForecast(
+        rules,
+        slotIds,
+        targets,
+        restaurants,
+        schedules,
+        slots.filter((slot) => !slot.isBlocked).map((slot) => slot.id)
+      ),
+    [rules, slotIds, targets, restaurants, schedules, slots]
+  );
+
+  const hasTargets = forecast.targetedRestaurants > 0;
+  const allTargetsExcluded = hasTargets && forecast.excludedTargets === forecast.targetedRestaurants;
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2 }}>
+      <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>
+        {t('campaigns.forecast.title')}
+      </Typography>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3, mb: 1 }}>
+        <ForecastValue
+          label={t('campaigns.forecast.matchingRestaurants')}
+          value={`${formatNumber(forecast.matchingRestaurants)} / ${formatNumber(restaurants.length)}`}
+        />
+        <ForecastValue
+          label={t('campaigns.forecast.deliveringRestaurants')}
+          value={formatNumber(forecast.deliveringRestaurants)}
+        />
+        <ForecastValue
+          label={t('campaigns.forecast.slotHours')}
+          value={formatNumber(forecast.slotHoursPerWeek)}
+        />
+        <ForecastValue
+          label={t('campaigns.forecast.impressions')}
+          value={`${formatNumber(forecast.impressionsPerWeek.min)} – ${formatNumber(forecast.impressionsPerWeek.max)}`}
+        />
+      </Box>
+
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+        {hasTargets ? t('campaigns.forecast.explicitTargets') : t('campaigns.forecast.noTargets')}
+      </Typography>
+
+      {allTargetsExcluded && (
+        <Alert severity="error" sx={{ mt: 1 }}>
+          {t('campaigns.forecast.allTargetsExcluded', { count: forecast.targetedRestaurants })}
+        </Alert>
+      )}
+      {!allTargetsExcluded && forecast.excludedTargets > 0 && (
+        <Alert severity="warning" sx={{ mt: 1 }}>
+          {t('campaigns.forecast.someTargetsExcluded', {
+            count: forecast.excludedTargets,
+            total: forecast.targetedRestaurants,
+          })}
+        </Alert>
+      )}
+    </Paper>
+  );
+});
+
+ReachForecastPanel.displayName = 'ReachForecastPanel';
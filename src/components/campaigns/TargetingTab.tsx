@@ -19,6 +19,7 @@ import { SearchField } from '../ui/molecules';
 import { RestaurantInfoPopover } from './RestaurantInfoPopover';
 import { SlotScheduleCell } from './SlotScheduleCell';
 import { AddRestaurantsModal } from './AddRestaurantsModal';
+import { ReachForecastPanel } from './ReachForecastPanel';
 import { useCampaignTargeting, useMultilingualName } from '../../hooks';
 import { useDictionariesStore } from '../../store/dictionariesStore';
 import { useRestaurantsStore } from '../../store/restaurantsStore';
@@ -37,12 +38,17 @@ interface TargetingTabProps {
     menuTypesMode: 'allowed' | 'denied';
     menuTypes: string[];
   };
+  /** Campaign slot IDs for the reach forecast, empty = all slots */
+  campaignSlots?: string[];
 }
 
+const NO_SLOTS: string[] = [];
+
 export const TargetingTab = memo(({
   targets,
   onChange,
   campaignTargetingRules,
+  campaignSlots = NO_SLOTS,
 }: TargetingTabProps) => {
   const { t } = useTranslation();
   const { getDisplayName } = useMultilingualName();
@@ -113,6 +119,11 @@ export const TargetingTab = memo(({
   return (
     <ErrorBoundary>
     <Box sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+      {campaignTargetingRules && (
+        <Box sx={{ mb: 2 }}>
+          <ReachForecastPanel rules={campaignTargetingRules} slotIds={campaignSlots} targets={targets} />
+        </Box>
+      )}
       <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
         <Box sx={{ flexGrow: 1 }}>
           <SearchField
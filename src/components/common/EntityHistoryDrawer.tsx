@@ -0,0 +1,168 @@
+/**
+ * Entity History Drawer
+ * Audit timeline of a single entity with field-level diffs
+ */
+
+import { memo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Drawer,
+  Box,
+  Typography,
+  Divider,
+  Alert,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { Close as CloseIcon } from '@mui/icons-material';
+import { IconButton } from '../ui/atoms';
+import { StatusChip } from '../ui/molecules';
+import { useAuditLog } from '../../hooks';
+import { formatTimestamp } from '../../utils/dateUtils';
+import { getAuditFieldChanges, formatAuditValue, AUDIT_ACTION_STATUS } from '../../utils/auditUtils';
+import type { AuditEntityType } from '../../types';
+
+interface EntityHistoryDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  entityType: AuditEntityType;
+  entityId?: string | number | null;
+  /** Displayed under the title */
+  entityName?: string;
+}
+
+export const EntityHistoryDrawer = memo(({
+  open,
+  onClose,
+  entityType,
+  entityId,
+  entityName,
+}: EntityHistoryDrawerProps) => {
+  const { t } = useTranslation();
+  const hasEntity = entityId !== undefined && entityId !== null && entityId !== '';
+
+  const { events, loading, error } = useAuditLog({
+    entityType,
+    entityId: hasEntity ? entityId : undefined,
+    enabled: open && hasEntity,
+  });
+
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose}>
+      <Box sx={{ width: 480, height: '100%', display: 'flex', flexDirection: 'column' }}>
+        <Box sx={{ p: 2, display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between' }}>
+          <Box>
+            <Typography variant="h6">{t('audit.history.title')}</Typography>
+            {entityName && (
+              <Typography variant="body2" color="text.secondary">
+                {entityName}
+              </Typography>
+            )}
+          </Box>
+          <IconButton icon={<CloseIcon />} onClick={onClose} size="small" aria-label={t('common.close')} />
+        </Box>
+
+        <Divider />
+
+        <Box sx={{ flex: 1, overflow: 'auto', p: 2 }}>
+          {loading && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+              <CircularProgress />
+            </Box>
+          )}
+
+          {!loading && error && <Alert severity="error">{t('audit.history.loadFailed')}</Alert>}
+
+          {!loading && !error && events.length === 0 && (
+            <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+              {t('audit.history.empty')}
+            </Typography>
+          )}
+
+          {!loading &&
+            !error &&
+            events.map((event) => {
+              const changes = getAuditFieldChanges(event);
+              const reason = typeof event.metadata?.reason === 'string' ? event.metadata.reason : null;
+
+              return (
+                <Box
+                  key={event.id}
+                  sx={{
+                    position: 'relative',
+                    pl: 3,
+                    pb: 3,
+                    borderLeft: '2px solid',
+                    borderColor: 'divider',
+                    '&:last-of-type': { pb: 0 },
+                  }}
+                >
+                  {/* Timeline dot */}
+                  <Box
+                    sx={{
+                      position: 'absolute',
+                      left: -7,
+                      top: 4,
+                      width: 12,
+                      height: 12,
+                      borderRadius: '50%',
+                      bgcolor: 'primary.main',
+                    }}
+                  />
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                    <StatusChip
+                      status={AUDIT_ACTION_STATUS[event.action] || 'inactive'}
+                      label={t(`audit.actions.${event.action}`, event.action)}
+                    />
+                    <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                      {event.actorName}
+                    </Typography>
+                  </Box>
+                  <Typography variant="caption" color="text.secondary">
+                    {formatTimestamp(event.timestamp)}
+                  </Typography>
+
+                  {reason && (
+                    <Typography variant="body2" sx={{ mt: 0.5 }}>
+                      {t('audit.history.reason', { reason })}
+                    </Typography>
+                  )}
+
+                  {changes.length > 0 && (
+                    <Table size="small" sx={{ mt: 1 }}>
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>{t('audit.history.field')}</TableCell>
+                          <TableCell>{t('audit.history.before')}</TableCell>
+                          <TableCell>{t('audit.history.after')}</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {changes.map((change) => (
+                          <TableRow key={change.field}>
+                            <TableCell sx={{ fontWeight: 500 }}>{change.field}</TableCell>
+                            <TableCell sx={{ color: 'error.main', wordBreak: 'break-word' }}>
+                              {formatAuditValue(change.before)}
+                            </TableCell>
+                            <TableCell sx={{ color: 'success.main', wordBreak: 'break-word' }}>
+                              {formatAuditValue(change.after)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </Box>
+              );
+            })}
+        </Box>
+      </Box>
+    </Drawer>
+  );
+});
+
+EntityHistoryDrawer.displayName = 'EntityHistoryDrawer';
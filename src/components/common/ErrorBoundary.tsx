@@ -132,6 +132,7 @@ class ErrorBoundaryComponent extends Component<ErrorBoundaryProps, ErrorBoundary
     // Log error using centralized logger
     logger.error('Error Boundary caught an error', error, {
       componentStack: errorInfo.componentStack,
+      source: 'boundary',
     });
 
     // Call custom error handler if provided (e.g., send to Sentry)
@@ -0,0 +1,96 @@
+/**
+ * Timezone Switcher
+ * "Viewing in" choice for editors of restaurant dates and hours, with the offset between
+ * the restaurant zone and the viewing zone. When the values may be in several restaurant zones
+ * the one to convert from is picked as well.
+ */
+
+import { memo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Box, Typography } from '@mui/material';
+import { Public as PublicIcon } from '@mui/icons-material';
+import { Select } from '../ui/atoms';
+import type { UseTimezoneViewReturn } from '../../hooks';
+import {
+  DEFAULT_TIMEZONE,
+  formatTimezoneOffset,
+  getBrowserTimezone,
+  getTimezoneShiftMinutes,
+} from '../../utils/timezoneUtils';
+
+interface TimezoneSwitcherProps extends UseTimezoneViewReturn {
+  /** Restaurant zones the values can be in */
+  timezones: string[];
+}
+
+export const TimezoneSwitcher = memo(({
+  timezones,
+  targetTimezone,
+  setTargetTimezone,
+  viewTimezone,
+  viewPreference,
+  setViewPreference,
+}: TimezoneSwitcherProps) => {
+  const { t } = useTranslation();
+  const browserTimezone = getBrowserTimezone();
+  const shift = getTimezoneShiftMinutes(targetTimezone, viewTimezone);
+
+  const formatZone = (timezone: string) => `${timezone} (${formatTimezoneOffset(timezone)})`;
+
+  const viewOptions = [
+    { value: '', label: t('timezones.restaurantTime', { zone: formatZone(targetTimezone) }) },
+    ...(browserTimezone !== targetTimezone
+      ? [{ value: browserTimezone, label: t('timezones.yourTime', { zone: formatZone(browserTimezone) }) }]
+      : []),
+    ...[...new Set([...timezones, DEFAULT_TIMEZONE, 'UTC'])]
+      .filter((timezone) => timezone !== targetTimezone && timezone !== browserTimezone)
+      .map((timezone) => ({ value: timezone, label: formatZone(timezone) })),
+  ];
+
+  const formatShift = () => {
+    const hours = Math.abs(shift) / 60;
+    return t(shift > 0 ? 'timezones.shiftAhead' : 'timezones.shiftBehind', { hours: Number(hours.toFixed(2)) });
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+        {timezones.length > 1 && (
+          <Box sx={{ minWidth: 220, flex: 1 }}>
+            <Select
+              name="targetTimezone"
+              label={t('timezones.restaurantTimezone')}
+              value={targetTimezone}
+              onChange={(value) => setTargetTimezone(value as string)}
+              options={timezones.map((timezone) => ({ value: timezone, label: formatZone(timezone) }))}
+              fullWidth
+            />
+          </Box>
+        )}
+        <Box sx={{ minWidth: 220, flex: 1 }}>
+          <Select
+            name="viewTimezone"
+            label={t('timezones.viewingIn')}
+            value={viewPreference && viewPreference !== targetTimezone ? viewPreference : ''}
+            onChange={(value) => setViewPreference((value as string) || null)}
+            options={viewOptions}
+            fullWidth
+          />
+        </Box>
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mt: 0.5 }}>
+        <PublicIcon fontSize="inherit" color={viewTimezone === targetTimezone ? 'disabled' : 'info'} />
+        <Typography variant="caption" color="text.secondary">
+          {viewTimezone === targetTimezone
+            ? t('timezones.shownInRestaurantTime', { zone: formatZone(targetTimezone) })
+            : shift === 0
+              ? t('timezones.sameTime', { zone: formatZone(viewTimezone), target: targetTimezone })
+              : t('timezones.shownIn', { zone: formatZone(viewTimezone), target: formatZone(targetTimezone), shift: formatShift() })}
+        </Typography>
+      </Box>
+    </Box>
+  );
+});
+
+TimezoneSwitcher.displayName = 'TimezoneSwitcher';
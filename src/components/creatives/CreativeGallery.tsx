@@ -0,0 +1,204 @@
+/**
+ * Creative Gallery
+ * Virtualized grid of creative thumbnails for large creative lists.
+ * Only the rows in view are mounted, so iframes exist for visible creatives only,
+ * and thumbnail HTML is cached per dataUrl across scrolling and view switches.
+ */
+
+import { memo, useCallback, useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Box, Card, CardActionArea, CardContent, Chip, Skeleton, Typography } from '@mui/material';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { StatusChip } from '../ui/molecules';
+import { useMultilingualName } from '../../hooks';
+import type { Creative } from '../../types';
+import { getCreativeUrlMediaKind } from '../../utils/creativeUploadUtils';
+import { CREATIVE_MODERATION_CHIP_STATUS } from '../../utils/creativeModerationUtils';
+import { getCachedThumbnailHtml, getContainScale, loadThumbnailHtml } from '../../utils/creativeThumbnailUtils';
+
+interface CreativeGalleryProps {
+  creatives: Creative[];
+  getCampaignName: (campaignId: string) => string;
+  getAdvertiserName: (campaignId: string) => string;
+  /** srcdoc HTML for an HTML creative, null to load the URL into the frame as is */
+  loadHtml: (dataUrl: string) => Promise<string | null>;
+  onOpen: (creative: Creative) => void;
+}
+
+const CARD_MIN_WIDTH = 220;
+const GAP = 16;
+const THUMBNAIL_HEIGHT = 140;
+/** Thumbnail plus the card content */
+const ROW_HEIGHT = THUMBNAIL_HEIGHT + 150 + GAP;
+
+const FILL_STYLE: React.CSSProperties = {
+  position: 'absolute',
+  top: 0,
+  left: 0,
+  width: '100%',
+  height: '100%',
+  border: 'none',
+  display: 'block',
+};
+
+interface CreativeThumbnailProps {
+  creative: Creative;
+  title: string;
+  width: number;
+  loadHtml: (dataUrl: string) => Promise<string | null>;
+}
+
+/**
+ * Creative scaled down into the thumbnail area: image, video poster frame or HTML in a sandboxed iframe
+ */
+const CreativeThumbnail = ({ creative, title, width, loadHtml }: CreativeThumbnailProps) => {
+  const { dataUrl } = creative;
+  const mediaKind = getCreativeUrlMediaKind(dataUrl);
+  const [loaded, setLoaded] = useState<{ dataUrl: string; html: string | null } | null>(null);
+
+  useEffect(() => {
+    if (mediaKind || getCachedThumbnailHtml(dataUrl) !== undefined) return;
+    let active = true;
+    loadThumbnailHtml(dataUrl, loadHtml).then((html) => {
+      if (active) setLoaded({ dataUrl, html });
+    });
+    return () => {
+      active = false;
+    };
+  }, [dataUrl, mediaKind, loadHtml]);
+
+  if (mediaKind === 'image') {
+    return <img src={dataUrl} alt={title} loading="lazy" style={{ ...FILL_STYLE, objectFit: 'contain' }} />;
+  }
+  if (mediaKind === 'video') {
+    // The first frame is enough for a thumbnail
+    return <video src={dataUrl} title={title} muted playsInline preload="metadata" style={{ ...FILL_STYLE, objectFit: 'contain' }} />;
+  }
+
+  const cachedHtml = loaded?.dataUrl === dataUrl ? loaded.html : getCachedThumbnailHtml(dataUrl);
+  if (cachedHtml === undefined) {
+    return <Skeleton variant="rectangular" animation="wave" sx={FILL_STYLE} />;
+  }
+
+  const frameWidth = creative.previewWidth || 300;
+  const frameHeight = creative.previewHeight || 200;
+  const scale = getContainScale(frameWidth, frameHeight, width, THUMBNAIL_HEIGHT);
+
+  return (
+    <Box
+      sx={{
+        position: 'absolute',
+        top: '50%',
+        left: '50%',
+        width: frameWidth,
+        height: frameHeight,
+        transform: `translate(-50%, -50%) scale(${scale})`,
+        bgcolor: 'white',
+        // Thumbnails are not interactive, clicks open the creative
+        pointerEvents: 'none',
+      }}
+    >
+      {cachedHtml ? (
+        <iframe srcDoc={cachedHtml} title={title} sandbox="allow-scripts" loading="lazy" tabIndex={-1} style={FILL_STYLE} />
+      ) : (
+        <iframe src={dataUrl} title={title} sandbox="allow-scripts" loading="lazy" tabIndex={-1} style={FILL_STYLE} />
+      )}
+    </Box>
+  );
+};
+
+export const CreativeGallery = memo(({
+  creatives,
+  getCampaignName,
+  getAdvertiserName,
+  loadHtml,
+  onOpen,
+}: CreativeGalleryProps) => {
+  const { t } = useTranslation();
+  const { getDisplayName } = useMultilingualName();
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [containerWidth, setContainerWidth] = useState(0);
+
+  // Columns follow the container width
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => setContainerWidth(entry.contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const columns = Math.max(1, Math.floor((containerWidth + GAP) / (CARD_MIN_WIDTH + GAP)));
+  const cardWidth = containerWidth > 0 ? (containerWidth - GAP * (columns - 1)) / columns : CARD_MIN_WIDTH;
+  const rowCount = Math.ceil(creatives.length / columns);
+
+  const rowVirtualizer = useVirtualizer({
+    count: rowCount,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: useCallback(() => ROW_HEIGHT, []),
+    overscan: 2, // Keep few rows mounted, each may hold live iframes
+  });
+
+  return (
+    <Box ref={scrollRef} sx={{ height: '70vh', overflow: 'auto' }}>
+      {creatives.length === 0 && (
+        <Box sx={{ textAlign: 'center', py: 8 }}>
+          <Typography variant="body1" color="text.secondary">
+            {t('creatives.empty')}
+          </Typography>
+        </Box>
+      )}
+      <Box sx={{ height: rowVirtualizer.getTotalSize(), position: 'relative' }}>
+        {rowVirtualizer.getVirtualItems().map((virtualRow) => (
+          <Box
+            key={virtualRow.key}
+            sx={{
+              position: 'absolute',
+              top: 0,
+              left: 0,
+              width: '100%',
+              height: ROW_HEIGHT - GAP,
+              transform: `translateY(${virtualRow.start}px)`,
+              display: 'grid',
+              gridTemplateColumns: `repeat(${columns}, 1fr)`,
+              gap: `${GAP}px`,
+            }}
+          >
+            {creatives.slice(virtualRow.index * columns, (virtualRow.index + 1) * columns).map((creative) => {
+              const title = getDisplayName(creative.name);
+              return (
+                <Card key={creative.id} variant="outlined" sx={{ height: '100%' }}>
+                  <CardActionArea onClick={() => onOpen(creative)} sx={{ height: '100%', display: 'flex', flexDirection: 'column', alignItems: 'stretch' }}>
+                    <Box sx={{ position: 'relative', height: THUMBNAIL_HEIGHT, bgcolor: 'grey.100', overflow: 'hidden', flexShrink: 0 }}>
+                      <CreativeThumbnail creative={creative} title={title} width={cardWidth} loadHtml={loadHtml} />
+                    </Box>
+                    <CardContent sx={{ flexGrow: 1, p: 1.5, '&:last-child': { pb: 1.5 } }}>
+                      <Typography variant="subtitle2" noWrap>
+                        {title}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary" noWrap component="div">
+                        {getCampaignName(creative.campaignId)} · {getAdvertiserName(creative.campaignId)}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary" component="div">
+                        {creative.previewWidth}×{creative.previewHeight} ({creative.minWidth}x{creative.minHeight} - {creative.maxWidth}x{creative.maxHeight})
+                      </Typography>
+                      <Box sx={{ mt: 0.5, display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                        <StatusChip
+                          status={CREATIVE_MODERATION_CHIP_STATUS[creative.moderationStatus]}
+                          label={t(`creatives.moderation.statuses.${creative.moderationStatus}`)}
+                        />
+                        {creative.blocked && <Chip label={t('common.blocked')} color="error" size="small" />}
+                      </Box>
+                    </CardContent>
+                  </CardActionArea>
+                </Card>
+              );
+            })}
+          </Box>
+        ))}
+      </Box>
+    </Box>
+  );
+});
+
+CreativeGallery.displayName = 'CreativeGallery';
@@ -0,0 +1,157 @@
+/**
+ * Creative HTML Editor
+ * Monaco editor for HTML creatives with a live sandboxed preview.
+ * The result is applied to the creative as a data:text/html URL or as an uploaded index.html.
+ */
+
+import { memo, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Alert, Box, CircularProgress, LinearProgress, ToggleButton, ToggleButtonGroup, Typography, useTheme } from '@mui/material';
+import Editor from '@monaco-editor/react';
+import { Button } from '../ui/atoms';
+import { useDebounce } from '../../hooks';
+import { creativesApi } from '../../api';
+import { isApiError } from '../../api/errors';
+import { logger } from '../../utils/logger';
+import { sanitizeHtmlForIframe } from '../../utils/htmlSanitizer';
+import { encodeHtmlDataUrl } from '../../utils/creativeHtmlUtils';
+
+export type CreativeHtmlStorage = 'dataUrl' | 'upload';
+
+interface CreativeHtmlEditorProps {
+  html: string;
+  onChange: (html: string) => void;
+  /** Unapplied changes are present */
+  dirty: boolean;
+  previewWidth: number;
+  previewHeight: number;
+  /** Called with the new creative data URL */
+  onApply: (dataUrl: string) => void;
+  onDiscard: () => void;
+}
+
+export const CreativeHtmlEditor = memo(({
+  html,
+  onChange,
+  dirty,
+  previewWidth,
+  previewHeight,
+  onApply,
+  onDiscard,
+}: CreativeHtmlEditorProps) => {
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const [storage, setStorage] = useState<CreativeHtmlStorage>('dataUrl');
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  // Re-render the preview once typing pauses
+  const debouncedHtml = useDebounce(html, 300);
+  const previewHtml = useMemo(() => sanitizeHtmlForIframe(debouncedHtml), [debouncedHtml]);
+
+  const handleApply = async () => {
+    setUploadError(null);
+    if (storage === 'dataUrl') {
+      onApply(encodeHtmlDataUrl(html));
+      return;
+    }
+
+    setUploadProgress(0);
+    try {
+      const file = new File([html], 'index.html', { type: 'text/html' });
+      onApply(await creativesApi.upload(file, { onProgress: setUploadProgress }));
+    } catch (error) {
+      logger.error('Failed to upload creative HTML', error as Error, {
+        entityType: 'creative',
+        operation: 'upload',
+      });
+      setUploadError(isApiError(error) ? error.getUserMessage() : t('creatives.upload.failed'));
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  const uploading = uploadProgress !== null;
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5, height: '100%' }}>
+      <Box sx={{ display: 'flex', flexDirection: { xs: 'column', md: 'row' }, gap: 2, flexGrow: 1, minHeight: 420 }}>
+        <Box sx={{ flex: 1, minWidth: 0, minHeight: 320, border: 1, borderColor: 'divider', borderRadius: 1, overflow: 'hidden' }}>
+          <Editor
+            language="html"
+            value={html}
+            onChange={(value) => onChange(value ?? '')}
+            theme={theme.palette.mode === 'dark' ? 'vs-dark' : 'light'}
+            loading={<CircularProgress size={24} />}
+            options={{
+              minimap: { enabled: false },
+              wordWrap: 'on',
+              fontSize: 13,
+              tabSize: 2,
+              automaticLayout: true,
+              scrollBeyondLastLine: false,
+            }}
+          />
+        </Box>
+
+        <Box sx={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', gap: 1 }}>
+          <Typography variant="caption" color="text.secondary">
+            {t('creatives.editor.previewSize', { width: previewWidth, height: previewHeight })}
+          </Typography>
+          <Box sx={{ flexGrow: 1, bgcolor: 'grey.100', overflow: 'auto', display: 'flex', alignItems: 'center', justifyContent: 'center', p: 1 }}>
+            <Box
+              sx={{
+                width: previewWidth,
+                height: previewHeight,
+                flexShrink: 0,
+                border: '1px solid',
+                borderColor: 'grey.300',
+                bgcolor: 'white',
+              }}
+            >
+              <iframe
+                srcDoc={previewHtml}
+                title={t('creatives.tabs.preview')}
+                sandbox="allow-scripts"
+                style={{ width: '100%', height: '100%', border: 'none', display: 'block' }}
+              />
+            </Box>
+          </Box>
+        </Box>
+      </Box>
+
+      {uploadError && <Alert severity="error">{uploadError}</Alert>}
+      {uploading && <LinearProgress variant="determinate" value={uploadProgress} />}
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+        <Typography variant="body2" color="text.secondary">
+          {t('creatives.editor.storage')}
+        </Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={storage}
+          onChange={(_, value: CreativeHtmlStorage | null) => value && setStorage(value)}
+        >
+          <ToggleButton value="dataUrl">{t('creatives.editor.storageDataUrl')}</ToggleButton>
+          <ToggleButton value="upload">{t('creatives.editor.storageUpload')}</ToggleButton>
+        </ToggleButtonGroup>
+        <Box sx={{ flexGrow: 1 }}>
+          {dirty && (
+            <Typography variant="caption" color="warning.main">
+              {t('creatives.editor.unapplied')}
+            </Typography>
+          )}
+        </Box>
+        <Button variant="text" onClick={onDiscard} disabled={!dirty || uploading}>
+          {t('creatives.editor.discard')}
+        </Button>
+        <Button variant="contained" onClick={handleApply} disabled={!dirty} loading={uploading}>
+          {t('creatives.editor.apply')}
+        </Button>
+      </Box>
+    </Box>
+  );
+});
+
+CreativeHtmlEditor.displayName = 'CreativeHtmlEditor';
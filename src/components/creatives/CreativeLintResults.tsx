@@ -0,0 +1,48 @@
+/**
+ * Creative Lint Results
+ * Errors and warnings of the creative linter shown in the creative dialog before saving.
+ * Errors block saving unless an admin overrides them.
+ */
+
+import { memo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Alert, Box, Checkbox, FormControlLabel, Stack } from '@mui/material';
+import type { CreativeLintIssue } from '../../utils/creativeLintUtils';
+
+interface CreativeLintResultsProps {
+  issues: CreativeLintIssue[];
+  /** Current user may save despite errors */
+  canOverride: boolean;
+  override: boolean;
+  onOverrideChange: (override: boolean) => void;
+}
+
+export const CreativeLintResults = memo(({ issues, canOverride, override, onOverrideChange }: CreativeLintResultsProps) => {
+  const { t } = useTranslation();
+  const hasErrors = issues.some((issue) => issue.severity === 'error');
+
+  if (issues.length === 0) {
+    return <Alert severity="success">{t('creatives.lint.passed')}</Alert>;
+  }
+
+  return (
+    <Box>
+      <Stack spacing={0.5}>
+        {issues.map((issue, index) => (
+          <Alert key={`${issue.rule}-${index}`} severity={issue.severity} sx={{ py: 0 }}>
+            {t(`creatives.lint.rules.${issue.rule}`, issue.params)}
+          </Alert>
+        ))}
+      </Stack>
+      {hasErrors && canOverride && (
+        <FormControlLabel
+          control={<Checkbox size="small" checked={override} onChange={(event) => onOverrideChange(event.target.checked)} />}
+          label={t('creatives.lint.override')}
+          sx={{ mt: 0.5 }}
+        />
+      )}
+    </Box>
+  );
+});
+
+CreativeLintResults.displayName = 'CreativeLintResults';
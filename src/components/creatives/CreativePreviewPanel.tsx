@@ -0,0 +1,180 @@
+/**
+ * Creative Preview Panel
+ * Renders a creative at its min, max and preview sizes and inside the ad area of each slot type,
+ * optionally placed on a portrait or landscape tablet screen, to spot clipping and scaling issues.
+ */
+
+import { memo, useMemo, useState, type ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Box, Chip, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
+import type { SlotType } from '../../types';
+import { getDimensionIssues, type CreativeDimensions, type CreativeSizeLimits } from '../../utils/creativeUploadUtils';
+import {
+  SLOT_AD_AREAS,
+  SLOT_TYPES,
+  TABLET_HEADER_HEIGHT,
+  TABLET_SCREENS,
+  getCreativePreviewSizes,
+  getFitScale,
+  type TabletOrientation,
+} from '../../utils/creativePreviewUtils';
+
+interface CreativePreviewPanelProps {
+  limits: CreativeSizeLimits;
+  previewSize: CreativeDimensions;
+  /** Creative content filling its container (iframe, image or video) */
+  renderContent: () => ReactNode;
+}
+
+/** Widest a single preview is drawn, larger ones are scaled down */
+const SIZE_PREVIEW_WIDTH = 560;
+const SLOT_PREVIEW_WIDTH = 400;
+
+interface ScaledBoxProps {
+  width: number;
+  height: number;
+  availableWidth: number;
+  children: ReactNode;
+}
+
+/**
+ * Box laid out at its real size and scaled down to the available width
+ */
+const ScaledBox = ({ width, height, availableWidth, children }: ScaledBoxProps) => {
+  const scale = getFitScale(width, availableWidth);
+
+  return (
+    <Box sx={{ width: width * scale, height: height * scale, overflow: 'hidden', flexShrink: 0 }}>
+      <Box sx={{ width, height, transform: `scale(${scale})`, transformOrigin: 'top left', position: 'relative' }}>
+        {children}
+      </Box>
+    </Box>
+  );
+};
+
+const slotTypeKey = (type: SlotType): string => type.charAt(0).toLowerCase() + type.slice(1); // MainLarge -> mainLarge
+
+export const CreativePreviewPanel = memo(({ limits, previewSize, renderContent }: CreativePreviewPanelProps) => {
+  const { t } = useTranslation();
+  const [tablet, setTablet] = useState<TabletOrientation | 'none'>('none');
+
+  const sizes = useMemo(() => getCreativePreviewSizes(limits, previewSize), [limits, previewSize]);
+  const orientation: TabletOrientation = tablet === 'none' ? 'landscape' : tablet;
+
+  const renderFrame = (size: CreativeDimensions) => (
+    <Box
+      sx={{
+        width: size.width,
+        height: size.height,
+        position: 'relative',
+        overflow: 'hidden',
+        bgcolor: 'white',
+        outline: '1px solid',
+        outlineColor: 'grey.400',
+      }}
+    >
+      {renderContent()}
+    </Box>
+  );
+
+  const renderSlot = (type: SlotType) => {
+    const area = SLOT_AD_AREAS[type][orientation];
+    const issues = getDimensionIssues(area, limits);
+
+    return (
+      <Box key={type} sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+          <Typography variant="subtitle2">{t(`slots.types.${slotTypeKey(type)}`)}</Typography>
+          <Typography variant="caption" color="text.secondary">
+            {area.width}×{area.height}
+          </Typography>
+          {issues.length > 0 && (
+            <Chip size="small" color="warning" label={t('creatives.previewPanel.outsideLimits')} />
+          )}
+        </Box>
+        {tablet === 'none' ? (
+          <ScaledBox width={area.width} height={area.height} availableWidth={SLOT_PREVIEW_WIDTH}>
+            {renderFrame(area)}
+          </ScaledBox>
+        ) : (
+          <ScaledBox
+            width={TABLET_SCREENS[tablet].width + 48}
+            height={TABLET_SCREENS[tablet].height + 48}
+            availableWidth={SLOT_PREVIEW_WIDTH}
+          >
+            {/* Device bezel around the mock tablet app */}
+            <Box sx={{ p: 3, bgcolor: 'grey.900', borderRadius: 6 }}>
+              <Box
+                sx={{
+                  ...TABLET_SCREENS[tablet],
+                  position: 'relative',
+                  overflow: 'hidden',
+                  bgcolor: 'grey.100',
+                  backgroundImage: 'repeating-linear-gradient(90deg, transparent 0 296px, rgba(0, 0, 0, 0.04) 296px 320px)',
+                }}
+              >
+                <Box sx={{ height: TABLET_HEADER_HEIGHT, bgcolor: 'primary.main' }} />
+                <Box sx={{ position: 'absolute', left: area.x, top: area.y }}>{renderFrame(area)}</Box>
+              </Box>
+            </Box>
+          </ScaledBox>
+        )}
+      </Box>
+    );
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, width: '100%' }}>
+      <Box>
+        <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>
+          {t('creatives.previewPanel.sizes')}
+        </Typography>
+        {sizes.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            {t('creatives.previewPanel.noSizes')}
+          </Typography>
+        ) : (
+          <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap', alignItems: 'flex-start' }}>
+            {sizes.map((size) => (
+              <Box key={size.keys.join('-')} sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+                <Typography variant="subtitle2">
+                  {size.keys.map((key) => t(`creatives.previewPanel.sizeKeys.${key}`)).join(' / ')}{' '}
+                  <Typography component="span" variant="caption" color="text.secondary">
+                    {size.width}×{size.height}
+                  </Typography>
+                </Typography>
+                <ScaledBox width={size.width} height={size.height} availableWidth={SIZE_PREVIEW_WIDTH}>
+                  {renderFrame(size)}
+                </ScaledBox>
+              </Box>
+            ))}
+          </Box>
+        )}
+      </Box>
+
+      <Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, flexWrap: 'wrap', mb: 1 }}>
+          <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+            {t('creatives.previewPanel.slotTypes')}
+          </Typography>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={tablet}
+            onChange={(_, value: TabletOrientation | 'none' | null) => value && setTablet(value)}
+            aria-label={t('creatives.previewPanel.tablet')}
+          >
+            <ToggleButton value="none">{t('creatives.previewPanel.noTablet')}</ToggleButton>
+            <ToggleButton value="landscape">{t('creatives.previewPanel.landscape')}</ToggleButton>
+            <ToggleButton value="portrait">{t('creatives.previewPanel.portrait')}</ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap', alignItems: 'flex-start' }}>
+          {SLOT_TYPES.map(renderSlot)}
+        </Box>
+      </Box>
+    </Box>
+  );
+});
+
+CreativePreviewPanel.displayName = 'CreativePreviewPanel';
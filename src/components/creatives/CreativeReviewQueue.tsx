@@ -0,0 +1,208 @@
+/**
+ * Creative Review Queue
+ * Creatives waiting for moderation: the selected one is shown with its preview and metadata side by side,
+ * reviewers approve it or reject it with a reason. Decisions are recorded in the audit log by the API.
+ */
+
+import { memo, useState, type ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Alert, Box, Chip, List, ListItemButton, ListItemText, Paper, Stack, TextField, Typography } from '@mui/material';
+import { Check as CheckIcon, Block as BlockIcon } from '@mui/icons-material';
+import { Button } from '../ui/atoms';
+import { useMultilingualName } from '../../hooks';
+import type { Creative } from '../../types';
+import { getCreativeUrlMediaKind } from '../../utils/creativeUploadUtils';
+import { getFitScale } from '../../utils/creativePreviewUtils';
+import { CREATIVE_REJECTION_REASONS } from '../../utils/creativeModerationUtils';
+
+interface CreativeReviewQueueProps {
+  /** Creatives pending review, in the order the list returns them */
+  creatives: Creative[];
+  getCampaignName: (campaignId: string) => string;
+  getAdvertiserName: (campaignId: string) => string;
+  /** Creative content filling its container (iframe, image or video) */
+  renderContent: (url: string, title: string) => ReactNode;
+  /** Current user may approve and reject */
+  canReview: boolean;
+  onApprove: (creative: Creative) => Promise<void>;
+  onReject: (creative: Creative, reason: string) => Promise<void>;
+}
+
+/** Widest the preview is drawn, larger creatives are scaled down */
+const PREVIEW_MAX_WIDTH = 640;
+
+export const CreativeReviewQueue = memo(({
+  creatives,
+  getCampaignName,
+  getAdvertiserName,
+  renderContent,
+  canReview,
+  onApprove,
+  onReject,
+}: CreativeReviewQueueProps) => {
+  const { t } = useTranslation();
+  const { getDisplayName } = useMultilingualName();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState<'approve' | 'reject' | null>(null);
+
+  // Fall back to the first creative once the selected one leaves the queue
+  const selected = creatives.find((creative) => creative.id === selectedId) ?? creatives[0] ?? null;
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    setReason('');
+  };
+
+  const handleDecision = async (decision: 'approve' | 'reject') => {
+    if (!selected) return;
+    setSubmitting(decision);
+    try {
+      if (decision === 'approve') {
+        await onApprove(selected);
+      } else {
+        await onReject(selected, reason.trim());
+      }
+      setReason('');
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  if (!selected) {
+    return (
+      <Box sx={{ textAlign: 'center', py: 8 }}>
+        <Typography variant="body1" color="text.secondary">
+          {t('creatives.moderation.queueEmpty')}
+        </Typography>
+      </Box>
+    );
+  }
+
+  const title = getDisplayName(selected.name);
+  const width = selected.previewWidth || 300;
+  const height = selected.previewHeight || 200;
+  const scale = getFitScale(width, PREVIEW_MAX_WIDTH);
+  const mediaKind = getCreativeUrlMediaKind(selected.dataUrl);
+
+  const metadata: [string, ReactNode][] = [
+    [t('creatives.fields.campaign'), getCampaignName(selected.campaignId)],
+    [t('creatives.fields.advertiser'), getAdvertiserName(selected.campaignId)],
+    [t('creatives.fields.resolution'), `${selected.minWidth}x${selected.minHeight} - ${selected.maxWidth}x${selected.maxHeight}`],
+    [t('creatives.moderation.previewSize'), `${width}x${height}`],
+    [t('creatives.moderation.contentType'), t(`creatives.moderation.contentTypes.${mediaKind ?? 'html'}`)],
+    [t('creatives.fields.dataUrl'), selected.dataUrl.startsWith('data:') ? t('creatives.moderation.inlineHtml') : selected.dataUrl],
+  ];
+
+  return (
+    <Box sx={{ display: 'flex', gap: 3, alignItems: 'flex-start', flexDirection: { xs: 'column', md: 'row' } }}>
+      <Paper variant="outlined" sx={{ width: { xs: '100%', md: 280 }, flexShrink: 0, maxHeight: '70vh', overflow: 'auto' }}>
+        <List dense disablePadding>
+          {creatives.map((creative) => (
+            <ListItemButton
+              key={creative.id}
+              selected={creative.id === selected.id}
+              onClick={() => handleSelect(creative.id)}
+            >
+              <ListItemText
+                primary={getDisplayName(creative.name)}
+                secondary={getCampaignName(creative.campaignId)}
+                primaryTypographyProps={{ noWrap: true }}
+                secondaryTypographyProps={{ noWrap: true }}
+              />
+            </ListItemButton>
+          ))}
+        </List>
+      </Paper>
+
+      <Box sx={{ flexGrow: 1, minWidth: 0, display: 'flex', gap: 3, flexWrap: 'wrap', alignItems: 'flex-start' }}>
+        <Box sx={{ bgcolor: 'grey.100', p: 2, borderRadius: 1 }}>
+          <Box sx={{ width: width * scale, height: height * scale, overflow: 'hidden' }}>
+            <Box
+              sx={{
+                width,
+                height,
+                transform: `scale(${scale})`,
+                transformOrigin: 'top left',
+                position: 'relative',
+                overflow: 'hidden',
+                bgcolor: 'white',
+                outline: '1px solid',
+                outlineColor: 'grey.300',
+              }}
+            >
+              {renderContent(selected.dataUrl, title)}
+            </Box>
+          </Box>
+        </Box>
+
+        <Stack spacing={2} sx={{ flex: 1, minWidth: 260 }}>
+          <Typography variant="h6">{title}</Typography>
+          <Stack spacing={0.5}>
+            {metadata.map(([label, value]) => (
+              <Typography key={label} variant="body2" color="text.secondary" sx={{ wordBreak: 'break-all' }}>
+                <strong>{label}:</strong> {value}
+              </Typography>
+            ))}
+          </Stack>
+
+          {!canReview && <Alert severity="info">{t('creatives.moderation.reviewersOnly')}</Alert>}
+
+          {canReview && (
+            <>
+              <Box>
+                <Typography variant="body2" sx={{ mb: 1 }}>
+                  {t('creatives.moderation.reasonPresets')}
+                </Typography>
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                  {CREATIVE_REJECTION_REASONS.map((preset) => (
+                    <Chip
+                      key={preset}
+                      size="small"
+                      variant="outlined"
+                      label={t(`creatives.moderation.reasons.${preset}`)}
+                      onClick={() => setReason(t(`creatives.moderation.reasons.${preset}`))}
+                    />
+                  ))}
+                </Box>
+              </Box>
+              <TextField
+                label={t('creatives.moderation.rejectionReason')}
+                value={reason}
+                onChange={(event) => setReason(event.target.value)}
+                multiline
+                minRows={2}
+                size="small"
+                helperText={t('creatives.moderation.reasonHelper')}
+              />
+              <Box sx={{ display: 'flex', gap: 2, justifyContent: 'flex-end' }}>
+                <Button
+                  variant="outlined"
+                  color="error"
+                  startIcon={<BlockIcon />}
+                  onClick={() => handleDecision('reject')}
+                  disabled={!reason.trim() || submitting === 'approve'}
+                  loading={submitting === 'reject'}
+                >
+                  {t('creatives.moderation.reject')}
+                </Button>
+                <Button
+                  variant="contained"
+                  color="success"
+                  startIcon={<CheckIcon />}
+                  onClick={() => handleDecision('approve')}
+                  disabled={submitting === 'reject'}
+                  loading={submitting === 'approve'}
+                >
+                  {t('creatives.moderation.approve')}
+                </Button>
+              </Box>
+            </>
+          )}
+        </Stack>
+      </Box>
+    </Box>
+  );
+});
+
+CreativeReviewQueue.displayName = 'CreativeReviewQueue';
@@ -0,0 +1,216 @@
+/**
+ * Creative Upload Field
+ * Drag-and-drop upload of HTML5 zip bundles, images and MP4 video to the server storage.
+ * Validates the file before uploading and reports its dimensions against the creative size limits.
+ */
+
+import { memo, useCallback, useEffect, useRef, useState, type DragEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Alert, Box, LinearProgress, Paper, Typography } from '@mui/material';
+import { CloudUpload as CloudUploadIcon } from '@mui/icons-material';
+import { Button } from '../ui/atoms';
+import { creativesApi } from '../../api';
+import { isApiError } from '../../api/errors';
+import { logger } from '../../utils/logger';
+import {
+  CREATIVE_MAX_FILE_SIZE,
+  CREATIVE_UPLOAD_ACCEPT,
+  checkCreativeFile,
+  formatFileSize,
+  getDimensionIssues,
+  type CreativeDimensions,
+  type CreativeFileCheck,
+  type CreativeSizeLimits,
+} from '../../utils/creativeUploadUtils';
+
+interface CreativeUploadFieldProps {
+  limits: CreativeSizeLimits;
+  /** Called with the hosted URL once the upload finishes */
+  onUploaded: (url: string, dimensions: CreativeDimensions | null, fileSize: number) => void;
+  disabled?: boolean;
+}
+
+type UploadStatus = 'idle' | 'checking' | 'uploading' | 'done' | 'failed';
+
+export const CreativeUploadField = memo(({ limits, onUploaded, disabled = false }: CreativeUploadFieldProps) => {
+  const { t } = useTranslation();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const [dragOver, setDragOver] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [check, setCheck] = useState<CreativeFileCheck | null>(null);
+  const [status, setStatus] = useState<UploadStatus>('idle');
+  const [progress, setProgress] = useState(0);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  // Cancel a running upload when the dialog closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleFile = useCallback(async (selected: File) => {
+    // One controller per file covers the check and the upload, so a newer file wins
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setFile(selected);
+    setCheck(null);
+    setUploadError(null);
+    setProgress(0);
+    setStatus('checking');
+
+    try {
+      const result = await checkCreativeFile(selected);
+      if (controller.signal.aborted) return;
+      setCheck(result);
+      if (result.error) {
+        setStatus('failed');
+        return;
+      }
+
+      setStatus('uploading');
+      const url = await creativesApi.upload(selected, { onProgress: setProgress, signal: controller.signal });
+      setStatus('done');
+      onUploaded(url, result.dimensions, selected.size);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        // A newer file has already reset the state
+        if (abortRef.current === controller) setStatus('idle');
+        return;
+      }
+      logger.error('Failed to upload creative file', error as Error, {
+        entityType: 'creative',
+        operation: 'upload',
+        fileName: selected.name,
+      });
+      setUploadError(isApiError(error) ? error.getUserMessage() : t('creatives.upload.failed'));
+      setStatus('failed');
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  }, [onUploaded, t]);
+
+  const busy = status === 'checking' || status === 'uploading';
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragOver(false);
+    const dropped = event.dataTransfer.files[0];
+    if (dropped && !disabled && !busy) handleFile(dropped);
+  };
+  const issues = check?.dimensions ? getDimensionIssues(check.dimensions, limits) : [];
+
+  return (
+    <Box>
+      <Paper
+        variant="outlined"
+        role="button"
+        tabIndex={0}
+        onClick={() => !disabled && !busy && inputRef.current?.click()}
+        onKeyDown={(event) => {
+          if ((event.key === 'Enter' || event.key === ' ') && !disabled && !busy) {
+            event.preventDefault();
+            inputRef.current?.click();
+          }
+        }}
+        onDragOver={(event) => {
+          event.preventDefault();
+          if (!disabled && !busy) setDragOver(true);
+        }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={handleDrop}
+        sx={{
+          p: 3,
+          textAlign: 'center',
+          borderStyle: 'dashed',
+          borderWidth: 2,
+          borderColor: dragOver ? 'primary.main' : 'divider',
+          bgcolor: dragOver ? 'action.hover' : 'transparent',
+          cursor: disabled || busy ? 'default' : 'pointer',
+          opacity: disabled ? 0.6 : 1,
+        }}
+      >
+        <CloudUploadIcon color={dragOver ? 'primary' : 'action'} sx={{ fontSize: 40 }} />
+        <Typography variant="body2">{t('creatives.upload.dropzone')}</Typography>
+        <Typography variant="caption" color="text.secondary">
+          {t('creatives.upload.formats', {
+            html5: formatFileSize(CREATIVE_MAX_FILE_SIZE.html5),
+            image: formatFileSize(CREATIVE_MAX_FILE_SIZE.image),
+            video: formatFileSize(CREATIVE_MAX_FILE_SIZE.video),
+          })}
+        </Typography>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={CREATIVE_UPLOAD_ACCEPT}
+          hidden
+          onChange={(event) => {
+            const selected = event.target.files?.[0];
+            // Reset so picking the same file again triggers onChange
+            event.target.value = '';
+            if (selected) handleFile(selected);
+          }}
+        />
+      </Paper>
+
+      {file && (
+        <Box sx={{ mt: 1.5, display: 'flex', flexDirection: 'column', gap: 1 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography variant="body2" noWrap sx={{ flexGrow: 1, fontWeight: 500 }}>
+              {file.name}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              {[
+                check?.kind && t(`creatives.upload.kinds.${check.kind}`),
+                formatFileSize(file.size),
+                check?.dimensions && `${check.dimensions.width}×${check.dimensions.height}`,
+              ].filter(Boolean).join(' · ')}
+            </Typography>
+          </Box>
+
+          {status === 'checking' && <LinearProgress />}
+
+          {status === 'uploading' && (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <LinearProgress variant="determinate" value={progress} sx={{ flexGrow: 1 }} />
+              <Typography variant="caption" color="text.secondary" sx={{ minWidth: 36 }}>
+                {progress}%
+              </Typography>
+              <Button size="small" variant="text" onClick={() => abortRef.current?.abort()}>
+                {t('common.cancel')}
+              </Button>
+            </Box>
+          )}
+
+          {check?.error && (
+            <Alert severity="error">
+              {t(`creatives.upload.errors.${check.error}`, {
+                size: check.kind ? formatFileSize(CREATIVE_MAX_FILE_SIZE[check.kind]) : '',
+              })}
+            </Alert>
+          )}
+          {uploadError && <Alert severity="error">{uploadError}</Alert>}
+
+          {check && !check.error && (
+            issues.length > 0 ? (
+              <Alert severity="warning">
+                {issues.map((issue) => t(`creatives.upload.dimensions.${issue}`, limits)).join(' ')}
+              </Alert>
+            ) : (
+              <Alert severity={check.dimensions ? 'success' : 'info'}>
+                {check.dimensions ? t('creatives.upload.dimensions.fits') : t('creatives.upload.dimensions.unknown')}
+              </Alert>
+            )
+          )}
+
+          {status === 'done' && (
+            <Typography variant="caption" color="success.main">
+              {t('creatives.upload.done')}
+            </Typography>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+});
+
+CreativeUploadField.displayName = 'CreativeUploadField';
@@ -0,0 +1,312 @@
+/**
+ * Holiday Calendars Dialog
+ * Manages the shared holiday calendars. A calendar is linked to any number of schedules,
+ * its days are off for all of them unless a schedule has its own exception for the day.
+ */
+
+import { memo, useCallback, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { z } from 'zod';
+import { Controller } from 'react-hook-form';
+import {
+  Box,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon, Edit as EditIcon } from '@mui/icons-material';
+import { useSnackbar } from 'notistack';
+import { Button, IconButton } from '../ui/atoms';
+import { ConfirmDialog, GenericFormDialog, MultilingualNameField } from '../ui/molecules';
+import { holidayCalendarsApi } from '../../api';
+import { isApiError } from '../../api/errors';
+import { useConfirmDialog, useDialogState, useMultilingualName } from '../../hooks';
+import { logger } from '../../utils/logger';
+import { getTodayKey, normalizeHolidays } from '../../utils/scheduleExceptionUtils';
+import type { HolidayCalendar, HolidayCalendarFormData, Schedule } from '../../types';
+
+interface HolidayCalendarsDialogProps {
+  open: boolean;
+  calendars: HolidayCalendar[];
+  /** Schedules linking the calendars, shown as usage */
+  schedules: Schedule[];
+  onClose: () => void;
+  onChanged: () => Promise<void> | void;
+}
+
+const createCalendarSchema = (t: (key: string) => string) =>
+  z.object({
+    name: z.object({
+      ARM: z.string().min(1, t('validation.nameRequired')),
+      RUS: z.string().min(1, t('validation.nameRequired')),
+      ENG: z.string().min(1, t('validation.nameRequired')),
+    }),
+    holidays: z.array(
+      z.object({
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, t('schedules.holidays.validation.dateRequired')),
+        name: z.string(),
+      })
+    ),
+    blocked: z.boolean(),
+  });
+
+type CalendarFormValues = z.infer<ReturnType<typeof createCalendarSchema>>;
+
+const DEFAULT_VALUES: CalendarFormValues = {
+  name: { ARM: '', RUS: '', ENG: '' },
+  holidays: [],
+  blocked: false,
+};
+
+const calendarToFormValues = (calendar: HolidayCalendar): CalendarFormValues => ({
+  name: calendar.name,
+  holidays: calendar.holidays,
+  blocked: calendar.blocked,
+});
+
+export const HolidayCalendarsDialog = memo(({ open, calendars, schedules, onClose, onChanged }: HolidayCalendarsDialogProps) => {
+  const { t } = useTranslation();
+  const { enqueueSnackbar } = useSnackbar();
+  const { getDisplayName } = useMultilingualName();
+  const confirmDialog = useConfirmDialog();
+  const formDialog = useDialogState<{ id?: string; hash?: string }>();
+  const { openDialog: openForm, closeDialog: closeForm } = formDialog;
+  const [formValues, setFormValues] = useState<CalendarFormValues>(DEFAULT_VALUES);
+
+  const getUsage = (calendarId: string) =>
+    schedules.filter((schedule) => schedule.holidayCalendarIds.includes(calendarId));
+
+  const handleAdd = () => {
+    setFormValues(DEFAULT_VALUES);
+    openForm();
+  };
+
+  const handleEdit = async (calendar: HolidayCalendar) => {
+    try {
+      const latest = await holidayCalendarsApi.getById(calendar.id);
+      setFormValues(calendarToFormValues(latest));
+      openForm({ id: calendar.id, hash: latest.hash });
+    } catch (error) {
+      logger.error('Failed to load holiday calendar', error as Error, { calendarId: calendar.id });
+      enqueueSnackbar(isApiError(error) ? error.getUserMessage() : t('schedules.holidays.loadFailed'), { variant: 'error' });
+    }
+  };
+
+  const editingId = formDialog.data?.id;
+  const editingHash = formDialog.data?.hash;
+
+  const handleSubmit = useCallback(async (values: CalendarFormValues, hash?: string) => {
+    const data: HolidayCalendarFormData = {
+      name: values.name,
+      holidays: normalizeHolidays(values.holidays),
+      blocked: values.blocked,
+    };
+
+    try {
+      if (editingId) {
+        await holidayCalendarsApi.update(editingId, data, hash ?? editingHash ?? '');
+        enqueueSnackbar(t('common.success.updated'), { variant: 'success' });
+      } else {
+        await holidayCalendarsApi.create(data);
+        enqueueSnackbar(t('common.success.created'), { variant: 'success' });
+      }
+      closeForm();
+      await onChanged();
+    } catch (error) {
+      if (isApiError(error) && error.isObjectChanged()) {
+        // Resolved by the merge dialog of GenericFormDialog
+        logger.warn('Holiday calendar was changed by another user', { calendarId: editingId });
+        throw error;
+      }
+      logger.error('Failed to save holiday calendar', error as Error, {
+        calendarId: editingId,
+        operation: editingId ? 'update' : 'create',
+      });
+      if (isApiError(error)) {
+        enqueueSnackbar(error.getUserMessage(), { variant: 'error' });
+      } else {
+        enqueueSnackbar(t('common.error.saveFailed'), { variant: 'error' });
+      }
+    }
+  }, [editingId, editingHash, enqueueSnackbar, t, closeForm, onChanged]);
+
+  const loadLatest = useCallback(async () => {
+    const latest = await holidayCalendarsApi.getById(editingId || '');
+    return { values: calendarToFormValues(latest), hash: latest.hash || '' };
+  }, [editingId]);
+
+  const handleDelete = (calendar: HolidayCalendar) => {
+    const usage = getUsage(calendar.id).length;
+    confirmDialog.open({
+      title: t('schedules.holidays.confirm.deleteTitle'),
+      message: usage > 0
+        ? t('schedules.holidays.confirm.deleteUsedMessage', { name: getDisplayName(calendar.name), count: usage })
+        : t('schedules.holidays.confirm.deleteMessage', { name: getDisplayName(calendar.name) }),
+      confirmText: t('common.delete'),
+      cancelText: t('common.cancel'),
+      onConfirm: async () => {
+        try {
+          await holidayCalendarsApi.delete(calendar.id);
+          enqueueSnackbar(t('common.success.deleted'), { variant: 'success' });
+          await onChanged();
+        } catch (error) {
+          logger.error('Failed to delete holiday calendar', error as Error, { calendarId: calendar.id });
+          enqueueSnackbar(isApiError(error) ? error.getUserMessage() : t('schedules.holidays.deleteFailed'), { variant: 'error' });
+        }
+      },
+    });
+  };
+
+  return (
+    <>
+      <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+        <DialogTitle>{t('schedules.holidays.title')}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {t('schedules.holidays.description')}
+          </Typography>
+          {calendars.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 3 }}>
+              {t('schedules.holidays.empty')}
+            </Typography>
+          ) : (
+            <Stack spacing={1}>
+              {calendars.map((calendar) => {
+                const usage = getUsage(calendar.id);
+                return (
+                  <Box
+                    key={calendar.id}
+                    sx={{ display: 'flex', alignItems: 'center', gap: 1, p: 1, border: '1px solid', borderColor: 'divider', borderRadius: 1 }}
+                  >
+                    <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+                      <Typography variant="body2" fontWeight={500} noWrap>
+                        {getDisplayName(calendar.name)}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {t('schedules.holidays.summary', { count: calendar.holidays.length, schedules: usage.length })}
+                      </Typography>
+                    </Box>
+                    {calendar.blocked && <Chip label={t('common.blocked')} color="error" size="small" />}
+                    <IconButton icon={<EditIcon />} size="small" onClick={() => handleEdit(calendar)} tooltip={t('common.edit')} />
+                    <IconButton icon={<DeleteIcon />} size="small" onClick={() => handleDelete(calendar)} tooltip={t('common.delete')} />
+                  </Box>
+                );
+              })}
+            </Stack>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button variant="text" startIcon={<AddIcon />} onClick={handleAdd}>
+            {t('schedules.holidays.add')}
+          </Button>
+          <Button variant="contained" onClick={onClose}>
+            {t('common.close')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <GenericFormDialog
+        open={formDialog.open}
+        title={editingId ? t('schedules.holidays.editTitle') : t('schedules.holidays.addTitle')}
+        schema={createCalendarSchema(t)}
+        defaultValues={formValues}
+        onSubmit={handleSubmit}
+        onClose={closeForm}
+        loadLatest={editingId ? loadLatest : undefined}
+        maxWidth="sm"
+        submitText={t('common.save')}
+        cancelText={t('common.cancel')}
+        fields={[
+          {
+            name: 'name',
+            label: t('schedules.fields.name'),
+            type: 'text',
+            required: true,
+            render: (control) => (
+              <Box>
+                <Typography variant="body2" sx={{ mb: 1 }}>
+                  {t('schedules.fields.name')} *
+                </Typography>
+                <MultilingualNameField control={control} name="name" required />
+              </Box>
+            ),
+          },
+          {
+            name: 'holidays',
+            label: t('schedules.holidays.days'),
+            type: 'text',
+            render: (control) => (
+              <Controller
+                name="holidays"
+                control={control}
+                render={({ field }) => {
+                  const holidays: CalendarFormValues['holidays'] = field.value || [];
+                  const update = (index: number, changes: Partial<CalendarFormValues['holidays'][number]>) => {
+                    field.onChange(holidays.map((holiday, i) => (i === index ? { ...holiday, ...changes } : holiday)));
+                  };
+
+                  return (
+                    <Box>
+                      <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                        {t('schedules.holidays.days')}
+                      </Typography>
+                      <Stack spacing={1}>
+                        {holidays.map((holiday, index) => (
+                          <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                            <TextField
+                              type="date"
+                              size="small"
+                              value={holiday.date}
+                              onChange={(event) => update(index, { date: event.target.value })}
+                            />
+                            <TextField
+                              size="small"
+                              placeholder={t('schedules.holidays.dayName')}
+                              value={holiday.name}
+                              onChange={(event) => update(index, { name: event.target.value })}
+                              sx={{ flex: 1 }}
+                            />
+                            <IconButton
+                              icon={<DeleteIcon />}
+                              size="small"
+                              onClick={() => field.onChange(holidays.filter((_, i) => i !== index))}
+                              tooltip={t('common.delete')}
+                            />
+                          </Box>
+                        ))}
+                      </Stack>
+                      <Box sx={{ mt: 1 }}>
+                        <Button
+                          variant="text"
+                          size="small"
+                          startIcon={<AddIcon />}
+                          onClick={() => field.onChange([...holidays, { date: getTodayKey(), name: '' }])}
+                        >
+                          {t('schedules.holidays.addDay')}
+                        </Button>
+                      </Box>
+                    </Box>
+                  );
+                }}
+              />
+            ),
+          },
+          {
+            name: 'blocked',
+            label: t('schedules.fields.blocked'),
+            type: 'switch',
+          },
+        ]}
+      />
+
+      <ConfirmDialog {...confirmDialog.dialogProps} />
+    </>
+  );
+});
+
+HolidayCalendarsDialog.displayName = 'HolidayCalendarsDialog';
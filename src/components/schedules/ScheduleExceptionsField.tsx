@@ -0,0 +1,143 @@
+/**
+ * Schedule Exceptions Field
+ * Editor of date-specific overrides of the weekly pattern: days or ranges off,
+ * and special opening windows for events. Bound to the `exceptions` form field.
+ */
+
+import { memo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Controller, type Control } from 'react-hook-form';
+import { Box, FormControlLabel, Stack, Switch, TextField, Typography } from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { Button, IconButton } from '../ui/atoms';
+import { TimeWindowsEditor } from './TimeWindowsEditor';
+import { getExceptionIssue, getTodayKey } from '../../utils/scheduleExceptionUtils';
+import { toTimeWindow, type TimeWindowFormValue } from '../../utils/timeWindowUtils';
+
+/** Exception as edited in the form, windows as HH:mm like the weekly pattern */
+interface ScheduleExceptionFormValue {
+  startDate: string;
+  endDate: string;
+  closed: boolean;
+  windows: TimeWindowFormValue[];
+  note?: string;
+}
+
+interface ScheduleExceptionsFieldProps {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  control: Control<any>;
+  timeOptions: string[];
+}
+
+export const ScheduleExceptionsField = memo(({ control, timeOptions }: ScheduleExceptionsFieldProps) => {
+  const { t } = useTranslation();
+
+  return (
+    <Controller
+      name="exceptions"
+      control={control}
+      render={({ field }) => {
+        const exceptions: ScheduleExceptionFormValue[] = field.value || [];
+
+        const update = (index: number, changes: Partial<ScheduleExceptionFormValue>) => {
+          field.onChange(exceptions.map((exception, i) => (i === index ? { ...exception, ...changes } : exception)));
+        };
+
+        const handleAdd = () => {
+          const today = getTodayKey();
+          field.onChange([
+            ...exceptions,
+            { startDate: today, endDate: today, closed: true, windows: [{ startTime: '09:00', endTime: '17:00' }], note: '' },
+          ]);
+        };
+
+        return (
+          <Box>
+            <Typography variant="subtitle2" sx={{ mb: 0.5 }}>
+              {t('schedules.exceptions.title')}
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              {t('schedules.exceptions.description')}
+            </Typography>
+
+            <Stack spacing={2}>
+              {exceptions.map((exception, index) => {
+                const issue = getExceptionIssue({ ...exception, windows: exception.windows.map(toTimeWindow) });
+
+                return (
+                  <Box key={index} sx={{ borderLeft: '3px solid', borderColor: 'divider', pl: 1.5 }}>
+                    <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, flexWrap: 'wrap' }}>
+                      <TextField
+                        type="date"
+                        size="small"
+                        label={t('schedules.exceptions.startDate')}
+                        value={exception.startDate}
+                        onChange={(event) => update(index, {
+                          startDate: event.target.value,
+                          // Keep single days single when the start moves past the end
+                          endDate: exception.endDate < event.target.value ? event.target.value : exception.endDate,
+                        })}
+                        error={issue === 'dateRequired' && !exception.startDate}
+                        slotProps={{ inputLabel: { shrink: true } }}
+                      />
+                      <TextField
+                        type="date"
+                        size="small"
+                        label={t('schedules.exceptions.endDate')}
+                        value={exception.endDate}
+                        onChange={(event) => update(index, { endDate: event.target.value })}
+                        error={issue === 'endBeforeStart' || (issue === 'dateRequired' && !exception.endDate)}
+                        helperText={issue === 'dateRequired' || issue === 'endBeforeStart' ? t(`schedules.exceptions.issues.${issue}`) : undefined}
+                        slotProps={{ inputLabel: { shrink: true } }}
+                      />
+                      <FormControlLabel
+                        control={
+                          <Switch
+                            checked={exception.closed}
+                            onChange={(event) => update(index, { closed: event.target.checked })}
+                          />
+                        }
+                        label={t('schedules.exceptions.closed')}
+                        sx={{ mt: 0.5 }}
+                      />
+                      <TextField
+                        size="small"
+                        label={t('schedules.exceptions.note')}
+                        value={exception.note || ''}
+                        onChange={(event) => update(index, { note: event.target.value })}
+                        sx={{ flex: 1, minWidth: 160 }}
+                      />
+                      <IconButton
+                        icon={<DeleteIcon />}
+                        size="small"
+                        onClick={() => field.onChange(exceptions.filter((_, i) => i !== index))}
+                        tooltip={t('common.delete')}
+                      />
+                    </Box>
+                    {!exception.closed && (
+                      <Box sx={{ mt: 1 }}>
+                        <TimeWindowsEditor
+                          value={exception.windows}
+                          onChange={(windows) => update(index, { windows })}
+                          timeOptions={timeOptions}
+                        />
+                      </Box>
+                    )}
+                  </Box>
+                );
+              })}
+            </Stack>
+
+            <Box sx={{ mt: 1 }}>
+              <Button variant="text" size="small" startIcon={<AddIcon />} onClick={handleAdd}>
+                {t('schedules.exceptions.add')}
+              </Button>
+            </Box>
+          </Box>
+        );
+      }}
+    />
+  );
+});
+
+ScheduleExceptionsField.displayName = 'ScheduleExceptionsField';
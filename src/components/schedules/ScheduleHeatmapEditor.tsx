@@ -0,0 +1,143 @@
+/**
+ * Schedule Heatmap Editor
+ * 7-day grid of the week schedule painted by dragging: starting on an empty cell paints,
+ * starting on a covered cell erases. Hourly or 15-minute cells; a partly covered hour is shown faded.
+ * The stroke is applied to `weekSchedule` on release, so the day rows and the grid stay in sync.
+ */
+
+import { memo, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Box, ToggleButton, ToggleButtonGroup, Typography, alpha, useTheme } from '@mui/material';
+import type { DaySchedule } from '../../types';
+import {
+  STEPS_PER_DAY,
+  STEPS_PER_HOUR,
+  cellsToWeekSchedule,
+  getCellIndex,
+  getWeekCells,
+} from '../../utils/scheduleGridUtils';
+
+type ScheduleGridResolution = 'hour' | 'quarter';
+
+interface ScheduleHeatmapEditorProps {
+  value: DaySchedule[];
+  onChange: (weekSchedule: DaySchedule[]) => void;
+  color: string;
+}
+
+const DAY_KEYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+interface Stroke {
+  paint: boolean;
+  cells: boolean[];
+}
+
+export const ScheduleHeatmapEditor = memo(({ value, onChange, color }: ScheduleHeatmapEditorProps) => {
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const [resolution, setResolution] = useState<ScheduleGridResolution>('hour');
+  const [stroke, setStroke] = useState<Stroke | null>(null);
+
+  const savedCells = useMemo(() => getWeekCells(value), [value]);
+  const cells = stroke?.cells ?? savedCells;
+  const stepsPerCell = resolution === 'hour' ? STEPS_PER_HOUR : 1;
+  const columns = STEPS_PER_DAY / stepsPerCell;
+
+  // Finish the stroke wherever the pointer is released
+  useEffect(() => {
+    if (!stroke) return;
+    const handleRelease = () => {
+      onChange(cellsToWeekSchedule(stroke.cells));
+      setStroke(null);
+    };
+    window.addEventListener('mouseup', handleRelease);
+    return () => window.removeEventListener('mouseup', handleRelease);
+  }, [stroke, onChange]);
+
+  const getCoverage = (source: boolean[], dayIndex: number, column: number) => {
+    const first = getCellIndex(dayIndex, column * stepsPerCell);
+    let covered = 0;
+    for (let step = first; step < first + stepsPerCell; step++) {
+      if (source[step]) covered += 1;
+    }
+    return covered / stepsPerCell;
+  };
+
+  const applyCell = (current: Stroke, dayIndex: number, column: number): Stroke => {
+    const next = [...current.cells];
+    const first = getCellIndex(dayIndex, column * stepsPerCell);
+    for (let step = first; step < first + stepsPerCell; step++) next[step] = current.paint;
+    return { ...current, cells: next };
+  };
+
+  const handleMouseDown = (event: React.MouseEvent, dayIndex: number, column: number) => {
+    event.preventDefault();
+    const paint = getCoverage(cells, dayIndex, column) < 1;
+    setStroke(applyCell({ paint, cells }, dayIndex, column));
+  };
+
+  const handleMouseEnter = (dayIndex: number, column: number) => {
+    setStroke((current) => (current ? applyCell(current, dayIndex, column) : current));
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1, gap: 1, flexWrap: 'wrap' }}>
+        <Typography variant="body2" color="text.secondary">
+          {t('schedules.heatmap.hint')}
+        </Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={resolution}
+          onChange={(_, next: ScheduleGridResolution | null) => next && setResolution(next)}
+        >
+          <ToggleButton value="hour">{t('schedules.heatmap.resolutions.hour')}</ToggleButton>
+          <ToggleButton value="quarter">{t('schedules.heatmap.resolutions.quarter')}</ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+
+      <Box sx={{ overflowX: 'auto', userSelect: 'none' }}>
+        <Box sx={{ display: 'grid', gridTemplateColumns: `40px repeat(${columns}, minmax(${resolution === 'hour' ? 18 : 6}px, 1fr))`, minWidth: resolution === 'hour' ? 480 : 640 }}>
+          <Box />
+          {Array.from({ length: columns }, (_, column) => {
+            const hour = (column * stepsPerCell) / STEPS_PER_HOUR;
+            return (
+              <Typography key={column} variant="caption" color="text.secondary" sx={{ fontSize: 10, lineHeight: 1.6 }}>
+                {Number.isInteger(hour) && hour % 3 === 0 ? hour : ''}
+              </Typography>
+            );
+          })}
+
+          {DAY_KEYS.map((day, dayIndex) => (
+            <Box key={day} sx={{ display: 'contents' }}>
+              <Typography variant="caption" sx={{ lineHeight: '20px', fontWeight: 500 }}>
+                {t(`schedules.daysShort.${day}`)}
+              </Typography>
+              {Array.from({ length: columns }, (_, column) => {
+                const coverage = getCoverage(cells, dayIndex, column);
+                const hourStart = (column * stepsPerCell) % STEPS_PER_HOUR === 0;
+                return (
+                  <div
+                    key={column}
+                    onMouseDown={(event) => handleMouseDown(event, dayIndex, column)}
+                    onMouseEnter={() => handleMouseEnter(dayIndex, column)}
+                    style={{
+                      height: 20,
+                      cursor: 'pointer',
+                      backgroundColor: coverage === 0 ? theme.palette.action.hover : alpha(color, coverage === 1 ? 1 : 0.45),
+                      borderLeft: `1px solid ${hourStart ? theme.palette.background.paper : 'transparent'}`,
+                      borderBottom: `1px solid ${theme.palette.background.paper}`,
+                    }}
+                  />
+                );
+              })}
+            </Box>
+          ))}
+        </Box>
+      </Box>
+    </Box>
+  );
+});
+
+ScheduleHeatmapEditor.displayName = 'ScheduleHeatmapEditor';
@@ -0,0 +1,125 @@
+/**
+ * Schedule Month View
+ * Calendar month of a schedule with the hours that actually apply on each day:
+ * date exceptions override holidays of the linked calendars, which override the weekly pattern.
+ * Overnight windows are listed on the day they start.
+ */
+
+import { memo, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Box, Tooltip, Typography } from '@mui/material';
+import { ChevronLeft as ChevronLeftIcon, ChevronRight as ChevronRightIcon } from '@mui/icons-material';
+import { IconButton } from '../ui/atoms';
+import type { HolidayCalendar, Schedule } from '../../types';
+import {
+  getEffectiveHours,
+  getMonthWeeks,
+  getTodayKey,
+  type EffectiveHoursSource,
+} from '../../utils/scheduleExceptionUtils';
+import { formatTimeWindow } from '../../utils/timeWindowUtils';
+
+interface ScheduleMonthViewProps {
+  schedule: Schedule;
+  calendars: HolidayCalendar[];
+}
+
+const DAY_KEYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+const SOURCE_BACKGROUND: Record<EffectiveHoursSource, string> = {
+  exception: 'warning.light',
+  holiday: 'error.light',
+  week: 'transparent',
+};
+
+export const ScheduleMonthView = memo(({ schedule, calendars }: ScheduleMonthViewProps) => {
+  const { t, i18n } = useTranslation();
+  const today = getTodayKey();
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() };
+  });
+
+  const weeks = useMemo(() => getMonthWeeks(month.year, month.month), [month]);
+  const title = new Date(month.year, month.month, 1).toLocaleDateString(i18n.language, { month: 'long', year: 'numeric' });
+
+  const shiftMonth = (delta: number) => {
+    setMonth((current) => {
+      const next = new Date(current.year, current.month + delta, 1);
+      return { year: next.getFullYear(), month: next.getMonth() };
+    });
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <IconButton icon={<ChevronLeftIcon />} size="small" onClick={() => shiftMonth(-1)} tooltip={t('schedules.monthView.previous')} />
+        <Typography variant="subtitle1" sx={{ textTransform: 'capitalize' }}>
+          {title}
+        </Typography>
+        <IconButton icon={<ChevronRightIcon />} size="small" onClick={() => shiftMonth(1)} tooltip={t('schedules.monthView.next')} />
+      </Box>
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gap: 0.5 }}>
+        {DAY_KEYS.map((day) => (
+          <Typography key={day} variant="caption" color="text.secondary" sx={{ textAlign: 'center', fontWeight: 500 }}>
+            {t(`schedules.daysShort.${day}`)}
+          </Typography>
+        ))}
+
+        {weeks.flat().map((date, index) => {
+          if (!date) return <Box key={`empty-${index}`} />;
+
+          const hours = getEffectiveHours(schedule, date, calendars);
+          const tooltip = hours.source === 'week' ? '' : [t(`schedules.monthView.sources.${hours.source}`), hours.label].filter(Boolean).join(': ');
+
+          return (
+            <Tooltip key={date} title={tooltip} disableHoverListener={!tooltip}>
+              <Box
+                sx={{
+                  minHeight: 56,
+                  p: 0.5,
+                  borderRadius: 1,
+                  border: '1px solid',
+                  borderColor: date === today ? 'primary.main' : 'divider',
+                  bgcolor: SOURCE_BACKGROUND[hours.source],
+                }}
+              >
+                <Typography variant="caption" sx={{ display: 'block', fontWeight: 500 }}>
+                  {Number(date.slice(8))}
+                </Typography>
+                {hours.windows.length > 0 ? (
+                  hours.windows.map((window) => (
+                    <Box key={window.startTime} sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                      <Box sx={{ width: 6, height: 6, borderRadius: '50%', bgcolor: schedule.color, flexShrink: 0 }} />
+                      <Typography variant="caption" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+                        {formatTimeWindow(window)}
+                      </Typography>
+                    </Box>
+                  ))
+                ) : (
+                  <Typography variant="caption" color="text.disabled">
+                    {t('schedules.monthView.off')}
+                  </Typography>
+                )}
+              </Box>
+            </Tooltip>
+          );
+        })}
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 2, mt: 1, flexWrap: 'wrap' }}>
+        {(['exception', 'holiday'] as const).map((source) => (
+          <Box key={source} sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+            <Box sx={{ width: 12, height: 12, borderRadius: 0.5, bgcolor: SOURCE_BACKGROUND[source] }} />
+            <Typography variant="caption" color="text.secondary">
+              {t(`schedules.monthView.sources.${source}`)}
+            </Typography>
+          </Box>
+        ))}
+      </Box>
+    </Box>
+  );
+});
+
+ScheduleMonthView.displayName = 'ScheduleMonthView';
@@ -0,0 +1,152 @@
+/**
+ * Schedule Overlay View
+ * Several week schedules stacked on one 7×24 grid, one color stripe per schedule.
+ * Hours nobody covers are marked as gaps, hours covered by two or more schedules as overlaps;
+ * the totals are counted in 15-minute steps.
+ */
+
+import { memo, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Box, Chip, Tooltip, Typography, alpha, useTheme } from '@mui/material';
+import { useMultilingualName } from '../../hooks';
+import type { Schedule } from '../../types';
+import {
+  STEPS_PER_DAY,
+  STEPS_PER_HOUR,
+  getCellIndex,
+  getCoverageCounts,
+  getWeekCells,
+} from '../../utils/scheduleGridUtils';
+
+interface ScheduleOverlayViewProps {
+  schedules: Schedule[];
+}
+
+const DAY_KEYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+const HOURS_PER_DAY = STEPS_PER_DAY / STEPS_PER_HOUR;
+
+export const ScheduleOverlayView = memo(({ schedules }: ScheduleOverlayViewProps) => {
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const { getDisplayName } = useMultilingualName();
+  const [hiddenIds, setHiddenIds] = useState<string[]>([]);
+
+  const visible = useMemo(
+    () => schedules.filter((schedule) => !hiddenIds.includes(schedule.id)),
+    [schedules, hiddenIds]
+  );
+  const cellsBySchedule = useMemo(() => visible.map((schedule) => getWeekCells(schedule.weekSchedule)), [visible]);
+  const counts = useMemo(() => getCoverageCounts(visible.map((schedule) => schedule.weekSchedule)), [visible]);
+
+  const gapHours = counts.filter((count) => count === 0).length / STEPS_PER_HOUR;
+  const overlapHours = counts.filter((count) => count > 1).length / STEPS_PER_HOUR;
+
+  const toggleSchedule = (id: string) => {
+    setHiddenIds((current) => (current.includes(id) ? current.filter((hiddenId) => hiddenId !== id) : [...current, id]));
+  };
+
+  const getHourSteps = (dayIndex: number, hour: number) => {
+    const first = getCellIndex(dayIndex, hour * STEPS_PER_HOUR);
+    return Array.from({ length: STEPS_PER_HOUR }, (_, offset) => first + offset);
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+        {schedules.map((schedule) => {
+          const shown = !hiddenIds.includes(schedule.id);
+          return (
+            <Chip
+              key={schedule.id}
+              label={getDisplayName(schedule.name)}
+              onClick={() => toggleSchedule(schedule.id)}
+              variant={shown ? 'filled' : 'outlined'}
+              icon={<Box component="span" sx={{ width: 10, height: 10, borderRadius: '50%', bgcolor: schedule.color, opacity: shown ? 1 : 0.3 }} />}
+            />
+          );
+        })}
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 3, mb: 1, flexWrap: 'wrap' }}>
+        <Typography variant="body2" color="text.secondary">
+          {t('schedules.overlay.shown', { count: visible.length })}
+        </Typography>
+        <Typography variant="body2" color={gapHours > 0 ? 'error' : 'text.secondary'}>
+          {t('schedules.overlay.gapHours', { hours: gapHours })}
+        </Typography>
+        <Typography variant="body2" color={overlapHours > 0 ? 'warning.main' : 'text.secondary'}>
+          {t('schedules.overlay.overlapHours', { hours: overlapHours })}
+        </Typography>
+      </Box>
+
+      <Box sx={{ overflowX: 'auto' }}>
+        <Box sx={{ display: 'grid', gridTemplateColumns: `40px repeat(${HOURS_PER_DAY}, minmax(24px, 1fr))`, gap: '2px', minWidth: 720 }}>
+          <Box />
+          {Array.from({ length: HOURS_PER_DAY }, (_, hour) => (
+            <Typography key={hour} variant="caption" color="text.secondary" sx={{ fontSize: 10, textAlign: 'center' }}>
+              {hour}
+            </Typography>
+          ))}
+
+          {DAY_KEYS.map((day, dayIndex) => (
+            <Box key={day} sx={{ display: 'contents' }}>
+              <Typography variant="caption" sx={{ lineHeight: '28px', fontWeight: 500 }}>
+                {t(`schedules.daysShort.${day}`)}
+              </Typography>
+              {Array.from({ length: HOURS_PER_DAY }, (_, hour) => {
+                const steps = getHourSteps(dayIndex, hour);
+                const hourCounts = steps.map((step) => counts[step]);
+                const gap = Math.min(...hourCounts) === 0;
+                const overlap = Math.max(...hourCounts) > 1;
+                const covering = visible.filter((_, index) => steps.some((step) => cellsBySchedule[index][step]));
+                const tooltip = [
+                  `${t(`schedules.daysShort.${day}`)} ${String(hour).padStart(2, '0')}:00`,
+                  ...covering.map((schedule) => getDisplayName(schedule.name)),
+                  overlap ? t('schedules.overlay.legend.overlap') : gap ? t('schedules.overlay.legend.gap') : '',
+                ].filter(Boolean).join('\n');
+
+                return (
+                  <Tooltip key={hour} title={<Box sx={{ whiteSpace: 'pre-line' }}>{tooltip}</Box>}>
+                    <Box
+                      sx={{
+                        height: 28,
+                        display: 'flex',
+                        flexDirection: 'column',
+                        borderRadius: 0.5,
+                        overflow: 'hidden',
+                        bgcolor: gap ? alpha(theme.palette.error.main, 0.12) : 'action.hover',
+                        outline: overlap ? `2px solid ${theme.palette.warning.main}` : 'none',
+                        outlineOffset: -2,
+                      }}
+                    >
+                      {covering.map((schedule) => (
+                        <Box key={schedule.id} sx={{ flex: 1, bgcolor: schedule.color }} />
+                      ))}
+                    </Box>
+                  </Tooltip>
+                );
+              })}
+            </Box>
+          ))}
+        </Box>
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 2, mt: 1, flexWrap: 'wrap' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+          <Box sx={{ width: 12, height: 12, borderRadius: 0.5, bgcolor: alpha(theme.palette.error.main, 0.12) }} />
+          <Typography variant="caption" color="text.secondary">
+            {t('schedules.overlay.legend.gap')}
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+          <Box sx={{ width: 12, height: 12, borderRadius: 0.5, border: '2px solid', borderColor: 'warning.main' }} />
+          <Typography variant="caption" color="text.secondary">
+            {t('schedules.overlay.legend.overlap')}
+          </Typography>
+        </Box>
+      </Box>
+    </Box>
+  );
+});
+
+ScheduleOverlayView.displayName = 'ScheduleOverlayView';
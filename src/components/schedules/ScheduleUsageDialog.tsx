@@ -0,0 +1,288 @@
+/**
+ * Schedule Usage Dialog
+ * "Where used" report of a schedule: campaigns, restaurants and slots whose targets reference it.
+ * The schedule can be replaced with another one in all of them; every campaign is refetched
+ * and saved with its own hash, like the campaign bulk edit. Shown before blocking and deleting,
+ * where deleting is only allowed once nothing references the schedule.
+ */
+
+import { memo, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { SwapHoriz as SwapHorizIcon } from '@mui/icons-material';
+import { Button, Select } from '../ui/atoms';
+import { campaignsApi, restaurantsApi, slotsApi } from '../../api';
+import { isApiError } from '../../api/errors';
+import { useFetch, useMultilingualName } from '../../hooks';
+import { logger } from '../../utils/logger';
+import { applyBulkChanges, getBulkChangeList, type CampaignBulkChanges } from '../../utils/campaignBulkUtils';
+import { getScheduleUsage, getScheduleUsageTotals } from '../../utils/scheduleUsageUtils';
+import type { Schedule } from '../../types';
+
+export type ScheduleUsageMode = 'report' | 'block' | 'delete';
+
+type ReplaceStatus = 'pending' | 'success' | 'skipped' | 'conflict' | 'error';
+
+interface ReplaceResult {
+  status: ReplaceStatus;
+  message?: string;
+}
+
+interface ScheduleUsageDialogProps {
+  open: boolean;
+  schedule: Schedule | null;
+  mode: ScheduleUsageMode;
+  /** Schedules offered as the replacement */
+  schedules: Schedule[];
+  onClose: () => void;
+  /** Blocks or deletes the schedule, depending on the mode */
+  onConfirm: () => Promise<void> | void;
+}
+
+const STATUS_COLORS = {
+  pending: 'default',
+  success: 'success',
+  skipped: 'default',
+  conflict: 'warning',
+  error: 'error',
+} as const;
+
+export const ScheduleUsageDialog = memo(({ open, schedule, mode, schedules, onClose, onConfirm }: ScheduleUsageDialogProps) => {
+  const { t } = useTranslation();
+  const { getDisplayName } = useMultilingualName();
+  const [replacementId, setReplacementId] = useState('');
+  const [results, setResults] = useState<Record<string, ReplaceResult>>({});
+  const [running, setRunning] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+
+  const scheduleId = schedule ? String(schedule.id) : '';
+
+  const { data, loading, refetch } = useFetch(async () => {
+    if (!open || !scheduleId) return null;
+    const [campaigns, restaurants, slots] = await Promise.all([
+      campaignsApi.list(),
+      restaurantsApi.list(),
+      slotsApi.list(),
+    ]);
+    return { campaigns, restaurants, slots };
+  }, [open, scheduleId]);
+
+  const usage = useMemo(() => getScheduleUsage(scheduleId, data?.campaigns || []), [scheduleId, data]);
+  const totals = getScheduleUsageTotals(usage);
+  const used = usage.length > 0;
+
+  const getRestaurantName = (id: string) => {
+    const restaurant = data?.restaurants.find((item) => String(item.id) === String(id));
+    return restaurant ? getDisplayName(restaurant.name) : `#${id}`;
+  };
+
+  const getSlotName = (id: string) => {
+    const slot = data?.slots.find((item) => String(item.id) === String(id));
+    return slot ? getDisplayName(slot.name) : `#${id}`;
+  };
+
+  const replacementOptions = schedules
+    .filter((item) => String(item.id) !== scheduleId)
+    .map((item) => ({
+      value: String(item.id),
+      label: item.blocked ? `${getDisplayName(item.name)} (${t('common.blocked')})` : getDisplayName(item.name),
+    }));
+
+  const handleClose = () => {
+    setReplacementId('');
+    setResults({});
+    onClose();
+  };
+
+  const handleReplace = async () => {
+    const ids = usage.map(({ campaign }) => String(campaign.id));
+    const changes: CampaignBulkChanges = {
+      targetsAction: { type: 'replaceSchedule', scheduleId, replacementId },
+    };
+    setRunning(true);
+    setResults(Object.fromEntries(ids.map((id) => [id, { status: 'pending' as const }])));
+
+    // Sequential on purpose: every campaign gets its own result and the API is not flooded
+    for (const id of ids) {
+      let result: ReplaceResult;
+      try {
+        const latest = await campaignsApi.getById(id);
+        if (getBulkChangeList(latest, changes).length === 0) {
+          result = { status: 'skipped' };
+        } else {
+          await campaignsApi.update(id, { ...applyBulkChanges(latest, changes), hash: latest.hash || '' });
+          result = { status: 'success' };
+        }
+      } catch (error) {
+        if (isApiError(error) && error.isObjectChanged()) {
+          // Expected when someone else saved the campaign meanwhile, reported in the results
+          logger.warn('Campaign was changed by another user', { campaignId: id, scheduleId });
+          result = { status: 'conflict', message: t('campaigns.bulk.conflict') };
+        } else {
+          logger.error('Schedule replacement failed', error as Error, { entityType: 'campaign', campaignId: id, scheduleId });
+          result = { status: 'error', message: isApiError(error) ? error.getUserMessage() : t('common.error.saveFailed') };
+        }
+      }
+      setResults((prev) => ({ ...prev, [id]: result }));
+    }
+
+    setRunning(false);
+    await refetch();
+  };
+
+  const handleConfirm = async () => {
+    setConfirming(true);
+    try {
+      await onConfirm();
+    } finally {
+      setConfirming(false);
+    }
+  };
+
+  const resultEntries = Object.entries(results);
+
+  return (
+    <Dialog
+      open={open}
+      onClose={running ? undefined : handleClose}
+      maxWidth="md"
+      fullWidth
+      container={() => document.getElementById('modal-root')}
+    >
+      <DialogTitle>
+        {t(`schedules.usage.titles.${mode}`, { name: schedule ? getDisplayName(schedule.name) : '' })}
+      </DialogTitle>
+      <DialogContent>
+        {loading && !data ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            {used ? (
+              <Alert severity={mode === 'report' ? 'info' : 'warning'}>
+                {t('schedules.usage.summary', { ...totals })}
+                {mode !== 'report' && ` ${t(`schedules.usage.${mode}Warning`)}`}
+              </Alert>
+            ) : (
+              <Alert severity="success">{t('schedules.usage.unused')}</Alert>
+            )}
+
+            {used && (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{t('schedules.usage.campaign')}</TableCell>
+                    <TableCell>{t('schedules.usage.restaurants')}</TableCell>
+                    <TableCell>{t('schedules.usage.slots')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {usage.map(({ campaign, targets }) => (
+                    <TableRow key={campaign.id}>
+                      <TableCell sx={{ verticalAlign: 'top' }}>
+                        <Typography variant="body2">{getDisplayName(campaign.name)}</Typography>
+                        {campaign.blocked && <Chip size="small" label={t('common.blocked')} sx={{ mt: 0.5 }} />}
+                      </TableCell>
+                      <TableCell sx={{ verticalAlign: 'top' }}>
+                        {targets.map((target) => (
+                          <Typography key={target.restaurantId} variant="body2">
+                            {getRestaurantName(target.restaurantId)}
+                          </Typography>
+                        ))}
+                      </TableCell>
+                      <TableCell sx={{ verticalAlign: 'top' }}>
+                        {targets.map((target) => (
+                          <Typography key={target.restaurantId} variant="body2" color="text.secondary">
+                            {target.slotIds.map(getSlotName).join(', ')}
+                          </Typography>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {used && (
+              <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 2 }}>
+                <Box sx={{ flex: 1 }}>
+                  <Select
+                    name="replacementId"
+                    label={t('schedules.usage.replaceWith')}
+                    value={replacementId}
+                    onChange={(value) => setReplacementId(String(value))}
+                    options={replacementOptions}
+                    disabled={running}
+                    fullWidth
+                  />
+                </Box>
+                <Button
+                  variant="outlined"
+                  startIcon={<SwapHorizIcon />}
+                  onClick={handleReplace}
+                  disabled={!replacementId || running}
+                >
+                  {t('schedules.usage.replace', { count: totals.campaigns })}
+                </Button>
+              </Box>
+            )}
+
+            {resultEntries.length > 0 && (
+              <Stack spacing={0.5}>
+                <Typography variant="subtitle2">{t('schedules.usage.results')}</Typography>
+                {resultEntries.map(([id, result]) => {
+                  const campaign = data?.campaigns.find((item) => String(item.id) === id);
+                  return (
+                    <Box key={id} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <Chip size="small" color={STATUS_COLORS[result.status]} label={t(`campaigns.bulk.statuses.${result.status}`)} />
+                      <Typography variant="body2">{campaign ? getDisplayName(campaign.name) : `#${id}`}</Typography>
+                      {result.message && (
+                        <Typography variant="body2" color="text.secondary">
+                          {result.message}
+                        </Typography>
+                      )}
+                    </Box>
+                  );
+                })}
+              </Stack>
+            )}
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button variant="text" color="secondary" onClick={handleClose} disabled={running}>
+          {t('common.close')}
+        </Button>
+        {mode === 'block' && (
+          <Button variant="contained" color="warning" onClick={handleConfirm} disabled={!data || running || confirming}>
+            {used ? t('schedules.usage.blockAnyway') : t('schedules.usage.block')}
+          </Button>
+        )}
+        {mode === 'delete' && (
+          <Button variant="contained" color="error" onClick={handleConfirm} disabled={!data || used || running || confirming}>
+            {t('common.delete')}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+});
+
+ScheduleUsageDialog.displayName = 'ScheduleUsageDialog';
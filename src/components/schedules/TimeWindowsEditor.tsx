@@ -0,0 +1,119 @@
+/**
+ * Time Windows Editor
+ * Opening windows of one day in 15-minute steps, e.g. lunch 12:00–15:00 plus dinner 19:00–23:30.
+ * An end at or before the start runs past midnight and is marked as ending the next day.
+ */
+
+import { memo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Box, Chip, MenuItem, Stack, TextField, Typography } from '@mui/material';
+import { Add as AddIcon, Close as CloseIcon } from '@mui/icons-material';
+import { Button, IconButton } from '../ui/atoms';
+import {
+  getTimeWindowsIssue,
+  getWindowsMinutes,
+  isOvernight,
+  minutesToTimeString,
+  toTimeWindow,
+  type TimeWindowFormValue,
+} from '../../utils/timeWindowUtils';
+
+interface TimeWindowsEditorProps {
+  value: TimeWindowFormValue[];
+  /** Windows of the next day if it is open, checked against the overnight windows */
+  nextDayWindows?: TimeWindowFormValue[];
+  onChange: (windows: TimeWindowFormValue[]) => void;
+  timeOptions: string[];
+}
+
+/** An hour-long window an hour after the last one, or a regular working day */
+const getNextWindow = (windows: TimeWindowFormValue[]): TimeWindowFormValue => {
+  const last = windows[windows.length - 1];
+  if (!last) return { startTime: '09:00', endTime: '17:00' };
+  const start = toTimeWindow(last).endTime + 60;
+  return { startTime: minutesToTimeString(start), endTime: minutesToTimeString(start + 60) };
+};
+
+export const TimeWindowsEditor = memo(({ value, nextDayWindows = [], onChange, timeOptions }: TimeWindowsEditorProps) => {
+  const { t } = useTranslation();
+  const windows = value.map(toTimeWindow);
+  const issue = windows.length === 0 ? 'empty' : getTimeWindowsIssue(windows, nextDayWindows.map(toTimeWindow));
+
+  const formatDuration = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    return rest === 0
+      ? t('schedules.windows.durationHours', { hours })
+      : t('schedules.windows.durationHoursMinutes', { hours, minutes: rest });
+  };
+
+  const update = (index: number, changes: Partial<TimeWindowFormValue>) => {
+    onChange(value.map((window, i) => (i === index ? { ...window, ...changes } : window)));
+  };
+
+  const renderSelect = (index: number, field: keyof TimeWindowFormValue) => (
+    <TextField
+      select
+      size="small"
+      value={value[index][field]}
+      onChange={(event) => update(index, { [field]: event.target.value })}
+      error={issue === 'overlap' || (issue === 'overlapNextDay' && field === 'endTime')}
+      sx={{ width: 100 }}
+      slotProps={{ htmlInput: { 'aria-label': t(`schedules.windows.${field}`) } }}
+    >
+      {timeOptions.map((option) => (
+        <MenuItem key={option} value={option}>
+          {option}
+        </MenuItem>
+      ))}
+    </TextField>
+  );
+
+  return (
+    <Box>
+      <Stack spacing={1}>
+        {value.map((_, index) => (
+          <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+            {renderSelect(index, 'startTime')}
+            <Typography variant="body2" color="text.secondary">–</Typography>
+            {renderSelect(index, 'endTime')}
+            <Typography
+              variant="body2"
+              sx={{ bgcolor: 'action.hover', px: 1.5, py: 0.5, borderRadius: 10, textAlign: 'center' }}
+            >
+              {formatDuration(getWindowsMinutes([windows[index]]))}
+            </Typography>
+            {isOvernight(windows[index]) && (
+              <Chip label={t('schedules.windows.nextDay')} size="small" color="info" variant="outlined" />
+            )}
+            <IconButton
+              icon={<CloseIcon fontSize="small" />}
+              size="small"
+              onClick={() => onChange(value.filter((__, i) => i !== index))}
+              tooltip={t('schedules.windows.remove')}
+            />
+          </Box>
+        ))}
+      </Stack>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: value.length > 0 ? 1 : 0 }}>
+        <Button variant="text" size="small" startIcon={<AddIcon />} onClick={() => onChange([...value, getNextWindow(value)])}>
+          {t('schedules.windows.add')}
+        </Button>
+        {windows.length > 1 && (
+          <Typography variant="caption" color="text.secondary">
+            {t('schedules.windows.total', { duration: formatDuration(getWindowsMinutes(windows)) })}
+          </Typography>
+        )}
+      </Box>
+
+      {issue && (
+        <Typography variant="caption" color="error" sx={{ display: 'block', mt: 0.5 }}>
+          {t(`schedules.windows.issues.${issue}`)}
+        </Typography>
+      )}
+    </Box>
+  );
+});
+
+TimeWindowsEditor.displayName = 'TimeWindowsEditor';
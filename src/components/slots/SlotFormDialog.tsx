@@ -24,11 +24,13 @@ import { useSnackbar } from 'notistack';
 import { ErrorBoundary } from '../common/ErrorBoundary';
 import { slotsApi } from '../../api/endpoints';
 import { logger } from '../../utils/logger';
+import { isApiError } from '../../api/errors';
+import { useConflictResolution, type ConflictLatestVersion } from '../../hooks';
 import type { SlotFormData } from '../../types';
 
 // Reusable components
 import Button from '../ui/atoms/Button';
-import { FormField, MultilingualNameField, SwitchField } from '../ui/molecules';
+import { FormField, MultilingualNameField, SwitchField, ConflictResolutionDialog } from '../ui/molecules';
 
 interface SlotFormDialogProps {
   open: boolean;
@@ -54,6 +56,18 @@ const createValidationSchema = (t: (key: string) => string) => {
   });
 };
 
+type SlotFormValues = z.infer<ReturnType<typeof createValidationSchema>>;
+
+const slotToFormValues = (slot: SlotFormData): SlotFormValues => ({
+  name: slot.name,
+  type: slot.type,
+  rotationPeriod: slot.rotationPeriod,
+  refreshTTL: slot.refreshTTL,
+  noAdjacentSameAdvertiser: slot.noAdjacentSameAdvertiser,
+  isBlocked: slot.isBlocked,
+  description: slot.description || '',
+});
+
 export const SlotFormDialog = memo(({
   open,
   slotId,
@@ -66,6 +80,14 @@ export const SlotFormDialog = memo(({
   const isEditMode = slotId !== undefined;
 
   const [error, setError] = useState<string | null>(null);
+  const conflictDialog = useConflictResolution<SlotFormValues>();
+  const openConflict = conflictDialog.open;
+  // Server version the edits are based on after a resolved conflict, only for the slot it was resolved on
+  const [conflictBase, setConflictBase] = useState<{
+    slotData: SlotFormData;
+    latest: ConflictLatestVersion<SlotFormValues>;
+  } | null>(null);
+  const conflictLatest = conflictBase && conflictBase.slotData === slotData ? conflictBase.latest : null;
 
   const validationSchema = useMemo(() => createValidationSchema(t), [t]);
   type FormData = z.infer<typeof validationSchema>;
@@ -119,15 +141,7 @@ export const SlotFormDialog = memo(({
   // Update form when slot data is loaded
   useEffect(() => {
     if (slotData && isEditMode) {
-      reset({
-        name: slotData.name,
-        type: slotData.type,
-        rotationPeriod: slotData.rotationPeriod,
-        refreshTTL: slotData.refreshTTL,
-        noAdjacentSameAdvertiser: slotData.noAdjacentSameAdvertiser,
-        isBlocked: slotData.isBlocked,
-        description: slotData.description || '',
-      });
+      reset(slotToFormValues(slotData));
     }
   }, [slotData, isEditMode, reset]);
 
@@ -146,8 +160,9 @@ export const SlotFormDialog = memo(({
         };
 
         // Add hash for updates (required by backend)
-        if (isEditMode && slotData?.hash) {
-          formData.hash = slotData.hash;
+        const hash = conflictLatest?.hash ?? slotData?.hash;
+        if (isEditMode && hash) {
+          formData.hash = hash;
           formData.id = slotId;
         }
 
@@ -162,13 +177,31 @@ export const SlotFormDialog = memo(({
         onSave();
         onClose();
       } catch (err) {
+        if (isApiError(err) && err.isObjectChanged() && slotId && slotData) {
+          logger.warn('Slot was changed by another user', { slotId });
+          void openConflict({
+            original: conflictLatest?.values ?? slotToFormValues(slotData),
+            mine: data,
+            loadLatest: async () => {
+              const latest = await slotsApi.getById(slotId);
+              return { values: slotToFormValues(latest), hash: latest.hash || '' };
+            },
+            onResolve: (values, latest) => {
+              // The next save uses the merged values and the fresh hash
+              setConflictBase({ slotData, latest });
+              reset(values);
+            },
+          });
+          return;
+        }
+
         const errorMessage = err instanceof Error ? err.message : t('common.error');
         setError(errorMessage);
         enqueueSnackbar(errorMessage, { variant: 'error' });
         logger.error('Error saving slot', err as Error, { slotId });
       }
     },
-    [isEditMode, slotId, slotData, onSave, onClose, t, enqueueSnackbar]
+    [isEditMode, slotId, slotData, conflictLatest, onSave, onClose, t, enqueueSnackbar, openConflict, reset]
   );
 
   return (
@@ -348,6 +381,19 @@ export const SlotFormDialog = memo(({
         </Button>
       </DialogActions>
     </Dialog>
+
+    <ConflictResolutionDialog
+      {...conflictDialog.dialogProps}
+      fieldLabels={{
+        name: t('dictionaries.name'),
+        type: t('slots.fields.type'),
+        rotationPeriod: t('slots.fields.rotationPeriod'),
+        refreshTTL: t('slots.fields.refreshTTL'),
+        noAdjacentSameAdvertiser: t('slots.fields.noAdjacentSameAdvertiser'),
+        isBlocked: t('common.blocked'),
+        description: t('dictionaries.description'),
+      }}
+    />
     </ErrorBoundary>
   );
 });
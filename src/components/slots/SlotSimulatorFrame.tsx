@@ -0,0 +1,137 @@
+/**
+ * Slot Simulator Frame
+ * Mock restaurant menu screen on a tablet with the ad area of the slot type.
+ * The shown creative fades in on every rotation step; an empty area means nothing is served.
+ */
+
+import { memo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Box, Fade, Typography } from '@mui/material';
+import type { Creative, SlotType } from '../../types';
+import { getCreativeUrlMediaKind } from '../../utils/creativeUploadUtils';
+import {
+  SLOT_AD_AREAS,
+  TABLET_HEADER_HEIGHT,
+  TABLET_SCREENS,
+  getFitScale,
+  type TabletOrientation,
+} from '../../utils/creativePreviewUtils';
+
+interface SlotSimulatorFrameProps {
+  slotType: SlotType;
+  orientation: TabletOrientation;
+  creative: Creative | null;
+  /** Changes on every rotation step, so a repeated creative still fades in again */
+  stepKey: string;
+  title: string;
+  /** Widest the tablet is drawn, it is scaled down to fit */
+  availableWidth: number;
+}
+
+const BEZEL = 24;
+const MENU_CARD = { width: 280, height: 200, gap: 24 };
+
+const FILL_STYLE: React.CSSProperties = {
+  position: 'absolute',
+  top: 0,
+  left: 0,
+  width: '100%',
+  height: '100%',
+  border: 'none',
+  display: 'block',
+};
+
+const renderCreative = (creative: Creative, title: string) => {
+  const mediaKind = getCreativeUrlMediaKind(creative.dataUrl);
+  if (mediaKind === 'image') return <img src={creative.dataUrl} alt={title} style={{ ...FILL_STYLE, objectFit: 'contain' }} />;
+  if (mediaKind === 'video') {
+    return <video src={creative.dataUrl} title={title} style={{ ...FILL_STYLE, objectFit: 'contain' }} muted loop autoPlay playsInline />;
+  }
+  return <iframe src={creative.dataUrl} title={title} sandbox="allow-scripts" tabIndex={-1} style={FILL_STYLE} />;
+};
+
+export const SlotSimulatorFrame = memo(({
+  slotType,
+  orientation,
+  creative,
+  stepKey,
+  title,
+  availableWidth,
+}: SlotSimulatorFrameProps) => {
+  const { t } = useTranslation();
+  const screen = TABLET_SCREENS[orientation];
+  const area = SLOT_AD_AREAS[slotType][orientation];
+  const width = screen.width + BEZEL * 2;
+  const height = screen.height + BEZEL * 2;
+  const scale = getFitScale(width, availableWidth);
+  const columns = Math.floor((screen.width - MENU_CARD.gap) / (MENU_CARD.width + MENU_CARD.gap));
+  const rows = Math.floor((screen.height - TABLET_HEADER_HEIGHT - MENU_CARD.gap) / (MENU_CARD.height + MENU_CARD.gap));
+
+  return (
+    <Box sx={{ width: width * scale, height: height * scale, overflow: 'hidden', flexShrink: 0 }}>
+      <Box sx={{ width, height, transform: `scale(${scale})`, transformOrigin: 'top left' }}>
+        {/* Device bezel around the mock menu app */}
+        <Box sx={{ p: `${BEZEL}px`, bgcolor: 'grey.900', borderRadius: 6 }}>
+          <Box sx={{ ...screen, position: 'relative', overflow: 'hidden', bgcolor: 'grey.100' }}>
+            <Box sx={{ height: TABLET_HEADER_HEIGHT, bgcolor: 'primary.main' }} />
+
+            {/* Dish cards of the menu behind the ad */}
+            <Box
+              sx={{
+                display: 'grid',
+                gridTemplateColumns: `repeat(${columns}, ${MENU_CARD.width}px)`,
+                gridAutoRows: MENU_CARD.height,
+                gap: `${MENU_CARD.gap}px`,
+                p: `${MENU_CARD.gap}px`,
+              }}
+            >
+              {Array.from({ length: columns * rows }, (_, index) => (
+                <Box key={index} sx={{ bgcolor: 'white', borderRadius: 2, p: 2, display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+                  <Box sx={{ flex: 1, bgcolor: 'grey.200', borderRadius: 1 }} />
+                  <Box sx={{ height: 16, width: '70%', bgcolor: 'grey.300', borderRadius: 1 }} />
+                  <Box sx={{ height: 16, width: '35%', bgcolor: 'grey.200', borderRadius: 1 }} />
+                </Box>
+              ))}
+            </Box>
+
+            <Box
+              sx={{
+                position: 'absolute',
+                left: area.x,
+                top: area.y,
+                width: area.width,
+                height: area.height,
+                overflow: 'hidden',
+                bgcolor: 'white',
+                boxShadow: 6,
+              }}
+            >
+              {creative ? (
+                <Fade key={stepKey} in timeout={600}>
+                  <Box sx={FILL_STYLE}>{renderCreative(creative, title)}</Box>
+                </Fade>
+              ) : (
+                <Box
+                  sx={{
+                    ...FILL_STYLE,
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    border: '4px dashed',
+                    borderColor: 'grey.400',
+                  }}
+                >
+                  <Typography variant="h4" color="text.secondary">
+                    {t('slots.simulator.noAd')}
+                  </Typography>
+                </Box>
+              )}
+            </Box>
+          </Box>
+        </Box>
+      </Box>
+    </Box>
+  );
+});
+
+SlotSimulatorFrame.displayName = 'SlotSimulatorFrame';
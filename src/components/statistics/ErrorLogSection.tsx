@@ -0,0 +1,425 @@
+import { memo, useMemo, useCallback, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Typography,
+  Alert,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControlLabel,
+  Switch as MuiSwitch,
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  Download as DownloadIcon,
+  DeleteSweep as DeleteSweepIcon,
+  CloudUpload as CloudUploadIcon,
+} from '@mui/icons-material';
+import { useSnackbar } from 'notistack';
+import { DataTable, SearchField, Pagination, ConfirmDialog } from '../ui/molecules';
+import type { Column } from '../ui/molecules/DataTable';
+import { Button, Select } from '../ui/atoms';
+import { PageHeader, FiltersContainer, FlexRow } from '../ui/styled';
+import { useFetch, useTableState, useDebounce, useConfirmDialog, useDialogState } from '../../hooks';
+import {
+  getErrorLogEntries,
+  clearErrorLog,
+  flushErrorReports,
+  isErrorReportingEnabled,
+  type ErrorLogEntry,
+  type ErrorLogSource,
+} from '../../utils/errorLog';
+import { formatTimestamp } from '../../utils/dateUtils';
+
+const SOURCES: ErrorLogSource[] = ['api', 'boundary', 'cell', 'logger'];
+
+const SOURCE_COLORS: Record<ErrorLogSource, 'warning' | 'error' | 'info' | 'default'> = {
+  api: 'warning',
+  boundary: 'error',
+  cell: 'info',
+  logger: 'default',
+};
+
+interface ErrorLogRow extends ErrorLogEntry {
+  key: string;
+  /** Number of entries in the group (1 when not grouped) */
+  count: number;
+  /** First occurrence in the group (milliseconds) */
+  firstSeen: number;
+}
+
+/**
+ * Signature used to group similar entries
+ */
+const getGroupKey = (entry: ErrorLogEntry): string =>
+  [entry.source, entry.message, entry.statusCode ?? '', entry.errorCode ?? '', entry.errorMessage ?? ''].join('|');
+
+const toSeconds = (milliseconds: number) => Math.floor(milliseconds / 1000);
+
+/**
+ * Trigger a browser download for generated content
+ */
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const escapeCsv = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_FIELDS: (keyof ErrorLogEntry)[] = [
+  'timestamp',
+  'source',
+  'message',
+  'errorName',
+  'errorMessage',
+  'statusCode',
+  'errorCode',
+  'method',
+  'url',
+  'route',
+  'appVersion',
+  'reported',
+];
+
+/**
+ * Error Log Section
+ * Errors captured by the logger in this browser (API errors, boundary and cell crashes)
+ */
+export const ErrorLogSection = memo(() => {
+  const { t } = useTranslation();
+  const { enqueueSnackbar } = useSnackbar();
+  const confirmDialog = useConfirmDialog();
+  const detailsDialog = useDialogState<ErrorLogRow>();
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [source, setSource] = useState<ErrorLogSource | 'all'>('all');
+  const [grouped, setGrouped] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const debouncedSearchTerm = useDebounce(searchTerm, 300);
+
+  const { data, loading, error, refetch } = useFetch(getErrorLogEntries, []);
+
+  const filteredEntries = useMemo(() => {
+    const search = debouncedSearchTerm.toLowerCase();
+    return (data || []).filter((entry) => {
+      if (source !== 'all' && entry.source !== source) return false;
+      if (search) {
+        const haystack = [
+          entry.message,
+          entry.errorMessage,
+          entry.url,
+          entry.route,
+          entry.statusCode,
+          entry.errorCode,
+        ]
+          .filter((value) => value !== undefined)
+          .join(' ')
+          .toLowerCase();
+        if (!haystack.includes(search)) return false;
+      }
+      return true;
+    });
+  }, [data, source, debouncedSearchTerm]);
+
+  const rows = useMemo<ErrorLogRow[]>(() => {
+    if (!grouped) {
+      return filteredEntries.map((entry) => ({
+        ...entry,
+        key: String(entry.id),
+        count: 1,
+        firstSeen: entry.timestamp,
+      }));
+    }
+
+    // Entries are sorted newest first, so the first one of a group is the latest
+    const groups = new Map<string, ErrorLogRow>();
+    filteredEntries.forEach((entry) => {
+      const key = getGroupKey(entry);
+      const group = groups.get(key);
+      if (group) {
+        group.count += 1;
+        group.firstSeen = Math.min(group.firstSeen, entry.timestamp);
+      } else {
+        groups.set(key, { ...entry, key, count: 1, firstSeen: entry.timestamp });
+      }
+    });
+    return Array.from(groups.values());
+  }, [filteredEntries, grouped]);
+
+  const tableState = useTableState<ErrorLogRow>({
+    data: rows,
+    initialRowsPerPage: 25,
+    defaultSortColumn: 'timestamp',
+    defaultSortDirection: 'desc',
+  });
+
+  const handleExportJson = useCallback(() => {
+    downloadFile(JSON.stringify(filteredEntries, null, 2), `error-log-${Date.now()}.json`, 'application/json');
+  }, [filteredEntries]);
+
+  const handleExportCsv = useCallback(() => {
+    const lines = [
+      CSV_FIELDS.join(','),
+      ...filteredEntries.map((entry) =>
+        CSV_FIELDS.map((field) =>
+          escapeCsv(field === 'timestamp' ? new Date(entry.timestamp).toISOString() : entry[field])
+        ).join(',')
+      ),
+    ];
+    downloadFile(lines.join('\n'), `error-log-${Date.now()}.csv`, 'text/csv');
+  }, [filteredEntries]);
+
+  const handleClear = useCallback(() => {
+    confirmDialog.open({
+      title: t('statistics.errorLog.clearTitle'),
+      message: t('statistics.errorLog.clearMessage'),
+      confirmText: t('common.confirm'),
+      cancelText: t('common.cancel'),
+      onConfirm: async () => {
+        await clearErrorLog();
+        await refetch();
+      },
+    });
+  }, [confirmDialog, t, refetch]);
+
+  const handleSend = useCallback(async () => {
+    setIsSending(true);
+    try {
+      const sent = await flushErrorReports();
+      enqueueSnackbar(t('statistics.errorLog.sent', { count: sent }), { variant: sent > 0 ? 'success' : 'info' });
+      await refetch();
+    } finally {
+      setIsSending(false);
+    }
+  }, [enqueueSnackbar, t, refetch]);
+
+  const columns = useMemo<Column<ErrorLogRow>[]>(
+    () => [
+      {
+        id: 'timestamp',
+        label: grouped ? t('statistics.errorLog.lastSeen') : t('audit.fields.timestamp'),
+        sortable: true,
+        render: (row) => formatTimestamp(toSeconds(row.timestamp)),
+      },
+      {
+        id: 'source',
+        label: t('statistics.errorLog.source'),
+        sortable: true,
+        render: (row) => (
+          <Chip
+            size="small"
+            variant="outlined"
+            color={SOURCE_COLORS[row.source]}
+            label={t(`statistics.errorLog.sources.${row.source}`)}
+          />
+        ),
+      },
+      {
+        id: 'message',
+        label: t('statistics.errorLog.message'),
+        sortable: true,
+        render: (row) => (
+          <Box>
+            <Typography variant="body2">{row.message}</Typography>
+            {row.errorMessage && (
+              <Typography variant="caption" color="text.secondary">
+                {row.errorMessage}
+              </Typography>
+            )}
+          </Box>
+        ),
+      },
+      {
+        id: 'statusCode',
+        label: t('statistics.errorLog.status'),
+        sortable: true,
+        render: (row) =>
+          row.statusCode !== undefined
+            ? `${row.statusCode}${row.errorCode ? ` / ${row.errorCode}` : ''}`
+            : '—',
+      },
+      {
+        id: 'url',
+        label: t('statistics.errorLog.location'),
+        render: (row) => (
+          <Typography variant="caption" sx={{ wordBreak: 'break-all' }}>
+            {row.url ? `${row.method || 'GET'} ${row.url}` : row.route}
+          </Typography>
+        ),
+      },
+      ...(grouped
+        ? [
+            {
+              id: 'count',
+              label: t('statistics.errorLog.count'),
+              sortable: true,
+              render: (row: ErrorLogRow) => row.count,
+            },
+          ]
+        : []),
+    ],
+    [t, grouped]
+  );
+
+  const selected = detailsDialog.data;
+
+  return (
+    <Box>
+      <PageHeader>
+        <Typography variant="h4">{t('menu.errorLog')}</Typography>
+        <FlexRow sx={{ gap: 1 }}>
+          <Button variant="outlined" startIcon={<RefreshIcon />} onClick={refetch}>
+            {t('common.reload')}
+          </Button>
+          {isErrorReportingEnabled() && (
+            <Button variant="outlined" startIcon={<CloudUploadIcon />} onClick={handleSend} disabled={isSending}>
+              {t('statistics.errorLog.send')}
+            </Button>
+          )}
+          <Button variant="outlined" startIcon={<DownloadIcon />} onClick={handleExportJson}>
+            JSON
+          </Button>
+          <Button variant="outlined" startIcon={<DownloadIcon />} onClick={handleExportCsv}>
+            CSV
+          </Button>
+          <Button variant="outlined" color="error" startIcon={<DeleteSweepIcon />} onClick={handleClear}>
+            {t('statistics.errorLog.clear')}
+          </Button>
+        </FlexRow>
+      </PageHeader>
+
+      <Alert severity="info" sx={{ mb: 2 }}>
+        {t('statistics.errorLog.hint')}
+      </Alert>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {t('statistics.errorLog.storageUnavailable')}
+        </Alert>
+      )}
+
+      <FiltersContainer>
+        <Box sx={{ flex: 1 }}>
+          <SearchField
+            value={searchTerm}
+            onChange={setSearchTerm}
+            placeholder={t('statistics.errorLog.search')}
+          />
+        </Box>
+        <Box sx={{ width: 200 }}>
+          <Select
+            name="source"
+            label={t('statistics.errorLog.source')}
+            value={source}
+            onChange={(value) => setSource(value as ErrorLogSource | 'all')}
+            options={[
+              { value: 'all', label: t('common.all') },
+              ...SOURCES.map((value) => ({ value, label: t(`statistics.errorLog.sources.${value}`) })),
+            ]}
+          />
+        </Box>
+        <FormControlLabel
+          control={<MuiSwitch checked={grouped} onChange={(e) => setGrouped(e.target.checked)} />}
+          label={t('statistics.errorLog.group')}
+        />
+      </FiltersContainer>
+
+      <DataTable<ErrorLogRow>
+        columns={columns}
+        data={tableState.paginatedData}
+        loading={loading}
+        sortColumn={tableState.sortColumn ?? undefined}
+        sortDirection={tableState.sortDirection}
+        onSort={(column) => tableState.handleSort(column as keyof ErrorLogRow)}
+        onRowClick={(row) => detailsDialog.openDialog(row)}
+        emptyMessage={t('statistics.errorLog.empty')}
+        rowKey="key"
+      />
+
+      <Pagination
+        page={tableState.page}
+        totalPages={tableState.totalPages}
+        onPageChange={tableState.handlePageChange}
+        rowsPerPage={tableState.rowsPerPage}
+        onRowsPerPageChange={tableState.handleRowsPerPageChange}
+        rowsPerPageOptions={[10, 25, 50, 100]}
+        totalCount={rows.length}
+      />
+
+      {/* Entry details */}
+      <Dialog
+        open={detailsDialog.open}
+        onClose={detailsDialog.closeDialog}
+        maxWidth="md"
+        fullWidth
+        container={() => document.getElementById('modal-root')}
+      >
+        <DialogTitle>{selected?.message}</DialogTitle>
+        <DialogContent dividers>
+          {selected && (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+              <Typography variant="body2">
+                {t('statistics.errorLog.occurrences', {
+                  count: selected.count,
+                  first: formatTimestamp(toSeconds(selected.firstSeen)),
+                  last: formatTimestamp(toSeconds(selected.timestamp)),
+                })}
+              </Typography>
+              {selected.errorMessage && (
+                <Typography variant="body2">
+                  {selected.errorName}: {selected.errorMessage}
+                </Typography>
+              )}
+              <Typography variant="body2">
+                {t('statistics.errorLog.route')}: {selected.route} · {t('statistics.errorLog.version')}:{' '}
+                {selected.appVersion}
+              </Typography>
+              {[
+                { label: t('statistics.errorLog.context'), value: selected.context && JSON.stringify(selected.context, null, 2) },
+                { label: t('statistics.errorLog.stack'), value: selected.stack },
+                { label: t('statistics.errorLog.componentStack'), value: selected.componentStack },
+              ]
+                .filter((section) => section.value)
+                .map((section) => (
+                  <Box key={section.label}>
+                    <Typography variant="subtitle2">{section.label}</Typography>
+                    <Box
+                      component="pre"
+                      sx={{
+                        m: 0,
+                        p: 1,
+                        bgcolor: 'grey.100',
+                        borderRadius: 1,
+                        fontSize: 12,
+                        overflow: 'auto',
+                        maxHeight: 240,
+                      }}
+                    >
+                      {section.value}
+                    </Box>
+                  </Box>
+                ))}
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={detailsDialog.closeDialog}>{t('common.close')}</Button>
+        </DialogActions>
+      </Dialog>
+
+      <ConfirmDialog {...confirmDialog.dialogProps} />
+    </Box>
+  );
+});
+
+ErrorLogSection.displayName = 'ErrorLogSection';
@@ -0,0 +1,387 @@
+import { memo, useMemo, useCallback, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link as RouterLink } from 'react-router-dom';
+import { Box, Typography, Paper, Alert, Link } from '@mui/material';
+import { FilterList as FilterListIcon, Refresh as RefreshIcon } from '@mui/icons-material';
+import { DataTable, SearchField, Pagination, FilterDrawer, StatusChip } from '../ui/molecules';
+import type { Column } from '../ui/molecules/DataTable';
+import { Button, Select, TextField } from '../ui/atoms';
+import { FiltersContainer, PageHeader } from '../ui/styled';
+import { useFetch, useFilters, useDrawer, useTableState, useDebounce, getLinkedEntityPath } from '../../hooks';
+import { auditApi } from '../../api';
+import { SECONDS_PER_DAY, formatTimestamp, dateInputToTimestamp } from '../../utils/dateUtils';
+import { AUDIT_ACTION_STATUS } from '../../utils/auditUtils';
+import type { AuditEvent, AuditAction, AuditEntityType } from '../../types';
+
+const AUDIT_ACTIONS: AuditAction[] = [
+  'login',
+  'logout',
+  'create',
+  'update',
+  'block',
+  'unblock',
+  'batch_create_qr',
+  'submit_review',
+  'approve',
+  'reject',
+];
+
+const AUDIT_ENTITY_TYPES: AuditEntityType[] = [
+  'employee',
+  'restaurant',
+  'qr',
+  'dictionary',
+  'user',
+  'advertiser',
+  'campaign',
+  'creative',
+  'schedule',
+  'slot',
+];
+
+/**
+ * List pages that open an audited entity linked by its ID (see useLinkedEntity)
+ */
+const ENTITY_ROUTES: Partial<Record<AuditEntityType, string>> = {
+  advertiser: '/advertisers',
+  campaign: '/campaigns',
+  creative: '/creatives',
+  schedule: '/schedules',
+  slot: '/slots',
+  restaurant: '/restaurants',
+};
+
+interface StaffActionsFilters {
+  actorId: string;
+  action: AuditAction | 'all';
+  entityType: AuditEntityType | 'all';
+  dateFrom: string;
+  dateTo: string;
+}
+
+const INITIAL_FILTERS: StaffActionsFilters = {
+  actorId: 'all',
+  action: 'all',
+  entityType: 'all',
+  dateFrom: '',
+  dateTo: '',
+};
+
+interface ActorSummary {
+  actorId: number;
+  actorName: string;
+  total: number;
+  creates: number;
+  updates: number;
+  blockChanges: number;
+  lastActivity: number;
+}
+
+/**
+ * Staff Actions Section
+ * Audit log of employee actions with filters and a per-employee activity summary
+ */
+export const StaffActionsSection = memo(() => {
+  const { t } = useTranslation();
+  const filterDrawer = useDrawer();
+  const { filters, updateFilter, resetFilters } = useFilters<StaffActionsFilters>(INITIAL_FILTERS);
+  const [searchTerm, setSearchTerm] = useState('');
+  const debouncedSearchTerm = useDebounce(searchTerm, 300);
+
+  // Action, entity type and date range are filtered server-side;
+  // the actor filter stays client-side so the actor list remains complete
+  const { data, loading, error, refetch } = useFetch(
+    () =>
+      auditApi.getEvents({
+        action: filters.action === 'all' ? undefined : filters.action,
+        entityType: filters.entityType === 'all' ? undefined : filters.entityType,
+        from: filters.dateFrom ? dateInputToTimestamp(filters.dateFrom) : undefined,
+        // Include the whole end day
+        to: filters.dateTo ? dateInputToTimestamp(filters.dateTo) + SECONDS_PER_DAY - 1 : undefined,
+      }),
+    [filters.action, filters.entityType, filters.dateFrom, filters.dateTo]
+  );
+
+  const events = useMemo(() => data || [], [data]);
+
+  const actorOptions = useMemo(() => {
+    const actors = new Map<number, string>();
+    events.forEach((event) => actors.set(event.actorId, event.actorName));
+    return [
+      { value: 'all', label: t('common.all') },
+      ...Array.from(actors.entries())
+        .sort((a, b) => a[1].localeCompare(b[1]))
+        .map(([id, name]) => ({ value: String(id), label: name })),
+    ];
+  }, [events, t]);
+
+  const filteredEvents = useMemo(() => {
+    const search = debouncedSearchTerm.toLowerCase();
+    return events.filter((event) => {
+      if (filters.actorId !== 'all' && String(event.actorId) !== filters.actorId) return false;
+      if (search) {
+        const matches =
+          event.actorName.toLowerCase().includes(search) ||
+          (event.entityLabel || '').toLowerCase().includes(search) ||
+          String(event.entityId).toLowerCase().includes(search);
+        if (!matches) return false;
+      }
+      return true;
+    });
+  }, [events, filters.actorId, debouncedSearchTerm]);
+
+  const actorSummaries = useMemo(() => {
+    const summaries = new Map<number, ActorSummary>();
+    filteredEvents.forEach((event) => {
+      const summary = summaries.get(event.actorId) || {
+        actorId: event.actorId,
+        actorName: event.actorName,
+        total: 0,
+        creates: 0,
+        updates: 0,
+        blockChanges: 0,
+        lastActivity: 0,
+      };
+      summary.total += 1;
+      if (event.action === 'create' || event.action === 'batch_create_qr') summary.creates += 1;
+      if (event.action === 'update') summary.updates += 1;
+      if (event.action === 'block' || event.action === 'unblock') summary.blockChanges += 1;
+      summary.lastActivity = Math.max(summary.lastActivity, event.timestamp);
+      summaries.set(event.actorId, summary);
+    });
+    return Array.from(summaries.values()).sort((a, b) => b.total - a.total);
+  }, [filteredEvents]);
+
+  const tableState = useTableState<AuditEvent>({
+    data: filteredEvents,
+    initialRowsPerPage: 25,
+    defaultSortColumn: 'timestamp',
+    defaultSortDirection: 'desc',
+  });
+
+  const handleSelectActor = useCallback(
+    (summary: ActorSummary) => {
+      updateFilter('actorId', filters.actorId === String(summary.actorId) ? 'all' : String(summary.actorId));
+    },
+    [filters.actorId, updateFilter]
+  );
+
+  const renderEntity = useCallback(
+    (event: AuditEvent) => {
+      const label = event.entityLabel || String(event.entityId);
+      const route = ENTITY_ROUTES[event.entityType];
+      if (!route || event.action === 'login' || event.action === 'logout') {
+        return label;
+      }
+      return (
+        <Link component={RouterLink} to={getLinkedEntityPath(route, event.entityId)} underline="hover">
+          {label}
+        </Link>
+      );
+    },
+    []
+  );
+
+  const columns = useMemo<Column<AuditEvent>[]>(
+    () => [
+      {
+        id: 'timestamp',
+        label: t('audit.fields.timestamp'),
+        sortable: true,
+        render: (event) => formatTimestamp(event.timestamp),
+      },
+      {
+        id: 'actorName',
+        label: t('audit.fields.actor'),
+        sortable: true,
+        render: (event) => event.actorName,
+      },
+      {
+        id: 'action',
+        label: t('audit.fields.action'),
+        sortable: true,
+        render: (event) => (
+          <StatusChip
+            status={AUDIT_ACTION_STATUS[event.action] || 'inactive'}
+            label={t(`audit.actions.${event.action}`, event.action)}
+          />
+        ),
+      },
+      {
+        id: 'entityType',
+        label: t('audit.fields.entityType'),
+        sortable: true,
+        render: (event) => t(`audit.entityTypes.${event.entityType}`, event.entityType),
+      },
+      {
+        id: 'entityLabel',
+        label: t('audit.fields.entity'),
+        sortable: true,
+        render: renderEntity,
+      },
+    ],
+    [t, renderEntity]
+  );
+
+  const summaryColumns = useMemo<Column<ActorSummary>[]>(
+    () => [
+      {
+        id: 'actorName',
+        label: t('audit.fields.actor'),
+        render: (summary) => summary.actorName,
+      },
+      {
+        id: 'total',
+        label: t('statistics.staffActions.total'),
+        render: (summary) => summary.total,
+      },
+      {
+        id: 'creates',
+        label: t('statistics.staffActions.creates'),
+        render: (summary) => summary.creates,
+      },
+      {
+        id: 'updates',
+        label: t('statistics.staffActions.updates'),
+        render: (summary) => summary.updates,
+      },
+      {
+        id: 'blockChanges',
+        label: t('statistics.staffActions.blockChanges'),
+        render: (summary) => summary.blockChanges,
+      },
+      {
+        id: 'lastActivity',
+        label: t('statistics.staffActions.lastActivity'),
+        render: (summary) => formatTimestamp(summary.lastActivity),
+      },
+    ],
+    [t]
+  );
+
+  return (
+    <Box>
+      <PageHeader>
+        <Typography variant="h4">{t('menu.staffActions')}</Typography>
+        <Button variant="outlined" startIcon={<RefreshIcon />} onClick={refetch}>
+          {t('common.reload')}
+        </Button>
+      </PageHeader>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {t('error.statisticsLoadFailedMessage')}
+        </Alert>
+      )}
+
+      {/* Search and Filters */}
+      <FiltersContainer>
+        <Box sx={{ flex: 1 }}>
+          <SearchField
+            value={searchTerm}
+            onChange={setSearchTerm}
+            placeholder={t('statistics.staffActions.search')}
+          />
+        </Box>
+        <Button variant="outlined" startIcon={<FilterListIcon />} onClick={filterDrawer.open}>
+          {t('common.filters')}
+        </Button>
+      </FiltersContainer>
+
+      {/* Per-employee summary */}
+      <Paper variant="outlined" sx={{ p: 2, mb: 3 }}>
+        <Typography variant="h6" sx={{ mb: 1 }}>
+          {t('statistics.staffActions.summaryTitle')}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {t('statistics.staffActions.summaryHint')}
+        </Typography>
+        <DataTable<ActorSummary>
+          columns={summaryColumns}
+          data={actorSummaries}
+          loading={loading}
+          onRowClick={handleSelectActor}
+          emptyMessage={t('statistics.staffActions.noEvents')}
+          rowKey="actorId"
+        />
+      </Paper>
+
+      {/* Events */}
+      <DataTable<AuditEvent>
+        columns={columns}
+        data={tableState.paginatedData}
+        loading={loading}
+        sortColumn={tableState.sortColumn ?? undefined}
+        sortDirection={tableState.sortDirection}
+        onSort={(column) => tableState.handleSort(column as keyof AuditEvent)}
+        emptyMessage={t('statistics.staffActions.noEvents')}
+        rowKey="id"
+      />
+
+      <Pagination
+        page={tableState.page}
+        totalPages={tableState.totalPages}
+        onPageChange={tableState.handlePageChange}
+        rowsPerPage={tableState.rowsPerPage}
+        onRowsPerPageChange={tableState.handleRowsPerPageChange}
+        rowsPerPageOptions={[10, 25, 50, 100]}
+        totalCount={filteredEvents.length}
+      />
+
+      {/* Filter Drawer */}
+      <FilterDrawer
+        open={filterDrawer.isOpen}
+        onClose={filterDrawer.close}
+        onApply={() => filterDrawer.close()}
+        onReset={resetFilters}
+        title={t('common.filters')}
+      >
+        <Select
+          name="actorId"
+          label={t('audit.fields.actor')}
+          value={filters.actorId}
+          onChange={(value) => updateFilter('actorId', String(value))}
+          options={actorOptions}
+        />
+        <Select
+          name="action"
+          label={t('audit.fields.action')}
+          value={filters.action}
+          onChange={(value) => updateFilter('action', value as StaffActionsFilters['action'])}
+          options={[
+            { value: 'all', label: t('common.all') },
+            ...AUDIT_ACTIONS.map((action) => ({ value: action, label: t(`audit.actions.${action}`) })),
+          ]}
+        />
+        <Select
+          name="entityType"
+          label={t('audit.fields.entityType')}
+          value={filters.entityType}
+          onChange={(value) => updateFilter('entityType', value as StaffActionsFilters['entityType'])}
+          options={[
+            { value: 'all', label: t('common.all') },
+            ...AUDIT_ENTITY_TYPES.map((type) => ({ value: type, label: t(`audit.entityTypes.${type}`) })),
+          ]}
+        />
+        <TextField
+          name="dateFrom"
+          label={t('statistics.dateFrom')}
+          type="date"
+          value={filters.dateFrom}
+          onChange={(e) => updateFilter('dateFrom', e.target.value)}
+          InputProps={{ inputProps: { max: filters.dateTo || undefined } }}
+        />
+        <TextField
+          name="dateTo"
+          label={t('statistics.dateTo')}
+          type="date"
+          value={filters.dateTo}
+          onChange={(e) => updateFilter('dateTo', e.target.value)}
+          InputProps={{ inputProps: { min: filters.dateFrom || undefined } }}
+        />
+      </FilterDrawer>
+    </Box>
+  );
+});
+
+StaffActionsSection.displayName = 'StaffActionsSection';
@@ -0,0 +1,206 @@
+import { memo, useMemo } from 'react';
+import { Box, Typography, useTheme } from '@mui/material';
+import { formatDate } from '../../utils/dateUtils';
+
+export interface TimeSeriesChartPoint {
+  timestamp: number; // Unix timestamp (seconds)
+  value: number;
+}
+
+export interface TimeSeriesChartLine {
+  label: string;
+  points: TimeSeriesChartPoint[];
+  color?: string;
+  /** Draw the line dashed (e.g. for targets and ideal curves) */
+  dashed?: boolean;
+}
+
+export interface TimeSeriesChartReference {
+  label: string;
+  value: number;
+  /** Defaults to the error color */
+  color?: string;
+}
+
+interface TimeSeriesChartProps {
+  lines: TimeSeriesChartLine[];
+  /** Horizontal reference lines, e.g. daily budget */
+  references?: TimeSeriesChartReference[];
+  height?: number;
+  formatValue?: (value: number) => string;
+  emptyMessage?: string;
+}
+
+const WIDTH = 800;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 64 };
+const NO_REFERENCES: TimeSeriesChartReference[] = [];
+
+/**
+ * Lightweight SVG line chart for daily statistics
+ */
+export const TimeSeriesChart = memo(({
+  lines,
+  references = NO_REFERENCES,
+  height = 240,
+  formatValue = (value) => value.toLocaleString(),
+  emptyMessage,
+}: TimeSeriesChartProps) => {
+  const theme = useTheme();
+  const palette = [theme.palette.primary.main, theme.palette.secondary.main, theme.palette.success.main];
+
+  const bounds = useMemo(() => {
+    const allPoints = lines.flatMap((line) => line.points);
+    if (allPoints.length === 0) return null;
+
+    const timestamps = allPoints.map((point) => point.timestamp);
+    const values = allPoints.map((point) => point.value);
+    references.forEach((reference) => values.push(reference.value));
+
+    const minX = Math.min(...timestamps);
+    const maxX = Math.max(...timestamps);
+    const maxY = Math.max(...values, 0);
+
+    return {
+      minX,
+      maxX: maxX === minX ? minX + 1 : maxX,
+      maxY: maxY === 0 ? 1 : maxY * 1.1,
+    };
+  }, [lines, references]);
+
+  if (!bounds) {
+    return (
+      <Box sx={{ height, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <Typography variant="body2" color="text.secondary">
+          {emptyMessage}
+        </Typography>
+      </Box>
+    );
+  }
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const toX = (timestamp: number) =>
+    PADDING.left + ((timestamp - bounds.minX) / (bounds.maxX - bounds.minX)) * plotWidth;
+  const toY = (value: number) => PADDING.top + plotHeight - (value / bounds.maxY) * plotHeight;
+  const gridValues = [0, 0.25, 0.5, 0.75, 1].map((ratio) => ratio * bounds.maxY);
+
+  return (
+    <Box>
+      <Box
+        component="svg"
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        sx={{ width: '100%', height, display: 'block' }}
+        preserveAspectRatio="none"
+      >
+        {/* Grid */}
+        {gridValues.map((value) => (
+          <g key={value}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={toY(value)}
+              y2={toY(value)}
+              stroke={theme.palette.divider}
+            />
+            <text
+              x={PADDING.left - 8}
+              y={toY(value) + 4}
+              textAnchor="end"
+              fontSize={11}
+              fill={theme.palette.text.secondary}
+            >
+              {formatValue(value)}
+            </text>
+          </g>
+        ))}
+
+        {/* X axis labels */}
+        <text x={PADDING.left} y={height - 8} fontSize={11} fill={theme.palette.text.secondary}>
+          {formatDate(bounds.minX)}
+        </text>
+        <text
+          x={WIDTH - PADDING.right}
+          y={height - 8}
+          textAnchor="end"
+          fontSize={11}
+          fill={theme.palette.text.secondary}
+        >
+          {formatDate(bounds.maxX)}
+        </text>
+
+        {/* Reference lines */}
+        {references.map((reference) => (
+          <line
+            key={reference.label}
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={toY(reference.value)}
+            y2={toY(reference.value)}
+            stroke={reference.color || theme.palette.error.main}
+            strokeDasharray="6 4"
+          >
+            <title>{`${reference.label}: ${formatValue(reference.value)}`}</title>
+          </line>
+        ))}
+
+        {/* Series */}
+        {lines.map((line, index) => {
+          const color = line.color || palette[index % palette.length];
+          const sorted = [...line.points].sort((a, b) => a.timestamp - b.timestamp);
+          const path = sorted
+            .map((point, i) => `${i === 0 ? 'M' : 'L'}${toX(point.timestamp)},${toY(point.value)}`)
+            .join(' ');
+
+          return (
+            <g key={line.label}>
+              <path
+                d={path}
+                fill="none"
+                stroke={color}
+                strokeWidth={2}
+                strokeDasharray={line.dashed ? '6 4' : undefined}
+              />
+              {!line.dashed && sorted.map((point) => (
+                <circle key={point.timestamp} cx={toX(point.timestamp)} cy={toY(point.value)} r={3} fill={color}>
+                  <title>{`${formatDate(point.timestamp)} — ${line.label}: ${formatValue(point.value)}`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </Box>
+
+      {/* Legend */}
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mt: 1 }}>
+        {lines.map((line, index) => (
+          <Box key={line.label} sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+            <Box
+              sx={{
+                width: 16,
+                height: 0,
+                borderTop: `2px ${line.dashed ? 'dashed' : 'solid'}`,
+                borderColor: line.color || palette[index % palette.length],
+              }}
+            />
+            <Typography variant="caption">{line.label}</Typography>
+          </Box>
+        ))}
+        {references.map((reference) => (
+          <Box key={reference.label} sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+            <Box
+              sx={{
+                width: 16,
+                height: 0,
+                borderTop: '2px dashed',
+                borderColor: reference.color || 'error.main',
+              }}
+            />
+            <Typography variant="caption">{reference.label}</Typography>
+          </Box>
+        ))}
+      </Box>
+    </Box>
+  );
+});
+
+TimeSeriesChart.displayName = 'TimeSeriesChart';
@@ -0,0 +1,533 @@
+import { memo, useMemo, useCallback, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Typography,
+  Paper,
+  Alert,
+  Tabs,
+  Tab,
+  Breadcrumbs,
+  Link,
+  LinearProgress,
+} from '@mui/material';
+import { Refresh as RefreshIcon } from '@mui/icons-material';
+import { DataTable } from '../ui/molecules';
+import type { Column } from '../ui/molecules/DataTable';
+import { Button, Select, TextField } from '../ui/atoms';
+import { PageHeader, FiltersContainer } from '../ui/styled';
+import { TimeSeriesChart } from './TimeSeriesChart';
+import { useFetch, useMultilingualName, useTableState } from '../../hooks';
+import { statsApi, advertisersApi, campaignsApi, creativesApi, slotsApi, restaurantsApi } from '../../api';
+import { logger } from '../../utils/logger';
+import { SECONDS_PER_DAY, getCurrentTimestamp, dateInputToTimestamp, timestampToDateInput } from '../../utils/dateUtils';
+import {
+  calculateCtr,
+  calculateEcpm,
+  sumStats,
+  getPeriodDays,
+  compareWithBudget,
+  formatMoney,
+  formatNumber,
+} from '../../utils/statsUtils';
+import type { Campaign, DictionaryName, StatsGroupBy, StatsQuery, StatsRow } from '../../types';
+
+type PeriodPreset = '7' | '30' | '90' | 'custom';
+
+/** Period shown initially and while a custom date is empty */
+const DEFAULT_PERIOD_PRESET: Exclude<PeriodPreset, 'custom'> = '30';
+type ChartMetric = 'impressions' | 'clicks' | 'spend' | 'ctr' | 'ecpm';
+type RootDimension = Exclude<StatsGroupBy, 'creative'>;
+
+const ROOT_DIMENSIONS: RootDimension[] = ['advertiser', 'campaign', 'slot', 'restaurant'];
+
+interface UsageRow extends StatsRow {
+  name: string;
+  ctr: number;
+  ecpm: number;
+  budgetUsedPercent: number | null;
+}
+
+interface DrillDown {
+  advertiserId?: string;
+  campaignId?: string;
+}
+
+/**
+ * Swallow reference data failures so that stats still render with raw ids
+ */
+const loadOrEmpty = <T,>(load: () => Promise<T[]>, name: string): Promise<T[]> =>
+  load().catch((error) => {
+    logger.warn(`Failed to load ${name} for usage statistics`, error);
+    return [];
+  });
+
+const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+
+/**
+ * Usage Section
+ * Delivery dashboard: impressions, clicks, spend, CTR and eCPM per entity
+ * with daily charts and advertiser → campaign → creative drill-down
+ */
+export const UsageSection = memo(() => {
+  const { t } = useTranslation();
+  const { getDisplayName } = useMultilingualName();
+
+  const [periodPreset, setPeriodPreset] = useState<PeriodPreset>(DEFAULT_PERIOD_PRESET);
+  const [customFrom, setCustomFrom] = useState(() =>
+    timestampToDateInput(getCurrentTimestamp() - 30 * SECONDS_PER_DAY)
+  );
+  const [customTo, setCustomTo] = useState(() => timestampToDateInput(getCurrentTimestamp()));
+  const [dimension, setDimension] = useState<RootDimension>('advertiser');
+  const [drillDown, setDrillDown] = useState<DrillDown>({});
+  const [chartMetric, setChartMetric] = useState<ChartMetric>('impressions');
+
+  // Period boundaries in Unix seconds (whole days, UTC)
+  const period = useMemo(() => {
+    if (periodPreset === 'custom' && customFrom && customTo) {
+      const from = dateInputToTimestamp(customFrom);
+      const to = dateInputToTimestamp(customTo) + SECONDS_PER_DAY - 1;
+      return { from, to: Math.max(from, to) };
+    }
+    // A cleared custom date would give NaN boundaries, keep the default period until it is set
+    const days = Number(periodPreset === 'custom' ? DEFAULT_PERIOD_PRESET : periodPreset);
+    const today = dateInputToTimestamp(timestampToDateInput(getCurrentTimestamp()));
+    return {
+      from: today - (days - 1) * SECONDS_PER_DAY,
+      to: today + SECONDS_PER_DAY - 1,
+    };
+  }, [periodPreset, customFrom, customTo]);
+
+  // Drill-down overrides the selected dimension
+  const groupBy: StatsGroupBy = drillDown.campaignId
+    ? 'creative'
+    : drillDown.advertiserId
+      ? 'campaign'
+      : dimension;
+
+  const query = useMemo<StatsQuery>(
+    () => ({
+      from: period.from,
+      to: period.to,
+      advertiserId: drillDown.advertiserId,
+      campaignId: drillDown.campaignId,
+    }),
+    [period, drillDown]
+  );
+
+  // Reference data for names and budget settings
+  const { data: references } = useFetch(
+    async () => {
+      const [advertisers, campaigns, creatives, slots, restaurants] = await Promise.all([
+        loadOrEmpty(advertisersApi.list, 'advertisers'),
+        loadOrEmpty(campaignsApi.list, 'campaigns'),
+        loadOrEmpty(creativesApi.list, 'creatives'),
+        loadOrEmpty(slotsApi.list, 'slots'),
+        loadOrEmpty(restaurantsApi.list, 'restaurants'),
+      ]);
+      return { advertisers, campaigns, creatives, slots, restaurants };
+    },
+    []
+  );
+
+  const { data: stats, loading, error, refetch } = useFetch(
+    async () => {
+      const [rows, series] = await Promise.all([
+        statsApi.getSummary(groupBy, query),
+        statsApi.getTimeSeries(query),
+      ]);
+      return { rows, series };
+    },
+    [groupBy, query]
+  );
+
+  const namesByGroup = useMemo(() => {
+    const toMap = (items: { id: string | number; name: DictionaryName }[]) =>
+      new Map(items.map((item) => [String(item.id), getDisplayName(item.name)]));
+    return {
+      advertiser: toMap(references?.advertisers || []),
+      campaign: toMap(references?.campaigns || []),
+      creative: toMap(references?.creatives || []),
+      slot: toMap(references?.slots || []),
+      restaurant: toMap(references?.restaurants || []),
+    } satisfies Record<StatsGroupBy, Map<string, string>>;
+  }, [references, getDisplayName]);
+
+  const campaignsById = useMemo(
+    () => new Map((references?.campaigns || []).map((campaign) => [String(campaign.id), campaign])),
+    [references]
+  );
+
+  const periodDays = getPeriodDays(period.from, period.to);
+  const series = useMemo(() => stats?.series || [], [stats]);
+
+  const rows = useMemo<UsageRow[]>(
+    () =>
+      (stats?.rows || []).map((row) => {
+        const campaign = groupBy === 'campaign' ? campaignsById.get(row.id) : undefined;
+        return {
+          ...row,
+          name: namesByGroup[groupBy].get(row.id) || row.id,
+          ctr: calculateCtr(row),
+          ecpm: calculateEcpm(row),
+          budgetUsedPercent: campaign && campaign.budget > 0 ? (row.spend / campaign.budget) * 100 : null,
+        };
+      }),
+    [stats, groupBy, namesByGroup, campaignsById]
+  );
+
+  const totals = useMemo(() => sumStats(rows), [rows]);
+
+  const selectedCampaign: Campaign | undefined = drillDown.campaignId
+    ? campaignsById.get(drillDown.campaignId)
+    : undefined;
+
+  const budgetComparison = useMemo(
+    () => (selectedCampaign ? compareWithBudget(selectedCampaign, totals, series, periodDays) : null),
+    [selectedCampaign, totals, series, periodDays]
+  );
+
+  const tableState = useTableState<UsageRow>({
+    data: rows,
+    initialRowsPerPage: 1000,
+    defaultSortColumn: 'impressions',
+    defaultSortDirection: 'desc',
+  });
+
+  const handleRowClick = useCallback(
+    (row: UsageRow) => {
+      if (groupBy === 'advertiser') {
+        setDrillDown({ advertiserId: row.id });
+      } else if (groupBy === 'campaign') {
+        const campaign = campaignsById.get(row.id);
+        setDrillDown((prev) => ({
+          advertiserId: prev.advertiserId || campaign?.advertiserId,
+          campaignId: row.id,
+        }));
+      }
+    },
+    [groupBy, campaignsById]
+  );
+
+  const handleDimensionChange = useCallback((value: RootDimension) => {
+    setDimension(value);
+    setDrillDown({});
+  }, []);
+
+  const chartLines = useMemo(() => {
+    const getValue = (point: (typeof series)[number]) => {
+      switch (chartMetric) {
+        case 'ctr':
+          return calculateCtr(point);
+        case 'ecpm':
+          return calculateEcpm(point);
+        default:
+          return point[chartMetric];
+      }
+    };
+    return [
+      {
+        label: t(`statistics.usage.metrics.${chartMetric}`),
+        points: series.map((point) => ({ timestamp: point.timestamp, value: getValue(point) })),
+      },
+    ];
+  }, [series, chartMetric, t]);
+
+  const chartReferences =
+    chartMetric === 'spend' && selectedCampaign && selectedCampaign.budgetDaily > 0
+      ? [{ label: t('statistics.usage.budgetDaily'), value: selectedCampaign.budgetDaily }]
+      : undefined;
+
+  const formatMetric = useCallback(
+    (value: number) => {
+      if (chartMetric === 'ctr') return formatPercent(value);
+      if (chartMetric === 'spend' || chartMetric === 'ecpm') return formatMoney(value);
+      return formatNumber(value);
+    },
+    [chartMetric]
+  );
+
+  const columns = useMemo<Column<UsageRow>[]>(
+    () => [
+      {
+        id: 'name',
+        label: t(`statistics.usage.dimensions.${groupBy}`),
+        sortable: true,
+        render: (row) => row.name,
+      },
+      {
+        id: 'impressions',
+        label: t('statistics.usage.metrics.impressions'),
+        sortable: true,
+        render: (row) => formatNumber(row.impressions),
+      },
+      {
+        id: 'clicks',
+        label: t('statistics.usage.metrics.clicks'),
+        sortable: true,
+        render: (row) => formatNumber(row.clicks),
+      },
+      {
+        id: 'ctr',
+        label: t('statistics.usage.metrics.ctr'),
+        sortable: true,
+        render: (row) => formatPercent(row.ctr),
+      },
+      {
+        id: 'spend',
+        label: t('statistics.usage.metrics.spend'),
+        sortable: true,
+        render: (row) => formatMoney(row.spend),
+      },
+      {
+        id: 'ecpm',
+        label: t('statistics.usage.metrics.ecpm'),
+        sortable: true,
+        render: (row) => formatMoney(row.ecpm),
+      },
+      ...(groupBy === 'campaign'
+        ? [
+            {
+              id: 'budgetUsedPercent',
+              label: t('statistics.usage.budgetUsed'),
+              sortable: true,
+              render: (row: UsageRow) =>
+                row.budgetUsedPercent === null ? (
+                  '—'
+                ) : (
+                  <Box sx={{ minWidth: 120 }}>
+                    <LinearProgress
+                      variant="determinate"
+                      value={Math.min(100, row.budgetUsedPercent)}
+                      color={row.budgetUsedPercent > 100 ? 'error' : 'primary'}
+                    />
+                    <Typography variant="caption">{formatPercent(row.budgetUsedPercent)}</Typography>
+                  </Box>
+                ),
+            },
+          ]
+        : []),
+    ],
+    [t, groupBy]
+  );
+
+  const kpis = [
+    { key: 'impressions', value: formatNumber(totals.impressions) },
+    { key: 'clicks', value: formatNumber(totals.clicks) },
+    { key: 'ctr', value: formatPercent(calculateCtr(totals)) },
+    { key: 'spend', value: formatMoney(totals.spend) },
+    { key: 'ecpm', value: formatMoney(calculateEcpm(totals)) },
+  ];
+
+  const advertiserName = drillDown.advertiserId
+    ? namesByGroup.advertiser.get(drillDown.advertiserId) || drillDown.advertiserId
+    : undefined;
+  const campaignName = drillDown.campaignId
+    ? namesByGroup.campaign.get(drillDown.campaignId) || drillDown.campaignId
+    : undefined;
+
+  return (
+    <Box>
+      <PageHeader>
+        <Typography variant="h4">{t('menu.usage')}</Typography>
+        <Button variant="outlined" startIcon={<RefreshIcon />} onClick={refetch}>
+          {t('common.reload')}
+        </Button>
+      </PageHeader>
+
+      {/* Period */}
+      <FiltersContainer>
+        <Box sx={{ width: 220 }}>
+          <Select
+            name="period"
+            label={t('statistics.usage.period')}
+            value={periodPreset}
+            onChange={(value) => setPeriodPreset(value as PeriodPreset)}
+            options={[
+              { value: '7', label: t('statistics.usage.periods.last7') },
+              { value: '30', label: t('statistics.usage.periods.last30') },
+              { value: '90', label: t('statistics.usage.periods.last90') },
+              { value: 'custom', label: t('statistics.usage.periods.custom') },
+            ]}
+          />
+        </Box>
+        {periodPreset === 'custom' && (
+          <>
+            <Box sx={{ width: 180 }}>
+              <TextField
+                name="from"
+                label={t('statistics.dateFrom')}
+                type="date"
+                value={customFrom}
+                onChange={(e) => setCustomFrom(e.target.value)}
+              />
+            </Box>
+            <Box sx={{ width: 180 }}>
+              <TextField
+                name="to"
+                label={t('statistics.dateTo')}
+                type="date"
+                value={customTo}
+                onChange={(e) => setCustomTo(e.target.value)}
+              />
+            </Box>
+          </>
+        )}
+      </FiltersContainer>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {t('error.statisticsLoadFailedMessage')}
+        </Alert>
+      )}
+
+      {/* Totals */}
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 3 }}>
+        {kpis.map((kpi) => (
+          <Paper key={kpi.key} variant="outlined" sx={{ p: 2, flex: '1 1 160px' }}>
+            <Typography variant="body2" color="text.secondary">
+              {t(`statistics.usage.metrics.${kpi.key}`)}
+            </Typography>
+            <Typography variant="h5">{loading ? '…' : kpi.value}</Typography>
+          </Paper>
+        ))}
+      </Box>
+
+      {/* Budget comparison for a single campaign */}
+      {selectedCampaign && budgetComparison && (
+        <Paper variant="outlined" sx={{ p: 2, mb: 3 }}>
+          <Typography variant="h6" sx={{ mb: 2 }}>
+            {t('statistics.usage.budgetTitle')}
+          </Typography>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3 }}>
+            <Box sx={{ flex: '1 1 240px' }}>
+              <Typography variant="body2" color="text.secondary">
+                {t('statistics.usage.budgetUsed')}
+              </Typography>
+              <LinearProgress
+                variant="determinate"
+                value={Math.min(100, budgetComparison.budgetUsedPercent)}
+                color={budgetComparison.budgetUsedPercent > 100 ? 'error' : 'primary'}
+                sx={{ my: 1 }}
+              />
+              <Typography variant="body2">
+                {formatMoney(totals.spend)} / {formatMoney(selectedCampaign.budget)} (
+                {formatPercent(budgetComparison.budgetUsedPercent)})
+              </Typography>
+            </Box>
+            <Box sx={{ flex: '1 1 240px' }}>
+              <Typography variant="body2" color="text.secondary">
+                {t('statistics.usage.averageDailySpend')}
+              </Typography>
+              <LinearProgress
+                variant="determinate"
+                value={Math.min(100, budgetComparison.dailyBudgetUsedPercent)}
+                color={budgetComparison.dailyBudgetUsedPercent > 100 ? 'error' : 'primary'}
+                sx={{ my: 1 }}
+              />
+              <Typography variant="body2">
+                {formatMoney(budgetComparison.averageDailySpend)} / {formatMoney(selectedCampaign.budgetDaily)}
+              </Typography>
+              {budgetComparison.daysOverDailyBudget > 0 && (
+                <Typography variant="caption" color="error">
+                  {t('statistics.usage.daysOverDailyBudget', { count: budgetComparison.daysOverDailyBudget })}
+                </Typography>
+              )}
+            </Box>
+            <Box sx={{ flex: '1 1 240px' }}>
+              <Typography variant="body2" color="text.secondary">
+                {t('statistics.usage.pricing', {
+                  model: selectedCampaign.pricingModel,
+                  price: formatMoney(selectedCampaign.price),
+                })}
+              </Typography>
+              <Typography variant="body2" sx={{ mt: 1 }}>
+                {budgetComparison.expectedSpend === null
+                  ? t('statistics.usage.expectedSpendUnavailable', { model: selectedCampaign.pricingModel })
+                  : t('statistics.usage.expectedSpend', { value: formatMoney(budgetComparison.expectedSpend) })}
+              </Typography>
+            </Box>
+          </Box>
+        </Paper>
+      )}
+
+      {/* Daily chart */}
+      <Paper variant="outlined" sx={{ p: 2, mb: 3 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <Typography variant="h6">{t('statistics.usage.dailyTitle')}</Typography>
+          <Box sx={{ width: 200 }}>
+            <Select
+              name="chartMetric"
+              label={t('statistics.usage.metric')}
+              value={chartMetric}
+              onChange={(value) => setChartMetric(value as ChartMetric)}
+              options={(['impressions', 'clicks', 'spend', 'ctr', 'ecpm'] as ChartMetric[]).map((metric) => ({
+                value: metric,
+                label: t(`statistics.usage.metrics.${metric}`),
+              }))}
+            />
+          </Box>
+        </Box>
+        <TimeSeriesChart
+          lines={chartLines}
+          references={chartReferences}
+          formatValue={formatMetric}
+          emptyMessage={t('statistics.usage.noData')}
+        />
+      </Paper>
+
+      {/* Breakdown */}
+      <Tabs
+        value={dimension}
+        onChange={(_, value) => handleDimensionChange(value as RootDimension)}
+        sx={{ mb: 1 }}
+      >
+        {ROOT_DIMENSIONS.map((value) => (
+          <Tab key={value} value={value} label={t(`statistics.usage.dimensions.${value}`)} />
+        ))}
+      </Tabs>
+
+      {(drillDown.advertiserId || drillDown.campaignId) && (
+        <Breadcrumbs sx={{ mb: 2 }}>
+          <Link component="button" underline="hover" onClick={() => setDrillDown({})}>
+            {t(`statistics.usage.dimensions.${dimension}`)}
+          </Link>
+          {advertiserName && (
+            drillDown.campaignId ? (
+              <Link
+                component="button"
+                underline="hover"
+                onClick={() => setDrillDown({ advertiserId: drillDown.advertiserId })}
+              >
+                {advertiserName}
+              </Link>
+            ) : (
+              <Typography color="text.primary">{advertiserName}</Typography>
+            )
+          )}
+          {campaignName && <Typography color="text.primary">{campaignName}</Typography>}
+        </Breadcrumbs>
+      )}
+
+      {(groupBy === 'advertiser' || groupBy === 'campaign') && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          {t('statistics.usage.drillDownHint')}
+        </Typography>
+      )}
+
+      <DataTable<UsageRow>
+        columns={columns}
+        data={tableState.sortedData}
+        loading={loading}
+        sortColumn={tableState.sortColumn ?? undefined}
+        sortDirection={tableState.sortDirection}
+        onSort={(column) => tableState.handleSort(column as keyof UsageRow)}
+        onRowClick={groupBy === 'advertiser' || groupBy === 'campaign' ? handleRowClick : undefined}
+        emptyMessage={t('statistics.usage.noData')}
+        rowKey="id"
+      />
+    </Box>
+  );
+});
+
+UsageSection.displayName = 'UsageSection';
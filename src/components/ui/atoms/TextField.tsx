@@ -10,7 +10,7 @@ interface TextFieldProps {
   /** Метка поля */
   label: string;
   /** Тип поля */
-  type?: 'text' | 'password' | 'email' | 'number' | 'url' | 'date';
+  type?: 'text' | 'password' | 'email' | 'number' | 'url' | 'date' | 'datetime-local';
   /** Placeholder */
   placeholder?: string;
   /** Значение поля */
@@ -0,0 +1,210 @@
+import { memo, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Box,
+  Chip,
+  CircularProgress,
+  Radio,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { useTranslation } from 'react-i18next';
+import Button from '../atoms/Button';
+import {
+  getConflictFields,
+  getDefaultConflictSide,
+  mergeConflictValues,
+  type ConflictField,
+  type ConflictSide,
+} from '../../../utils/conflictUtils';
+import { formatAuditValue } from '../../../utils/auditUtils';
+
+/**
+ * Props for ConflictResolutionDialog component
+ */
+export interface ConflictResolutionDialogProps<T extends object> {
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Whether the latest server version is being loaded */
+  loading: boolean;
+  /** Values the form was loaded with */
+  original: T | null;
+  /** Latest values on the server */
+  theirs: T | null;
+  /** Values the user tried to save */
+  mine: T | null;
+  /** Human readable labels per field name */
+  fieldLabels?: Partial<Record<keyof T & string, string>>;
+  /** Custom value renderer, defaults to short text */
+  formatValue?: (field: string, value: unknown) => string;
+  /** Called with merged values */
+  onResolve: (values: T) => void;
+  /** Cancel handler */
+  onCancel: () => void;
+}
+
+const SIDES: ConflictSide[] = ['original', 'theirs', 'mine'];
+
+/**
+ * Three-way merge dialog shown when saving fails with 460 "Object Changed".
+ * Lists every field that differs between the original, the server and the
+ * user's version and lets the user pick the value to keep. The merged values
+ * are handed back to the form, which is then saved with the fresh hash.
+ *
+ * @example
+ * ```tsx
+ * const conflictDialog = useConflictResolution<FormValues>();
+ *
+ * <ConflictResolutionDialog {...conflictDialog.dialogProps} fieldLabels={{ name: t('fields.name') }} />
+ * ```
+ */
+export const ConflictResolutionDialog = memo(<T extends object>({
+  open,
+  loading,
+  original,
+  theirs,
+  mine,
+  fieldLabels,
+  formatValue,
+  onResolve,
+  onCancel,
+}: ConflictResolutionDialogProps<T>) => {
+  const { t } = useTranslation();
+  const [selection, setSelection] = useState<{
+    fields: ConflictField[];
+    choices: Record<string, ConflictSide>;
+  } | null>(null);
+
+  const fields = useMemo<ConflictField[]>(
+    () => (original && theirs && mine ? getConflictFields(original, theirs, mine) : []),
+    [original, theirs, mine]
+  );
+
+  // Choices made for another conflict are dropped in favour of the defaults
+  const choices = useMemo<Record<string, ConflictSide>>(
+    () => selection?.fields === fields
+      ? selection.choices
+      : Object.fromEntries(fields.map((field) => [field.field, getDefaultConflictSide(field)])),
+    [selection, fields]
+  );
+
+  const conflictCount = fields.filter((field) => field.conflicting).length;
+
+  const handleChoose = (field: string, side: ConflictSide) => {
+    setSelection({ fields, choices: { ...choices, [field]: side } });
+  };
+
+  const handleChooseAll = (side: ConflictSide) => {
+    setSelection({ fields, choices: Object.fromEntries(fields.map((field) => [field.field, side])) });
+  };
+
+  const handleResolve = () => {
+    if (!mine) return;
+    onResolve(mergeConflictValues(mine, fields, choices));
+  };
+
+  const renderValue = (field: string, value: unknown) =>
+    formatValue ? formatValue(field, value) : formatAuditValue(value);
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onCancel}
+      maxWidth="lg"
+      fullWidth
+      disableRestoreFocus
+      aria-labelledby="conflict-dialog-title"
+      container={() => document.getElementById('modal-root')}
+    >
+      <DialogTitle id="conflict-dialog-title">{t('conflict.title')}</DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>{t('conflict.description')}</DialogContentText>
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : fields.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            {t('conflict.noDifferences')}
+          </Typography>
+        ) : (
+          <>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              {conflictCount > 0 && (
+                <Chip size="small" color="warning" label={t('conflict.conflictCount', { count: conflictCount })} />
+              )}
+              <Box sx={{ flexGrow: 1 }} />
+              <Button size="small" variant="text" onClick={() => handleChooseAll('theirs')}>
+                {t('conflict.useAllTheirs')}
+              </Button>
+              <Button size="small" variant="text" onClick={() => handleChooseAll('mine')}>
+                {t('conflict.useAllMine')}
+              </Button>
+            </Box>
+
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('conflict.field')}</TableCell>
+                  {SIDES.map((side) => (
+                    <TableCell key={side}>{t(`conflict.sides.${side}`)}</TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {fields.map((field) => (
+                  <TableRow key={field.field}>
+                    <TableCell sx={{ fontWeight: 500, whiteSpace: 'nowrap', verticalAlign: 'top' }}>
+                      {fieldLabels?.[field.field as keyof T & string] || field.field}
+                      {field.conflicting && (
+                        <Chip size="small" color="warning" label={t('conflict.conflicting')} sx={{ ml: 1 }} />
+                      )}
+                    </TableCell>
+                    {SIDES.map((side) => (
+                      <TableCell
+                        key={side}
+                        onClick={() => handleChoose(field.field, side)}
+                        sx={{ cursor: 'pointer', verticalAlign: 'top' }}
+                      >
+                        <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 0.5 }}>
+                          <Radio
+                            size="small"
+                            checked={choices[field.field] === side}
+                            sx={{ p: 0.25 }}
+                            inputProps={{ 'aria-label': `${field.field} ${t(`conflict.sides.${side}`)}` }}
+                          />
+                          <Typography variant="body2" sx={{ wordBreak: 'break-word' }}>
+                            {renderValue(field.field, field[side])}
+                          </Typography>
+                        </Box>
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel} variant="text" color="secondary">
+          {t('common.cancel')}
+        </Button>
+        <Button onClick={handleResolve} variant="contained" disabled={loading || !theirs}>
+          {t('conflict.apply')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}) as <T extends object>(props: ConflictResolutionDialogProps<T>) => React.ReactElement;
+
+(ConflictResolutionDialog as { displayName?: string }).displayName = 'ConflictResolutionDialog';
@@ -11,6 +11,7 @@ import {
   Skeleton,
   Box,
   Typography,
+  Checkbox,
 } from '@mui/material';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import { logger } from '../../../utils/logger';
@@ -34,6 +35,7 @@ class CellErrorBoundary extends Component<
   componentDidCatch(error: Error, errorInfo: ErrorInfo): void {
     logger.error('Cell rendering error', error, {
       componentStack: errorInfo.componentStack,
+      source: 'cell',
     });
   }
 
@@ -62,6 +64,22 @@ export interface Column<T extends Record<string, any> = Record<string, any>> {
   width?: string | number;
 }
 
+/**
+ * Выбор строк чекбоксами
+ */
+export interface DataTableSelection<T> {
+  /** Выбрана ли строка */
+  isSelected: (row: T) => boolean;
+  /** Переключение выбора строки */
+  onToggle: (row: T) => void;
+  /** Выбраны все строки */
+  allSelected: boolean;
+  /** Выбрана часть строк */
+  someSelected: boolean;
+  /** Переключение выбора всех строк */
+  onToggleAll: () => void;
+}
+
 /**
  * Props для универсальной таблицы данных
  */
@@ -85,6 +103,8 @@ export interface DataTableProps<T extends Record<string, any> = Record<string, a
   onRowClick?: (row: T) => void;
   /** Ключ для идентификации строки */
   rowKey: keyof T;
+  /** Колонка с чекбоксами для выбора строк */
+  selection?: DataTableSelection<T>;
 }
 
 /**
@@ -125,12 +145,15 @@ function DataTable<T extends Record<string, any>>({
   sortDirection = 'asc',
   onRowClick,
   rowKey,
+  selection,
 }: DataTableProps<T>) {
   // Reference for virtualization
   const tableContainerRef = useRef<HTMLDivElement>(null);
   
   // Use virtualization only for large datasets (>100 rows)
   const useVirtualization = data.length > 100;
+
+  const columnCount = columns.length + (selection ? 1 : 0);
   
   // Setup virtualizer for large datasets
   const rowVirtualizer = useVirtualizer({
@@ -167,6 +190,16 @@ function DataTable<T extends Record<string, any>>({
     [onRowClick]
   );
 
+  /**
+   * Рендер чекбокса выбора строки
+   */
+  const renderSelectionCell = (row: T) =>
+    selection && (
+      <TableCell padding="checkbox" onClick={(event) => event.stopPropagation()}>
+        <Checkbox checked={selection.isSelected(row)} onChange={() => selection.onToggle(row)} />
+      </TableCell>
+    );
+
   /**
    * Рендер скелетона загрузки
    */
@@ -174,6 +207,7 @@ function DataTable<T extends Record<string, any>>({
     <>
       {[...Array(5)].map((_, index) => (
         <TableRow key={index}>
+          {selection && <TableCell padding="checkbox" />}
           {columns.map((column) => (
             <TableCell key={String(column.id)}>
               <Skeleton variant="text" />
@@ -189,7 +223,7 @@ function DataTable<T extends Record<string, any>>({
    */
   const renderEmpty = () => (
     <TableRow>
-      <TableCell colSpan={columns.length} align="center">
+      <TableCell colSpan={columnCount} align="center">
         <Box py={4}>
           <Typography variant="body1" color="text.secondary">
             {emptyMessage}
@@ -212,6 +246,7 @@ function DataTable<T extends Record<string, any>>({
           cursor: onRowClick ? 'pointer' : 'default',
         }}
       >
+        {renderSelectionCell(row)}
         {columns.map((column) => (
           <TableCell
             key={String(column.id)}
@@ -239,7 +274,7 @@ function DataTable<T extends Record<string, any>>({
         {virtualItems.length > 0 && (
           <TableRow>
             <TableCell
-              colSpan={columns.length}
+              colSpan={columnCount}
               sx={{ height: virtualItems[0].start, padding: 0, border: 0 }}
             />
           </TableRow>
@@ -259,6 +294,7 @@ function DataTable<T extends Record<string, any>>({
               data-index={virtualRow.index}
               ref={rowVirtualizer.measureElement}
             >
+              {renderSelectionCell(row)}
               {columns.map((column) => (
                 <TableCell
                   key={String(column.id)}
@@ -279,7 +315,7 @@ function DataTable<T extends Record<string, any>>({
         {virtualItems.length > 0 && (
           <TableRow>
             <TableCell
-              colSpan={columns.length}
+              colSpan={columnCount}
               sx={{
                 height: rowVirtualizer.getTotalSize() - (virtualItems[virtualItems.length - 1]?.end ?? 0),
                 padding: 0,
@@ -301,6 +337,15 @@ function DataTable<T extends Record<string, any>>({
       <Table>
         <TableHead>
           <TableRow>
+            {selection && (
+              <TableCell padding="checkbox">
+                <Checkbox
+                  checked={selection.allSelected}
+                  indeterminate={selection.someSelected}
+                  onChange={selection.onToggleAll}
+                />
+              </TableCell>
+            )}
             {columns.map((column) => (
               <TableCell
                 key={String(column.id)}
@@ -1,4 +1,4 @@
-import { memo, useEffect, useState } from 'react';
+import { memo, useEffect, useRef, useState } from 'react';
 import { useForm, type FieldValues } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import type { ZodSchema } from 'zod';
@@ -15,7 +15,10 @@ import {
 import { Close as CloseIcon } from '@mui/icons-material';
 import { Button } from '../atoms';
 import FormField, { type FormFieldProps } from './FormField';
+import { ConflictResolutionDialog } from './ConflictResolutionDialog';
 import { logger } from '@utils/logger';
+import { isApiError } from '@api/errors';
+import useConflictResolution, { type ConflictLatestVersion } from '@hooks/useConflictResolution';
 
 /**
  * Configuration for a form field
@@ -53,8 +56,8 @@ export interface GenericFormDialogProps<T extends FieldValues> {
   schema: ZodSchema<T>;
   /** Default form values */
   defaultValues: T;
-  /** Submit handler */
-  onSubmit: (data: T) => Promise<void>;
+  /** Submit handler. `hash` is the fresh entity hash once a conflict was resolved */
+  onSubmit: (data: T, hash?: string) => Promise<void>;
   /** Close handler */
   onClose: () => void;
   /** Form fields configuration (for simple single-tab forms) */
@@ -69,6 +72,12 @@ export interface GenericFormDialogProps<T extends FieldValues> {
   cancelText?: string;
   /** Whether to show loading state */
   loading?: boolean;
+  /**
+   * Refetch the entity as form values. When set, a 460 "Object Changed"
+   * error thrown by onSubmit opens a merge dialog instead of losing the edits;
+   * merged values are put back into the form to be saved again.
+   */
+  loadLatest?: () => Promise<ConflictLatestVersion<T>>;
 }
 
 /**
@@ -125,8 +134,12 @@ export const GenericFormDialog = memo(<T extends FieldValues>({
   submitText = 'Save',
   cancelText = 'Cancel',
   loading = false,
+  loadLatest,
 }: GenericFormDialogProps<T>) => {
   const [activeTab, setActiveTab] = useState(0);
+  const conflictDialog = useConflictResolution<T>();
+  // Server version the edits are based on after a resolved conflict
+  const conflictBaseRef = useRef<ConflictLatestVersion<T> | null>(null);
   
   const {
     control,
@@ -142,15 +155,29 @@ export const GenericFormDialog = memo(<T extends FieldValues>({
   useEffect(() => {
     if (open) {
       reset(defaultValues);
+      conflictBaseRef.current = null;
       setActiveTab(0);
     }
   }, [open, defaultValues, reset]);
 
   const handleFormSubmit = async (data: T) => {
     try {
-      await onSubmit(data);
+      await onSubmit(data, conflictBaseRef.current?.hash);
       onClose();
     } catch (error) {
+      if (loadLatest && isApiError(error) && error.isObjectChanged()) {
+        void conflictDialog.open({
+          original: conflictBaseRef.current?.values ?? defaultValues,
+          mine: data,
+          loadLatest,
+          onResolve: (values, latest) => {
+            // The next save uses the merged values and the fresh hash
+            conflictBaseRef.current = latest;
+            reset(values);
+          },
+        });
+        return;
+      }
       // Error handling is done by the parent component
       logger.error('Form submission error:', error as Error);
     }
@@ -271,7 +298,7 @@ export const GenericFormDialog = memo(<T extends FieldValues>({
       >
         <Box
           component="form"
-          onSubmit={handleSubmit(handleFormSubmit, handleFormError)}
+          onSubmit={(event) => handleSubmit(handleFormSubmit, handleFormError)(event)}
           sx={{
             flexGrow: 1,
             display: 'flex',
@@ -323,6 +350,15 @@ export const GenericFormDialog = memo(<T extends FieldValues>({
           </Box>
         </Box>
       </DialogContent>
+
+      {loadLatest && (
+        <ConflictResolutionDialog
+          {...conflictDialog.dialogProps}
+          fieldLabels={Object.fromEntries(
+            [...(fields || []), ...(tabs || []).flatMap((tab) => tab.fields)].map((field) => [field.name, field.label])
+          ) as Partial<Record<keyof T & string, string>>}
+        />
+      )}
     </Dialog>
   );
 }) as <T extends FieldValues>(props: GenericFormDialogProps<T>) => React.ReactElement;
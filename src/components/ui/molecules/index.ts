@@ -12,7 +12,7 @@
  */
 
 export { default as DataTable } from './DataTable';
-export type { DataTableProps, Column } from './DataTable';
+export type { DataTableProps, DataTableSelection, Column } from './DataTable';
 
 export { default as Pagination } from './Pagination';
 export type { PaginationProps } from './Pagination';
@@ -41,6 +41,9 @@ export type { ActionMenuProps, MenuItemConfig } from './ActionMenu';
 export { default as ConfirmDialog } from './ConfirmDialog';
 export type { ConfirmDialogProps } from './ConfirmDialog';
 
+export { ConflictResolutionDialog } from './ConflictResolutionDialog';
+export type { ConflictResolutionDialogProps } from './ConflictResolutionDialog';
+
 export { default as MultilingualNameField } from './MultilingualNameField';
 export { default as SwitchField } from './SwitchField';
 export { default as TimeSelectField } from './TimeSelectField';
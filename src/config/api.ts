@@ -11,10 +11,12 @@ export const API_ENDPOINTS = {
   creatives: '/creatives',
   restaurants: '/restaurants',
   schedules: '/schedules',
+  holidayCalendars: '/holiday-calendars',
   slots: '/adslots',
   dictionaries: '/dictionaries',
   locations: '/locations',
   audit: '/audit',
+  stats: '/stats',
 } as const;
 
 // Type-safe endpoint keys
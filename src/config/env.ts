@@ -22,6 +22,15 @@ interface EnvironmentConfig {
   debugMode: boolean;
   logLevel: 'debug' | 'info' | 'warn' | 'error';
 
+  // Error log
+  errorLogMaxEntries: number;
+  errorReportUrl: string;
+  errorReportBatchSize: number;
+  errorReportInterval: number;
+
+  // Creatives
+  creativeAllowedDomains: string[];
+
   // Map
   mapDefaultCenter: {
     lat: number;
@@ -88,6 +97,18 @@ export const env: EnvironmentConfig = {
   debugMode: getEnvBoolean('VITE_DEBUG_MODE', false),
   logLevel: (getEnv('VITE_LOG_LEVEL', 'info') as 'debug' | 'info' | 'warn' | 'error'),
 
+  // Error log (empty report URL = keep entries in the browser only)
+  errorLogMaxEntries: getEnvNumber('VITE_ERROR_LOG_MAX_ENTRIES', 500),
+  errorReportUrl: getEnv('VITE_ERROR_REPORT_URL', ''),
+  errorReportBatchSize: getEnvNumber('VITE_ERROR_REPORT_BATCH_SIZE', 50),
+  errorReportInterval: getEnvNumber('VITE_ERROR_REPORT_INTERVAL', 10000),
+
+  // Creatives (comma-separated domains creatives may load resources from, subdomains included)
+  creativeAllowedDomains: getEnv('VITE_CREATIVE_ALLOWED_DOMAINS', '')
+    .split(',')
+    .map((domain) => domain.trim().toLowerCase())
+    .filter(Boolean),
+
   // Map
   mapDefaultCenter: {
     lat: getEnvNumber('VITE_MAP_DEFAULT_CENTER_LAT', 40.1792),
@@ -40,6 +40,14 @@ export type {
   UseConfirmDialogReturn,
 } from './useConfirmDialog';
 
+export { default as useConflictResolution } from './useConflictResolution';
+export type {
+  ConflictLatestVersion,
+  ConflictResolutionConfig,
+  ConflictResolutionProps,
+  UseConflictResolutionReturn,
+} from './useConflictResolution';
+
 export { default as useToggle } from './useToggle';
 
 // Utility hooks
@@ -69,6 +77,11 @@ export type { UseMultilingualNameReturn } from './useMultilingualName';
 export { useDataSelection } from './useDataSelection';
 export type { UseDataSelectionOptions, UseDataSelectionReturn } from './useDataSelection';
 
+export { default as useLinkedEntity, getLinkedEntityPath, LINKED_ENTITY_PARAM } from './useLinkedEntity';
+
+export { default as useTimezoneView } from './useTimezoneView';
+export type { UseTimezoneViewReturn } from './useTimezoneView';
+
 export { useDialogState } from './useDialogState';
 export type { UseDialogStateOptions, UseDialogStateReturn } from './useDialogState';
 export type { UsePaginationConfig, UsePaginationReturn } from './usePagination';
@@ -1,8 +1,6 @@
 import useFetch, { type UseFetchReturn } from './useFetch';
 import { type AuditEvent, type AuditEntityType } from '../types';
-import { realApiFetch } from '../api/real/client';
-import { env } from '../config/env';
-import { API_ENDPOINTS } from '../config/api';
+import { auditApi } from '../api';
 
 /**
  * Props for useAuditLog hook
@@ -12,6 +10,8 @@ export interface UseAuditLogProps {
   entityType?: AuditEntityType;
   /** Filter by entity ID */
   entityId?: number | string;
+  /** Skip fetching while false, e.g. until a drawer is opened (default: true) */
+  enabled?: boolean;
 }
 
 /**
@@ -62,32 +62,19 @@ export interface UseAuditLogReturn {
 function useAuditLog({
   entityType,
   entityId,
+  enabled = true,
 }: UseAuditLogProps): UseAuditLogReturn {
   const fetchEvents = async (): Promise<AuditEvent[]> => {
-    // Build query params
-    const params = new URLSearchParams();
-    if (entityType) {
-      params.append('entityType', entityType);
-    }
-    if (entityId !== undefined) {
-      params.append('entityId', String(entityId));
-    }
+    if (!enabled) return [];
 
-    const queryString = params.toString();
-    const url = `${env.apiBaseUrl}${API_ENDPOINTS.audit}${queryString ? `?${queryString}` : ''}`;
-
-    // Use realApiFetch for proper retry logic, timeout, and error handling
-    const response = await realApiFetch(url, {
-      method: 'GET',
-    });
-
-    const data = await response.json();
-    return data.data || [];
+    // auditApi goes through realApiFetch and returns a bare array
+    const events = await auditApi.getEvents({ entityType, entityId });
+    return [...events].sort((a, b) => b.timestamp - a.timestamp);
   };
 
   const { data, loading, error, refetch }: UseFetchReturn<AuditEvent[]> = useFetch(
     fetchEvents,
-    [entityType, entityId]
+    [entityType, entityId, enabled]
   );
 
   return {
@@ -7,7 +7,7 @@ import { isApiError } from '../api/errors';
 import { useDictionariesStore } from '../store/dictionariesStore';
 import { useRestaurantsStore } from '../store/restaurantsStore';
 import { useAdvertisersStore } from '../store/advertisersStore';
-import type { Campaign, Advertiser, DictionaryItem, RestaurantListItem, Schedule, Slot, District, City } from '../types';
+import type { Campaign, Advertiser, DictionaryItem, RestaurantListItem, Schedule, Slot, District, City, Country } from '../types';
 
 /**
  * Callbacks for UI notifications (optional - decouples UI concerns)
@@ -44,6 +44,7 @@ export interface CampaignsData {
   restaurants: RestaurantListItem[];
   schedules: Schedule[];
   cities: City[];
+  countries: Country[];
   priceSegments: DictionaryItem[];
 }
 
@@ -71,6 +72,7 @@ export const useCampaignsData = (options?: UseCampaignsDataOptions) => {
     restaurants: [],
     schedules: [],
     cities: [],
+    countries: [],
     priceSegments: [],
   });
   
@@ -165,6 +167,7 @@ export const useCampaignsData = (options?: UseCampaignsDataOptions) => {
         restaurants: restaurantsData,
         schedules: schedulesData,
         cities: locationsResponse.cities,
+        countries: locationsResponse.countries,
         priceSegments: priceSegmentsData,
       }));
       
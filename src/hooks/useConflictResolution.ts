@@ -0,0 +1,140 @@
+import { useState, useCallback } from 'react';
+import { useSnackbar } from 'notistack';
+import { useTranslation } from 'react-i18next';
+import { logger } from '../utils/logger';
+
+/**
+ * Latest server version of the entity, as form values plus its fresh hash
+ */
+export interface ConflictLatestVersion<T> {
+  values: T;
+  hash: string;
+}
+
+/**
+ * Configuration for opening a conflict resolution dialog
+ */
+export interface ConflictResolutionConfig<T> {
+  /** Values the form was loaded with */
+  original: T;
+  /** Values the user tried to save */
+  mine: T;
+  /** Refetch the entity and convert it to form values */
+  loadLatest: () => Promise<ConflictLatestVersion<T>>;
+  /** Apply merged values to the form and keep the fresh hash for the next save */
+  onResolve: (values: T, latest: ConflictLatestVersion<T>) => void | Promise<void>;
+}
+
+/**
+ * Props to spread on ConflictResolutionDialog
+ */
+export interface ConflictResolutionProps<T> {
+  open: boolean;
+  loading: boolean;
+  original: T | null;
+  theirs: T | null;
+  mine: T | null;
+  onResolve: (values: T) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Return type for useConflictResolution hook
+ */
+export interface UseConflictResolutionReturn<T> {
+  /** Whether dialog is open */
+  isOpen: boolean;
+  /** Load the latest version and open the dialog */
+  open: (config: ConflictResolutionConfig<T>) => Promise<void>;
+  /** Close dialog without saving */
+  close: () => void;
+  /** Props to spread on dialog component */
+  dialogProps: ConflictResolutionProps<T>;
+}
+
+/**
+ * Hook for resolving 460 "Object Changed" errors with a three-way merge
+ *
+ * @example
+ * ```tsx
+ * const conflictDialog = useConflictResolution<FormValues>();
+ *
+ * // In the save error handler:
+ * if (isApiError(error) && error.isObjectChanged()) {
+ *   conflictDialog.open({
+ *     original: toFormValues(entity),
+ *     mine: values,
+ *     loadLatest: async () => {
+ *       const latest = await api.getById(id);
+ *       return { values: toFormValues(latest), hash: latest.hash || '' };
+ *     },
+ *     onResolve: (merged, latest) => {
+ *       hashRef.current = latest.hash;
+ *       form.reset(merged);
+ *     },
+ *   });
+ * }
+ *
+ * <ConflictResolutionDialog {...conflictDialog.dialogProps} />
+ * ```
+ */
+function useConflictResolution<T extends object>(): UseConflictResolutionReturn<T> {
+  const { t } = useTranslation();
+  const { enqueueSnackbar } = useSnackbar();
+  const [isOpen, setIsOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [config, setConfig] = useState<ConflictResolutionConfig<T> | null>(null);
+  const [latest, setLatest] = useState<ConflictLatestVersion<T> | null>(null);
+
+  const open = useCallback(
+    async (conflictConfig: ConflictResolutionConfig<T>) => {
+      setConfig(conflictConfig);
+      setLatest(null);
+      setIsOpen(true);
+      setLoading(true);
+
+      try {
+        setLatest(await conflictConfig.loadLatest());
+      } catch (error) {
+        logger.error('Failed to load latest version for conflict resolution', error as Error);
+        enqueueSnackbar(t('conflict.loadFailed'), { variant: 'error' });
+        setIsOpen(false);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [enqueueSnackbar, t]
+  );
+
+  const close = useCallback(() => {
+    setIsOpen(false);
+  }, []);
+
+  const resolve = useCallback(
+    (values: T) => {
+      if (!config || !latest) return;
+      setIsOpen(false);
+      void config.onResolve(values, latest);
+    },
+    [config, latest]
+  );
+
+  const dialogProps: ConflictResolutionProps<T> = {
+    open: isOpen,
+    loading,
+    original: config?.original ?? null,
+    theirs: latest?.values ?? null,
+    mine: config?.mine ?? null,
+    onResolve: resolve,
+    onCancel: close,
+  };
+
+  return {
+    isOpen,
+    open,
+    close,
+    dialogProps,
+  };
+}
+
+export default useConflictResolution;
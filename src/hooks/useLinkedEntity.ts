@@ -0,0 +1,51 @@
+import { useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+/** Search param that links to one entity of a list page, e.g. `/campaigns?id=42` */
+export const LINKED_ENTITY_PARAM = 'id';
+
+/**
+ * Link to an entity on its list page
+ */
+export const getLinkedEntityPath = (route: string, id: string | number): string =>
+  `${route}?${new URLSearchParams({ [LINKED_ENTITY_PARAM]: String(id) })}`;
+
+/**
+ * Hook that opens the entity a link points to (see getLinkedEntityPath)
+ *
+ * Once the list is loaded, calls onOpen with the linked item and drops the param from the URL,
+ * so closing the dialog or reloading the list doesn't open it again.
+ *
+ * @param items - Entities of the list page
+ * @param loading - Whether the list is still loading
+ * @param onOpen - Opens the entity, e.g. its edit dialog
+ *
+ * @example
+ * ```tsx
+ * useLinkedEntity(campaigns, loading, handleEdit);
+ * ```
+ */
+function useLinkedEntity<T extends { id: string | number }>(
+  items: T[] | null | undefined,
+  loading: boolean,
+  onOpen: (item: T) => void
+): void {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedId = searchParams.get(LINKED_ENTITY_PARAM);
+
+  useEffect(() => {
+    if (!linkedId || loading || !items) return;
+
+    const item = items.find((entry) => String(entry.id) === linkedId);
+    if (item) onOpen(item);
+    setSearchParams(
+      (params) => {
+        params.delete(LINKED_ENTITY_PARAM);
+        return params;
+      },
+      { replace: true }
+    );
+  }, [linkedId, loading, items, onOpen, setSearchParams]);
+}
+
+export default useLinkedEntity;
@@ -0,0 +1,45 @@
+import { useState } from 'react';
+import useLocalStorage from './useLocalStorage';
+import { DEFAULT_TIMEZONE } from '../utils/timezoneUtils';
+
+export interface UseTimezoneViewReturn {
+  /** Zone the edited values are in */
+  targetTimezone: string;
+  setTargetTimezone: (timezone: string) => void;
+  /** Zone the values are shown in */
+  viewTimezone: string;
+  /** Chosen viewing zone, null shows the target zone */
+  viewPreference: string | null;
+  setViewPreference: (timezone: string | null) => void;
+}
+
+/**
+ * Hook for the "viewing in" timezone of date and hour editors
+ *
+ * The target zone is one of the given restaurant zones, the first one unless another is picked.
+ * The viewing zone is remembered across editors and sessions.
+ *
+ * @param timezones - Zones the values can be in, most relevant first
+ *
+ * @example
+ * ```tsx
+ * const { targetTimezone, viewTimezone } = useTimezoneView(['Asia/Yerevan']);
+ * const shown = convertWallClock(startDate, targetTimezone, viewTimezone);
+ * ```
+ */
+function useTimezoneView(timezones: string[]): UseTimezoneViewReturn {
+  const [targetChoice, setTargetTimezone] = useState<string | null>(null);
+  const [viewPreference, setViewPreference] = useLocalStorage<string | null>('viewTimezone', null);
+
+  const targetTimezone = targetChoice && timezones.includes(targetChoice) ? targetChoice : timezones[0] || DEFAULT_TIMEZONE;
+
+  return {
+    targetTimezone,
+    setTargetTimezone,
+    viewTimezone: viewPreference || targetTimezone,
+    viewPreference,
+    setViewPreference,
+  };
+}
+
+export default useTimezoneView;
@@ -102,6 +102,7 @@ export const MainLayout = () => {
       icon: <BookIcon />,
       children: [
         { id: 'slots', labelKey: 'menu.slots', icon: null, path: '/slots' },
+        { id: 'slot-simulator', labelKey: 'menu.slotSimulator', icon: null, path: '/slot-simulator' },
         { id: 'schedules', labelKey: 'menu.schedules', icon: null, path: '/schedules' },
       ],
     },
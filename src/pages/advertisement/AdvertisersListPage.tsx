@@ -1,18 +1,19 @@
 import { useMemo, useCallback, memo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Box, Stack, Typography, Backdrop, CircularProgress } from '@mui/material';
-import { Add as AddIcon, FilterList as FilterListIcon, Edit as EditIcon } from '@mui/icons-material';
+import { Add as AddIcon, FilterList as FilterListIcon, Edit as EditIcon, History as HistoryIcon } from '@mui/icons-material';
 import { useSnackbar } from 'notistack';
-import { DataTable, SearchField, Pagination, ConfirmDialog, FilterDrawer, GenericFormDialog, MultilingualNameField } from '../../components/ui/molecules';
+import { DataTable, SearchField, Pagination, ConfirmDialog, FilterDrawer, GenericFormDialog, MultilingualNameField, ActionMenu } from '../../components/ui/molecules';
 import type { Column } from '../../components/ui/molecules/DataTable';
 import { Button, IconButton, Switch, Select } from '../../components/ui/atoms';
-import { useTableState, useConfirmDialog, useDrawer, useDialogState, useEditWithLoading, useEntityList, useMultilingualName, useDebounce, useCommonFilters } from '../../hooks';
+import { useTableState, useConfirmDialog, useDrawer, useDialogState, useEditWithLoading, useEntityList, useMultilingualName, useDebounce, useCommonFilters, useLinkedEntity } from '../../hooks';
 import { advertisersApi } from '../../api';
 import { isApiError } from '../../api/errors';
 import { logger } from '../../utils/logger';
 import type { Advertiser, AdvertiserFormData } from '../../types';
 import { z } from 'zod';
 import { PageHeader, FiltersContainer } from '../../components/ui/styled';
+import { EntityHistoryDrawer } from '../../components/common/EntityHistoryDrawer';
 
 const createAdvertiserSchema = (t: (key: string) => string) =>
   z.object({
@@ -100,6 +101,8 @@ const AdvertisersListPage = memo(() => {
 
   // Dialog state management
   const formDialog = useDialogState<{ id?: string; data?: AdvertiserFormData | null }>();
+  const historyDialog = useDialogState<{ id: string; name: string }>();
+  const openHistory = historyDialog.openDialog;
   
   // Edit with loading hook
   const { isLoading: isLoadingEdit, handleEdit } = useEditWithLoading<Advertiser>({
@@ -137,6 +140,9 @@ const AdvertisersListPage = memo(() => {
     }
   }, [handleEdit, formDialog, defaultFormValues]);
 
+  // Open the advertiser linked from another page (e.g. the audit log)
+  useLinkedEntity(entityList.entities, entityList.loading, handleOpenDialog);
+
   const handleCloseDialog = useCallback(() => {
     formDialog.closeDialog();
   }, [formDialog]);
@@ -239,11 +245,20 @@ const AdvertisersListPage = memo(() => {
               checked={!advertiser.blocked}
               onChange={() => handleBlock(advertiser)}
             />
+            <ActionMenu
+              items={[
+                {
+                  label: t('common.history'),
+                  icon: <HistoryIcon fontSize="small" />,
+                  onClick: () => openHistory({ id: String(advertiser.id), name: getDisplayName(advertiser.name) }),
+                },
+              ]}
+            />
           </Stack>
         ),
       },
     ],
-    [t, getDisplayName, handleBlock, handleOpenDialog]
+    [t, getDisplayName, handleBlock, handleOpenDialog, openHistory]
   );
 
   return (
@@ -380,6 +395,15 @@ const AdvertisersListPage = memo(() => {
 
       {/* Confirm Dialog */}
       <ConfirmDialog {...confirmDialog.dialogProps} />
+
+      {/* History Drawer */}
+      <EntityHistoryDrawer
+        open={historyDialog.open}
+        onClose={historyDialog.closeDialog}
+        entityType="advertiser"
+        entityId={historyDialog.data?.id}
+        entityName={historyDialog.data?.name}
+      />
     </Box>
   );
 });
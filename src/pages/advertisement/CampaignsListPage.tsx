@@ -1,22 +1,36 @@
-import { useState, useMemo, useCallback, memo, useEffect, useId } from 'react';
+import { useState, useMemo, useCallback, memo, useEffect, useId, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Box, Stack, Typography, Tabs, Tab, Dialog, DialogTitle, DialogContent, IconButton as MuiIconButton, Backdrop, CircularProgress } from '@mui/material';
-import { Add as AddIcon, FilterList as FilterListIcon, Edit as EditIcon, Close as CloseIcon } from '@mui/icons-material';
-import { DataTable, SearchField, Pagination, ConfirmDialog, FilterDrawer, MultilingualNameField, SwitchField } from '../../components/ui/molecules';
-import type { Column } from '../../components/ui/molecules/DataTable';
+import { Box, Stack, Typography, Tabs, Tab, Dialog, DialogTitle, DialogContent, IconButton as MuiIconButton, Backdrop, CircularProgress, FormControlLabel, Checkbox, Paper, Stepper, Step, StepButton } from '@mui/material';
+import { Add as AddIcon, FilterList as FilterListIcon, Edit as EditIcon, Close as CloseIcon, History as HistoryIcon, ContentCopy as ContentCopyIcon, EditNote as EditNoteIcon, TableRows as TableRowsIcon, ViewTimeline as ViewTimelineIcon } from '@mui/icons-material';
+import { DataTable, SearchField, Pagination, ConfirmDialog, FilterDrawer, MultilingualNameField, SwitchField, ActionMenu, ConflictResolutionDialog, StatusChip } from '../../components/ui/molecules';
+import type { Column, DataTableSelection } from '../../components/ui/molecules/DataTable';
 import { Button, IconButton, Switch, Select } from '../../components/ui/atoms';
-import { useTableState, useDebounce, useConfirmDialog, useDrawer, useFilters, useMultilingualName, useDialogState, useCampaignsData, useEditWithLoading, useCommonFilters } from '../../hooks';
+import { useTableState, useDebounce, useConfirmDialog, useDrawer, useFilters, useMultilingualName, useDialogState, useCampaignsData, useEditWithLoading, useCommonFilters, useConflictResolution, useFetch, useDataSelection, useLinkedEntity } from '../../hooks';
+import type { ConflictLatestVersion } from '../../hooks';
 import { useSnackbar } from 'notistack';
-import { campaignsApi } from '../../api';
+import { campaignsApi, creativesApi, statsApi } from '../../api';
 import { isApiError } from '../../api/errors';
 import { logger } from '../../utils/logger';
 import type { Campaign, CampaignFormData, CampaignTarget } from '../../types';
 import { TargetingTab } from '../../components/campaigns/TargetingTab';
+import { CampaignPacingPanel } from '../../components/campaigns/CampaignPacingPanel';
+import { ReachForecastPanel } from '../../components/campaigns/ReachForecastPanel';
+import { CampaignPacingCell } from '../../components/campaigns/CampaignPacingCell';
+import { CampaignBulkEditDialog } from '../../components/campaigns/CampaignBulkEditDialog';
+import { CampaignReviewSummary } from '../../components/campaigns/CampaignReviewSummary';
+import { CampaignGanttChart } from '../../components/campaigns/CampaignGanttChart';
+import { CampaignRotationTab } from '../../components/campaigns/CampaignRotationTab';
+import { CampaignDatesField } from '../../components/campaigns/CampaignDatesField';
+import { EntityHistoryDrawer } from '../../components/common/EntityHistoryDrawer';
 import { z } from 'zod';
-import { useForm, useWatch } from 'react-hook-form';
+import { useForm, useWatch, type FieldErrors, type FieldPath } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { FormField } from '../../components/ui/molecules';
-import { formatDate } from '../../utils/dateUtils';
+import { formatDate, getCurrentTimestamp } from '../../utils/dateUtils';
+import { getCampaignCopy, getCreativeCopy } from '../../utils/campaignCopyUtils';
+import { getRestaurantsTimezones, getWallClockNow } from '../../utils/timezoneUtils';
+import { getRotationDateIssue, getRotationTotal, isRotationChanged, type CreativeRotationDraft } from '../../utils/creativeRotationUtils';
+import { CAMPAIGN_LIFECYCLE_CHIP_STATUS, CAMPAIGN_LIFECYCLE_STATUSES, getCampaignLifecycleStatus, type CampaignLifecycleStatus } from '../../utils/campaignStatusUtils';
 import { PageHeader, FiltersContainer } from '../../components/ui/styled';
 import { useAdvertisersStore } from '../../store/advertisersStore';
 import { useDictionariesStore } from '../../store/dictionariesStore';
@@ -112,20 +126,129 @@ const createCampaignSchema = (t: (key: string) => string) =>
         placements: z.array(z.string()),
       })),
     })),
+    rotationAutoOptimize: z.boolean(),
     blocked: z.boolean(),
   });
 
 type CampaignFormValues = z.infer<ReturnType<typeof createCampaignSchema>>;
 
+/**
+ * Steps of the creation wizard, each validates its own slice of the campaign schema.
+ * Steps 0-4 reuse the content of the matching dialog tab.
+ */
+const CAMPAIGN_WIZARD_STEPS: { key: string; fields: FieldPath<CampaignFormValues>[] }[] = [
+  {
+    key: 'general',
+    fields: ['advertiserId', 'name', 'description', 'startDate', 'endDate', 'priority', 'weight', 'overdeliveryRatio', 'blocked'],
+  },
+  { key: 'budget', fields: ['budget', 'budgetDaily', 'price', 'pricingModel', 'spendStrategy'] },
+  { key: 'frequency', fields: ['frequencyCapStrategy', 'frequencyCap'] },
+  {
+    key: 'audience',
+    fields: ['locationsMode', 'locations', 'restaurantTypesMode', 'restaurantTypes', 'menuTypesMode', 'menuTypes', 'placements'],
+  },
+  { key: 'targeting', fields: ['targets'] },
+  { key: 'review', fields: [] },
+];
+
+const REVIEW_STEP = CAMPAIGN_WIZARD_STEPS.length - 1;
+
+/** Creative rotation tab of the full form, saved campaigns only */
+const ROTATION_TAB = 5;
+
+type CampaignStatusFilter = 'all' | CampaignLifecycleStatus;
+
+/**
+ * Statuses shown as quick tabs above the list
+ */
+const CAMPAIGN_QUICK_STATUSES: CampaignStatusFilter[] = ['all', 'running', 'upcoming', 'ended'];
+
+const campaignFormValuesToData = (data: CampaignFormValues): CampaignFormData => ({
+  advertiserId: data.advertiserId,
+  name: data.name,
+  description: data.description,
+  startDate: data.startDate,
+  endDate: data.endDate,
+  budget: data.budget,
+  budgetDaily: data.budgetDaily,
+  price: data.price,
+  pricingModel: data.pricingModel,
+  spendStrategy: data.spendStrategy,
+  frequencyCapStrategy: data.frequencyCapStrategy,
+  frequencyCap: data.frequencyCap,
+  priority: data.priority,
+  weight: data.weight,
+  overdeliveryRatio: data.overdeliveryRatio,
+  locationsMode: data.locationsMode,
+  locations: data.locations,
+  restaurantTypesMode: data.restaurantTypesMode,
+  restaurantTypes: data.restaurantTypes,
+  menuTypesMode: data.menuTypesMode,
+  menuTypes: data.menuTypes,
+  slots: data.placements,
+  targets: data.targets.map(target => ({
+    ...target,
+    slots: target.slots.map(slot => ({
+      id: slot.id,
+      schedules: slot.schedules,
+      placements: slot.placements || []
+    }))
+  })),
+  rotationAutoOptimize: data.rotationAutoOptimize,
+  blocked: data.blocked,
+});
+
+const campaignToFormValues = (campaign: Campaign): CampaignFormValues => ({
+  advertiserId: campaign.advertiserId,
+  name: campaign.name,
+  description: campaign.description || '',
+  startDate: campaign.startDate,
+  endDate: campaign.endDate,
+  budget: campaign.budget,
+  budgetDaily: campaign.budgetDaily,
+  price: campaign.price,
+  pricingModel: campaign.pricingModel,
+  spendStrategy: campaign.spendStrategy,
+  frequencyCapStrategy: campaign.frequencyCapStrategy,
+  frequencyCap: campaign.frequencyCap,
+  priority: campaign.priority,
+  weight: campaign.weight,
+  overdeliveryRatio: campaign.overdeliveryRatio,
+  locationsMode: campaign.locationsMode,
+  locations: campaign.locations,
+  restaurantTypesMode: campaign.restaurantTypesMode,
+  restaurantTypes: campaign.restaurantTypes,
+  menuTypesMode: campaign.menuTypesMode,
+  menuTypes: campaign.menuTypes,
+  placements: campaign.slots,
+  targets: campaign.targets || [],
+  rotationAutoOptimize: campaign.rotationAutoOptimize ?? false,
+  blocked: campaign.blocked,
+});
+
 export default memo(function CampaignsListPage() {
   const componentId = useId();
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const { getDisplayName } = useMultilingualName();
   const commonFilters = useCommonFilters({ getDisplayName });
   const { enqueueSnackbar } = useSnackbar();
   const confirmDialog = useConfirmDialog();
   const filterDrawer = useDrawer();
-  const formDialog = useDialogState<{ id?: string; data?: Campaign | null }>();
+  // copyFromId is set when the form is pre-filled from an existing campaign
+  const formDialog = useDialogState<{ id?: string; data?: (Campaign & { hash?: string }) | null; copyFromId?: string }>();
+  const [copyCreatives, setCopyCreatives] = useState(true);
+  // Creative weights and dates edited in the rotation tab, saved along with the campaign
+  const [rotationDraft, setRotationDraft] = useState<CreativeRotationDraft | null>(null);
+  const conflictDialog = useConflictResolution<CampaignFormValues>();
+  const openConflict = conflictDialog.open;
+  // Server version the edits are based on after a resolved conflict
+  const conflictBaseRef = useRef<ConflictLatestVersion<CampaignFormValues> | null>(null);
+  const historyDialog = useDialogState<{ id: string; name: string }>();
+  const openHistory = historyDialog.openDialog;
+  const selection = useDataSelection<string>();
+  const setSelection = selection.setSelection;
+  // Snapshot of the selected campaigns, kept while the bulk report is open
+  const bulkDialog = useDialogState<Campaign[]>();
   
   // Setup store cleanup with reference counting
   useStoreWithCleanup('advertisers', componentId, () => useAdvertisersStore.getState().clear());
@@ -144,6 +267,26 @@ export default memo(function CampaignsListPage() {
     },
     getEntityId: (campaign) => campaign.id,
   });
+
+  // Duplicate: load the full campaign and open the create form pre-filled for the next run
+  const { isLoading: isLoadingDuplicate, handleEdit: handleDuplicateLoad } = useEditWithLoading<Campaign>({
+    entityName: 'campaign',
+    fetchById: (id) => campaignsApi.getById(String(id)),
+    onSuccess: (data, campaign) => {
+      const nameSuffix = {
+        ARM: i18n.getFixedT('hy')('campaigns.duplicate.nameSuffix'),
+        ENG: i18n.getFixedT('en')('campaigns.duplicate.nameSuffix'),
+        RUS: i18n.getFixedT('ru')('campaigns.duplicate.nameSuffix'),
+      };
+      setCopyCreatives(true);
+      formDialog.openDialog({
+        id: undefined,
+        data: getCampaignCopy(data, nameSuffix, getCurrentTimestamp()),
+        copyFromId: String(campaign.id),
+      });
+    },
+    getEntityId: (campaign) => campaign.id,
+  });
   
   // Use extracted data fetching hook
   const {
@@ -153,44 +296,78 @@ export default memo(function CampaignsListPage() {
     restaurantTypes,
     menuTypes,
     slots,
+    restaurants,
+    cities,
+    countries,
     loading,
     refetch,
     loadFormData, // Get loadFormData function
   } = useCampaignsData();
+
+  // Spend per campaign since the earliest start; without stats the pacing column shows the plan only.
+  // Refetched when the period changes, not on every reload of the list
+  const spendFrom = campaigns.length > 0 ? Math.min(...campaigns.map((campaign) => campaign.startDate)) : null;
+  const { data: campaignSpend } = useFetch(async () => {
+    if (spendFrom === null) return null;
+    const rows = await statsApi.getSummary('campaign', { from: spendFrom, to: getCurrentTimestamp() });
+    return new Map(rows.map((row) => [String(row.id), row.spend]));
+  }, [spendFrom]);
   
   const [searchTerm, setSearchTerm] = useState('');
   const debouncedSearch = useDebounce(searchTerm, 300);
   
   const { filters, updateFilter, resetFilters } = useFilters<{
-    status: string;
+    status: CampaignStatusFilter;
     advertiserId: number | string;
   }>({
-    status: 'active',
+    status: 'running',
     advertiserId: '',
   });
 
   const [activeTab, setActiveTab] = useState(0);
+  const [view, setView] = useState<'table' | 'calendar'>('table');
+  // New campaigns are created step by step unless the user switches to the full form
+  const [wizardMode, setWizardMode] = useState(true);
 
   const getAdvertiserName = (advertiserId: string) => {
     const advertiser = advertisers.find(a => String(a.id) === advertiserId);
     return advertiser ? advertiser.name : { ARM: '-', ENG: '-', RUS: '-' };
   };
 
+  // Lifecycle status per campaign, exhausted budgets are detected once spend is loaded
+  const campaignStatuses = useMemo(() => {
+    const now = getWallClockNow();
+    return new Map(campaigns.map((campaign) => [
+      String(campaign.id),
+      getCampaignLifecycleStatus(campaign, now, campaignSpend?.get(String(campaign.id))),
+    ]));
+  }, [campaigns, campaignSpend]);
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<CampaignStatusFilter, number> = { all: campaigns.length, running: 0, upcoming: 0, exhausted: 0, ended: 0, blocked: 0 };
+    campaignStatuses.forEach((status) => {
+      counts[status] += 1;
+    });
+    return counts;
+  }, [campaigns, campaignStatuses]);
+
   const filteredCampaigns = useMemo(() => campaigns.filter((campaign) => {
-    // Common filters (status + search)
-    const statusFilter = filters.status === 'all' ? 'all' : filters.status as 'active' | 'blocked';
+    // Search filter (status is a lifecycle status and is checked below)
     if (!commonFilters.applyCommonFilters(campaign, { 
-      status: statusFilter,
+      status: 'all',
       search: debouncedSearch 
     })) {
       return false;
     }
+
+    // Lifecycle status filter
+    if (filters.status !== 'all' && campaignStatuses.get(String(campaign.id)) !== filters.status) return false;
     
     // Advertiser filter
     if (filters.advertiserId && campaign.advertiserId !== String(filters.advertiserId)) return false;
     
     return true;
-  }), [campaigns, debouncedSearch, filters, commonFilters]);
+  }), [campaigns, campaignStatuses, debouncedSearch, filters, commonFilters]);
 
   const tableState = useTableState<Campaign>({
     data: filteredCampaigns,
@@ -199,12 +376,34 @@ export default memo(function CampaignsListPage() {
     defaultSortDirection: 'asc',
   });
 
+  // Row selection for bulk edit, the header checkbox toggles the current page
+  const pageCampaignIds = tableState.paginatedData.map((campaign) => String(campaign.id));
+  const tableSelection: DataTableSelection<Campaign> = {
+    isSelected: (campaign) => selection.isSelected(String(campaign.id)),
+    onToggle: (campaign) => selection.toggle(String(campaign.id)),
+    allSelected: selection.allSelected(pageCampaignIds),
+    someSelected: selection.someSelected(pageCampaignIds),
+    onToggleAll: () => selection.toggleAll(pageCampaignIds),
+  };
+
+  const handleOpenBulkEdit = () => {
+    bulkDialog.openDialog(campaigns.filter((campaign) => selection.isSelected(String(campaign.id))));
+  };
+
+  // Keep only the campaigns that failed selected so they can be retried
+  const handleBulkCompleted = useCallback(async (failedIds: string[]) => {
+    setSelection(failedIds);
+    await refetch();
+  }, [setSelection, refetch]);
+
   const schema = createCampaignSchema(t);
   const {
     control,
     handleSubmit,
     reset,
     setValue,
+    trigger,
+    getValues,
     formState: { isSubmitting },
   } = useForm<CampaignFormValues>({
     resolver: zodResolver(schema),
@@ -240,7 +439,8 @@ export default memo(function CampaignsListPage() {
       menuTypesMode: 'denied',
       menuTypes: [],
       placements: [],
-      targets: [],
+      targets: [],
+      rotationAutoOptimize: false,
       blocked: false,
     },
   });
@@ -253,6 +453,38 @@ export default memo(function CampaignsListPage() {
   const watchedRestaurantTypeIds = useWatch({ control, name: 'restaurantTypes' });
   const watchedMenuTypesMode = useWatch({ control, name: 'menuTypesMode' });
   const watchedMenuTypeIds = useWatch({ control, name: 'menuTypes' });
+  const watchedPlacements = useWatch({ control, name: 'placements' });
+
+  // Dates are wall-clock time of the targeted restaurants
+  const targetTimezones = useMemo(
+    () => getRestaurantsTimezones((watchedTargets || []).map((target) => target.id), restaurants, cities, countries),
+    [watchedTargets, restaurants, cities, countries]
+  );
+  const targetingRules = useMemo(() => ({
+    locationsMode: watchedLocationsMode,
+    locations: watchedLocationIds || [],
+    restaurantTypesMode: watchedRestaurantTypesMode,
+    restaurantTypes: watchedRestaurantTypeIds || [],
+    menuTypesMode: watchedMenuTypesMode,
+    menuTypes: watchedMenuTypeIds || [],
+  }), [watchedLocationsMode, watchedLocationIds, watchedRestaurantTypesMode, watchedRestaurantTypeIds, watchedMenuTypesMode, watchedMenuTypeIds]);
+
+  // Watch budget settings for the pacing panel
+  const watchedBudget = useWatch({ control, name: 'budget' });
+  const watchedBudgetDaily = useWatch({ control, name: 'budgetDaily' });
+  const watchedSpendStrategy = useWatch({ control, name: 'spendStrategy' });
+  const watchedOverdeliveryRatio = useWatch({ control, name: 'overdeliveryRatio' });
+  const watchedStartDate = useWatch({ control, name: 'startDate' });
+  const watchedEndDate = useWatch({ control, name: 'endDate' });
+  const watchedRotationAutoOptimize = useWatch({ control, name: 'rotationAutoOptimize' });
+  const pacingSettings = useMemo(() => ({
+    budget: Number(watchedBudget) || 0,
+    budgetDaily: Number(watchedBudgetDaily) || 0,
+    spendStrategy: watchedSpendStrategy,
+    overdeliveryRatio: Number(watchedOverdeliveryRatio) || 0,
+    startDate: watchedStartDate,
+    endDate: watchedEndDate,
+  }), [watchedBudget, watchedBudgetDaily, watchedSpendStrategy, watchedOverdeliveryRatio, watchedStartDate, watchedEndDate]);
 
   const handleOpenDialog = useCallback(async (campaign?: Campaign) => {
     // Load form data if not already loaded
@@ -265,46 +497,33 @@ export default memo(function CampaignsListPage() {
       formDialog.openDialog({ id: undefined, data: null });
     }
     setActiveTab(0);
+    setRotationDraft(null);
   }, [formDialog, loadFormData, handleEdit]);
 
+  // Open the campaign linked from another page (e.g. the audit log)
+  useLinkedEntity(campaigns, loading, handleOpenDialog);
+
+  const handleDuplicate = useCallback(async (campaign: Campaign) => {
+    await loadFormData();
+    await handleDuplicateLoad(campaign);
+    setActiveTab(0);
+    setRotationDraft(null);
+  }, [loadFormData, handleDuplicateLoad]);
+
   const handleCloseDialog = useCallback(() => {
     formDialog.closeDialog();
     setActiveTab(0);
+    setRotationDraft(null);
     reset();
   }, [formDialog, reset]);
 
   // Load form data when dialog opens - both for edit mode and create mode
   useEffect(() => {
     if (formDialog.open) {
+      conflictBaseRef.current = null;
       if (formDialog.data?.data) {
         // Edit mode: load existing campaign data
-        const fullCampaign = formDialog.data.data;
-        reset({
-          advertiserId: fullCampaign.advertiserId,
-          name: fullCampaign.name,
-          description: fullCampaign.description || '',
-          startDate: fullCampaign.startDate,
-          endDate: fullCampaign.endDate,
-          budget: fullCampaign.budget,
-          budgetDaily: fullCampaign.budgetDaily,
-          price: fullCampaign.price,
-          pricingModel: fullCampaign.pricingModel,
-          spendStrategy: fullCampaign.spendStrategy,
-          frequencyCapStrategy: fullCampaign.frequencyCapStrategy,
-          frequencyCap: fullCampaign.frequencyCap,
-          priority: fullCampaign.priority,
-          weight: fullCampaign.weight,
-          overdeliveryRatio: fullCampaign.overdeliveryRatio,
-          locationsMode: fullCampaign.locationsMode,
-          locations: fullCampaign.locations,
-          restaurantTypesMode: fullCampaign.restaurantTypesMode,
-          restaurantTypes: fullCampaign.restaurantTypes,
-          menuTypesMode: fullCampaign.menuTypesMode,
-          menuTypes: fullCampaign.menuTypes,
-          placements: fullCampaign.slots,
-          targets: fullCampaign.targets || [],
-          blocked: fullCampaign.blocked,
-        });
+        reset(campaignToFormValues(formDialog.data.data));
       } else if (formDialog.data?.data === null) {
         // Create mode: reset to default values
         reset({
@@ -339,79 +558,138 @@ export default memo(function CampaignsListPage() {
           menuTypesMode: 'denied',
           menuTypes: [],
           placements: [],
-          targets: [],
+          targets: [],
+          rotationAutoOptimize: false,
           blocked: false,
         });
       }
     }
   }, [formDialog.open, formDialog.data, reset]);
 
-  const handleFormError = useCallback(() => {
-    // Form validation errors are displayed inline
+  const isWizard = wizardMode && formDialog.open && !formDialog.data?.id;
+
+  const handleFormError = useCallback((errors: FieldErrors<CampaignFormValues>) => {
+    // Form validation errors are displayed inline; the wizard returns to the first step with an error
+    if (!isWizard) return;
+    const step = CAMPAIGN_WIZARD_STEPS.findIndex((wizardStep) =>
+      wizardStep.fields.some((field) => field.split('.')[0] in errors)
+    );
+    if (step >= 0) setActiveTab(step);
+  }, [isWizard]);
+
+  const handleWizardNext = useCallback(async () => {
+    const valid = await trigger(CAMPAIGN_WIZARD_STEPS[activeTab].fields);
+    if (valid) setActiveTab(activeTab + 1);
+  }, [trigger, activeTab]);
+
+  const handleToggleWizard = useCallback(() => {
+    setWizardMode((prev) => !prev);
+    setActiveTab(0);
   }, []);
 
+  // Save the edited rotation on top of the latest version of each changed creative
+  const saveRotation = useCallback(async (campaignId: string, draft: CreativeRotationDraft) => {
+    const changed = (await creativesApi.list()).filter((creative) =>
+      String(creative.campaignId) === campaignId && draft[creative.id] && isRotationChanged(creative, draft[creative.id])
+    );
+    const results = await Promise.allSettled(changed.map(async (creative) => {
+      const latest = await creativesApi.getById(creative.id);
+      return creativesApi.update(creative.id, { ...latest, ...draft[creative.id], hash: latest.hash || '' });
+    }));
+    const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (rejected.length > 0) {
+      logger.error('Failed to save creative rotation', rejected[0].reason, {
+        entityType: 'campaign',
+        campaignId,
+        failed: rejected.length,
+      });
+      enqueueSnackbar(t('campaigns.rotation.saveFailed', { count: rejected.length, total: changed.length }), { variant: 'warning' });
+    }
+  }, [t, enqueueSnackbar]);
+
   const handleFormSubmit = useCallback(async (data: CampaignFormValues) => {
+    if (rotationDraft && getRotationTotal(rotationDraft) !== 100) {
+      enqueueSnackbar(t('campaigns.rotation.totalInvalid'), { variant: 'error' });
+      setActiveTab(ROTATION_TAB);
+      return;
+    }
+    const campaignDates = { startDate: data.startDate, endDate: data.endDate };
+    if (rotationDraft && Object.values(rotationDraft).some((entry) => getRotationDateIssue(entry, campaignDates))) {
+      enqueueSnackbar(t('campaigns.rotation.datesInvalid'), { variant: 'error' });
+      setActiveTab(ROTATION_TAB);
+      return;
+    }
+
     try {
-      const formData: CampaignFormData = {
-        advertiserId: data.advertiserId,
-        name: data.name,
-        description: data.description,
-        startDate: data.startDate,
-        endDate: data.endDate,
-        budget: data.budget,
-        budgetDaily: data.budgetDaily,
-        price: data.price,
-        pricingModel: data.pricingModel,
-        spendStrategy: data.spendStrategy,
-        frequencyCapStrategy: data.frequencyCapStrategy,
-        frequencyCap: data.frequencyCap,
-        priority: data.priority,
-        weight: data.weight,
-        overdeliveryRatio: data.overdeliveryRatio,
-        locationsMode: data.locationsMode,
-        locations: data.locations,
-        restaurantTypesMode: data.restaurantTypesMode,
-        restaurantTypes: data.restaurantTypes,
-        menuTypesMode: data.menuTypesMode,
-        menuTypes: data.menuTypes,
-        slots: data.placements,
-        targets: data.targets.map(target => ({
-          ...target,
-          slots: target.slots.map(slot => ({
-            id: slot.id,
-            schedules: slot.schedules,
-            placements: slot.placements || []
-          }))
-        })),
-        blocked: data.blocked,
-      };
+      const formData = campaignFormValuesToData(data);
 
       if (formDialog.data?.id) {
-        // Fetch current campaign to get hash
-        const currentCampaign = await campaignsApi.getById(formDialog.data.id);
-        await campaignsApi.update(formDialog.data.id, { ...formData, hash: currentCampaign.hash || '' });
+        // Send the hash the edits are based on so concurrent changes are detected
+        const hash = conflictBaseRef.current?.hash ?? formDialog.data.data?.hash ?? '';
+        await campaignsApi.update(formDialog.data.id, { ...formData, hash });
         enqueueSnackbar(t('common.success.updated'), { variant: 'success' });
+        if (rotationDraft) await saveRotation(formDialog.data.id, rotationDraft);
       } else {
-        await campaignsApi.create(formData);
+        const created = await campaignsApi.create(formData);
         enqueueSnackbar(t('common.success.created'), { variant: 'success' });
+
+        const copyFromId = formDialog.data?.copyFromId;
+        if (copyFromId && copyCreatives) {
+          const creatives = (await creativesApi.list()).filter((creative) => String(creative.campaignId) === copyFromId);
+          const results = await Promise.allSettled(
+            creatives.map((creative) => creativesApi.create(getCreativeCopy(creative, String(created.id))))
+          );
+          const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+          if (rejected.length > 0) {
+            logger.error('Failed to copy creatives of duplicated campaign', rejected[0].reason, {
+              entityType: 'campaign',
+              campaignId: copyFromId,
+              failed: rejected.length,
+            });
+            enqueueSnackbar(
+              t('campaigns.duplicate.creativesFailed', { count: rejected.length, total: creatives.length }),
+              { variant: 'warning' }
+            );
+          } else if (creatives.length > 0) {
+            enqueueSnackbar(t('campaigns.duplicate.creativesCopied', { count: creatives.length }), { variant: 'success' });
+          }
+        }
       }
 
       handleCloseDialog();
       await refetch();
     } catch (error) {
-      logger.error('Failed to save campaign', error as Error, {
-        entityType: 'campaign',
-        campaignId: formDialog.data?.id,
-        operation: formDialog.data?.id ? 'update' : 'create'
-      });
+      if (isApiError(error) && error.isObjectChanged()) {
+        // Expected when someone else saved first, resolved in the merge dialog
+        logger.warn('Campaign was changed by another user', { campaignId: formDialog.data?.id });
+      } else {
+        logger.error('Failed to save campaign', error as Error, {
+          entityType: 'campaign',
+          campaignId: formDialog.data?.id,
+          operation: formDialog.data?.id ? 'update' : 'create'
+        });
+      }
       
       if (isApiError(error)) {
         if (error.isObjectNotUnique()) {
           enqueueSnackbar(t('error.duplicate'), { variant: 'error' });
         } else if (error.isObjectNotFound()) {
           enqueueSnackbar(t('error.notFound'), { variant: 'error' });
-        } else if (error.isObjectChanged()) {
-          enqueueSnackbar(t('error.changed'), { variant: 'error' });
+        } else if (error.isObjectChanged() && formDialog.data?.id && formDialog.data.data) {
+          const campaignId = formDialog.data.id;
+          void openConflict({
+            original: conflictBaseRef.current?.values ?? campaignToFormValues(formDialog.data.data),
+            mine: data,
+            loadLatest: async () => {
+              const latest = await campaignsApi.getById(campaignId);
+              return { values: campaignToFormValues(latest), hash: latest.hash || '' };
+            },
+            onResolve: (values, latest) => {
+              // The next save uses the merged values and the fresh hash
+              conflictBaseRef.current = latest;
+              reset(values);
+            },
+          });
         } else {
           enqueueSnackbar(error.getUserMessage(), { variant: 'error' });
         }
@@ -419,7 +697,36 @@ export default memo(function CampaignsListPage() {
         enqueueSnackbar(t('common.error.saveFailed'), { variant: 'error' });
       }
     }
-  }, [formDialog.data?.id, campaignsApi, t, enqueueSnackbar, handleCloseDialog, refetch]);
+  }, [formDialog.data?.id, formDialog.data?.data, formDialog.data?.copyFromId, copyCreatives, rotationDraft, saveRotation, campaignsApi, t, enqueueSnackbar, handleCloseDialog, refetch, openConflict, reset]);
+
+  const handleViewChange = useCallback(async (newView: 'table' | 'calendar') => {
+    setView(newView);
+    // Slot names are needed to group the calendar by slot
+    if (newView === 'calendar') await loadFormData();
+  }, [loadFormData]);
+
+  // Calendar drag: save the new dates on top of the latest version with its hash
+  const handleDatesChange = useCallback(async (campaign: Campaign, dates: Pick<Campaign, 'startDate' | 'endDate'>) => {
+    try {
+      const latest = await campaignsApi.getById(String(campaign.id));
+      await campaignsApi.update(campaign.id, { ...latest, ...dates, hash: latest.hash || '' });
+      enqueueSnackbar(t('common.success.updated'), { variant: 'success' });
+    } catch (error) {
+      if (isApiError(error) && error.isObjectChanged()) {
+        // Expected when someone else saved the campaign between the load and the update
+        logger.warn('Campaign was changed by another user', { campaignId: campaign.id });
+        enqueueSnackbar(t('campaigns.gantt.conflict'), { variant: 'warning' });
+      } else {
+        logger.error('Failed to change campaign dates', error as Error, {
+          entityType: 'campaign',
+          campaignId: campaign.id,
+          operation: 'update',
+        });
+        enqueueSnackbar(isApiError(error) ? error.getUserMessage() : t('common.error.saveFailed'), { variant: 'error' });
+      }
+    }
+    await refetch();
+  }, [t, enqueueSnackbar, refetch]);
 
   const handleBlock = useCallback((campaign: Campaign) => {
     const action = campaign.blocked ? 'unblock' : 'block';
@@ -466,12 +773,35 @@ export default memo(function CampaignsListPage() {
       sortable: true,
       render: (campaign) => formatDate(campaign.endDate),
     },
+    {
+      id: 'status',
+      label: t('common.statusLabel'),
+      render: (campaign) => {
+        const status = campaignStatuses.get(String(campaign.id)) ?? 'running';
+        return (
+          <StatusChip
+            status={CAMPAIGN_LIFECYCLE_CHIP_STATUS[status]}
+            label={t(`campaigns.lifecycle.${status}`)}
+          />
+        );
+      },
+    },
     {
       id: 'budget',
       label: t('campaigns.fields.budget'),
       sortable: true,
       render: (campaign) => `$${campaign.budget.toLocaleString()}`,
     },
+    {
+      id: 'pacing',
+      label: t('campaigns.pacing.column'),
+      render: (campaign) => (
+        <CampaignPacingCell
+          campaign={campaign}
+          spent={campaignSpend ? campaignSpend.get(String(campaign.id)) ?? 0 : undefined}
+        />
+      ),
+    },
     {
       id: 'actions',
       label: t('common.actions'),
@@ -489,10 +819,24 @@ export default memo(function CampaignsListPage() {
             checked={!campaign.blocked}
             onChange={() => handleBlock(campaign)}
           />
+          <ActionMenu
+            items={[
+              {
+                label: t('common.history'),
+                icon: <HistoryIcon fontSize="small" />,
+                onClick: () => openHistory({ id: String(campaign.id), name: getDisplayName(campaign.name) }),
+              },
+              {
+                label: t('common.duplicate'),
+                icon: <ContentCopyIcon fontSize="small" />,
+                onClick: () => handleDuplicate(campaign),
+              },
+            ]}
+          />
         </Stack>
       ),
     },
-  ], [t, getDisplayName, getAdvertiserName, handleBlock, handleOpenDialog]);
+  ], [t, getDisplayName, getAdvertiserName, handleBlock, handleOpenDialog, handleDuplicate, openHistory, campaignSpend, campaignStatuses]);
 
   const advertiserOptions = useMemo(() => advertisers.map(a => ({ value: a.id, label: getDisplayName(a.name) })), [advertisers, getDisplayName]);
   const locationOptions = useMemo(() => locations.map(l => ({ value: l.id, label: l.name })), [locations]);
@@ -503,7 +847,7 @@ export default memo(function CampaignsListPage() {
   return (
     <Box>
       <Backdrop
-        open={isLoadingEdit}
+        open={isLoadingEdit || isLoadingDuplicate}
         sx={{ zIndex: (theme) => theme.zIndex.modal - 1 }}
       >
         <CircularProgress color="inherit" />
@@ -537,25 +881,76 @@ export default memo(function CampaignsListPage() {
         </Button>
       </FiltersContainer>
 
-      <DataTable<Campaign>
-        columns={columns}
-        data={tableState.paginatedData}
-        loading={loading}
-        sortColumn={tableState.sortColumn ?? undefined}
-        sortDirection={tableState.sortDirection}
-        onSort={(column) => tableState.handleSort(column as keyof Campaign)}
-        rowKey="id"
-      />
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+        <Tabs
+          value={view}
+          onChange={(_, newView: 'table' | 'calendar') => handleViewChange(newView)}
+        >
+          <Tab value="table" icon={<TableRowsIcon />} iconPosition="start" label={t('campaigns.views.table')} />
+          <Tab value="calendar" icon={<ViewTimelineIcon />} iconPosition="start" label={t('campaigns.views.calendar')} />
+        </Tabs>
 
-      <Pagination
-        page={tableState.page}
-        totalPages={tableState.totalPages}
-        onPageChange={tableState.handlePageChange}
-        rowsPerPage={tableState.rowsPerPage}
-        onRowsPerPageChange={tableState.handleRowsPerPageChange}
-        rowsPerPageOptions={[5, 10, 25]}
-        totalCount={filteredCampaigns.length}
-      />
+        {/* Quick lifecycle tabs, the remaining statuses are in the filter drawer */}
+        <Tabs
+          value={CAMPAIGN_QUICK_STATUSES.includes(filters.status) ? filters.status : false}
+          onChange={(_, status: CampaignStatusFilter) => updateFilter('status', status)}
+        >
+          {CAMPAIGN_QUICK_STATUSES.map((status) => (
+            <Tab
+              key={status}
+              value={status}
+              label={`${status === 'all' ? t('common.all') : t(`campaigns.lifecycle.${status}`)} (${statusCounts[status]})`}
+            />
+          ))}
+        </Tabs>
+      </Box>
+
+      {view === 'table' && selection.count > 0 && (
+        <Paper variant="outlined" sx={{ display: 'flex', alignItems: 'center', gap: 2, px: 2, py: 1, mb: 2 }}>
+          <Typography variant="body2" sx={{ flexGrow: 1 }}>
+            {t('campaigns.bulk.selected', { count: selection.count })}
+          </Typography>
+          <Button variant="text" onClick={selection.clear}>
+            {t('campaigns.bulk.clearSelection')}
+          </Button>
+          <Button variant="contained" startIcon={<EditNoteIcon />} onClick={handleOpenBulkEdit}>
+            {t('campaigns.bulk.action')}
+          </Button>
+        </Paper>
+      )}
+
+      {view === 'table' ? (
+        <>
+          <DataTable<Campaign>
+            columns={columns}
+            data={tableState.paginatedData}
+            loading={loading}
+            sortColumn={tableState.sortColumn ?? undefined}
+            sortDirection={tableState.sortDirection}
+            onSort={(column) => tableState.handleSort(column as keyof Campaign)}
+            rowKey="id"
+            selection={tableSelection}
+          />
+
+          <Pagination
+            page={tableState.page}
+            totalPages={tableState.totalPages}
+            onPageChange={tableState.handlePageChange}
+            rowsPerPage={tableState.rowsPerPage}
+            onRowsPerPageChange={tableState.handleRowsPerPageChange}
+            rowsPerPageOptions={[5, 10, 25]}
+            totalCount={filteredCampaigns.length}
+          />
+        </>
+      ) : (
+        <CampaignGanttChart
+          campaigns={filteredCampaigns}
+          advertisers={advertisers}
+          slots={slots}
+          spend={campaignSpend}
+          onDatesChange={handleDatesChange}
+        />
+      )}
 
       <Dialog 
         open={formDialog.open} 
@@ -595,8 +990,19 @@ export default memo(function CampaignsListPage() {
           }}
         >
           <Box component="span" sx={{ fontWeight: 600, fontSize: '1.25rem' }}>
-            {formDialog.data?.id ? t('campaigns.editTitle') : t('campaigns.addTitle')}
+            {formDialog.data?.id
+              ? t('campaigns.editTitle')
+              : formDialog.data?.copyFromId
+                ? t('campaigns.duplicate.title')
+                : t('campaigns.addTitle')}
           </Box>
+          {!formDialog.data?.id && (
+            <Box sx={{ ml: 'auto', mr: 1 }}>
+              <Button size="small" variant="text" onClick={handleToggleWizard}>
+                {wizardMode ? t('campaigns.wizard.switchToForm') : t('campaigns.wizard.switchToWizard')}
+              </Button>
+            </Box>
+          )}
           <MuiIconButton
             aria-label="close"
             onClick={handleCloseDialog}
@@ -611,17 +1017,35 @@ export default memo(function CampaignsListPage() {
           </MuiIconButton>
         </DialogTitle>
         
-        <Tabs
-          value={activeTab}
-          onChange={(_, newValue) => setActiveTab(newValue)}
-          sx={{ borderBottom: 1, borderColor: 'divider', px: 3, flexShrink: 0 }}
-        >
-          <Tab label={t('campaigns.tabs.general')} />
-          <Tab label={t('campaigns.tabs.pricing')} />
-          <Tab label={t('campaigns.tabs.frequency')} />
-          <Tab label={t('campaigns.tabs.targeting')} />
-          <Tab label={t('campaigns.tabs.restaurantTargeting')} />
-        </Tabs>
+        {isWizard ? (
+          <Stepper
+            activeStep={activeTab}
+            nonLinear
+            sx={{ borderBottom: 1, borderColor: 'divider', px: 3, py: 2, flexShrink: 0 }}
+          >
+            {CAMPAIGN_WIZARD_STEPS.map((step, index) => (
+              <Step key={step.key} completed={index < activeTab}>
+                {/* Only completed steps can be revisited, moving forward goes through validation */}
+                <StepButton onClick={() => setActiveTab(index)} disabled={index >= activeTab}>
+                  {t(`campaigns.wizard.steps.${step.key}`)}
+                </StepButton>
+              </Step>
+            ))}
+          </Stepper>
+        ) : (
+          <Tabs
+            value={activeTab}
+            onChange={(_, newValue) => setActiveTab(newValue)}
+            sx={{ borderBottom: 1, borderColor: 'divider', px: 3, flexShrink: 0 }}
+          >
+            <Tab label={t('campaigns.tabs.general')} />
+            <Tab label={t('campaigns.tabs.pricing')} />
+            <Tab label={t('campaigns.tabs.frequency')} />
+            <Tab label={t('campaigns.tabs.targeting')} />
+            <Tab label={t('campaigns.tabs.restaurantTargeting')} />
+            <Tab label={t('campaigns.tabs.rotation')} />
+          </Tabs>
+        )}
         
         <DialogContent
           sx={{
@@ -633,10 +1057,32 @@ export default memo(function CampaignsListPage() {
             flexDirection: 'column',
           }}
         >
-          <Box component="form" onSubmit={handleSubmit(handleFormSubmit, handleFormError)} sx={{ flexGrow: 1, display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
+          <Box
+            component="form"
+            onSubmit={(event) => {
+              // Before the review step Enter moves the wizard forward instead of saving
+              if (isWizard && activeTab < REVIEW_STEP) {
+                event.preventDefault();
+                void handleWizardNext();
+                return;
+              }
+              return handleSubmit(handleFormSubmit, handleFormError)(event);
+            }}
+            sx={{ flexGrow: 1, display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
             <Box sx={{ flexGrow: 1, overflow: 'auto', pb: 2 }}>
             {activeTab === 0 && (
               <Stack spacing={2} sx={{ mt: 1 }}>
+                {formDialog.data?.copyFromId && (
+                  <FormControlLabel
+                    control={
+                      <Checkbox
+                        checked={copyCreatives}
+                        onChange={(event) => setCopyCreatives(event.target.checked)}
+                      />
+                    }
+                    label={t('campaigns.duplicate.copyCreatives')}
+                  />
+                )}
                 <FormField
                   name="advertiserId"
                   control={control}
@@ -663,22 +1109,7 @@ export default memo(function CampaignsListPage() {
                   multiline
                   rows={3}
                 />
-                <Stack direction="row" spacing={2}>
-                  <FormField
-                    name="startDate"
-                    control={control}
-                    type="date"
-                    label={t('campaigns.fields.startDate')}
-                    required
-                  />
-                  <FormField
-                    name="endDate"
-                    control={control}
-                    type="date"
-                    label={t('campaigns.fields.endDate')}
-                    required
-                  />
-                </Stack>
+                <CampaignDatesField control={control} timezones={targetTimezones} />
                 <Stack direction="row" spacing={2}>
                   <FormField
                     name="priority"
@@ -763,6 +1194,7 @@ export default memo(function CampaignsListPage() {
                     required
                   />
                 </Stack>
+                <CampaignPacingPanel settings={pacingSettings} campaignId={formDialog.data?.id} />
               </Stack>
             )}
             
@@ -920,6 +1352,11 @@ export default memo(function CampaignsListPage() {
                   options={slotOptions}
                   helperText={t('campaigns.fields.placementsHelper')}
                 />
+                <ReachForecastPanel
+                  rules={targetingRules}
+                  slotIds={watchedPlacements || []}
+                  targets={watchedTargets || []}
+                />
               </Stack>
             )}
 
@@ -928,16 +1365,26 @@ export default memo(function CampaignsListPage() {
               <TargetingTab
                 targets={watchedTargets}
                 onChange={(newTargets: CampaignTarget[]) => setValue('targets', newTargets, { shouldDirty: true, shouldTouch: true })}
-                campaignTargetingRules={{
-                  locationsMode: watchedLocationsMode,
-                  locations: watchedLocationIds || [],
-                  restaurantTypesMode: watchedRestaurantTypesMode,
-                  restaurantTypes: watchedRestaurantTypeIds || [],
-                  menuTypesMode: watchedMenuTypesMode,
-                  menuTypes: watchedMenuTypeIds || [],
-                }}
+                campaignTargetingRules={targetingRules}
+                campaignSlots={watchedPlacements || []}
+              />
+            )}
+
+            {!isWizard && activeTab === ROTATION_TAB && (
+              <CampaignRotationTab
+                campaignId={formDialog.data?.id}
+                startDate={watchedStartDate}
+                endDate={watchedEndDate}
+                draft={rotationDraft}
+                onChange={setRotationDraft}
+                autoOptimize={watchedRotationAutoOptimize}
+                onAutoOptimizeChange={(enabled) => setValue('rotationAutoOptimize', enabled, { shouldDirty: true })}
               />
             )}
+
+            {isWizard && activeTab === REVIEW_STEP && (
+              <CampaignReviewSummary data={campaignFormValuesToData(getValues())} onEditStep={setActiveTab} />
+            )}
             </Box>
             <Box
               sx={{
@@ -957,9 +1404,20 @@ export default memo(function CampaignsListPage() {
               <Button onClick={handleCloseDialog} variant="outlined" disabled={isSubmitting}>
                 {t('common.cancel')}
               </Button>
-              <Button type="submit" variant="contained" disabled={isSubmitting}>
-                {t('common.save')}
-              </Button>
+              {isWizard && activeTab > 0 && (
+                <Button onClick={() => setActiveTab(activeTab - 1)} variant="outlined" disabled={isSubmitting}>
+                  {t('common.back')}
+                </Button>
+              )}
+              {isWizard && activeTab < REVIEW_STEP ? (
+                <Button onClick={handleWizardNext} variant="contained">
+                  {t('campaigns.wizard.next')}
+                </Button>
+              ) : (
+                <Button type="submit" variant="contained" disabled={isSubmitting}>
+                  {isWizard ? t('campaigns.wizard.create') : t('common.save')}
+                </Button>
+              )}
             </Box>
           </Box>
         </DialogContent>
@@ -976,11 +1434,13 @@ export default memo(function CampaignsListPage() {
           name="status"
           label={t('common.statusLabel')}
           value={filters.status}
-          onChange={(value) => updateFilter('status', value as 'active' | 'blocked' | 'all')}
+          onChange={(value) => updateFilter('status', value as CampaignStatusFilter)}
           options={[
             { value: 'all', label: t('common.all') },
-            { value: 'active', label: t('common.active') },
-            { value: 'blocked', label: t('common.blocked') },
+            ...CAMPAIGN_LIFECYCLE_STATUSES.map((status) => ({
+              value: status,
+              label: `${t(`campaigns.lifecycle.${status}`)} (${statusCounts[status]})`,
+            })),
           ]}
         />
 
@@ -997,6 +1457,55 @@ export default memo(function CampaignsListPage() {
       </FilterDrawer>
 
       <ConfirmDialog {...confirmDialog.dialogProps} />
+
+      <ConflictResolutionDialog
+        {...conflictDialog.dialogProps}
+        fieldLabels={{
+          advertiserId: t('campaigns.fields.advertiser'),
+          name: t('campaigns.fields.name'),
+          description: t('campaigns.fields.description'),
+          startDate: t('campaigns.fields.startDate'),
+          endDate: t('campaigns.fields.endDate'),
+          budget: t('campaigns.fields.budget'),
+          budgetDaily: t('campaigns.fields.budgetDaily'),
+          price: t('campaigns.fields.price'),
+          pricingModel: t('campaigns.fields.pricingModel'),
+          spendStrategy: t('campaigns.fields.spendStrategy'),
+          frequencyCapStrategy: t('campaigns.fields.frequencyCapStrategy'),
+          frequencyCap: t('campaigns.fields.frequencyCap'),
+          priority: t('campaigns.fields.priority'),
+          weight: t('campaigns.fields.weight'),
+          overdeliveryRatio: t('campaigns.fields.overdeliveryRatio'),
+          locationsMode: t('campaigns.fields.locationsMode'),
+          locations: t('campaigns.fields.locations'),
+          restaurantTypesMode: t('campaigns.fields.restaurantTypesMode'),
+          restaurantTypes: t('campaigns.fields.restaurantTypes'),
+          menuTypesMode: t('campaigns.fields.menuTypesMode'),
+          menuTypes: t('campaigns.fields.menuTypes'),
+          placements: t('campaigns.fields.placements'),
+          targets: t('campaigns.fields.targeting'),
+          blocked: t('campaigns.fields.blocked'),
+        }}
+      />
+
+      {/* Bulk Edit Dialog - mounted per run so the form starts empty */}
+      {bulkDialog.open && bulkDialog.data && (
+        <CampaignBulkEditDialog
+          open={bulkDialog.open}
+          campaigns={bulkDialog.data}
+          onClose={bulkDialog.closeDialog}
+          onCompleted={handleBulkCompleted}
+        />
+      )}
+
+      {/* History Drawer */}
+      <EntityHistoryDrawer
+        open={historyDialog.open}
+        onClose={historyDialog.closeDialog}
+        entityType="campaign"
+        entityId={historyDialog.data?.id}
+        entityName={historyDialog.data?.name}
+      />
     </Box>
   );
 });
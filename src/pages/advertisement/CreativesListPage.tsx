@@ -1,20 +1,41 @@
 import { useState, useEffect, useCallback, memo, useMemo, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Box, Stack, Card, CardContent, CardActions, Typography, Chip, Tabs, Tab, Skeleton, Dialog, DialogTitle, DialogContent, IconButton as MuiIconButton, Backdrop, CircularProgress } from '@mui/material';
-import { Add as AddIcon, FilterList as FilterListIcon, Edit as EditIcon, Close as CloseIcon } from '@mui/icons-material';
-import { SearchField, ConfirmDialog, FilterDrawer, Pagination, MultilingualNameField, SwitchField } from '../../components/ui/molecules';
+import { Box, Stack, Card, CardContent, CardActions, Typography, Chip, Tabs, Tab, Skeleton, Dialog, DialogTitle, DialogContent, IconButton as MuiIconButton, Backdrop, CircularProgress, Alert } from '@mui/material';
+import { Add as AddIcon, FilterList as FilterListIcon, Edit as EditIcon, Close as CloseIcon, History as HistoryIcon, Devices as DevicesIcon, RateReview as RateReviewIcon, GridView as GridViewIcon, FactCheck as FactCheckIcon, PhotoLibrary as PhotoLibraryIcon } from '@mui/icons-material';
+import { SearchField, ConfirmDialog, FilterDrawer, Pagination, MultilingualNameField, SwitchField, ActionMenu, ConflictResolutionDialog, StatusChip } from '../../components/ui/molecules';
 import { Button, IconButton, Switch, Select } from '../../components/ui/atoms';
-import { useDebounce, useConfirmDialog, useDrawer, useFilters, useMultilingualName, useDialogState, useCreativesData, useEditWithLoading, useCommonFilters } from '../../hooks';
+import { useDebounce, useConfirmDialog, useDrawer, useFilters, useMultilingualName, useDialogState, useCreativesData, useEditWithLoading, useCommonFilters, useConflictResolution, useLinkedEntity } from '../../hooks';
+import type { ConflictLatestVersion } from '../../hooks';
 import { useSnackbar } from 'notistack';
 import { creativesApi } from '../../api';
 import { isApiError } from '../../api/errors';
 import { logger } from '../../utils/logger';
-import type { Creative, CreativeFormData } from '../../types';
+import type { Creative, CreativeFormData, CreativeModerationStatus } from '../../types';
 import { z } from 'zod';
 import { useForm, useWatch } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { FormField } from '../../components/ui/molecules';
 import { PageHeader, FiltersContainer, FlexColumnCenter } from '../../components/ui/styled';
+import { EntityHistoryDrawer } from '../../components/common/EntityHistoryDrawer';
+import { CreativeUploadField } from '../../components/creatives/CreativeUploadField';
+import { CreativeHtmlEditor } from '../../components/creatives/CreativeHtmlEditor';
+import { CreativePreviewPanel } from '../../components/creatives/CreativePreviewPanel';
+import { CreativeLintResults } from '../../components/creatives/CreativeLintResults';
+import { CreativeReviewQueue } from '../../components/creatives/CreativeReviewQueue';
+import { CreativeGallery } from '../../components/creatives/CreativeGallery';
+import { getCreativeUrlMediaKind, type CreativeDimensions } from '../../utils/creativeUploadUtils';
+import { decodeHtmlDataUrl, fetchCreativeHtml, loadCreativeHtml } from '../../utils/creativeHtmlUtils';
+import { lintCreative, type CreativeLintIssue } from '../../utils/creativeLintUtils';
+import {
+  CREATIVE_MODERATION_CHIP_STATUS,
+  CREATIVE_MODERATION_STATUSES,
+  canSubmitForReview,
+  canUnblockCreative,
+  getModerationAfterSave,
+  isCreativeServable,
+} from '../../utils/creativeModerationUtils';
+import { DEFAULT_CREATIVE_WEIGHT } from '../../utils/creativeRotationUtils';
+import { useAuthStore } from '../../store/authStore';
 
 /**
  * Common iframe style for all creative previews
@@ -31,25 +52,45 @@ const IFRAME_STYLE: React.CSSProperties = {
   left: 0,
 };
 
+const MEDIA_STYLE: React.CSSProperties = {
+  ...IFRAME_STYLE,
+  objectFit: 'contain',
+};
+
+/**
+ * Preview for uploaded image and video creatives, null for HTML creatives
+ */
+const renderMediaPreview = (url: string, title: string) => {
+  const mediaKind = getCreativeUrlMediaKind(url);
+  if (mediaKind === 'image') return <img src={url} alt={title} style={MEDIA_STYLE} />;
+  if (mediaKind === 'video') return <video src={url} title={title} style={MEDIA_STYLE} muted loop autoPlay playsInline />;
+  return null;
+};
 
 
+/**
+ * Starting point for a new HTML creative in the editor
+ */
+const EMPTY_CREATIVE_HTML = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <style>
+    body { margin: 0; }
+  </style>
+</head>
+<body>
+
+</body>
+</html>
+`;
+
 /**
  * Fetches external HTML and fixes encoding issues
  */
 const fetchAndFixHtml = async (url: string): Promise<string | null> => {
   try {
-    const response = await fetch(url, {
-      cache: 'no-store', // Always fetch fresh - no caching
-    });
-    const arrayBuffer = await response.arrayBuffer();
-    
-    // Try decoding as UTF-8
-    let html = new TextDecoder('utf-8').decode(arrayBuffer);
-    
-    // Check if it contains mojibake patterns, try Windows-1252/Latin-1 instead
-    if (/[ÃÂÕÖ]/.test(html) || html.includes('Â©') || html.includes('Â£')) {
-      html = new TextDecoder('windows-1252').decode(arrayBuffer);
-    }
+    let html = await fetchCreativeHtml(url);
     
     // Inject CSS to remove body margins/padding
     const styleTag = '<style>body{margin:0;padding:0;overflow:hidden;width:100%;height:100%;}html{height:100%;}</style>';
@@ -95,34 +136,6 @@ const fetchAndFixHtml = async (url: string): Promise<string | null> => {
   }
 };
 
-/**
- * Attempts to fix mojibake (garbled text) caused by incorrect encoding
- * Common issue: UTF-8 text interpreted as Latin-1
- */
-const fixMojibake = (text: string): string => {
-  try {
-    // Check if text contains mojibake patterns (multiple combining characters, weird sequences)
-    if (!/[\u0080-\u00FF]{2,}/.test(text)) {
-      return text; // Doesn't look like mojibake
-    }
-    
-    // Try to fix: encode as Latin-1 bytes, decode as UTF-8
-    const latin1Bytes = new Uint8Array(
-      [...text].map(char => char.charCodeAt(0) & 0xFF)
-    );
-    const fixed = new TextDecoder('utf-8').decode(latin1Bytes);
-    
-    // Verify the fix improved things (should have Armenian characters)
-    if (/[\u0530-\u058F]/.test(fixed)) {
-      return fixed;
-    }
-    
-    return text; // Fix didn't help, return original
-  } catch {
-    return text;
-  }
-};
-
 /**
  * Extracts HTML content from data URL for srcdoc
  * Returns null for non-HTML data URLs (will use src instead)
@@ -133,21 +146,8 @@ const extractHtmlContent = (dataUrl: string): string | null => {
   }
 
   try {
-    const commaIndex = dataUrl.indexOf(',');
-    if (commaIndex === -1) return null;
-    
-    const htmlContent = dataUrl.substring(commaIndex + 1);
-    
-    // Decode URL-encoded content
-    let html: string;
-    try {
-      html = decodeURIComponent(htmlContent);
-    } catch {
-      html = htmlContent;
-    }
-    
-    // Fix mojibake in the HTML content
-    html = fixMojibake(html);
+    let html = decodeHtmlDataUrl(dataUrl);
+    if (html === null) return null;
     
     // Inject CSS to remove body margins/padding and ensure full coverage
     const styleTag = '<style>body{margin:0;padding:0;overflow:hidden;width:100%;height:100%;}html{height:100%;}</style>';
@@ -196,6 +196,18 @@ const extractHtmlContent = (dataUrl: string): string | null => {
   }
 };
 
+/**
+ * srcdoc HTML for gallery thumbnails: decoded data: HTML or fetched external HTML.
+ * Throws when the fetch fails so the thumbnail cache does not keep the failure.
+ */
+const loadThumbnailHtml = async (dataUrl: string): Promise<string | null> => {
+  const inline = extractHtmlContent(dataUrl);
+  if (inline !== null || !dataUrl.startsWith('http')) return inline;
+  const html = await fetchAndFixHtml(dataUrl);
+  if (html === null) throw new Error(`Failed to load creative HTML: ${dataUrl}`);
+  return html;
+};
+
 const createCreativeSchema = (t: (key: string) => string) =>
   z.object({
     campaignId: z.string().min(1, t('creatives.validation.campaignRequired')),
@@ -216,6 +228,19 @@ const createCreativeSchema = (t: (key: string) => string) =>
 
 type CreativeFormValues = z.infer<ReturnType<typeof createCreativeSchema>>;
 
+const creativeToFormValues = (creative: Creative): CreativeFormValues => ({
+  campaignId: creative.campaignId,
+  name: creative.name,
+  dataUrl: creative.dataUrl,
+  minHeight: creative.minHeight,
+  maxHeight: creative.maxHeight,
+  minWidth: creative.minWidth,
+  maxWidth: creative.maxWidth,
+  previewWidth: creative.previewWidth || 300,
+  previewHeight: creative.previewHeight || 200,
+  blocked: creative.blocked ?? false,
+});
+
 export default memo(function CreativesListPage() {
   const { t } = useTranslation();
   const { getDisplayName } = useMultilingualName();
@@ -224,6 +249,15 @@ export default memo(function CreativesListPage() {
   const confirmDialog = useConfirmDialog();
   const filterDrawer = useDrawer();
   const formDialog = useDialogState<{ id?: string; data?: Creative | null }>();
+  const historyDialog = useDialogState<{ id: string; name: string }>();
+  const sizesDialog = useDialogState<Creative>();
+  const openSizes = sizesDialog.openDialog;
+  const sizesCreative = sizesDialog.data;
+  const openHistory = historyDialog.openDialog;
+  const conflictDialog = useConflictResolution<CreativeFormValues>();
+  const openConflict = conflictDialog.open;
+  // Server version the edits are based on after a resolved conflict
+  const conflictBaseRef = useRef<ConflictLatestVersion<CreativeFormValues> | null>(null);
   const isMountedRef = useRef(true);
   const fetchedUrlsRef = useRef<Set<string>>(new Set());
   
@@ -255,10 +289,15 @@ export default memo(function CreativesListPage() {
   const { filters, updateFilter, resetFilters } = useFilters<{
     status: string;
     campaignId: string;
+    moderation: CreativeModerationStatus | 'all';
   }>({
     status: 'active',
     campaignId: '',
+    moderation: 'all',
   });
+
+  // The gallery virtualizes the whole filtered list instead of paginating live previews
+  const [view, setView] = useState<'grid' | 'gallery' | 'review'>('grid');
   
   // Store fetched HTML content for external URLs
   const [htmlContent, setHtmlContent] = useState<Record<string, string>>({});
@@ -271,11 +310,27 @@ export default memo(function CreativesListPage() {
 
   const [activeTab, setActiveTab] = useState(0);
 
+  // HTML editor draft, the data URL it was loaded from and whether it has unapplied changes
+  const [editorHtml, setEditorHtml] = useState<string | null>(null);
+  const [editorSource, setEditorSource] = useState<string | null>(null);
+  const [editorDirty, setEditorDirty] = useState(false);
+  const [editorLoading, setEditorLoading] = useState(false);
+  const [editorError, setEditorError] = useState<string | null>(null);
+
+  // Linter findings shown before saving; the key tells whether the same findings were already reviewed
+  const [lintResult, setLintResult] = useState<{ issues: CreativeLintIssue[]; key: string } | null>(null);
+  const [lintOverride, setLintOverride] = useState(false);
+  const [uploadedFile, setUploadedFile] = useState<{ url: string; size: number } | null>(null);
+  const isAdmin = useAuthStore((state) => Boolean(state.user?.isAdmin));
+  // Admins override lint errors and review creatives
+  const canOverrideLint = isAdmin;
+
   const schema = createCreativeSchema(t);
   const {
     control,
     handleSubmit,
     reset,
+    setValue,
     formState: { isSubmitting },
   } = useForm<CreativeFormValues>({
     resolver: zodResolver(schema),
@@ -297,6 +352,99 @@ export default memo(function CreativesListPage() {
   const dataUrl = useWatch({ control, name: 'dataUrl' });
   const previewWidth = useWatch({ control, name: 'previewWidth' });
   const previewHeight = useWatch({ control, name: 'previewHeight' });
+  const [minWidth, maxWidth, minHeight, maxHeight] = useWatch({
+    control,
+    name: ['minWidth', 'maxWidth', 'minHeight', 'maxHeight'],
+  });
+  const sizeLimits = useMemo(
+    () => ({ minWidth: Number(minWidth) || 0, maxWidth: Number(maxWidth) || 0, minHeight: Number(minHeight) || 0, maxHeight: Number(maxHeight) || 0 }),
+    [minWidth, maxWidth, minHeight, maxHeight]
+  );
+
+  const dialogPreviewSize = useMemo(
+    () => ({ width: Number(previewWidth) || 300, height: Number(previewHeight) || 200 }),
+    [previewWidth, previewHeight]
+  );
+
+  // Uploaded file: its hosted URL becomes the data URL, the preview takes the media size
+  const handleUploaded = useCallback((url: string, dimensions: CreativeDimensions | null, fileSize: number) => {
+    setValue('dataUrl', url, { shouldValidate: true, shouldDirty: true });
+    setUploadedFile({ url, size: fileSize });
+    if (dimensions) {
+      setValue('previewWidth', dimensions.width, { shouldDirty: true });
+      setValue('previewHeight', dimensions.height, { shouldDirty: true });
+    }
+  }, [setValue]);
+
+  const resetEditor = useCallback(() => {
+    setEditorHtml(null);
+    setEditorSource(null);
+    setEditorDirty(false);
+    setEditorError(null);
+  }, []);
+
+  const resetLint = useCallback(() => {
+    setLintResult(null);
+    setLintOverride(false);
+    setUploadedFile(null);
+  }, []);
+
+  // Load the current creative HTML into the editor
+  const loadEditorHtml = useCallback(async (url: string) => {
+    setEditorSource(url);
+    setEditorDirty(false);
+    setEditorError(null);
+
+    if (!url) {
+      setEditorHtml(EMPTY_CREATIVE_HTML);
+      return;
+    }
+    const decoded = decodeHtmlDataUrl(url);
+    if (decoded !== null) {
+      setEditorHtml(decoded);
+      return;
+    }
+    if (!url.startsWith('http') || getCreativeUrlMediaKind(url)) {
+      setEditorHtml(null);
+      setEditorError(t('creatives.editor.notEditable'));
+      return;
+    }
+
+    setEditorLoading(true);
+    try {
+      setEditorHtml(await fetchCreativeHtml(url));
+    } catch (error) {
+      logger.error('Failed to load creative HTML', error as Error, { entityType: 'creative', url });
+      setEditorHtml(null);
+      setEditorError(t('creatives.error.htmlLoadFailed'));
+    } finally {
+      setEditorLoading(false);
+    }
+  }, [t]);
+
+  const handleTabChange = useCallback((newTab: number) => {
+    setActiveTab(newTab);
+    // Reload unless the draft already matches the data URL or has unapplied changes
+    if (newTab === 1 && !editorDirty && editorSource !== dataUrl) {
+      loadEditorHtml(dataUrl);
+    }
+  }, [editorDirty, editorSource, dataUrl, loadEditorHtml]);
+
+  const handleEditorChange = useCallback((html: string) => {
+    setEditorHtml(html);
+    setEditorDirty(true);
+  }, []);
+
+  const handleEditorApply = useCallback((newDataUrl: string) => {
+    setValue('dataUrl', newDataUrl, { shouldValidate: true, shouldDirty: true });
+    setEditorSource(newDataUrl);
+    setEditorDirty(false);
+    enqueueSnackbar(t('creatives.editor.applied'), { variant: 'info' });
+  }, [setValue, enqueueSnackbar, t]);
+
+  const handleEditorDiscard = useCallback(() => {
+    loadEditorHtml(dataUrl);
+  }, [dataUrl, loadEditorHtml]);
 
   const handleOpenDialog = useCallback(async (creative?: Creative) => {
     if (creative) {
@@ -317,34 +465,63 @@ export default memo(function CreativesListPage() {
       });
     }
     setActiveTab(0);
-  }, [formDialog, reset, handleEdit]);
+    resetEditor();
+    resetLint();
+  }, [formDialog, reset, handleEdit, resetEditor, resetLint]);
+
+  // Open the creative linked from another page (e.g. the audit log)
+  useLinkedEntity(creatives, loading, handleOpenDialog);
 
   const handleCloseDialog = useCallback(() => {
     formDialog.closeDialog();
     setActiveTab(0);
+    resetEditor();
+    resetLint();
     reset();
-  }, [formDialog, reset]);
+  }, [formDialog, reset, resetEditor, resetLint]);
 
   // Load form data when dialog opens in edit mode
   useEffect(() => {
     if (formDialog.open && formDialog.data?.data) {
-      const fullCreative = formDialog.data.data;
-      reset({
-        campaignId: fullCreative.campaignId,
-        name: fullCreative.name,
-        dataUrl: fullCreative.dataUrl,
-        minHeight: fullCreative.minHeight,
-        maxHeight: fullCreative.maxHeight,
-        minWidth: fullCreative.minWidth,
-        maxWidth: fullCreative.maxWidth,
-        previewWidth: fullCreative.previewWidth || 300,
-        previewHeight: fullCreative.previewHeight || 200,
-        blocked: fullCreative.blocked ?? false,
-      });
+      conflictBaseRef.current = null;
+      reset(creativeToFormValues(formDialog.data.data));
     }
   }, [formDialog.open, formDialog.data, reset]);
 
   const handleFormSubmit = useCallback(async (data: CreativeFormValues) => {
+    if (editorDirty) {
+      enqueueSnackbar(t('creatives.editor.applyBeforeSave'), { variant: 'warning' });
+      setActiveTab(1);
+      return;
+    }
+
+    // Lint before saving: errors block unless an admin overrides them, new findings are shown once for review
+    let html: string | null = null;
+    let htmlLoadFailed = false;
+    try {
+      html = await loadCreativeHtml(data.dataUrl);
+    } catch {
+      htmlLoadFailed = true;
+    }
+    const issues = lintCreative({
+      ...data,
+      html,
+      htmlLoadFailed,
+      fileSize: uploadedFile?.url === data.dataUrl ? uploadedFile.size : undefined,
+    });
+    const lintKey = JSON.stringify(issues);
+    const reviewed = lintResult?.key === lintKey;
+    setLintResult({ issues, key: lintKey });
+
+    if (issues.some((issue) => issue.severity === 'error') && !(canOverrideLint && lintOverride)) {
+      enqueueSnackbar(t('creatives.lint.blocked'), { variant: 'error' });
+      return;
+    }
+    if (issues.length > 0 && !reviewed) {
+      enqueueSnackbar(t('creatives.lint.review'), { variant: 'warning' });
+      return;
+    }
+
     try {
       const formData: CreativeFormData = {
         campaignId: data.campaignId,
@@ -357,12 +534,24 @@ export default memo(function CreativesListPage() {
         previewWidth: Number(data.previewWidth),
         previewHeight: Number(data.previewHeight),
         blocked: data.blocked,
+        // Rotation is edited on the campaign, keep what is saved
+        weight: formDialog.data?.data?.weight ?? DEFAULT_CREATIVE_WEIGHT,
+        startDate: formDialog.data?.data?.startDate,
+        endDate: formDialog.data?.data?.endDate,
       };
 
+      // Changed content has to be reviewed again before it is served
+      const moderation = getModerationAfterSave(formDialog.data?.data, formData);
+      formData.moderationStatus = moderation.moderationStatus;
+      formData.rejectionReason = moderation.rejectionReason;
+      if (moderation.moderationStatus && !canUnblockCreative(moderation.moderationStatus)) {
+        formData.blocked = true;
+      }
+
       if (formDialog.data?.id) {
         const fullCreative = formDialog.data.data;
         formData.id = formDialog.data.id;
-        formData.hash = fullCreative?.hash || '';
+        formData.hash = conflictBaseRef.current?.hash ?? fullCreative?.hash ?? '';
         await creativesApi.update(formDialog.data.id, formData);
         enqueueSnackbar(t('common.success.updated'), { variant: 'success' });
       } else {
@@ -373,19 +562,37 @@ export default memo(function CreativesListPage() {
       handleCloseDialog();
       await refetch();
     } catch (error) {
-      logger.error('Failed to save creative', error as Error, {
-        entityType: 'creative',
-        creativeId: formDialog.data?.id,
-        operation: formDialog.data?.id ? 'update' : 'create'
-      });
+      if (isApiError(error) && error.isObjectChanged()) {
+        // Expected when someone else saved first, resolved in the merge dialog
+        logger.warn('Creative was changed by another user', { creativeId: formDialog.data?.id });
+      } else {
+        logger.error('Failed to save creative', error as Error, {
+          entityType: 'creative',
+          creativeId: formDialog.data?.id,
+          operation: formDialog.data?.id ? 'update' : 'create'
+        });
+      }
       
       if (isApiError(error)) {
         if (error.isObjectNotUnique()) {
           enqueueSnackbar(t('error.duplicate'), { variant: 'error' });
         } else if (error.isObjectNotFound()) {
           enqueueSnackbar(t('error.notFound'), { variant: 'error' });
-        } else if (error.isObjectChanged()) {
-          enqueueSnackbar(t('error.changed'), { variant: 'error' });
+        } else if (error.isObjectChanged() && formDialog.data?.id && formDialog.data.data) {
+          const creativeId = formDialog.data.id;
+          void openConflict({
+            original: conflictBaseRef.current?.values ?? creativeToFormValues(formDialog.data.data),
+            mine: data,
+            loadLatest: async () => {
+              const latest = await creativesApi.getById(creativeId);
+              return { values: creativeToFormValues(latest), hash: latest.hash || '' };
+            },
+            onResolve: (values, latest) => {
+              // The next save uses the merged values and the fresh hash
+              conflictBaseRef.current = latest;
+              reset(values);
+            },
+          });
         } else {
           enqueueSnackbar(error.getUserMessage(), { variant: 'error' });
         }
@@ -393,9 +600,10 @@ export default memo(function CreativesListPage() {
         enqueueSnackbar(t('common.error.saveFailed'), { variant: 'error' });
       }
     }
-  }, [formDialog.data?.id, formDialog.data?.data, creativesApi, t, enqueueSnackbar, handleCloseDialog, refetch]);
+  }, [formDialog.data?.id, formDialog.data?.data, editorDirty, uploadedFile, lintResult, canOverrideLint, lintOverride, creativesApi, t, enqueueSnackbar, handleCloseDialog, refetch, openConflict, reset]);
 
   const handleBlock = useCallback(async (creative: Creative) => {
+    if (creative.blocked && !canUnblockCreative(creative.moderationStatus)) return;
     const action = creative.blocked ? 'unblock' : 'block';
     confirmDialog.open({
       title: t(`creatives.confirm.${action}Title`),
@@ -413,6 +621,32 @@ export default memo(function CreativesListPage() {
     });
   }, [confirmDialog, t, enqueueSnackbar]);
 
+  const handleModerate = useCallback(async (creative: Creative, status: CreativeModerationStatus, reason?: string) => {
+    try {
+      await creativesApi.moderate(creative.id, status, reason);
+      // A rejected creative must not be served, whatever its switch says
+      if (status === 'rejected' && !creative.blocked) {
+        await creativesApi.block(creative.id, true);
+      }
+      enqueueSnackbar(t(`creatives.moderation.success.${status}`), { variant: 'success' });
+      await refetch();
+    } catch (error) {
+      logger.error('Failed to moderate creative', error as Error, {
+        entityType: 'creative',
+        creativeId: creative.id,
+        operation: status,
+      });
+      enqueueSnackbar(isApiError(error) ? error.getUserMessage() : t('common.error.saveFailed'), { variant: 'error' });
+    }
+  }, [t, enqueueSnackbar, refetch]);
+
+  const handleApprove = useCallback((creative: Creative) => handleModerate(creative, 'approved'), [handleModerate]);
+
+  const handleReject = useCallback(
+    (creative: Creative, reason: string) => handleModerate(creative, 'rejected', reason),
+    [handleModerate]
+  );
+
   const getCampaignName = useCallback((campaignId: string) => {
     const campaign = campaigns.find(c => String(c.id) === campaignId);
     return campaign ? getDisplayName(campaign.name) : '-';
@@ -437,22 +671,51 @@ export default memo(function CreativesListPage() {
     
     // Campaign filter
     if (filters.campaignId && creative.campaignId !== filters.campaignId) return false;
+
+    if (filters.moderation !== 'all' && creative.moderationStatus !== filters.moderation) return false;
     
     return true;
   }), [creatives, debouncedSearch, filters, commonFilters]);
+
+  const moderationCounts = useMemo(() => {
+    const counts: Record<CreativeModerationStatus | 'all', number> = { all: creatives.length, draft: 0, pending: 0, approved: 0, rejected: 0 };
+    creatives.forEach((creative) => {
+      counts[creative.moderationStatus] += 1;
+    });
+    return counts;
+  }, [creatives]);
+
+  const reviewQueue = useMemo(() => creatives.filter((creative) => creative.moderationStatus === 'pending'), [creatives]);
   
   // Pagination
   const totalPages = Math.ceil(filteredCreatives.length / rowsPerPage);
   const startIndex = (page - 1) * rowsPerPage;
   const endIndex = startIndex + rowsPerPage;
   const paginatedCreatives = filteredCreatives.slice(startIndex, endIndex);
+
+  // Creative content filling a preview frame: uploaded media, fetched or data: HTML, or the URL itself
+  const renderCreativeContent = useCallback((url: string, title: string) => {
+    const mediaPreview = renderMediaPreview(url, title);
+    if (mediaPreview) return mediaPreview;
+
+    const html = htmlContent[url] || extractHtmlContent(url);
+    return html ? (
+      <iframe srcDoc={html} style={IFRAME_STYLE} title={title} sandbox="allow-scripts" />
+    ) : (
+      <iframe src={url} style={IFRAME_STYLE} title={title} sandbox="allow-scripts" />
+    );
+  }, [htmlContent]);
   
   // Load HTML for visible creatives - FIXED: only depend on paginatedCreatives to prevent infinite loop
   useEffect(() => {
     const loadVisibleHtml = async () => {
       const promises = paginatedCreatives.map(async (creative) => {
-        // Only fetch external URLs that haven't been fetched yet (using ref to avoid re-fetching)
-        if (creative.dataUrl.startsWith('http') && !fetchedUrlsRef.current.has(creative.dataUrl)) {
+        // Only fetch external HTML URLs that haven't been fetched yet (using ref to avoid re-fetching)
+        if (
+          creative.dataUrl.startsWith('http') &&
+          !getCreativeUrlMediaKind(creative.dataUrl) &&
+          !fetchedUrlsRef.current.has(creative.dataUrl)
+        ) {
           fetchedUrlsRef.current.add(creative.dataUrl);
           
           if (!isMountedRef.current) return;
@@ -485,7 +748,7 @@ export default memo(function CreativesListPage() {
   // Reset to page 1 when filters change
   useEffect(() => {
     setPage(1);
-  }, [debouncedSearch, filters.status, filters.campaignId]);
+  }, [debouncedSearch, filters.status, filters.campaignId, filters.moderation]);
   
   // Cleanup on unmount
   useEffect(() => {
@@ -542,185 +805,264 @@ export default memo(function CreativesListPage() {
         </Button>
       </FiltersContainer>
 
-      <Box
-        sx={{
-          display: 'grid',
-          gridTemplateColumns: 'repeat(auto-fill, minmax(300px, 1fr))',
-          gap: 3,
-        }}
-      >
-        {paginatedCreatives.map((creative) => (
-          <Box key={creative.id}>
-            <Card sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
-              <Box
-                sx={{
-                  minHeight: 200,
-                  bgcolor: 'grey.100',
-                  display: 'flex',
-                  alignItems: 'center',
-                  justifyContent: 'center',
-                  overflow: 'hidden',
-                  p: 0,
-                  m: 0,
-                }}
-              >
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+        <Tabs value={view} onChange={(_, newView: 'grid' | 'gallery' | 'review') => setView(newView)}>
+          <Tab value="grid" icon={<GridViewIcon />} iconPosition="start" label={t('creatives.views.grid')} />
+          <Tab value="gallery" icon={<PhotoLibraryIcon />} iconPosition="start" label={t('creatives.views.gallery')} />
+          <Tab
+            value="review"
+            icon={<FactCheckIcon />}
+            iconPosition="start"
+            label={`${t('creatives.views.review')} (${reviewQueue.length})`}
+          />
+        </Tabs>
+      </Box>
+
+      {view === 'gallery' && (
+        <CreativeGallery
+          creatives={filteredCreatives}
+          getCampaignName={getCampaignName}
+          getAdvertiserName={getAdvertiserName}
+          loadHtml={loadThumbnailHtml}
+          onOpen={handleOpenDialog}
+        />
+      )}
+
+      {view === 'review' && (
+        <CreativeReviewQueue
+          creatives={reviewQueue}
+          getCampaignName={getCampaignName}
+          getAdvertiserName={getAdvertiserName}
+          renderContent={renderCreativeContent}
+          canReview={isAdmin}
+          onApprove={handleApprove}
+          onReject={handleReject}
+        />
+      )}
+
+      {view === 'grid' && (
+        <>
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fill, minmax(300px, 1fr))',
+            gap: 3,
+          }}
+        >
+          {paginatedCreatives.map((creative) => (
+            <Box key={creative.id}>
+              <Card sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
                 <Box
                   sx={{
-                    width: creative.previewWidth || 300,
-                    height: creative.previewHeight || 200,
-                    border: '1px solid',
-                    borderColor: 'grey.300',
-                    bgcolor: 'white',
+                    minHeight: 200,
+                    bgcolor: 'grey.100',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
                     overflow: 'hidden',
-                    position: 'relative',
-                    m: 0,
                     p: 0,
+                    m: 0,
                   }}
                 >
-                {(() => {
-                  // Priority 1: Use htmlContent if available (sanitized)
-                  if ((creative as any).htmlContent) {
-                    return (
-                      <iframe
-                        srcDoc={(creative as any).htmlContent}
-                        style={IFRAME_STYLE}
-                        title={getDisplayName(creative.name)}
-                        sandbox="allow-scripts"
-                      />
-                    );
-                  }
-                  
-                  // Priority 2: Check if loading HTML for external URL
-                  if (creative.dataUrl.startsWith('http')) {
-                    // Show error state if loading failed
-                    if (htmlErrors[creative.dataUrl]) {
-                      return (
-                        <Box
-                          sx={{
-                            width: '100%',
-                            height: '100%',
-                            display: 'flex',
-                            alignItems: 'center',
-                            justifyContent: 'center',
-                            bgcolor: 'grey.100',
-                          }}
-                        >
-                          <Typography variant="caption" color="text.secondary">
-                            No Image
-                          </Typography>
-                        </Box>
-                      );
-                    }
-                    
-                    if (htmlLoading[creative.dataUrl]) {
-                      return (
-                        <Skeleton
-                          variant="rectangular"
-                          width="100%"
-                          height="100%"
-                          animation="wave"
-                          sx={{ position: 'absolute', top: 0, left: 0 }}
-                        />
-                      );
-                    }
-                    
-                    const loadedHtml = htmlContent[creative.dataUrl];
-                    if (loadedHtml) {
+                  <Box
+                    sx={{
+                      width: creative.previewWidth || 300,
+                      height: creative.previewHeight || 200,
+                      border: '1px solid',
+                      borderColor: 'grey.300',
+                      bgcolor: 'white',
+                      overflow: 'hidden',
+                      position: 'relative',
+                      m: 0,
+                      p: 0,
+                    }}
+                  >
+                  {(() => {
+                    // Priority 1: Use htmlContent if available (sanitized)
+                    if ((creative as any).htmlContent) {
                       return (
                         <iframe
-                          srcDoc={loadedHtml}
+                          srcDoc={(creative as any).htmlContent}
                           style={IFRAME_STYLE}
                           title={getDisplayName(creative.name)}
                           sandbox="allow-scripts"
                         />
                       );
                     }
-                  }
                   
-                  // Priority 3: Try extracting from data: URL
-                  const extractedHtml = extractHtmlContent(creative.dataUrl);
-                  return extractedHtml ? (
-                    <iframe
-                      srcDoc={extractedHtml}
-                      style={IFRAME_STYLE}
-                      title={getDisplayName(creative.name)}
-                      sandbox="allow-scripts"
-                    />
-                  ) : (
-                    <iframe
-                      src={creative.dataUrl}
-                      style={IFRAME_STYLE}
-                      title={getDisplayName(creative.name)}
-                      sandbox="allow-scripts"
-                    />
-                  );
-                })()}
+                    // Priority 2: Uploaded image or video
+                    const mediaPreview = renderMediaPreview(creative.dataUrl, getDisplayName(creative.name));
+                    if (mediaPreview) return mediaPreview;
+
+                    // Priority 3: Check if loading HTML for external URL
+                    if (creative.dataUrl.startsWith('http')) {
+                      // Show error state if loading failed
+                      if (htmlErrors[creative.dataUrl]) {
+                        return (
+                          <Box
+                            sx={{
+                              width: '100%',
+                              height: '100%',
+                              display: 'flex',
+                              alignItems: 'center',
+                              justifyContent: 'center',
+                              bgcolor: 'grey.100',
+                            }}
+                          >
+                            <Typography variant="caption" color="text.secondary">
+                              No Image
+                            </Typography>
+                          </Box>
+                        );
+                      }
+                    
+                      if (htmlLoading[creative.dataUrl]) {
+                        return (
+                          <Skeleton
+                            variant="rectangular"
+                            width="100%"
+                            height="100%"
+                            animation="wave"
+                            sx={{ position: 'absolute', top: 0, left: 0 }}
+                          />
+                        );
+                      }
+                    
+                      const loadedHtml = htmlContent[creative.dataUrl];
+                      if (loadedHtml) {
+                        return (
+                          <iframe
+                            srcDoc={loadedHtml}
+                            style={IFRAME_STYLE}
+                            title={getDisplayName(creative.name)}
+                            sandbox="allow-scripts"
+                          />
+                        );
+                      }
+                    }
+                  
+                    // Priority 4: Try extracting from data: URL
+                    const extractedHtml = extractHtmlContent(creative.dataUrl);
+                    return extractedHtml ? (
+                      <iframe
+                        srcDoc={extractedHtml}
+                        style={IFRAME_STYLE}
+                        title={getDisplayName(creative.name)}
+                        sandbox="allow-scripts"
+                      />
+                    ) : (
+                      <iframe
+                        src={creative.dataUrl}
+                        style={IFRAME_STYLE}
+                        title={getDisplayName(creative.name)}
+                        sandbox="allow-scripts"
+                      />
+                    );
+                  })()}
+                  </Box>
                 </Box>
-              </Box>
-              <CardContent sx={{ flexGrow: 1 }}>
-                <Typography variant="h6" gutterBottom noWrap>
-                  {getDisplayName(creative.name)}
-                </Typography>
-                <Stack spacing={0.5}>
-                  <Typography variant="body2" color="text.secondary">
-                    <strong>{t('creatives.fields.campaign')}:</strong> {getCampaignName(creative.campaignId)}
-                  </Typography>
-                  <Typography variant="body2" color="text.secondary">
-                    <strong>{t('creatives.fields.advertiser')}:</strong> {getAdvertiserName(creative.campaignId)}
+                <CardContent sx={{ flexGrow: 1 }}>
+                  <Typography variant="h6" gutterBottom noWrap>
+                    {getDisplayName(creative.name)}
                   </Typography>
-                  <Typography variant="body2" color="text.secondary">
-                    <strong>{t('creatives.fields.resolution')}:</strong>{' '}
-                    {creative.minWidth}x{creative.minHeight} - {creative.maxWidth}x{creative.maxHeight}
-                  </Typography>
-                </Stack>
-                <Box sx={{ mt: 1 }}>
-                  {creative.blocked && (
-                    <Chip label={t('common.blocked')} color="error" size="small" />
+                  <Stack spacing={0.5}>
+                    <Typography variant="body2" color="text.secondary">
+                      <strong>{t('creatives.fields.campaign')}:</strong> {getCampaignName(creative.campaignId)}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      <strong>{t('creatives.fields.advertiser')}:</strong> {getAdvertiserName(creative.campaignId)}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      <strong>{t('creatives.fields.resolution')}:</strong>{' '}
+                      {creative.minWidth}x{creative.minHeight} - {creative.maxWidth}x{creative.maxHeight}
+                    </Typography>
+                  </Stack>
+                  <Box sx={{ mt: 1, display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                    <StatusChip
+                      status={CREATIVE_MODERATION_CHIP_STATUS[creative.moderationStatus]}
+                      label={t(`creatives.moderation.statuses.${creative.moderationStatus}`)}
+                    />
+                    {creative.blocked && (
+                      <Chip label={t('common.blocked')} color="error" size="small" />
+                    )}
+                    {!creative.blocked && !isCreativeServable(creative) && (
+                      <Chip label={t('creatives.moderation.notServed')} color="warning" size="small" variant="outlined" />
+                    )}
+                  </Box>
+                  {creative.moderationStatus === 'rejected' && creative.rejectionReason && (
+                    <Typography variant="caption" color="error" sx={{ display: 'block', mt: 0.5 }}>
+                      {t('creatives.moderation.rejectedBecause', { reason: creative.rejectionReason })}
+                    </Typography>
                   )}
-                </Box>
-              </CardContent>
-              <CardActions>
-                <Stack direction="row" spacing={1} sx={{ width: '100%', justifyContent: 'space-between' }}>
-                  <IconButton
-                    icon={<EditIcon />}
-                    size="small"
-                    onClick={() => handleOpenDialog(creative)}
-                    aria-label={t('common.edit')}
-                  />
-                  <Switch
-                    checked={!creative.blocked}
-                    onChange={() => handleBlock(creative)}
-                  />
-                </Stack>
-              </CardActions>
-            </Card>
-          </Box>
-        ))}
-      </Box>
-
-      {filteredCreatives.length === 0 && (
-        <Box sx={{ textAlign: 'center', py: 8 }}>
-          <Typography variant="body1" color="text.secondary">
-            {t('creatives.empty')}
-          </Typography>
+                </CardContent>
+                <CardActions>
+                  <Stack direction="row" spacing={1} sx={{ width: '100%', justifyContent: 'space-between' }}>
+                    <IconButton
+                      icon={<EditIcon />}
+                      size="small"
+                      onClick={() => handleOpenDialog(creative)}
+                      aria-label={t('common.edit')}
+                    />
+                    <Stack direction="row" alignItems="center">
+                      {/* Rejected creatives can be blocked but not switched back on */}
+                      <Switch
+                        checked={!creative.blocked}
+                        onChange={() => handleBlock(creative)}
+                        disabled={creative.blocked && !canUnblockCreative(creative.moderationStatus)}
+                      />
+                      <ActionMenu
+                        items={[
+                          {
+                            label: t('creatives.moderation.submit'),
+                            icon: <RateReviewIcon fontSize="small" />,
+                            onClick: () => handleModerate(creative, 'pending'),
+                            disabled: !canSubmitForReview(creative.moderationStatus),
+                          },
+                          {
+                            label: t('creatives.previewPanel.action'),
+                            icon: <DevicesIcon fontSize="small" />,
+                            onClick: () => openSizes(creative),
+                          },
+                          {
+                            label: t('common.history'),
+                            icon: <HistoryIcon fontSize="small" />,
+                            onClick: () => openHistory({ id: String(creative.id), name: getDisplayName(creative.name) }),
+                          },
+                        ]}
+                      />
+                    </Stack>
+                  </Stack>
+                </CardActions>
+              </Card>
+            </Box>
+          ))}
         </Box>
-      )}
+
+        {filteredCreatives.length === 0 && (
+          <Box sx={{ textAlign: 'center', py: 8 }}>
+            <Typography variant="body1" color="text.secondary">
+              {t('creatives.empty')}
+            </Typography>
+          </Box>
+        )}
       
-      {filteredCreatives.length > 0 && (
-        <Box sx={{ mt: 3, display: 'flex', justifyContent: 'center' }}>
-          <Pagination
-            page={page}
-            totalPages={totalPages}
-            onPageChange={(newPage) => setPage(newPage)}
-            rowsPerPage={rowsPerPage}
-            onRowsPerPageChange={(newRowsPerPage) => {
-              setRowsPerPage(newRowsPerPage);
-              setPage(1);
-            }}
-            rowsPerPageOptions={[6, 12, 24, 48]}
-            totalCount={filteredCreatives.length}
-          />
-        </Box>
+        {filteredCreatives.length > 0 && (
+          <Box sx={{ mt: 3, display: 'flex', justifyContent: 'center' }}>
+            <Pagination
+              page={page}
+              totalPages={totalPages}
+              onPageChange={(newPage) => setPage(newPage)}
+              rowsPerPage={rowsPerPage}
+              onRowsPerPageChange={(newRowsPerPage) => {
+                setRowsPerPage(newRowsPerPage);
+                setPage(1);
+              }}
+              rowsPerPageOptions={[6, 12, 24, 48]}
+              totalCount={filteredCreatives.length}
+            />
+          </Box>
+        )}
+        </>
       )}
 
       <Dialog 
@@ -779,10 +1121,11 @@ export default memo(function CreativesListPage() {
           
           <Tabs
             value={activeTab}
-            onChange={(_, newValue) => setActiveTab(newValue)}
+            onChange={(_, newValue) => handleTabChange(newValue)}
             sx={{ borderBottom: 1, borderColor: 'divider', px: 3, flexShrink: 0 }}
           >
             <Tab label={t('creatives.tabs.settings')} />
+            <Tab label={t('creatives.tabs.htmlEditor')} />
             <Tab label={t('creatives.tabs.preview')} />
           </Tabs>
           
@@ -802,6 +1145,11 @@ export default memo(function CreativesListPage() {
             <Box sx={{ flexGrow: 1, overflow: 'auto', pb: 2 }}>
             {activeTab === 0 && (
               <Stack spacing={2} sx={{ mt: 1 }}>
+                {formDialog.data?.data?.moderationStatus === 'rejected' && (
+                  <Alert severity="error">
+                    {t('creatives.moderation.rejectedBecause', { reason: formDialog.data.data.rejectionReason || '—' })}
+                  </Alert>
+                )}
                 <FormField
                   name="campaignId"
                   control={control}
@@ -820,6 +1168,7 @@ export default memo(function CreativesListPage() {
                     required
                   />
                 </Box>
+                <CreativeUploadField limits={sizeLimits} onUploaded={handleUploaded} disabled={isSubmitting} />
                 <FormField
                   name="dataUrl"
                   control={control}
@@ -880,81 +1229,44 @@ export default memo(function CreativesListPage() {
                   control={control}
                   name="blocked"
                   label={t('creatives.fields.blocked')}
+                  disabled={formDialog.data?.data ? !canUnblockCreative(formDialog.data.data.moderationStatus) : false}
                 />
               </Stack>
             )}
             
             {activeTab === 1 && (
+              <Box sx={{ mt: 1, height: '100%' }}>
+                {editorLoading && (
+                  <FlexColumnCenter>
+                    <CircularProgress size={32} />
+                  </FlexColumnCenter>
+                )}
+                {!editorLoading && editorError && <Alert severity="info">{editorError}</Alert>}
+                {!editorLoading && editorHtml !== null && (
+                  <CreativeHtmlEditor
+                    html={editorHtml}
+                    onChange={handleEditorChange}
+                    dirty={editorDirty}
+                    previewWidth={Number(previewWidth) || 300}
+                    previewHeight={Number(previewHeight) || 200}
+                    onApply={handleEditorApply}
+                    onDiscard={handleEditorDiscard}
+                  />
+                )}
+              </Box>
+            )}
+
+            {activeTab === 2 && (
               <FlexColumnCenter>
                 <Typography variant="body2" color="text.secondary">
                   {t('creatives.preview.description')}
                 </Typography>
                 {dataUrl && (
-                  <Box
-                    sx={{
-                      minHeight: 200,
-                      width: '100%',
-                      bgcolor: 'grey.100',
-                      display: 'flex',
-                      alignItems: 'center',
-                      justifyContent: 'center',
-                      overflow: 'hidden',
-                      p: 0,
-                      m: 0,
-                    }}
-                  >
-                    <Box
-                      sx={{
-                        width: previewWidth || 300,
-                        height: previewHeight || 200,
-                        border: '1px solid',
-                        borderColor: 'grey.300',
-                        bgcolor: 'white',
-                        overflow: 'hidden',
-                        position: 'relative',
-                        m: 0,
-                        p: 0,
-                      }}
-                    >
-                      {(() => {
-                        // Use dataUrl for preview
-                        if (dataUrl) {
-                          // Check if we have loaded HTML for external URL
-                          const loadedHtml = htmlContent[dataUrl as string];
-                          if (loadedHtml) {
-                            return (
-                              <iframe
-                                srcDoc={loadedHtml}
-                                style={IFRAME_STYLE}
-                                title="Preview"
-                                sandbox="allow-scripts"
-                              />
-                            );
-                          }
-                          
-                          // Try extracting from data: URL
-                          const extractedHtml = extractHtmlContent(dataUrl);
-                          return extractedHtml ? (
-                            <iframe
-                              srcDoc={extractedHtml}
-                              style={IFRAME_STYLE}
-                              title="Preview"
-                              sandbox="allow-scripts"
-                            />
-                          ) : (
-                            <iframe
-                              src={dataUrl}
-                              style={IFRAME_STYLE}
-                              title="Preview"
-                              sandbox="allow-scripts"
-                            />
-                          );
-                        }
-                        
-                        return null;
-                      })()}
-                    </Box>
-                  </Box>
+                  <CreativePreviewPanel
+                    limits={sizeLimits}
+                    previewSize={dialogPreviewSize}
+                    renderContent={() => renderCreativeContent(dataUrl, 'Preview')}
+                  />
                 )}
                 {!dataUrl && (
                   <Typography variant="body2" color="text.secondary">
@@ -964,6 +1276,16 @@ export default memo(function CreativesListPage() {
               </FlexColumnCenter>
             )}
             </Box>
+            {lintResult && (
+              <Box sx={{ flexShrink: 0, maxHeight: 180, overflow: 'auto', px: 3, py: 1.5, borderTop: '1px solid', borderColor: 'divider' }}>
+                <CreativeLintResults
+                  issues={lintResult.issues}
+                  canOverride={canOverrideLint}
+                  override={lintOverride}
+                  onOverrideChange={setLintOverride}
+                />
+              </Box>
+            )}
             <Box
               sx={{
                 flexShrink: 0,
@@ -1013,6 +1335,20 @@ export default memo(function CreativesListPage() {
           ]}
         />
 
+        <Select
+          name="moderation"
+          label={t('creatives.moderation.label')}
+          value={filters.moderation}
+          onChange={(value) => updateFilter('moderation', value as CreativeModerationStatus | 'all')}
+          options={[
+            { value: 'all', label: `${t('common.all')} (${moderationCounts.all})` },
+            ...CREATIVE_MODERATION_STATUSES.map((status) => ({
+              value: status,
+              label: `${t(`creatives.moderation.statuses.${status}`)} (${moderationCounts[status]})`,
+            })),
+          ]}
+        />
+
         <Select
           name="campaignId"
           label={t('creatives.fields.campaign')}
@@ -1026,6 +1362,57 @@ export default memo(function CreativesListPage() {
       </FilterDrawer>
 
       <ConfirmDialog {...confirmDialog.dialogProps} />
+
+      <ConflictResolutionDialog
+        {...conflictDialog.dialogProps}
+        fieldLabels={{
+          campaignId: t('creatives.fields.campaign'),
+          name: t('creatives.fields.name'),
+          dataUrl: t('creatives.fields.dataUrl'),
+          minWidth: t('creatives.fields.minWidth'),
+          maxWidth: t('creatives.fields.maxWidth'),
+          minHeight: t('creatives.fields.minHeight'),
+          maxHeight: t('creatives.fields.maxHeight'),
+          previewWidth: t('creatives.fields.previewWidth'),
+          previewHeight: t('creatives.fields.previewHeight'),
+          blocked: t('creatives.fields.blocked'),
+        }}
+      />
+
+      {/* Preview at all sizes and slot types */}
+      <Dialog
+        open={sizesDialog.open}
+        onClose={sizesDialog.closeDialog}
+        maxWidth="lg"
+        fullWidth
+      >
+        <DialogTitle sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Box component="span">
+            {t('creatives.previewPanel.title', { name: sizesCreative ? getDisplayName(sizesCreative.name) : '' })}
+          </Box>
+          <MuiIconButton aria-label="close" onClick={sizesDialog.closeDialog}>
+            <CloseIcon />
+          </MuiIconButton>
+        </DialogTitle>
+        <DialogContent dividers>
+          {sizesCreative && (
+            <CreativePreviewPanel
+              limits={sizesCreative}
+              previewSize={{ width: sizesCreative.previewWidth || 300, height: sizesCreative.previewHeight || 200 }}
+              renderContent={() => renderCreativeContent(sizesCreative.dataUrl, getDisplayName(sizesCreative.name))}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* History Drawer */}
+      <EntityHistoryDrawer
+        open={historyDialog.open}
+        onClose={historyDialog.closeDialog}
+        entityType="creative"
+        entityId={historyDialog.data?.id}
+        entityName={historyDialog.data?.name}
+      />
     </Box>
   );
 });
@@ -9,35 +9,62 @@ import {
   useTheme,
   Backdrop,
   CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Tabs,
+  Tab,
 } from '@mui/material';
 import {
   Add as AddIcon,
   Edit as EditIcon,
   FilterList as FilterListIcon,
+  History as HistoryIcon,
+  CalendarMonth as CalendarMonthIcon,
+  EventBusy as EventBusyIcon,
+  GridView as GridViewIcon,
+  Layers as LayersIcon,
+  ManageSearch as ManageSearchIcon,
+  Delete as DeleteIcon,
 } from '@mui/icons-material';
 import { Button, IconButton, Switch, Select } from '../../components/ui/atoms';
-import { GenericFormDialog, FilterDrawer, SearchField, MultilingualNameField, SwitchField, TimeSelectField, ConfirmDialog } from '../../components/ui/molecules';
+import { GenericFormDialog, FilterDrawer, SearchField, MultilingualNameField, ConfirmDialog, ActionMenu } from '../../components/ui/molecules';
 import { useSnackbar } from 'notistack';
-import { useFilters, useDrawer, useFetch, useMultilingualName, useDialogState, useConfirmDialog, useDebounce, useEditWithLoading, useCommonFilters } from '../../hooks';
-import { schedulesApi } from '../../api';
+import { useFilters, useDrawer, useFetch, useMultilingualName, useDialogState, useConfirmDialog, useDebounce, useEditWithLoading, useCommonFilters, useTimezoneView, useLinkedEntity } from '../../hooks';
+import { schedulesApi, holidayCalendarsApi, dictionariesApi } from '../../api';
 import { isApiError } from '../../api/errors';
 import { logger } from '../../utils/logger';
-import type { Schedule, ScheduleFormData, DaySchedule } from '../../types';
+import type { Schedule, ScheduleFormData, DaySchedule, HolidayCalendar, LocationsResponse } from '../../types';
 import { z } from 'zod';
 import { Controller } from 'react-hook-form';
 import { PageHeader, FiltersContainer, FlexRowCenter } from '../../components/ui/styled';
-
-const DAYS: Array<DaySchedule['day']> = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
-
-// Convert hour number to HH:mm string format
-const hourToTimeString = (hour: number): string => {
-  return `${String(hour).padStart(2, '0')}:00`;
-};
-
-// Convert HH:mm string to hour number
-const timeStringToHour = (time: string): number => {
-  return parseInt(time.split(':')[0], 10);
-};
+import { EntityHistoryDrawer } from '../../components/common/EntityHistoryDrawer';
+import { TimezoneSwitcher } from '../../components/common/TimezoneSwitcher';
+import { ScheduleExceptionsField } from '../../components/schedules/ScheduleExceptionsField';
+import { ScheduleMonthView } from '../../components/schedules/ScheduleMonthView';
+import { HolidayCalendarsDialog } from '../../components/schedules/HolidayCalendarsDialog';
+import { TimeWindowsEditor } from '../../components/schedules/TimeWindowsEditor';
+import { ScheduleHeatmapEditor } from '../../components/schedules/ScheduleHeatmapEditor';
+import { ScheduleOverlayView } from '../../components/schedules/ScheduleOverlayView';
+import { ScheduleUsageDialog, type ScheduleUsageMode } from '../../components/schedules/ScheduleUsageDialog';
+import { getExceptionIssue } from '../../utils/scheduleExceptionUtils';
+import { shiftWeekSchedule } from '../../utils/scheduleGridUtils';
+import { getLocationsTimezones, getTimezoneShiftMinutes } from '../../utils/timezoneUtils';
+import {
+  formatTimeWindow,
+  generateTimeOptions,
+  getTimeWindowsIssue,
+  sortTimeWindows,
+  toTimeWindow,
+  toTimeWindowFormValue,
+  WEEK_DAYS,
+} from '../../utils/timeWindowUtils';
+
+const timeWindowSchema = z.object({
+  startTime: z.string(),
+  endTime: z.string(),
+});
 
 const createScheduleSchema = (t: (key: string) => string) =>
   z.object({
@@ -48,46 +75,77 @@ const createScheduleSchema = (t: (key: string) => string) =>
     }),
     color: z.string().regex(/^#[0-9A-F]{6}$/i, t('schedules.validation.colorInvalid')),
     weekSchedule: z.array(
-      z.object({
-        day: z.enum(['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']),
-        enabled: z.boolean(),
-        startTime: z.string(),
-        endTime: z.string(),
-      })
+      z
+        .object({
+          day: z.enum(['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']),
+          enabled: z.boolean(),
+          windows: z.array(timeWindowSchema),
+        })
+        .refine(
+          (day) => !day.enabled || (day.windows.length > 0 && getTimeWindowsIssue(day.windows.map(toTimeWindow)) === null),
+          { message: t('schedules.windows.issues.invalid'), path: ['windows'] }
+        )
+    ).superRefine((week, ctx) => {
+      // Overnight windows must end before the next day opens, Sunday night runs into Monday
+      week.forEach((day, index) => {
+        const nextDay = week[(index + 1) % week.length];
+        if (!day.enabled || !nextDay.enabled) return;
+        if (getTimeWindowsIssue(day.windows.map(toTimeWindow), nextDay.windows.map(toTimeWindow)) === 'overlapNextDay') {
+          ctx.addIssue({ code: 'custom', message: t('schedules.windows.issues.invalid'), path: [index, 'windows'] });
+        }
+      });
+    }),
+    exceptions: z.array(
+      z
+        .object({
+          startDate: z.string(),
+          endDate: z.string(),
+          closed: z.boolean(),
+          windows: z.array(timeWindowSchema),
+          note: z.string().optional(),
+        })
+        .refine(
+          (exception) => getExceptionIssue({ ...exception, windows: exception.windows.map(toTimeWindow) }) === null,
+          { message: t('schedules.exceptions.issues.invalid'), path: ['endDate'] }
+        )
     ),
+    holidayCalendarIds: z.array(z.string()),
     blocked: z.boolean(),
   });
 
 type ScheduleFormValues = z.infer<ReturnType<typeof createScheduleSchema>>;
 
+type DayFormValues = ScheduleFormValues['weekSchedule'][number];
+
+const dayToFormValues = (day: DaySchedule): DayFormValues => ({
+  ...day,
+  windows: day.windows.map(toTimeWindowFormValue),
+});
+
+const formValuesToDay = (day: DayFormValues): DaySchedule => ({
+  day: day.day,
+  enabled: day.enabled,
+  windows: sortTimeWindows(day.windows.map(toTimeWindow)),
+});
+
+const scheduleToFormValues = (schedule: Schedule): ScheduleFormValues => ({
+  name: schedule.name,
+  color: schedule.color,
+  weekSchedule: schedule.weekSchedule.map(dayToFormValues),
+  exceptions: schedule.exceptions.map(exception => ({
+    ...exception,
+    windows: exception.windows.map(toTimeWindowFormValue),
+    note: exception.note || '',
+  })),
+  holidayCalendarIds: schedule.holidayCalendarIds,
+  blocked: schedule.blocked,
+});
+
 interface ScheduleFilters {
   search: string;
   status: 'active' | 'blocked' | 'all';
 }
 
-const calculateDuration = (startTime: string, endTime: string): string => {
-  const [startHour, startMin] = startTime.split(':').map(Number);
-  const [endHour, endMin] = endTime.split(':').map(Number);
-  
-  let totalMinutes = (endHour * 60 + endMin) - (startHour * 60 + startMin);
-  if (totalMinutes < 0) {
-    totalMinutes += 24 * 60; // Add 24 hours if end time is next day
-  }
-  
-  const hours = Math.floor(totalMinutes / 60);
-  return `${hours} hour${hours !== 1 ? 's' : ''}`;
-};
-
-const generateTimeOptions = (): string[] => {
-  const options: string[] = [];
-  for (let h = 0; h < 24; h++) {
-    for (let m = 0; m < 60; m += 60) {
-      options.push(`${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`);
-    }
-  }
-  return options;
-};
-
 const SchedulesListPage = memo(() => {
   const { t } = useTranslation();
   const { enqueueSnackbar } = useSnackbar();
@@ -114,6 +172,33 @@ const SchedulesListPage = memo(() => {
   
   // Dialog state with useDialogState hook
   const formDialog = useDialogState<{ id?: string; data?: Schedule & { hash?: string } | null }>();
+  const historyDialog = useDialogState<{ id: string; name: string }>();
+  const openHistory = historyDialog.openDialog;
+  const monthViewDialog = useDialogState<Schedule>();
+  const openMonthView = monthViewDialog.openDialog;
+  const [holidaysOpen, setHolidaysOpen] = useState(false);
+  const [view, setView] = useState<'cards' | 'overlay'>('cards');
+  const usageDialog = useDialogState<{ schedule: Schedule; mode: ScheduleUsageMode }>();
+  const { openDialog: openUsage, closeDialog: closeUsage } = usageDialog;
+
+  // Shared holiday calendars, linked from the schedule form
+  const { data: holidayCalendars, refetch: refetchHolidayCalendars } = useFetch<HolidayCalendar[]>(
+    async () => await holidayCalendarsApi.list(),
+    []
+  );
+  const calendarList = useMemo(() => holidayCalendars || [], [holidayCalendars]);
+
+  // Hours are wall-clock time of the restaurants; the form can show them in another zone
+  const { data: locations } = useFetch<LocationsResponse>(
+    async () => await dictionariesApi.getLocations(),
+    []
+  );
+  const locationTimezones = useMemo(
+    () => getLocationsTimezones(locations?.cities || [], locations?.countries || []),
+    [locations]
+  );
+  const timezoneView = useTimezoneView(locationTimezones);
+  const timezoneShift = getTimezoneShiftMinutes(timezoneView.targetTimezone, timezoneView.viewTimezone);
   
   // Edit with loading hook
   const { isLoading: isLoadingEdit, handleEdit } = useEditWithLoading<Schedule>({
@@ -123,17 +208,7 @@ const SchedulesListPage = memo(() => {
       return data as any;
     },
     onSuccess: (data, schedule) => {
-      const formValues = {
-        name: data.name,
-        color: data.color,
-        weekSchedule: data.weekSchedule.map(day => ({
-          ...day,
-          startTime: hourToTimeString(day.startTime),
-          endTime: hourToTimeString(day.endTime),
-        })),
-        blocked: data.blocked,
-      };
-      setFormData(formValues);
+      setFormData(scheduleToFormValues(data));
       formDialog.openDialog({ id: String(schedule.id), data: data as Schedule & { hash: string } });
     },
     getEntityId: (schedule) => schedule.id,
@@ -168,12 +243,13 @@ const SchedulesListPage = memo(() => {
   const defaultFormValues: ScheduleFormValues = useMemo(() => ({
     name: { ARM: '', RUS: '', ENG: '' },
     color: '#28282E',
-    weekSchedule: DAYS.map((day) => ({
+    weekSchedule: WEEK_DAYS.map((day) => ({
       day,
       enabled: true,
-      startTime: '09:00',
-      endTime: '17:00',
+      windows: [{ startTime: '09:00', endTime: '17:00' }],
     })),
+    exceptions: [],
+    holidayCalendarIds: [],
     blocked: false,
   }), []);
 
@@ -190,6 +266,9 @@ const SchedulesListPage = memo(() => {
     }
   }, [formDialog, handleEdit, defaultFormValues]);
 
+  // Open the schedule linked from another page (e.g. the audit log)
+  useLinkedEntity(schedules, loading, handleOpenDialog);
+
   const handleCloseDialog = useCallback(() => {
     formDialog.closeDialog();
   }, [formDialog]);
@@ -212,17 +291,20 @@ const SchedulesListPage = memo(() => {
     filterDrawer.close();
   }, [resetFilters, resetTempFilters, filterDrawer]);
 
-  const handleFormSubmit = useCallback(async (data: ScheduleFormValues) => {
+  const handleFormSubmit = useCallback(async (data: ScheduleFormValues, hash?: string) => {
     try {
       const formData: ScheduleFormData = {
         name: data.name,
         color: data.color,
-        weekSchedule: data.weekSchedule.map(day => ({
-          day: day.day,
-          enabled: day.enabled,
-          startTime: timeStringToHour(day.startTime),
-          endTime: timeStringToHour(day.endTime),
+        weekSchedule: data.weekSchedule.map(formValuesToDay),
+        exceptions: data.exceptions.map(exception => ({
+          startDate: exception.startDate,
+          endDate: exception.endDate,
+          closed: exception.closed,
+          windows: exception.closed ? [] : sortTimeWindows(exception.windows.map(toTimeWindow)),
+          note: exception.note || undefined,
         })),
+        holidayCalendarIds: data.holidayCalendarIds,
         blocked: data.blocked,
       };
 
@@ -231,7 +313,7 @@ const SchedulesListPage = memo(() => {
         await schedulesApi.update(
           formDialog.data.id,
           formData,
-          scheduleData?.hash || ''
+          hash ?? scheduleData?.hash ?? ''
         );
         enqueueSnackbar(t('common.success.updated'), { variant: 'success' });
       } else {
@@ -242,11 +324,16 @@ const SchedulesListPage = memo(() => {
       handleCloseDialog();
       await refetch();
     } catch (error) {
-      logger.error('Failed to save schedule', error as Error, {
-        entityType: 'schedule',
-        scheduleId: formDialog.data?.id,
-        operation: formDialog.data?.id ? 'update' : 'create'
-      });
+      if (isApiError(error) && error.isObjectChanged()) {
+        // Expected when someone else saved first, resolved in the merge dialog
+        logger.warn('Schedule was changed by another user', { scheduleId: formDialog.data?.id });
+      } else {
+        logger.error('Failed to save schedule', error as Error, {
+          entityType: 'schedule',
+          scheduleId: formDialog.data?.id,
+          operation: formDialog.data?.id ? 'update' : 'create'
+        });
+      }
       
       if (isApiError(error)) {
         if (error.isObjectNotUnique()) {
@@ -254,7 +341,8 @@ const SchedulesListPage = memo(() => {
         } else if (error.isObjectNotFound()) {
           enqueueSnackbar(t('error.notFound'), { variant: 'error' });
         } else if (error.isObjectChanged()) {
-          enqueueSnackbar(t('error.changed'), { variant: 'error' });
+          // Resolved by the merge dialog of GenericFormDialog
+          throw error;
         } else {
           enqueueSnackbar(error.getUserMessage(), { variant: 'error' });
         }
@@ -264,37 +352,79 @@ const SchedulesListPage = memo(() => {
     }
   }, [formDialog.data?.id, formDialog.data?.data, enqueueSnackbar, t, handleCloseDialog, refetch]);
 
+  const loadLatestSchedule = useCallback(async () => {
+    const latest = await schedulesApi.getById(formDialog.data?.id || '');
+    return { values: scheduleToFormValues(latest), hash: latest.hash || '' };
+  }, [formDialog.data?.id]);
+
+  const toggleBlocked = useCallback(
+    async (schedule: Schedule) => {
+      try {
+        await schedulesApi.block(String(schedule.id), !schedule.blocked);
+        enqueueSnackbar(
+          t(`common.success.${schedule.blocked ? 'unblocked' : 'blocked'}`),
+          { variant: 'success' }
+        );
+        await refetch();
+      } catch (error) {
+        logger.error('Failed to block/unblock schedule', error as Error, {
+          entityType: 'schedule',
+          scheduleId: schedule.id,
+          operation: schedule.blocked ? 'unblock' : 'block'
+        });
+        enqueueSnackbar(t('common.error.saveFailed'), { variant: 'error' });
+      }
+    },
+    [t, enqueueSnackbar, refetch]
+  );
+
   const handleBlock = useCallback(
     (schedule: Schedule) => {
-      const action = schedule.blocked ? 'unblock' : 'block';
-      const scheduleName = getDisplayName(schedule.name);
+      // Blocking goes through the usage report, campaign targets may still reference the schedule
+      if (!schedule.blocked) {
+        openUsage({ schedule, mode: 'block' });
+        return;
+      }
       confirmDialog.open({
-        title: t(`schedules.confirm.${action}Title`),
-        message: t(`schedules.confirm.${action}Message`, { name: scheduleName }),
+        title: t('schedules.confirm.unblockTitle'),
+        message: t('schedules.confirm.unblockMessage', { name: getDisplayName(schedule.name) }),
         confirmText: t('common.confirm'),
         cancelText: t('common.cancel'),
-        onConfirm: async () => {
-          try {
-            await schedulesApi.block(String(schedule.id), !schedule.blocked);
-            enqueueSnackbar(
-              t(`common.success.${schedule.blocked ? 'unblocked' : 'blocked'}`),
-              { variant: 'success' }
-            );
-            await refetch();
-          } catch (error) {
-            logger.error('Failed to block/unblock schedule', error as Error, {
-              entityType: 'schedule',
-              scheduleId: schedule.id,
-              operation: schedule.blocked ? 'unblock' : 'block'
-            });
-            enqueueSnackbar(t('common.error.saveFailed'), { variant: 'error' });
-          }
-        },
+        onConfirm: () => toggleBlocked(schedule),
       });
     },
-    [t, getDisplayName, confirmDialog, enqueueSnackbar, refetch]
+    [t, getDisplayName, confirmDialog, openUsage, toggleBlocked]
+  );
+
+  const deleteSchedule = useCallback(
+    async (schedule: Schedule) => {
+      try {
+        await schedulesApi.delete(String(schedule.id));
+        enqueueSnackbar(t('common.success.deleted'), { variant: 'success' });
+        await refetch();
+      } catch (error) {
+        logger.error('Failed to delete schedule', error as Error, {
+          entityType: 'schedule',
+          scheduleId: schedule.id,
+          operation: 'delete'
+        });
+        enqueueSnackbar(isApiError(error) ? error.getUserMessage() : t('schedules.usage.deleteFailed'), { variant: 'error' });
+      }
+    },
+    [t, enqueueSnackbar, refetch]
   );
 
+  const handleUsageConfirm = useCallback(async () => {
+    const { schedule, mode } = usageDialog.data || {};
+    if (!schedule) return;
+    if (mode === 'delete') {
+      await deleteSchedule(schedule);
+    } else {
+      await toggleBlocked(schedule);
+    }
+    closeUsage();
+  }, [usageDialog.data, deleteSchedule, toggleBlocked, closeUsage]);
+
   // Common filter functions
   const commonFilters = useCommonFilters({ getDisplayName });
 
@@ -318,13 +448,22 @@ const SchedulesListPage = memo(() => {
       </Backdrop>
       <PageHeader>
         <Typography variant="h4">{t('schedules.title')}</Typography>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon />}
-          onClick={() => handleOpenDialog()}
-        >
-          {t('schedules.addNew')}
-        </Button>
+        <FlexRowCenter>
+          <Button
+            variant="outlined"
+            startIcon={<EventBusyIcon />}
+            onClick={() => setHolidaysOpen(true)}
+          >
+            {t('schedules.holidays.title')}
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => handleOpenDialog()}
+          >
+            {t('schedules.addNew')}
+          </Button>
+        </FlexRowCenter>
       </PageHeader>
 
       {/* Search and Filters */}
@@ -345,8 +484,21 @@ const SchedulesListPage = memo(() => {
         </Button>
       </FiltersContainer>
 
+      <Box sx={{ mb: 2 }}>
+        <Tabs value={view} onChange={(_, newView: 'cards' | 'overlay') => setView(newView)}>
+          <Tab value="cards" icon={<GridViewIcon />} iconPosition="start" label={t('schedules.views.cards')} />
+          <Tab value="overlay" icon={<LayersIcon />} iconPosition="start" label={t('schedules.views.overlay')} />
+        </Tabs>
+      </Box>
+
       {loading ? (
         <Typography>{t('common.loading')}</Typography>
+      ) : view === 'overlay' ? (
+        <Card sx={{ border: '2px solid', borderColor: 'divider', borderRadius: 2 }}>
+          <CardContent>
+            <ScheduleOverlayView schedules={filteredSchedules} />
+          </CardContent>
+        </Card>
       ) : (
         <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: 'repeat(2, 1fr)', md: 'repeat(3, 1fr)' }, gap: 3 }}>
           {filteredSchedules.map((schedule) => (
@@ -404,7 +556,7 @@ const SchedulesListPage = memo(() => {
                           >
                             {daySchedule.day}
                           </Typography>
-                          {daySchedule.enabled ? (
+                          {daySchedule.enabled && daySchedule.windows.length > 0 ? (
                             <FlexRowCenter>
                               <Box
                                 sx={{
@@ -415,7 +567,7 @@ const SchedulesListPage = memo(() => {
                                 }}
                               />
                               <Typography variant="body2" color="text.secondary">
-                                {hourToTimeString(daySchedule.startTime)} - {hourToTimeString(daySchedule.endTime)}
+                                {daySchedule.windows.map(formatTimeWindow).join(', ')}
                               </Typography>
                             </FlexRowCenter>
                           ) : (
@@ -427,6 +579,17 @@ const SchedulesListPage = memo(() => {
                       ))}
                     </Stack>
 
+                    {(schedule.exceptions.length > 0 || schedule.holidayCalendarIds.length > 0) && (
+                      <Typography variant="caption" color="text.secondary">
+                        {[
+                          schedule.exceptions.length > 0 && t('schedules.exceptions.count', { count: schedule.exceptions.length }),
+                          ...calendarList
+                            .filter((calendar) => schedule.holidayCalendarIds.includes(calendar.id))
+                            .map((calendar) => getDisplayName(calendar.name)),
+                        ].filter(Boolean).join(' · ')}
+                      </Typography>
+                    )}
+
                     <Box
                       sx={{
                         display: 'flex',
@@ -443,10 +606,37 @@ const SchedulesListPage = memo(() => {
                         onClick={() => handleOpenDialog(schedule)}
                         aria-label={t('common.edit')}
                       />
-                      <Switch
-                        checked={!schedule.blocked}
-                        onChange={() => handleBlock(schedule)}
-                      />
+                      <FlexRowCenter>
+                        <Switch
+                          checked={!schedule.blocked}
+                          onChange={() => handleBlock(schedule)}
+                        />
+                        <ActionMenu
+                          items={[
+                            {
+                              label: t('schedules.monthView.title'),
+                              icon: <CalendarMonthIcon fontSize="small" />,
+                              onClick: () => openMonthView(schedule),
+                            },
+                            {
+                              label: t('schedules.usage.action'),
+                              icon: <ManageSearchIcon fontSize="small" />,
+                              onClick: () => openUsage({ schedule, mode: 'report' }),
+                            },
+                            {
+                              label: t('common.history'),
+                              icon: <HistoryIcon fontSize="small" />,
+                              onClick: () => openHistory({ id: String(schedule.id), name: getDisplayName(schedule.name) }),
+                            },
+                            {
+                              label: t('common.delete'),
+                              icon: <DeleteIcon fontSize="small" />,
+                              onClick: () => openUsage({ schedule, mode: 'delete' }),
+                              color: 'error',
+                            },
+                          ]}
+                        />
+                      </FlexRowCenter>
                     </Box>
                   </Stack>
                 </CardContent>
@@ -462,6 +652,7 @@ const SchedulesListPage = memo(() => {
         defaultValues={formData}
         onSubmit={handleFormSubmit}
         onClose={handleCloseDialog}
+        loadLatest={formDialog.data?.id ? loadLatestSchedule : undefined}
         maxWidth="md"
         submitText={t('common.save')}
         cancelText={t('common.cancel')}
@@ -524,90 +715,137 @@ const SchedulesListPage = memo(() => {
             name: 'weekSchedule',
             label: t('schedules.fields.weekSchedule'),
             type: 'text',
-            render: (control) => {
-              // Import useWatch from react-hook-form at the top if not already
-              // Use Controller to watch the weekSchedule array properly
-              return (
-                <Box>
-                  <Typography variant="subtitle2" sx={{ mb: 2 }}>
-                    {t('schedules.fields.weekSchedule')}
-                  </Typography>
-                  <Stack spacing={2}>
-                    {DAYS.map((day, index) => (
-                      <Controller
-                        key={day}
-                        name={`weekSchedule.${index}.enabled`}
-                        control={control}
-                        render={({ field: enabledField }) => (
-                          <Box>
-                            <Box
-                              sx={{
-                                display: 'grid',
-                                gridTemplateColumns: 'auto 100px 100px 100px 100px',
-                                alignItems: 'center',
-                                gap: 2,
-                                mb: 1,
-                              }}
-                            >
-                              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                                <SwitchField
-                                  control={control}
-                                  name={`weekSchedule.${index}.enabled`}
-                                  label={t(`schedules.days.${day.toLowerCase()}`)}
-                                />
-                              </Box>
-                              {enabledField.value ? (
-                                <>
-                                  <TimeSelectField
-                                    control={control}
-                                    name={`weekSchedule.${index}.startTime`}
-                                    options={timeOptions}
-                                  />
-                                  <TimeSelectField
-                                    control={control}
-                                    name={`weekSchedule.${index}.endTime`}
-                                    options={timeOptions}
-                                  />
-                                  <Controller
-                                    name={`weekSchedule.${index}.startTime`}
-                                    control={control}
-                                    render={({ field: startField }) => (
-                                      <Controller
-                                        name={`weekSchedule.${index}.endTime`}
-                                        control={control}
-                                        render={({ field: endField }) => (
-                                          <Typography
-                                            variant="body2"
-                                            sx={{
-                                              bgcolor: 'action.hover',
-                                              px: 2,
-                                              py: 0.5,
-                                              borderRadius: 10,
-                                              textAlign: 'center',
-                                            }}
-                                          >
-                                            {calculateDuration(
-                                              startField.value || '00:00',
-                                              endField.value || '00:00'
-                                            )}
-                                          </Typography>
-                                        )}
-                                      />
-                                    )}
-                                  />
-                                </>
-                              ) : (
-                                <Box sx={{ gridColumn: 'span 3' }} />
-                              )}
-                            </Box>
+            render: (control) => (
+              <Controller
+                name="color"
+                control={control}
+                render={({ field: colorField }) => (
+                  <Controller
+                    name="weekSchedule"
+                    control={control}
+                    render={({ field }) => {
+                      // Rows and heatmap edit the same array, so both always show the current pattern
+                      const days: DayFormValues[] = field.value || [];
+                      const updateDay = (index: number, changes: Partial<DayFormValues>) => {
+                        field.onChange(days.map((day, i) => (i === index ? { ...day, ...changes } : day)));
+                      };
+                      // Overnight windows are checked against the next open day, Sunday wraps to Monday
+                      const getNextDayWindows = (index: number) => {
+                        const nextDay = days[(index + 1) % days.length];
+                        return nextDay.enabled ? nextDay.windows : undefined;
+                      };
+                      // In another zone the grid is shifted there and back; the rows are edited in restaurant time only
+                      const weekSchedule = days.map(formValuesToDay);
+                      const shownWeekSchedule = shiftWeekSchedule(weekSchedule, timezoneShift);
+
+                      return (
+                        <Box>
+                          <Typography variant="subtitle2" sx={{ mb: 0.5 }}>
+                            {t('schedules.fields.weekSchedule')}
+                          </Typography>
+                          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                            {t('schedules.windows.description')}
+                          </Typography>
+                          <Box sx={{ mb: 2 }}>
+                            <TimezoneSwitcher timezones={locationTimezones} {...timezoneView} />
                           </Box>
-                        )}
-                      />
-                    ))}
-                  </Stack>
-                </Box>
-              );
-            },
+                          <Box sx={{ mb: 3 }}>
+                            <ScheduleHeatmapEditor
+                              value={shownWeekSchedule}
+                              onChange={(painted) => field.onChange(shiftWeekSchedule(painted, -timezoneShift).map(dayToFormValues))}
+                              color={colorField.value}
+                            />
+                          </Box>
+                          {timezoneShift !== 0 ? (
+                            <Stack spacing={1}>
+                              {shownWeekSchedule.map((day) => (
+                                <Box key={day.day} sx={{ display: 'grid', gridTemplateColumns: '160px 1fr', gap: 2 }}>
+                                  <Typography variant="body2" fontWeight={500}>
+                                    {t(`schedules.days.${day.day.toLowerCase()}`)}
+                                  </Typography>
+                                  <Typography variant="body2" color={day.enabled ? 'text.primary' : 'text.disabled'}>
+                                    {day.enabled ? day.windows.map(formatTimeWindow).join(', ') : t('schedules.disabled')}
+                                  </Typography>
+                                </Box>
+                              ))}
+                              <Typography variant="caption" color="text.secondary">
+                                {t('timezones.editInRestaurantTime')}
+                              </Typography>
+                            </Stack>
+                          ) : (
+                            <Stack spacing={2}>
+                              {days.map((day, index) => (
+                                <Box
+                                  key={day.day}
+                                  sx={{
+                                    display: 'grid',
+                                    gridTemplateColumns: '160px 1fr',
+                                    alignItems: 'start',
+                                    gap: 2,
+                                  }}
+                                >
+                                  <Switch
+                                    checked={day.enabled}
+                                    onChange={(enabled) => updateDay(index, { enabled })}
+                                    label={t(`schedules.days.${day.day.toLowerCase()}`)}
+                                  />
+                                  {day.enabled ? (
+                                    <TimeWindowsEditor
+                                      value={day.windows}
+                                      nextDayWindows={getNextDayWindows(index)}
+                                      onChange={(windows) => updateDay(index, { windows })}
+                                      timeOptions={timeOptions}
+                                    />
+                                  ) : (
+                                    <Typography variant="body2" color="text.disabled" sx={{ pt: 1 }}>
+                                      {t('schedules.disabled')}
+                                    </Typography>
+                                  )}
+                                </Box>
+                              ))}
+                            </Stack>
+                          )}
+                        </Box>
+                      );
+                    }}
+                  />
+                )}
+              />
+            ),
+          },
+          {
+            name: 'holidayCalendarIds',
+            label: t('schedules.fields.holidayCalendars'),
+            type: 'text',
+            render: (control) => (
+              <Controller
+                name="holidayCalendarIds"
+                control={control}
+                render={({ field }) => (
+                  <Select
+                    name="holidayCalendarIds"
+                    label={t('schedules.fields.holidayCalendars')}
+                    value={field.value || []}
+                    onChange={(value) => field.onChange((value as string[]).map(String))}
+                    options={calendarList.map((calendar) => ({
+                      value: calendar.id,
+                      label: calendar.blocked
+                        ? `${getDisplayName(calendar.name)} (${t('common.blocked')})`
+                        : getDisplayName(calendar.name),
+                    }))}
+                    helperText={t('schedules.holidays.linkHelp')}
+                    multiple
+                    fullWidth
+                  />
+                )}
+              />
+            ),
+          },
+          {
+            name: 'exceptions',
+            label: t('schedules.exceptions.title'),
+            type: 'text',
+            render: (control) => <ScheduleExceptionsField control={control} timeOptions={timeOptions} />,
           },
           {
             name: 'blocked',
@@ -617,6 +855,41 @@ const SchedulesListPage = memo(() => {
         ]}
       />
 
+      {/* Month View */}
+      <Dialog open={monthViewDialog.open} onClose={monthViewDialog.closeDialog} maxWidth="md" fullWidth>
+        <DialogTitle>
+          {t('schedules.monthView.title')}
+          {monthViewDialog.data ? `: ${getDisplayName(monthViewDialog.data.name)}` : ''}
+        </DialogTitle>
+        <DialogContent>
+          {monthViewDialog.data && (
+            <ScheduleMonthView schedule={monthViewDialog.data} calendars={calendarList} />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button variant="contained" onClick={monthViewDialog.closeDialog}>
+            {t('common.close')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <HolidayCalendarsDialog
+        open={holidaysOpen}
+        calendars={calendarList}
+        schedules={schedules || []}
+        onClose={() => setHolidaysOpen(false)}
+        onChanged={refetchHolidayCalendars}
+      />
+
+      <ScheduleUsageDialog
+        open={usageDialog.open}
+        schedule={usageDialog.data?.schedule ?? null}
+        mode={usageDialog.data?.mode ?? 'report'}
+        schedules={schedules || []}
+        onClose={closeUsage}
+        onConfirm={handleUsageConfirm}
+      />
+
       {/* Filters Drawer */}
       <FilterDrawer
         open={filterDrawer.isOpen}
@@ -640,6 +913,15 @@ const SchedulesListPage = memo(() => {
 
       {/* Confirm Dialog */}
       <ConfirmDialog {...confirmDialog.dialogProps} />
+
+      {/* History Drawer */}
+      <EntityHistoryDrawer
+        open={historyDialog.open}
+        onClose={historyDialog.closeDialog}
+        entityType="schedule"
+        entityId={historyDialog.data?.id}
+        entityName={historyDialog.data?.name}
+      />
     </Box>
   );
 });
@@ -6,6 +6,7 @@ import { Box, Typography } from '@mui/material';
 import { Add as AddIcon, Edit as EditIcon, FilterList as FilterListIcon } from '@mui/icons-material';
 import { dictionariesApi } from '../../api/endpoints';
 import { getDictionaryTitle } from '../../utils/dictionaryUtils';
+import { DEFAULT_TIMEZONE, resolveCityTimezone } from '../../utils/timezoneUtils';
 import { isApiError } from '../../api/errors';
 import type {
   DictionaryItemType,
@@ -84,8 +85,8 @@ export const DictionariesPage = memo(() => {
   );
 
   // Extract countries and cities from locations data
-  const countries = locationsData?.countries || [];
-  const cities = locationsData?.cities || [];
+  const countries = useMemo(() => locationsData?.countries || [], [locationsData]);
+  const cities = useMemo(() => locationsData?.cities || [], [locationsData]);
 
   // Update local items when data is fetched
   useMemo(() => {
@@ -141,6 +142,16 @@ export const DictionariesPage = memo(() => {
     [cities]
   );
 
+  // Timezones come from the locations API, they are not edited here
+  const getLocationTimezone = useCallback(
+    (item: DictionaryItemType): string => {
+      if (dictKey === 'cities') return resolveCityTimezone(item.id, cities, countries);
+      const country = countries.find((c) => String(c.id) === String(item.id));
+      return country?.timezone || DEFAULT_TIMEZONE;
+    },
+    [dictKey, cities, countries]
+  );
+
   // Event handlers
   const handleApplyFilters = useCallback(() => {
     filterDrawer.close();
@@ -243,6 +254,15 @@ export const DictionariesPage = memo(() => {
       });
     }
 
+    // Add timezone column for countries and cities
+    if (dictKey && (dictKey === 'countries' || dictKey === 'cities')) {
+      baseColumns.push({
+        id: 'timezone',
+        label: t('dictionaries.timezone'),
+        render: (item) => getLocationTimezone(item),
+      });
+    }
+
     // Add actions column
     baseColumns.push({
       id: 'actions',
@@ -266,7 +286,7 @@ export const DictionariesPage = memo(() => {
     });
 
     return baseColumns;
-  }, [dictKey, getCountryName, getCityName, handleBlockToggle, handleEdit, t]);
+  }, [dictKey, getCountryName, getCityName, getLocationTimezone, handleBlockToggle, handleEdit, t]);
 
   if (!dictKey) {
     return (
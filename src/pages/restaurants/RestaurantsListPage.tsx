@@ -5,6 +5,7 @@ import {
   FilterList as FilterListIcon,
   BarChart as BarChartIcon,
   Campaign as CampaignIcon,
+  History as HistoryIcon,
 } from '@mui/icons-material';
 import { PageHeader, FiltersContainer } from '../../components/ui/styled';
 
@@ -29,9 +30,11 @@ import Pagination from '../../components/ui/molecules/Pagination';
 import SearchField from '../../components/ui/molecules/SearchField';
 import FilterDrawer from '../../components/ui/molecules/FilterDrawer';
 import ConfirmDialog from '../../components/ui/molecules/ConfirmDialog';
+import ActionMenu from '../../components/ui/molecules/ActionMenu';
 
 // Common components
 import { RestaurantCampaignsModal } from '../../components/restaurants/RestaurantCampaignsModal';
+import { EntityHistoryDrawer } from '../../components/common/EntityHistoryDrawer';
 
 // Hooks
 import {
@@ -44,6 +47,7 @@ import {
   useDialogState,
   useDebounce,
   useEditWithLoading,
+  useLinkedEntity,
 } from '../../hooks';
 
 // Types
@@ -76,6 +80,8 @@ export const RestaurantsListPage = memo(() => {
   
   // Campaign targeting modal with useDialogState
   const campaignModal = useDialogState<{ restaurantId: string; restaurantName: string; campaigns: RestaurantCampaign[] }>();
+  const historyDialog = useDialogState<{ id: string; name: string }>();
+  const openHistory = historyDialog.openDialog;
 
   // Fetch restaurants
   const {
@@ -211,6 +217,14 @@ export const RestaurantsListPage = memo(() => {
     status: 'active',
   });
 
+  // A restaurant linked from another page (e.g. the audit log) is found by its ID, whatever its status
+  const showLinkedRestaurant = useCallback((restaurant: RestaurantListItem) => {
+    updateFilter('search', String(restaurant.id));
+    updateFilter('status', 'all');
+    updateTempFilter('status', 'all');
+  }, [updateFilter, updateTempFilter]);
+  useLinkedEntity(restaurants, isLoading, showLinkedRestaurant);
+
   // Filter drawer
   const filterDrawer = useDrawer();
 
@@ -560,6 +574,15 @@ export const RestaurantsListPage = memo(() => {
               size="small"
               icon={<CampaignIcon />}
             />
+            <ActionMenu
+              items={[
+                {
+                  label: t('common.history'),
+                  icon: <HistoryIcon fontSize="small" />,
+                  onClick: () => openHistory({ id: String(restaurant.id), name: getDisplayName(restaurant.name) }),
+                },
+              ]}
+            />
           </Box>
         ),
       },
@@ -569,6 +592,7 @@ export const RestaurantsListPage = memo(() => {
       handleStatistics,
       t,
       getDisplayName,
+      openHistory,
     ]
   );
 
@@ -732,6 +756,15 @@ export const RestaurantsListPage = memo(() => {
         restaurantName={campaignModal.data?.restaurantName || ''}
         restaurantCampaigns={campaignModal.data?.campaigns || []}
       />
+
+      {/* History Drawer */}
+      <EntityHistoryDrawer
+        open={historyDialog.open}
+        onClose={historyDialog.closeDialog}
+        entityType="restaurant"
+        entityId={historyDialog.data?.id}
+        entityName={historyDialog.data?.name}
+      />
     </Box>
   );
 });
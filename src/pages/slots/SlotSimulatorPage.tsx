@@ -0,0 +1,444 @@
+/**
+ * Slot Simulator Page
+ * Plays the ad rotation of a restaurant slot on a mock menu screen: which campaigns are eligible
+ * by targets, schedules and blocked flags, how the slot rotates them by priority and weight,
+ * and why the other campaigns are not shown. Time runs faster than real time on demand.
+ */
+
+import { memo, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useSearchParams } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  Divider,
+  LinearProgress,
+  Paper,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import {
+  Pause as PauseIcon,
+  PlayArrow as PlayArrowIcon,
+  Replay as ReplayIcon,
+  SkipNext as SkipNextIcon,
+} from '@mui/icons-material';
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  advertisersApi,
+  campaignsApi,
+  creativesApi,
+  dictionariesApi,
+  holidayCalendarsApi,
+  restaurantsApi,
+  schedulesApi,
+  slotsApi,
+} from '../../api';
+import { isApiError } from '../../api/errors';
+import { useFetch, useMultilingualName } from '../../hooks';
+import { PageHeader, CenteredContainer } from '../../components/ui/styled';
+import { Button, Select, TextField } from '../../components/ui/atoms';
+import { SlotSimulatorFrame } from '../../components/slots/SlotSimulatorFrame';
+import { dateTimeInputToTimestamp, getCurrentTimestamp } from '../../utils/dateUtils';
+import { convertWallClock, resolveCityTimezone } from '../../utils/timezoneUtils';
+import type { TabletOrientation } from '../../utils/creativePreviewUtils';
+import {
+  advanceSlotSimulation,
+  getCandidateShares,
+  getServedCandidates,
+  resolveSlotCandidates,
+  startSlotSimulation,
+  type SlotSimulation,
+  type SlotSimulationSettings,
+  type SlotSimulatorData,
+} from '../../utils/slotSimulatorUtils';
+
+/** Real milliseconds between simulation ticks */
+const TICK_MS = 250;
+const SPEEDS = [1, 10, 60];
+const FRAME_WIDTH = 720;
+
+/**
+ * Wall-clock timestamp with seconds, rotation periods are often shorter than a minute
+ */
+const formatClock = (timestamp: number): string =>
+  formatInTimeZone(new Date(timestamp * 1000), 'UTC', 'dd.MM.yyyy HH:mm:ss');
+
+export const SlotSimulatorPage = memo(() => {
+  const { t } = useTranslation();
+  const { getDisplayName } = useMultilingualName();
+  const [searchParams] = useSearchParams();
+  const [restaurantId, setRestaurantId] = useState(searchParams.get('restaurantId') || '');
+  const [slotId, setSlotId] = useState(searchParams.get('slotId') || '');
+  const [startInput, setStartInput] = useState('');
+  const [orientation, setOrientation] = useState<TabletOrientation>('landscape');
+  const [speed, setSpeed] = useState(1);
+  const [playing, setPlaying] = useState(false);
+  const [startTime, setStartTime] = useState(0);
+  const [simulation, setSimulation] = useState<SlotSimulation | null>(null);
+
+  const { data, loading, error } = useFetch(async () => {
+    const [restaurants, slots, campaigns, advertisers, creatives, schedules, calendars, locations] = await Promise.all([
+      restaurantsApi.list(),
+      slotsApi.list(),
+      campaignsApi.list(),
+      advertisersApi.list(),
+      creativesApi.list(),
+      schedulesApi.list(),
+      holidayCalendarsApi.list(),
+      dictionariesApi.getLocations(),
+    ]);
+    return { restaurants, slots, campaigns, advertisers, creatives, schedules, calendars, locations };
+  }, []);
+
+  // Rotation settings are only part of the slot details
+  const { data: slotDetails, loading: slotLoading } = useFetch(
+    async () => (slotId ? await slotsApi.getById(slotId) : null),
+    [slotId]
+  );
+
+  const simulatorData = useMemo<SlotSimulatorData | null>(() => {
+    const restaurant = data?.restaurants.find((item) => String(item.id) === restaurantId);
+    const slot = data?.slots.find((item) => String(item.id) === slotId);
+    if (!data || !restaurant || !slot) return null;
+    return {
+      restaurant,
+      slot,
+      allSlotIds: data.slots.map((item) => String(item.id)),
+      campaigns: data.campaigns,
+      advertisers: data.advertisers,
+      creatives: data.creatives,
+      schedules: data.schedules,
+      calendars: data.calendars,
+    };
+  }, [data, restaurantId, slotId]);
+
+  const timezone = simulatorData
+    ? resolveCityTimezone(simulatorData.restaurant.cityId, data?.locations.cities || [], data?.locations.countries || [])
+    : '';
+
+  const settings = useMemo<SlotSimulationSettings | null>(() => (
+    slotDetails && String(slotDetails.id ?? slotId) === slotId
+      ? {
+          rotationPeriod: slotDetails.rotationPeriod,
+          refreshTTL: slotDetails.refreshTTL,
+          noAdjacentSameAdvertiser: slotDetails.noAdjacentSameAdvertiser,
+        }
+      : null
+  ), [slotDetails, slotId]);
+
+  useEffect(() => {
+    if (!playing || !simulatorData || !settings) return;
+    const resolve = (elapsed: number) => resolveSlotCandidates(simulatorData, startTime + Math.floor(elapsed));
+    const timer = window.setInterval(() => {
+      setSimulation((prev) => prev && advanceSlotSimulation(prev, (TICK_MS / 1000) * speed, settings, resolve));
+    }, TICK_MS);
+    return () => window.clearInterval(timer);
+  }, [playing, simulatorData, settings, startTime, speed]);
+
+  const resetSimulation = () => {
+    setPlaying(false);
+    setSimulation(null);
+  };
+
+  const handlePlay = () => {
+    if (!simulatorData || !settings) return;
+    if (!simulation) {
+      const time = startInput
+        ? dateTimeInputToTimestamp(startInput)
+        : convertWallClock(getCurrentTimestamp(), 'UTC', timezone);
+      setStartTime(time);
+      setSimulation(startSlotSimulation(resolveSlotCandidates(simulatorData, time), settings));
+    }
+    setPlaying(true);
+  };
+
+  const handleNext = () => {
+    if (!simulation || !simulatorData || !settings) return;
+    const resolve = (elapsed: number) => resolveSlotCandidates(simulatorData, startTime + Math.floor(elapsed));
+    setSimulation(
+      advanceSlotSimulation(simulation, simulation.stepStartedAt + settings.rotationPeriod - simulation.elapsed, settings, resolve)
+    );
+  };
+
+  const getCampaign = (id: string) => data?.campaigns.find((item) => String(item.id) === id);
+  const getAdvertiserName = (id: string) => {
+    const advertiser = data?.advertisers.find((item) => String(item.id) === String(id));
+    return advertiser ? getDisplayName(advertiser.name) : `#${id}`;
+  };
+
+  const restaurantOptions = (data?.restaurants || []).map((item) => ({
+    value: String(item.id),
+    label: item.isBlocked ? `${getDisplayName(item.name)} (${t('common.blocked')})` : getDisplayName(item.name),
+  }));
+  const slotOptions = (data?.slots || []).map((item) => ({
+    value: String(item.id),
+    label: item.isBlocked ? `${getDisplayName(item.name)} (${t('common.blocked')})` : getDisplayName(item.name),
+  }));
+
+  const served = simulation ? getServedCandidates(simulation.candidates) : [];
+  const shares = getCandidateShares(served);
+  const notServed = simulation ? simulation.candidates.filter((candidate) => candidate.reasons.length > 0) : [];
+  const current = simulation?.current || null;
+  const currentCreative = current ? data?.creatives.find((item) => String(item.id) === current.creativeId) || null : null;
+  const currentCampaign = current ? getCampaign(current.campaignId) : undefined;
+  const progress = simulation && settings
+    ? Math.min(100, ((simulation.elapsed - simulation.stepStartedAt) / Math.max(1, settings.rotationPeriod)) * 100)
+    : 0;
+
+  if (loading && !data) {
+    return (
+      <CenteredContainer>
+        <CircularProgress />
+      </CenteredContainer>
+    );
+  }
+
+  return (
+    <Box>
+      <PageHeader>
+        <Typography variant="h4" component="h1">
+          {t('slots.simulator.title')}
+        </Typography>
+      </PageHeader>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {isApiError(error) ? error.getUserMessage() : t('slots.simulator.loadFailed')}
+        </Alert>
+      )}
+
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: 'repeat(3, 1fr)' }, gap: 2 }}>
+          <Select
+            name="restaurantId"
+            label={t('slots.simulator.restaurant')}
+            value={restaurantId}
+            onChange={(value) => {
+              setRestaurantId(String(value));
+              resetSimulation();
+            }}
+            options={restaurantOptions}
+            fullWidth
+          />
+          <Select
+            name="slotId"
+            label={t('slots.simulator.slot')}
+            value={slotId}
+            onChange={(value) => {
+              setSlotId(String(value));
+              resetSimulation();
+            }}
+            options={slotOptions}
+            fullWidth
+          />
+          <TextField
+            name="startTime"
+            label={t('slots.simulator.startTime')}
+            type="datetime-local"
+            value={startInput}
+            onChange={(event) => {
+              setStartInput(event.target.value);
+              resetSimulation();
+            }}
+            helperText={timezone ? t('slots.simulator.startTimeHelper', { zone: timezone }) : undefined}
+          />
+        </Box>
+
+        {settings && (
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mt: 2 }}>
+            <Chip size="small" label={t('slots.simulator.rotationPeriod', { seconds: settings.rotationPeriod })} />
+            <Chip size="small" label={t('slots.simulator.refreshTTL', { seconds: settings.refreshTTL })} />
+            <Chip
+              size="small"
+              color={settings.noAdjacentSameAdvertiser ? 'primary' : 'default'}
+              label={t(settings.noAdjacentSameAdvertiser ? 'slots.simulator.noAdjacent' : 'slots.simulator.adjacentAllowed')}
+            />
+          </Box>
+        )}
+      </Paper>
+
+      {!simulatorData ? (
+        <Alert severity="info">{t('slots.simulator.pickPrompt')}</Alert>
+      ) : (
+        <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap', alignItems: 'flex-start' }}>
+          <Stack spacing={1.5} sx={{ width: FRAME_WIDTH, maxWidth: '100%' }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+              {playing ? (
+                <Button variant="contained" startIcon={<PauseIcon />} onClick={() => setPlaying(false)}>
+                  {t('slots.simulator.pause')}
+                </Button>
+              ) : (
+                <Button variant="contained" startIcon={<PlayArrowIcon />} onClick={handlePlay} disabled={!settings || slotLoading}>
+                  {t('slots.simulator.play')}
+                </Button>
+              )}
+              <Button variant="outlined" startIcon={<SkipNextIcon />} onClick={handleNext} disabled={!simulation || playing}>
+                {t('slots.simulator.next')}
+              </Button>
+              <Button variant="text" startIcon={<ReplayIcon />} onClick={resetSimulation} disabled={!simulation}>
+                {t('slots.simulator.reset')}
+              </Button>
+              <Box sx={{ flex: 1 }} />
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={speed}
+                onChange={(_, value: number | null) => value && setSpeed(value)}
+                aria-label={t('slots.simulator.speed')}
+              >
+                {SPEEDS.map((value) => (
+                  <ToggleButton key={value} value={value}>
+                    {value}×
+                  </ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={orientation}
+                onChange={(_, value: TabletOrientation | null) => value && setOrientation(value)}
+                aria-label={t('creatives.previewPanel.tablet')}
+              >
+                <ToggleButton value="landscape">{t('creatives.previewPanel.landscape')}</ToggleButton>
+                <ToggleButton value="portrait">{t('creatives.previewPanel.portrait')}</ToggleButton>
+              </ToggleButtonGroup>
+            </Box>
+
+            <SlotSimulatorFrame
+              slotType={simulatorData.slot.type}
+              orientation={orientation}
+              creative={currentCreative}
+              stepKey={current ? `${current.at}-${current.creativeId}` : 'empty'}
+              title={currentCreative ? getDisplayName(currentCreative.name) : ''}
+              availableWidth={FRAME_WIDTH}
+            />
+
+            {simulation && settings && (
+              <Box>
+                <LinearProgress variant="determinate" value={progress} />
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 2, mt: 0.5 }}>
+                  <Typography variant="body2">
+                    {t('slots.simulator.clock', { time: formatClock(startTime + Math.floor(simulation.elapsed)), zone: timezone })}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {t('slots.simulator.nextRefresh', {
+                      seconds: Math.ceil(simulation.refreshedAt + settings.refreshTTL - simulation.elapsed),
+                    })}
+                  </Typography>
+                </Box>
+                {currentCampaign && (
+                  <Typography variant="subtitle2" sx={{ mt: 1 }}>
+                    {getDisplayName(currentCampaign.name)} · {getAdvertiserName(currentCampaign.advertiserId)}
+                  </Typography>
+                )}
+              </Box>
+            )}
+          </Stack>
+
+          <Stack spacing={2} sx={{ flex: 1, minWidth: 320 }}>
+            {!simulation ? (
+              <Alert severity="info">{t('slots.simulator.startPrompt')}</Alert>
+            ) : (
+              <>
+                <Paper variant="outlined" sx={{ p: 2 }}>
+                  <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>
+                    {t('slots.simulator.served', { count: served.length })}
+                  </Typography>
+                  {served.length === 0 ? (
+                    <Typography variant="body2" color="text.secondary">
+                      {t('slots.simulator.noneServed')}
+                    </Typography>
+                  ) : (
+                    <Stack spacing={1}>
+                      {served.map((candidate, index) => (
+                        <Box
+                          key={candidate.campaign.id}
+                          sx={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: 1,
+                            p: 1,
+                            borderRadius: 1,
+                            bgcolor: String(candidate.campaign.id) === current?.campaignId ? 'action.selected' : undefined,
+                          }}
+                        >
+                          <Box sx={{ flex: 1, minWidth: 0 }}>
+                            <Typography variant="body2" noWrap>{getDisplayName(candidate.campaign.name)}</Typography>
+                            <Typography variant="caption" color="text.secondary">
+                              {getAdvertiserName(candidate.campaign.advertiserId)} ·{' '}
+                              {t('slots.simulator.creatives', { count: candidate.creatives.length })}
+                            </Typography>
+                          </Box>
+                          <Chip size="small" label={t('slots.simulator.priority', { value: candidate.campaign.priority })} />
+                          <Chip size="small" color="primary" variant="outlined" label={`${shares[index]}%`} />
+                        </Box>
+                      ))}
+                    </Stack>
+                  )}
+                </Paper>
+
+                <Paper variant="outlined" sx={{ p: 2 }}>
+                  <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>
+                    {t('slots.simulator.history')}
+                  </Typography>
+                  <Stack spacing={0.5}>
+                    {simulation.history.map((step) => {
+                      const campaign = getCampaign(step.campaignId);
+                      return (
+                        <Box key={`${step.at}-${step.creativeId}`} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <Typography variant="caption" color="text.secondary" sx={{ width: 64, flexShrink: 0 }}>
+                            {formatClock(startTime + step.at).slice(-8)}
+                          </Typography>
+                          <Typography variant="body2" noWrap sx={{ flex: 1 }}>
+                            {campaign ? getDisplayName(campaign.name) : `#${step.campaignId}`} · {getAdvertiserName(step.advertiserId)}
+                          </Typography>
+                          {step.adjacentSameAdvertiser && (
+                            <Chip
+                              size="small"
+                              color={settings?.noAdjacentSameAdvertiser ? 'warning' : 'default'}
+                              label={t('slots.simulator.sameAdvertiser')}
+                            />
+                          )}
+                        </Box>
+                      );
+                    })}
+                  </Stack>
+                </Paper>
+
+                <Paper variant="outlined" sx={{ p: 2 }}>
+                  <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>
+                    {t('slots.simulator.notServed', { count: notServed.length })}
+                  </Typography>
+                  <Stack spacing={1} divider={<Divider flexItem />} sx={{ maxHeight: 360, overflowY: 'auto' }}>
+                    {notServed.map((candidate) => (
+                      <Box key={candidate.campaign.id}>
+                        <Typography variant="body2">
+                          {getDisplayName(candidate.campaign.name)}
+                          <Typography component="span" variant="caption" color="text.secondary">
+                            {' '}· {getAdvertiserName(candidate.campaign.advertiserId)}
+                          </Typography>
+                        </Typography>
+                        <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mt: 0.5 }}>
+                          {candidate.reasons.map((reason) => (
+                            <Chip key={reason} size="small" variant="outlined" label={t(`slots.simulator.reasons.${reason}`)} />
+                          ))}
+                        </Box>
+                      </Box>
+                    ))}
+                  </Stack>
+                </Paper>
+              </>
+            )}
+          </Stack>
+        </Box>
+      )}
+    </Box>
+  );
+});
+
+SlotSimulatorPage.displayName = 'SlotSimulatorPage';
@@ -5,11 +5,13 @@
 
 import { useCallback, useMemo, useState, memo, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
 import { Box, Typography, CircularProgress, Stack, Backdrop } from '@mui/material';
-import { Add as AddIcon, FilterList as FilterListIcon, Edit as EditIcon } from '@mui/icons-material';
+import { Add as AddIcon, FilterList as FilterListIcon, Edit as EditIcon, History as HistoryIcon, PlayCircleOutline as PlayCircleOutlineIcon } from '@mui/icons-material';
 import { ErrorBoundary } from '../../components/common/ErrorBoundary';
+import { EntityHistoryDrawer } from '../../components/common/EntityHistoryDrawer';
 import { slotsApi } from '../../api/endpoints';
-import { useFetch, useFilters, useDrawer, useConfirmDialog, useMultilingualName, useDialogState, useDebounce, useEditWithLoading, useCommonFilters } from '../../hooks';
+import { useFetch, useFilters, useDrawer, useConfirmDialog, useMultilingualName, useDialogState, useDebounce, useEditWithLoading, useCommonFilters, useLinkedEntity } from '../../hooks';
 import { logger } from '../../utils/logger';
 import { isApiError } from '../../api/errors';
 import type { Slot } from '../../types';
@@ -27,6 +29,7 @@ import DataTable, { type Column } from '../../components/ui/molecules/DataTable'
 import SearchField from '../../components/ui/molecules/SearchField';
 import FilterDrawer from '../../components/ui/molecules/FilterDrawer';
 import ConfirmDialog from '../../components/ui/molecules/ConfirmDialog';
+import ActionMenu from '../../components/ui/molecules/ActionMenu';
 
 // Slot Form Dialog
 import { SlotFormDialog } from '../../components/slots/SlotFormDialog';
@@ -43,6 +46,7 @@ export const SlotsListPage = memo(() => {
   const { t } = useTranslation();
   const { getDisplayName } = useMultilingualName();
   const { enqueueSnackbar } = useSnackbar();
+  const navigate = useNavigate();
 
   // Helper to translate slot types
   const getSlotTypeLabel = useCallback((type: string) => {
@@ -51,6 +55,8 @@ export const SlotsListPage = memo(() => {
   }, [t]);
   const confirmDialog = useConfirmDialog();
   const formDialog = useDialogState<{ id?: string; data?: any }>();
+  const historyDialog = useDialogState<{ id: string; name: string }>();
+  const openHistory = historyDialog.openDialog;
   const [sortColumn, setSortColumn] = useState<SortField>('name');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
 
@@ -160,6 +166,9 @@ export const SlotsListPage = memo(() => {
     getEntityId: (slot) => slot.id,
   });
 
+  // Open the slot linked from another page (e.g. the audit log)
+  useLinkedEntity(slots, loading, handleEdit);
+
   const handleCloseDialog = useCallback(() => {
     formDialog.closeDialog();
   }, [formDialog]);
@@ -267,11 +276,25 @@ export const SlotsListPage = memo(() => {
               onClick={() => handleEdit(slot)}
               aria-label={t('common.edit')}
             />
+            <ActionMenu
+              items={[
+                {
+                  label: t('common.history'),
+                  icon: <HistoryIcon fontSize="small" />,
+                  onClick: () => openHistory({ id: String(slot.id), name: getDisplayName(slot.name) }),
+                },
+                {
+                  label: t('slots.simulate'),
+                  icon: <PlayCircleOutlineIcon fontSize="small" />,
+                  onClick: () => navigate(`/slot-simulator?slotId=${slot.id}`),
+                },
+              ]}
+            />
           </Stack>
         ),
       },
     ],
-    [t, getDisplayName, handleEdit, handleBlock]
+    [t, getDisplayName, handleEdit, handleBlock, openHistory, navigate]
   );
 
   return (
@@ -287,9 +310,14 @@ export const SlotsListPage = memo(() => {
         <Typography variant="h4" component="h1">
           {t('menu.slots')}
         </Typography>
-        <Button variant="contained" startIcon={<AddIcon />} onClick={handleAdd}>
-          {t('slots.addNew')}
-        </Button>
+        <Stack direction="row" spacing={1}>
+          <Button variant="outlined" startIcon={<PlayCircleOutlineIcon />} onClick={() => navigate('/slot-simulator')}>
+            {t('slots.simulator.title')}
+          </Button>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={handleAdd}>
+            {t('slots.addNew')}
+          </Button>
+        </Stack>
       </PageHeader>
 
       {/* Search and Filters */}
@@ -375,6 +403,15 @@ export const SlotsListPage = memo(() => {
 
       {/* Confirm Dialog */}
       <ConfirmDialog {...confirmDialog.dialogProps} />
+
+      {/* History Drawer */}
+      <EntityHistoryDrawer
+        open={historyDialog.open}
+        onClose={historyDialog.closeDialog}
+        entityType="slot"
+        entityId={historyDialog.data?.id}
+        entityName={historyDialog.data?.name}
+      />
     </Box>
   );
 });
@@ -1,21 +1,39 @@
 import { useParams } from 'react-router-dom';
-import { Box, Typography, Paper, Alert } from '@mui/material';
+import { useTranslation } from 'react-i18next';
+import { Box, Typography, Paper } from '@mui/material';
 import { Info as InfoIcon } from '@mui/icons-material';
+import { StaffActionsSection } from '../../components/statistics/StaffActionsSection';
+import { UsageSection } from '../../components/statistics/UsageSection';
+import { ErrorLogSection } from '../../components/statistics/ErrorLogSection';
 
-const sectionTitles: Record<string, string> = {
-  'staff-actions': 'Действия сотрудников',
-  'usage': 'Использование',
-  'error-log': 'Журнал ошибок',
+const sectionTitleKeys: Record<string, string> = {
+  'staff-actions': 'menu.staffActions',
+  'usage': 'menu.usage',
+  'error-log': 'menu.errorLog',
 };
 
 export const StatisticsPage = () => {
   const { section } = useParams<{ section: string }>();
-  const title = section ? sectionTitles[section] || 'Статистика' : 'Статистика';
+  const { t } = useTranslation();
+
+  if (section === 'staff-actions') {
+    return <StaffActionsSection />;
+  }
+
+  if (section === 'usage') {
+    return <UsageSection />;
+  }
+
+  if (section === 'error-log') {
+    return <ErrorLogSection />;
+  }
+
+  const titleKey = section ? sectionTitleKeys[section] : undefined;
 
   return (
     <Box>
       <Typography variant="h4" gutterBottom>
-        Статистика: {title}
+        {titleKey ? t(titleKey) : t('menu.statistics')}
       </Typography>
 
       <Paper sx={{ p: 3, mt: 2, textAlign: 'center' }}>
@@ -31,15 +49,8 @@ export const StatisticsPage = () => {
         >
           <InfoIcon sx={{ fontSize: 80, color: 'primary.main', opacity: 0.5 }} />
           <Typography variant="h5" color="text.secondary">
-            В разработке
-          </Typography>
-          <Typography variant="body1" color="text.secondary">
-            Функционал статистики будет добавлен в следующих версиях
+            {t('statistics.unknownSection')}
           </Typography>
-          <Alert severity="info" sx={{ mt: 2, maxWidth: 600 }}>
-            Этот раздел является заготовкой (stub) согласно техническому заданию. На данном
-            этапе MVP здесь не реализована функциональность и не выполняются запросы к API.
-          </Alert>
         </Box>
       </Paper>
     </Box>
@@ -26,6 +26,7 @@ export const useAuthStore = create<AuthState>((set) => ({
         username: response.username,
         firstName: response.firstName,
         lastName: response.lastName,
+        isAdmin: response.isAdmin,
       };
       set({ user, isAuthenticated: true, isLoading: false });
     } catch (error) {
@@ -39,6 +39,8 @@ export interface ApiCampaign {
   menuTypes: string[];
   slots: string[];
   targets: CampaignTarget[];
+  /** Missing for campaigns saved before creative rotation was introduced */
+  rotationAutoOptimize?: boolean;
   isBlocked: boolean;
   hash?: string;
 }
@@ -3,7 +3,7 @@
  * These represent the API response/request formats
  */
 
-import type { DictionaryName } from '../index';
+import type { CreativeModerationStatus, DictionaryName } from '../index';
 
 export interface ApiCreative {
   id: string;
@@ -17,9 +17,27 @@ export interface ApiCreative {
   previewWidth: number;
   previewHeight: number;
   isBlocked: boolean;
+  /** Missing for creatives saved before moderation was introduced */
+  moderationStatus?: CreativeModerationStatus;
+  rejectionReason?: string;
+  /** Missing for creatives saved before rotation weights were introduced */
+  weight?: number;
+  startDate?: number;
+  endDate?: number;
   hash?: string;
 }
 
+export interface ApiCreativeModerationRequest {
+  moderationStatus: CreativeModerationStatus;
+  /** Required when rejecting */
+  rejectionReason?: string;
+}
+
+export interface ApiCreativeUpload {
+  /** Hosted URL of the uploaded file, used as the creative dataUrl */
+  url: string;
+}
+
 export interface ApiCreativeRequest {
   id?: string;
   campaignId: string;
@@ -32,5 +50,10 @@ export interface ApiCreativeRequest {
   previewWidth: number;
   previewHeight: number;
   isBlocked: boolean;
+  moderationStatus?: CreativeModerationStatus;
+  rejectionReason?: string;
+  weight: number;
+  startDate?: number;
+  endDate?: number;
   hash?: string;
 }
@@ -5,11 +5,28 @@
 
 import type { DictionaryName } from '../index';
 
+/** Minutes from midnight, an end above 1440 is on the next day */
+export interface ApiTimeWindow {
+  start: number;
+  end: number;
+}
+
 export interface ApiDaySchedule {
   day: string;
   enabled: boolean;
-  start: number;
-  end: number;
+  windows?: ApiTimeWindow[];
+  start?: number; // Legacy whole hour, read when windows are missing
+  end?: number; // Legacy whole hour
+}
+
+export interface ApiScheduleException {
+  startDate: string;
+  endDate: string;
+  isClosed: boolean;
+  windows?: ApiTimeWindow[];
+  start?: number; // Legacy whole hour, read when windows are missing
+  end?: number; // Legacy whole hour
+  note?: string;
 }
 
 export interface ApiSchedule {
@@ -18,5 +35,20 @@ export interface ApiSchedule {
   color: string;
   isBlocked: boolean;
   weekSchedule: ApiDaySchedule[];
+  exceptions?: ApiScheduleException[]; // Missing on schedules saved before exceptions
+  holidayCalendarIds?: string[];
+  hash?: string;
+}
+
+export interface ApiHoliday {
+  date: string;
+  name: string;
+}
+
+export interface ApiHolidayCalendar {
+  id: string;
+  name: DictionaryName;
+  isBlocked: boolean;
+  holidays: ApiHoliday[];
   hash?: string;
 }
@@ -33,6 +33,7 @@ export interface Country {
   id: string;
   name: string;
   isBlocked: boolean;
+  timezone?: string; // IANA zone, e.g. Asia/Yerevan
 }
 
 export interface City {
@@ -40,6 +41,7 @@ export interface City {
   name: string;
   countryId: string;
   isBlocked: boolean;
+  timezone?: string; // IANA zone, the country's when empty
 }
 
 export interface District {
@@ -201,7 +203,10 @@ export type AuditAction =
   | 'update'
   | 'block'
   | 'unblock'
-  | 'batch_create_qr';
+  | 'batch_create_qr'
+  | 'submit_review'
+  | 'approve'
+  | 'reject';
 
 export type AuditEntityType =
   | 'employee'
@@ -211,7 +216,9 @@ export type AuditEntityType =
   | 'user'
   | 'advertiser'
   | 'campaign'
-  | 'creative';
+  | 'creative'
+  | 'schedule'
+  | 'slot';
 
 export interface AuditEvent {
   id: number;
@@ -231,6 +238,7 @@ export interface User {
   username: string;
   firstName: string;
   lastName: string;
+  isAdmin?: boolean;
 }
 
 export interface LoginRequest {
@@ -242,6 +250,7 @@ export interface LoginResponse {
   username: string;
   firstName: string;
   lastName: string;
+  isAdmin?: boolean;
 }
 
 // API Response types
@@ -364,6 +373,8 @@ export interface Campaign extends Omit<BaseEntity, 'id'> {
   menuTypes: string[]; // menu type IDs, empty = All
   slots: string[]; // ads slot IDs, empty = All
   targets: CampaignTarget[];
+  /** Let the server re-balance creative rotation weights by CTR */
+  rotationAutoOptimize: boolean;
 }
 
 export interface CampaignTarget {
@@ -377,6 +388,12 @@ export interface CampaignTargetSlot {
   placements: string[]; // placement ids
 }
 
+/**
+ * Creative moderation: draft -> pending (submitted for review) -> approved or rejected.
+ * Only approved creatives are served.
+ */
+export type CreativeModerationStatus = 'draft' | 'pending' | 'approved' | 'rejected';
+
 export interface Creative {
   id: string;
   campaignId: string;
@@ -389,14 +406,54 @@ export interface Creative {
   previewWidth: number;
   previewHeight: number;
   blocked: boolean;
+  moderationStatus: CreativeModerationStatus;
+  rejectionReason?: string;
+  weight: number; // Rotation share within the campaign, relative to the other creatives
+  startDate?: number; // Unix timestamp (seconds), rotated from the campaign start when empty
+  endDate?: number; // Unix timestamp (seconds), rotated until the campaign end when empty
   hash?: string; // Only present in getById response
 }
 
+/**
+ * Opening window within a day, in minutes from midnight with 15-minute steps.
+ * An end above 1440 is on the next day: 22:00–02:00 is 1320–1560.
+ */
+export interface TimeWindow {
+  startTime: number; // Minutes from midnight (0-1425)
+  endTime: number; // Minutes from midnight, after startTime and at most 24 hours later
+}
+
 export interface DaySchedule {
   day: 'Mon' | 'Tue' | 'Wed' | 'Thu' | 'Fri' | 'Sat' | 'Sun';
   enabled: boolean;
-  startTime: number; // Hour (0-23)
-  endTime: number; // Hour (0-23)
+  windows: TimeWindow[]; // Sorted, non-overlapping, e.g. lunch and dinner
+}
+
+/**
+ * Date-specific override of the weekly pattern.
+ * Dates are calendar days of the schedule (YYYY-MM-DD), a single day has equal start and end dates.
+ */
+export interface ScheduleException {
+  startDate: string;
+  endDate: string;
+  closed: boolean; // Off for the whole range, otherwise the windows below apply
+  windows: TimeWindow[];
+  note?: string;
+}
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+/**
+ * Shared list of days off, applied to every schedule that references it
+ */
+export interface HolidayCalendar {
+  id: string;
+  name: DictionaryName;
+  holidays: Holiday[];
+  blocked: boolean;
 }
 
 export interface Schedule {
@@ -404,6 +461,8 @@ export interface Schedule {
   name: DictionaryName;
   color: string; // hex color
   weekSchedule: DaySchedule[];
+  exceptions: ScheduleException[];
+  holidayCalendarIds: string[];
   blocked: boolean;
 }
 
@@ -466,6 +525,7 @@ export interface CampaignFormData {
   menuTypes: string[];
   slots: string[];
   targets: CampaignTarget[];
+  rotationAutoOptimize: boolean;
   blocked: boolean;
 }
 
@@ -481,6 +541,11 @@ export interface CreativeFormData {
   previewWidth: number;
   previewHeight: number;
   blocked: boolean;
+  moderationStatus?: CreativeModerationStatus;
+  rejectionReason?: string;
+  weight: number;
+  startDate?: number;
+  endDate?: number;
   hash?: string; // Required for updates
 }
 
@@ -488,5 +553,40 @@ export interface ScheduleFormData {
   name: DictionaryName;
   color: string;
   weekSchedule: DaySchedule[];
+  exceptions: ScheduleException[];
+  holidayCalendarIds: string[];
   blocked: boolean;
 }
+
+export interface HolidayCalendarFormData {
+  name: DictionaryName;
+  holidays: Holiday[];
+  blocked: boolean;
+}
+
+// Delivery statistics
+export type StatsGroupBy = 'advertiser' | 'campaign' | 'creative' | 'slot' | 'restaurant';
+
+export interface StatsTotals {
+  impressions: number;
+  clicks: number;
+  spend: number;
+}
+
+export interface StatsRow extends StatsTotals {
+  id: string; // id of the grouped entity (advertiser, campaign, ...)
+}
+
+export interface StatsPoint extends StatsTotals {
+  timestamp: number; // Unix timestamp (seconds), start of the day
+}
+
+export interface StatsQuery {
+  from: number; // Unix timestamp (seconds), inclusive
+  to: number; // Unix timestamp (seconds), inclusive
+  advertiserId?: string;
+  campaignId?: string;
+  creativeId?: string;
+  slotId?: string;
+  restaurantId?: string;
+}
@@ -0,0 +1,75 @@
+import type { AuditAction, AuditEvent } from '../types';
+
+/**
+ * Chip color per audit action, reusing StatusChip status palette
+ */
+export const AUDIT_ACTION_STATUS: Record<AuditAction, string> = {
+  login: 'inactive',
+  logout: 'inactive',
+  create: 'active',
+  update: 'pending',
+  block: 'blocked',
+  unblock: 'published',
+  batch_create_qr: 'draft',
+  submit_review: 'pending',
+  approve: 'published',
+  reject: 'blocked',
+};
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Extract field-level changes from audit event metadata.
+ * Supported shapes:
+ * - `{ changes: { field: { before, after } } }` (also `old` / `new`)
+ * - `{ before: {...}, after: {...} }` - compared field by field
+ */
+export const getAuditFieldChanges = (event: Pick<AuditEvent, 'metadata'>): AuditFieldChange[] => {
+  const metadata = event.metadata;
+  if (!metadata) return [];
+
+  if (isRecord(metadata.changes)) {
+    return Object.entries(metadata.changes)
+      .filter(([, change]) => isRecord(change))
+      .map(([field, change]) => {
+        const value = change as Record<string, unknown>;
+        return {
+          field,
+          before: 'before' in value ? value.before : value.old,
+          after: 'after' in value ? value.after : value.new,
+        };
+      })
+      .filter((change) => !isEqual(change.before, change.after));
+  }
+
+  if (isRecord(metadata.before) || isRecord(metadata.after)) {
+    const before = isRecord(metadata.before) ? metadata.before : {};
+    const after = isRecord(metadata.after) ? metadata.after : {};
+    const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+    return fields
+      .filter((field) => field !== 'hash' && !isEqual(before[field], after[field]))
+      .map((field) => ({ field, before: before[field], after: after[field] }));
+  }
+
+  return [];
+};
+
+/**
+ * Render an audited value as short readable text
+ */
+export const formatAuditValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+};
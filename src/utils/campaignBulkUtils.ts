@@ -0,0 +1,127 @@
+import type { Campaign, CampaignTarget } from '../types';
+import { SECONDS_PER_DAY } from './dateUtils';
+
+export type BulkTargetsActionType = 'addSlot' | 'removeSlot' | 'addSchedule' | 'removeSchedule' | 'replaceSchedule';
+
+/**
+ * Change applied to the targets of every selected campaign:
+ * - addSlot / removeSlot: enable or disable the slot for every targeted restaurant
+ * - addSchedule / removeSchedule: add or remove the schedule on the enabled slots,
+ *   limited to one slot when slotId is set
+ * - replaceSchedule: put replacementId in place of the schedule wherever it is used
+ */
+export interface BulkTargetsAction {
+  type: BulkTargetsActionType;
+  slotId?: string;
+  scheduleId?: string;
+  replacementId?: string;
+}
+
+/**
+ * Changes to apply to every selected campaign, undefined fields stay untouched
+ */
+export interface CampaignBulkChanges {
+  blocked?: boolean;
+  /** Days to move endDate by */
+  extendDays?: number;
+  priority?: number;
+  weight?: number;
+  /** Percent to scale the total budget by, e.g. 10 for +10% */
+  budgetPercent?: number;
+  targetsAction?: BulkTargetsAction;
+}
+
+export type CampaignBulkField = 'blocked' | 'endDate' | 'priority' | 'weight' | 'budget' | 'targets';
+
+export interface CampaignBulkChange {
+  field: CampaignBulkField;
+  before: unknown;
+  after: unknown;
+}
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const applyTargetsAction = (targets: CampaignTarget[], action: BulkTargetsAction): CampaignTarget[] => {
+  const { type, slotId, scheduleId, replacementId } = action;
+
+  return targets.map((target) => {
+    switch (type) {
+      case 'addSlot':
+        if (!slotId || target.slots.some((slot) => slot.id === slotId)) return target;
+        return { ...target, slots: [...target.slots, { id: slotId, schedules: scheduleId ? [scheduleId] : [], placements: [] }] };
+      case 'removeSlot':
+        return { ...target, slots: target.slots.filter((slot) => slot.id !== slotId) };
+      case 'addSchedule':
+      case 'removeSchedule':
+        if (!scheduleId) return target;
+        return {
+          ...target,
+          slots: target.slots.map((slot) => {
+            if (slotId && slot.id !== slotId) return slot;
+            const schedules = slot.schedules.filter((id) => id !== scheduleId);
+            return { ...slot, schedules: type === 'addSchedule' ? [...schedules, scheduleId] : schedules };
+          }),
+        };
+      case 'replaceSchedule':
+        if (!scheduleId || !replacementId) return target;
+        return {
+          ...target,
+          slots: target.slots.map((slot) => {
+            if ((slotId && slot.id !== slotId) || !slot.schedules.includes(scheduleId)) return slot;
+            return { ...slot, schedules: [...new Set(slot.schedules.map((id) => (id === scheduleId ? replacementId : id)))] };
+          }),
+        };
+    }
+  });
+};
+
+/**
+ * Apply the bulk changes to a single campaign
+ */
+export const applyBulkChanges = <T extends Campaign>(campaign: T, changes: CampaignBulkChanges): T => {
+  const result: T = { ...campaign };
+
+  if (changes.blocked !== undefined) result.blocked = changes.blocked;
+  if (changes.extendDays) result.endDate = campaign.endDate + changes.extendDays * SECONDS_PER_DAY;
+  if (changes.priority !== undefined) result.priority = changes.priority;
+  if (changes.weight !== undefined) result.weight = changes.weight;
+  if (changes.budgetPercent) {
+    result.budget = Math.max(0, Math.round(campaign.budget * (1 + changes.budgetPercent / 100) * 100) / 100);
+  }
+  if (changes.targetsAction) result.targets = applyTargetsAction(campaign.targets || [], changes.targetsAction);
+
+  return result;
+};
+
+/**
+ * List the fields the bulk changes actually modify for a campaign
+ */
+export const getBulkChangeList = (campaign: Campaign, changes: CampaignBulkChanges): CampaignBulkChange[] => {
+  const updated = applyBulkChanges(campaign, changes);
+  const fields: CampaignBulkField[] = ['blocked', 'endDate', 'priority', 'weight', 'budget', 'targets'];
+
+  return fields
+    .filter((field) => !isEqual(campaign[field], updated[field]))
+    .map((field) => ({ field, before: campaign[field], after: updated[field] }));
+};
+
+/**
+ * Number of targeted restaurants whose slots or schedules differ
+ */
+export const countChangedTargets = (before: CampaignTarget[], after: CampaignTarget[]): number => {
+  return after.filter((target, index) => !isEqual(target, before[index])).length;
+};
+
+/**
+ * Whether the form describes at least one change
+ */
+export const hasBulkChanges = (changes: CampaignBulkChanges): boolean => {
+  return (
+    changes.blocked !== undefined ||
+    Boolean(changes.extendDays) ||
+    changes.priority !== undefined ||
+    changes.weight !== undefined ||
+    Boolean(changes.budgetPercent) ||
+    changes.targetsAction !== undefined
+  );
+};
@@ -0,0 +1,61 @@
+import type { Campaign, Creative, CreativeFormData, DictionaryName } from '../types';
+import { getPeriodDays } from './statsUtils';
+import { SECONDS_PER_DAY } from './dateUtils';
+
+/**
+ * Append a per-language suffix to every filled translation of the name
+ */
+export const addNameSuffix = (name: DictionaryName, suffix: DictionaryName): DictionaryName => ({
+  ARM: name.ARM ? `${name.ARM}${suffix.ARM}` : name.ARM,
+  ENG: name.ENG ? `${name.ENG}${suffix.ENG}` : name.ENG,
+  RUS: name.RUS ? `${name.RUS}${suffix.RUS}` : name.RUS,
+});
+
+/**
+ * Dates for the next run of a campaign: the flight length is kept and the copy
+ * starts the day after the original ends, or today if that is already in the past.
+ */
+export const getNextRunDates = (
+  startDate: number,
+  endDate: number,
+  now: number
+): Pick<Campaign, 'startDate' | 'endDate'> => {
+  const length = getPeriodDays(startDate, Math.max(startDate, endDate)) * SECONDS_PER_DAY;
+  const todayStart = now - (now % SECONDS_PER_DAY) + (startDate % SECONDS_PER_DAY);
+  const nextStart = Math.max(startDate + length, todayStart);
+
+  return {
+    startDate: nextStart,
+    endDate: nextStart + (endDate - startDate),
+  };
+};
+
+/**
+ * Campaign pre-filled for the next run: renamed, shifted and unblocked
+ */
+export const getCampaignCopy = (campaign: Campaign, nameSuffix: DictionaryName, now: number): Campaign => ({
+  ...campaign,
+  name: addNameSuffix(campaign.name, nameSuffix),
+  ...getNextRunDates(campaign.startDate, campaign.endDate, now),
+  blocked: false,
+});
+
+/**
+ * Form data for recreating a creative under another campaign
+ */
+export const getCreativeCopy = (creative: Creative, campaignId: string): CreativeFormData => ({
+  campaignId,
+  name: creative.name,
+  dataUrl: creative.dataUrl,
+  minHeight: creative.minHeight,
+  maxHeight: creative.maxHeight,
+  minWidth: creative.minWidth,
+  maxWidth: creative.maxWidth,
+  previewWidth: creative.previewWidth,
+  previewHeight: creative.previewHeight,
+  blocked: creative.blocked,
+  // The creative dates belong to the original flight, the copy rotates for the whole new one
+  weight: creative.weight,
+  // A copy is a new creative and goes through review on its own
+  moderationStatus: 'draft',
+});
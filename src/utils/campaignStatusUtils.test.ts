@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { getCampaignLifecycleStatus } from './campaignStatusUtils';
+
+/** Restaurant wall-clock timestamp of a local date and time, kept as if in UTC */
+const wallClock = (local: string) => Date.parse(`${local}Z`) / 1000;
+
+describe('getCampaignLifecycleStatus', () => {
+  const campaign = { blocked: false, startDate: wallClock('2026-03-02T00:00:00'), endDate: wallClock('2026-03-08T00:00:00'), budget: 1000 };
+
+  it('runs from the start of the first day', () => {
+    expect(getCampaignLifecycleStatus(campaign, wallClock('2026-03-01T23:59:59'))).toBe('upcoming');
+    expect(getCampaignLifecycleStatus(campaign, wallClock('2026-03-02T00:00:00'))).toBe('running');
+  });
+
+  it('keeps running through the whole last day', () => {
+    expect(getCampaignLifecycleStatus(campaign, wallClock('2026-03-08T12:00:00'))).toBe('running');
+    expect(getCampaignLifecycleStatus(campaign, wallClock('2026-03-08T23:59:59'))).toBe('running');
+  });
+
+  it('ends on the day after the last day', () => {
+    expect(getCampaignLifecycleStatus(campaign, wallClock('2026-03-09T00:00:00'))).toBe('ended');
+  });
+
+  it('reports blocked campaigns and spent budgets', () => {
+    const now = wallClock('2026-03-05T12:00:00');
+    expect(getCampaignLifecycleStatus({ ...campaign, blocked: true }, now)).toBe('blocked');
+    expect(getCampaignLifecycleStatus(campaign, now, 1000)).toBe('exhausted');
+    expect(getCampaignLifecycleStatus({ ...campaign, budget: 0 }, now, 1000)).toBe('running');
+  });
+});
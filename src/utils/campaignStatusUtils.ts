@@ -0,0 +1,43 @@
+import type { Campaign } from '../types';
+import { SECONDS_PER_DAY } from './dateUtils';
+
+/**
+ * Lifecycle status derived from the campaign dates, block flag and spend:
+ * - blocked: switched off manually, wins over everything else
+ * - ended: the endDate day is over (the last day is still running)
+ * - upcoming: startDate is in the future
+ * - exhausted: running by dates, but the total budget is spent
+ * - running: delivering now
+ */
+export type CampaignLifecycleStatus = 'blocked' | 'ended' | 'upcoming' | 'exhausted' | 'running';
+
+export const CAMPAIGN_LIFECYCLE_STATUSES: CampaignLifecycleStatus[] = ['running', 'upcoming', 'exhausted', 'ended', 'blocked'];
+
+/**
+ * Chip color per lifecycle status, reusing StatusChip status palette
+ */
+export const CAMPAIGN_LIFECYCLE_CHIP_STATUS: Record<CampaignLifecycleStatus, string> = {
+  running: 'active',
+  upcoming: 'draft',
+  exhausted: 'pending',
+  ended: 'inactive',
+  blocked: 'blocked',
+};
+
+/**
+ * Lifecycle status of a campaign at the given time.
+ * `now` is restaurant wall-clock time like the campaign dates, see getWallClockNow.
+ * Spend is optional: without stats a campaign is never reported as exhausted.
+ */
+export const getCampaignLifecycleStatus = (
+  campaign: Pick<Campaign, 'blocked' | 'startDate' | 'endDate' | 'budget'>,
+  now: number,
+  spent?: number
+): CampaignLifecycleStatus => {
+  if (campaign.blocked) return 'blocked';
+  const lastSecond = campaign.endDate - (campaign.endDate % SECONDS_PER_DAY) + SECONDS_PER_DAY - 1;
+  if (lastSecond < now) return 'ended';
+  if (campaign.startDate > now) return 'upcoming';
+  if (spent !== undefined && campaign.budget > 0 && spent >= campaign.budget) return 'exhausted';
+  return 'running';
+};
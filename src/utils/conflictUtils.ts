@@ -0,0 +1,79 @@
+/**
+ * Three-way merge helpers for resolving 460 "Object Changed" conflicts.
+ * Values are compared per top-level form field:
+ * - original: what the form was loaded with
+ * - theirs: the latest version on the server
+ * - mine: what the user tried to save
+ */
+
+export type ConflictSide = 'original' | 'theirs' | 'mine';
+
+export interface ConflictField {
+  field: string;
+  original: unknown;
+  theirs: unknown;
+  mine: unknown;
+  /** Changed on the server only */
+  theirsChanged: boolean;
+  /** Changed by the user only */
+  mineChanged: boolean;
+  /** Both sides changed the field to different values */
+  conflicting: boolean;
+}
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * List fields that differ between original, theirs and mine.
+ * Fields both sides changed to the same value are not listed.
+ */
+export const getConflictFields = <T extends object>(original: T, theirs: T, mine: T): ConflictField[] => {
+  const originalRecord = original as Record<string, unknown>;
+  const theirsRecord = theirs as Record<string, unknown>;
+  const mineRecord = mine as Record<string, unknown>;
+  const fields = Array.from(
+    new Set([...Object.keys(originalRecord), ...Object.keys(theirsRecord), ...Object.keys(mineRecord)])
+  );
+
+  return fields
+    .filter((field) => field !== 'hash' && !isEqual(theirsRecord[field], mineRecord[field]))
+    .map((field) => {
+      const theirsChanged = !isEqual(originalRecord[field], theirsRecord[field]);
+      const mineChanged = !isEqual(originalRecord[field], mineRecord[field]);
+
+      return {
+        field,
+        original: originalRecord[field],
+        theirs: theirsRecord[field],
+        mine: mineRecord[field],
+        theirsChanged: theirsChanged && !mineChanged,
+        mineChanged: mineChanged && !theirsChanged,
+        conflicting: theirsChanged && mineChanged,
+      };
+    });
+};
+
+/**
+ * Side preselected for a field: keep the user's edit unless only the server changed it
+ */
+export const getDefaultConflictSide = (field: ConflictField): ConflictSide => {
+  return field.theirsChanged ? 'theirs' : 'mine';
+};
+
+/**
+ * Build resolved values from the user's values and the chosen side per field
+ */
+export const mergeConflictValues = <T extends object>(
+  mine: T,
+  fields: ConflictField[],
+  choices: Record<string, ConflictSide>
+): T => {
+  const merged = { ...mine } as Record<string, unknown>;
+
+  fields.forEach((field) => {
+    const side = choices[field.field] ?? getDefaultConflictSide(field);
+    merged[field.field] = field[side];
+  });
+
+  return merged as T;
+};
@@ -0,0 +1,87 @@
+/**
+ * Helpers to read and write the HTML of HTML creatives
+ */
+
+import { getCreativeUrlMediaKind } from './creativeUploadUtils';
+
+/**
+ * Attempts to fix mojibake (garbled text) caused by incorrect encoding
+ * Common issue: UTF-8 text interpreted as Latin-1
+ */
+export const fixMojibake = (text: string): string => {
+  try {
+    // Check if text contains mojibake patterns (multiple combining characters, weird sequences)
+    if (!/[\u0080-\u00FF]{2,}/.test(text)) {
+      return text; // Doesn't look like mojibake
+    }
+    
+    // Try to fix: encode as Latin-1 bytes, decode as UTF-8
+    const latin1Bytes = new Uint8Array(
+      [...text].map(char => char.charCodeAt(0) & 0xFF)
+    );
+    const fixed = new TextDecoder('utf-8').decode(latin1Bytes);
+    
+    // Verify the fix improved things (should have Armenian characters)
+    if (/[\u0530-\u058F]/.test(fixed)) {
+      return fixed;
+    }
+    
+    return text; // Fix didn't help, return original
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Raw HTML of a data:text/html URL, null for other URLs
+ */
+export const decodeHtmlDataUrl = (dataUrl: string): string | null => {
+  if (!dataUrl.startsWith('data:text/html')) return null;
+
+  const commaIndex = dataUrl.indexOf(',');
+  if (commaIndex === -1) return null;
+
+  const htmlContent = dataUrl.substring(commaIndex + 1);
+  let html: string;
+  try {
+    html = decodeURIComponent(htmlContent);
+  } catch {
+    html = htmlContent;
+  }
+  return fixMojibake(html);
+};
+
+/**
+ * Encode HTML as a data:text/html URL
+ */
+export const encodeHtmlDataUrl = (html: string): string => `data:text/html;charset=utf-8,${encodeURIComponent(html)}`;
+
+/**
+ * Raw HTML of an external creative, decoded as UTF-8 or Windows-1252 when UTF-8 gives mojibake
+ */
+export const fetchCreativeHtml = async (url: string): Promise<string> => {
+  const response = await fetch(url, {
+    cache: 'no-store', // Always fetch fresh - no caching
+  });
+  const arrayBuffer = await response.arrayBuffer();
+
+  // Try decoding as UTF-8
+  const html = new TextDecoder('utf-8').decode(arrayBuffer);
+
+  // Check if it contains mojibake patterns, try Windows-1252/Latin-1 instead
+  if (/[ÃÂÕÖ]/.test(html) || html.includes('Â©') || html.includes('Â£')) {
+    return new TextDecoder('windows-1252').decode(arrayBuffer);
+  }
+  return html;
+};
+
+/**
+ * HTML of a creative from its data URL or hosted URL, null for image, video and other non-HTML creatives.
+ * Throws when the hosted HTML cannot be fetched.
+ */
+export const loadCreativeHtml = async (url: string): Promise<string | null> => {
+  const decoded = decodeHtmlDataUrl(url);
+  if (decoded !== null) return decoded;
+  if (!url.startsWith('http') || getCreativeUrlMediaKind(url)) return null;
+  return fetchCreativeHtml(url);
+};
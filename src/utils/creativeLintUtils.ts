@@ -0,0 +1,208 @@
+import { env } from '../config/env';
+import { getCreativeUrlMediaKind, type CreativeSizeLimits } from './creativeUploadUtils';
+
+export type CreativeLintSeverity = 'error' | 'warning';
+
+export type CreativeLintRule =
+  | 'minWidthAboveMax'
+  | 'minHeightAboveMax'
+  | 'previewOutOfRange'
+  | 'externalRequest'
+  | 'documentWrite'
+  | 'noClickThrough'
+  | 'payloadSize'
+  | 'videoCodec'
+  | 'htmlUnavailable';
+
+export interface CreativeLintIssue {
+  rule: CreativeLintRule;
+  severity: CreativeLintSeverity;
+  /** Interpolation values for the message */
+  params?: Record<string, string | number>;
+}
+
+export interface CreativeLintInput extends CreativeSizeLimits {
+  dataUrl: string;
+  previewWidth: number;
+  previewHeight: number;
+  /** Creative HTML, null for image and video creatives */
+  html: string | null;
+  /** The HTML of a hosted creative could not be loaded */
+  htmlLoadFailed?: boolean;
+  /** Size of the uploaded file when known */
+  fileSize?: number;
+}
+
+const KB = 1024;
+
+/**
+ * Payload above which a creative is flagged as heavy for restaurant tablets
+ */
+export const CREATIVE_PAYLOAD_WARNING: Record<'html' | 'image' | 'video', number> = {
+  html: 150 * KB,
+  image: 300 * KB,
+  video: 10 * KB * KB,
+};
+
+const SUPPORTED_VIDEO_TYPES = ['video/mp4', 'video/webm'];
+const SUPPORTED_VIDEO_EXTENSIONS = ['mp4', 'm4v', 'webm'];
+/** HEVC, AV1 and Dolby Vision are not decoded by the tablets */
+const UNSUPPORTED_VIDEO_CODECS = /\b(hvc1|hev1|av01|dvh1|dvhe)\b/i;
+
+/** Elements and attributes that make the browser load a resource */
+const RESOURCE_ATTRIBUTES: [string, string][] = [
+  ['script[src]', 'src'],
+  ['img[src]', 'src'],
+  ['iframe[src]', 'src'],
+  ['video[src]', 'src'],
+  ['video[poster]', 'poster'],
+  ['audio[src]', 'src'],
+  ['source[src]', 'src'],
+  ['embed[src]', 'src'],
+  ['object[data]', 'data'],
+  ['link[href]', 'href'],
+  ['form[action]', 'action'],
+];
+
+const CSS_URL_PATTERN = /url\(\s*["']?((?:https?:)?\/\/[^"')\s]+)/gi;
+const SCRIPT_REQUEST_PATTERN = /\b(?:fetch|open|sendBeacon|importScripts)\s*\(\s*(?:["'][A-Z]+["']\s*,\s*)?["'`]((?:https?:)?\/\/[^"'`\s]+)/g;
+const DOCUMENT_WRITE_PATTERN = /document\.write(?:ln)?\s*\(/;
+const CLICK_THROUGH_PATTERN = /\bclick[Tt][Aa][Gg]\b|window\.open\s*\(|location(?:\.href)?\s*=/;
+
+/**
+ * Domains creatives may load resources from: the configured list and the API host (uploaded assets)
+ */
+export const getAllowedCreativeDomains = (): string[] => {
+  const domains = [...env.creativeAllowedDomains];
+  try {
+    domains.push(new URL(env.apiBaseUrl).hostname.toLowerCase());
+  } catch {
+    // Relative API URL, assets are served from the same origin
+  }
+  return domains;
+};
+
+/**
+ * Whether the host is one of the domains or their subdomain
+ */
+export const isDomainAllowed = (host: string, allowedDomains: string[]): boolean =>
+  allowedDomains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+
+const getHost = (url: string): string | null => {
+  if (!/^(?:https?:)?\/\//i.test(url.trim())) return null;
+  try {
+    return new URL(url.trim(), 'https://creative.invalid').hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Hosts of all absolute resource URLs in the document: tags, CSS url() and script requests
+ */
+const getRequestedHosts = (doc: Document, html: string): string[] => {
+  const urls: string[] = [];
+
+  RESOURCE_ATTRIBUTES.forEach(([selector, attribute]) => {
+    doc.querySelectorAll(selector).forEach((element) => urls.push(element.getAttribute(attribute) || ''));
+  });
+
+  const css = [
+    ...Array.from(doc.querySelectorAll('style'), (style) => style.textContent || ''),
+    ...Array.from(doc.querySelectorAll('[style]'), (element) => element.getAttribute('style') || ''),
+  ].join('\n');
+  urls.push(...Array.from(css.matchAll(CSS_URL_PATTERN), (match) => match[1]));
+  urls.push(...Array.from(html.matchAll(SCRIPT_REQUEST_PATTERN), (match) => match[1]));
+
+  const hosts = urls.map(getHost).filter((host): host is string => Boolean(host));
+  return [...new Set(hosts)];
+};
+
+/**
+ * Video sources the tablets may fail to decode, by declared type/codecs or file extension
+ */
+const getUnsupportedVideoSources = (doc: Document): string[] => {
+  const sources: string[] = [];
+
+  doc.querySelectorAll('video, video source').forEach((element) => {
+    const src = element.getAttribute('src') || '';
+    const type = element.getAttribute('type') || '';
+    const [mimeType] = type.split(';');
+    const extension = src.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || '';
+
+    const badType = type !== '' && (!SUPPORTED_VIDEO_TYPES.includes(mimeType.trim().toLowerCase()) || UNSUPPORTED_VIDEO_CODECS.test(type));
+    const badExtension = src !== '' && !src.startsWith('data:') && extension !== '' && !SUPPORTED_VIDEO_EXTENSIONS.includes(extension);
+    if (badType || badExtension) sources.push(src || type);
+  });
+  return [...new Set(sources)];
+};
+
+/**
+ * Size limits that contradict each other or the preview size
+ */
+export const lintCreativeSize = (input: CreativeLintInput): CreativeLintIssue[] => {
+  const issues: CreativeLintIssue[] = [];
+  const { minWidth, maxWidth, minHeight, maxHeight, previewWidth, previewHeight } = input;
+
+  if (maxWidth > 0 && minWidth > maxWidth) {
+    issues.push({ rule: 'minWidthAboveMax', severity: 'error', params: { min: minWidth, max: maxWidth } });
+  }
+  if (maxHeight > 0 && minHeight > maxHeight) {
+    issues.push({ rule: 'minHeightAboveMax', severity: 'error', params: { min: minHeight, max: maxHeight } });
+  }
+
+  const widthOutside = previewWidth < minWidth || (maxWidth > 0 && previewWidth > maxWidth);
+  const heightOutside = previewHeight < minHeight || (maxHeight > 0 && previewHeight > maxHeight);
+  if (widthOutside || heightOutside) {
+    issues.push({ rule: 'previewOutOfRange', severity: 'warning', params: { width: previewWidth, height: previewHeight } });
+  }
+  return issues;
+};
+
+/**
+ * Safety and well-formedness checks of the creative HTML
+ */
+export const lintCreativeHtml = (html: string, allowedDomains: string[]): CreativeLintIssue[] => {
+  const issues: CreativeLintIssue[] = [];
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  getRequestedHosts(doc, html)
+    .filter((host) => !isDomainAllowed(host, allowedDomains))
+    .forEach((host) => issues.push({ rule: 'externalRequest', severity: 'error', params: { host } }));
+
+  if (DOCUMENT_WRITE_PATTERN.test(html)) {
+    issues.push({ rule: 'documentWrite', severity: 'error' });
+  }
+
+  const hasLink = Array.from(doc.querySelectorAll('a[href]')).some((link) => /^https?:/i.test(link.getAttribute('href') || ''));
+  if (!hasLink && !CLICK_THROUGH_PATTERN.test(html)) {
+    issues.push({ rule: 'noClickThrough', severity: 'warning' });
+  }
+
+  getUnsupportedVideoSources(doc).forEach((source) =>
+    issues.push({ rule: 'videoCodec', severity: 'warning', params: { source } })
+  );
+  return issues;
+};
+
+/**
+ * Run all checks, errors first
+ */
+export const lintCreative = (input: CreativeLintInput, allowedDomains = getAllowedCreativeDomains()): CreativeLintIssue[] => {
+  const issues = lintCreativeSize(input);
+
+  if (input.html !== null) {
+    issues.push(...lintCreativeHtml(input.html, allowedDomains));
+  } else if (input.htmlLoadFailed) {
+    issues.push({ rule: 'htmlUnavailable', severity: 'warning' });
+  }
+
+  const mediaKind = getCreativeUrlMediaKind(input.dataUrl);
+  const payload = input.fileSize ?? (input.html !== null ? new Blob([input.html]).size : null);
+  const limit = CREATIVE_PAYLOAD_WARNING[mediaKind ?? 'html'];
+  if (payload !== null && payload > limit) {
+    issues.push({ rule: 'payloadSize', severity: 'warning', params: { size: Math.round(payload / KB), limit: Math.round(limit / KB) } });
+  }
+
+  return [...issues.filter((issue) => issue.severity === 'error'), ...issues.filter((issue) => issue.severity === 'warning')];
+};
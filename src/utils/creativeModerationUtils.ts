@@ -0,0 +1,61 @@
+import type { Creative, CreativeFormData, CreativeModerationStatus } from '../types';
+
+export const CREATIVE_MODERATION_STATUSES: CreativeModerationStatus[] = ['draft', 'pending', 'approved', 'rejected'];
+
+/**
+ * Chip color per moderation status, reusing StatusChip status palette
+ */
+export const CREATIVE_MODERATION_CHIP_STATUS: Record<CreativeModerationStatus, string> = {
+  draft: 'draft',
+  pending: 'pending',
+  approved: 'active',
+  rejected: 'blocked',
+};
+
+/**
+ * Common rejection reasons offered to the reviewer, the text stays editable.
+ * Alcohol ads fall under the same 18+ brand-safety rules as `Dish.isOver18` dishes.
+ */
+export const CREATIVE_REJECTION_REASONS = ['alcohol', 'misleading', 'quality', 'technical'] as const;
+
+export type CreativeRejectionReason = (typeof CREATIVE_REJECTION_REASONS)[number];
+
+/** Fields that change what the audience sees and therefore need a new review */
+const REVIEWED_FIELDS = ['dataUrl', 'minWidth', 'maxWidth', 'minHeight', 'maxHeight'] as const;
+
+/**
+ * Whether the creative may be served: approved and not blocked
+ */
+export const isCreativeServable = (creative: Pick<Creative, 'blocked' | 'moderationStatus'>): boolean =>
+  !creative.blocked && creative.moderationStatus === 'approved';
+
+/**
+ * Rejected creatives are blocked and stay blocked until approved.
+ * Changing their content sends them back to draft, which can be switched on again.
+ */
+export const canUnblockCreative = (status: CreativeModerationStatus): boolean => status !== 'rejected';
+
+/**
+ * Drafts and rejected creatives can be (re)submitted for review
+ */
+export const canSubmitForReview = (status: CreativeModerationStatus): boolean =>
+  status === 'draft' || status === 'rejected';
+
+/**
+ * Moderation fields to save with the form:
+ * - new creatives start as drafts
+ * - changed content sends a reviewed creative back to draft and drops the rejection reason
+ * - otherwise the current state is kept
+ */
+export const getModerationAfterSave = (
+  existing: Creative | null | undefined,
+  values: Pick<CreativeFormData, (typeof REVIEWED_FIELDS)[number]>
+): Pick<CreativeFormData, 'moderationStatus' | 'rejectionReason'> => {
+  if (!existing) return { moderationStatus: 'draft' };
+
+  const contentChanged = REVIEWED_FIELDS.some((field) => existing[field] !== values[field]);
+  if (contentChanged && existing.moderationStatus !== 'draft') {
+    return { moderationStatus: 'draft' };
+  }
+  return { moderationStatus: existing.moderationStatus, rejectionReason: existing.rejectionReason };
+};
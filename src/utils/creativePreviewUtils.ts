@@ -0,0 +1,84 @@
+import type { SlotType } from '../types';
+import type { CreativeDimensions, CreativeSizeLimits } from './creativeUploadUtils';
+
+export type TabletOrientation = 'landscape' | 'portrait';
+
+export type CreativePreviewSizeKey = 'min' | 'max' | 'preview';
+
+export interface CreativePreviewSize extends CreativeDimensions {
+  /** Which of the creative sizes this is, several when they are equal */
+  keys: CreativePreviewSizeKey[];
+}
+
+export interface SlotAdArea extends CreativeDimensions {
+  /** Offset from the top left corner of the tablet screen */
+  x: number;
+  y: number;
+}
+
+export const SLOT_TYPES: SlotType[] = ['MainLarge', 'MainSmall', 'Selection', 'Group'];
+
+/**
+ * Screen size of the restaurant tablet in CSS pixels
+ */
+export const TABLET_SCREENS: Record<TabletOrientation, CreativeDimensions> = {
+  landscape: { width: 1280, height: 800 },
+  portrait: { width: 800, height: 1280 },
+};
+
+/** Height of the app bar on the tablet screen */
+export const TABLET_HEADER_HEIGHT = 64;
+
+/**
+ * Where the tablet app places the ad of each slot type:
+ * - MainLarge: hero banner at the top of the main screen
+ * - MainSmall: tile next to the menu categories
+ * - Selection: card inside a selection of dishes
+ * - Group: strip at the bottom of a group page
+ */
+export const SLOT_AD_AREAS: Record<SlotType, Record<TabletOrientation, SlotAdArea>> = {
+  MainLarge: {
+    landscape: { x: 24, y: 88, width: 1232, height: 400 },
+    portrait: { x: 24, y: 88, width: 752, height: 460 },
+  },
+  MainSmall: {
+    landscape: { x: 24, y: 512, width: 392, height: 264 },
+    portrait: { x: 24, y: 572, width: 364, height: 264 },
+  },
+  Selection: {
+    landscape: { x: 344, y: 88, width: 296, height: 296 },
+    portrait: { x: 412, y: 88, width: 364, height: 364 },
+  },
+  Group: {
+    landscape: { x: 24, y: 680, width: 1232, height: 96 },
+    portrait: { x: 24, y: 1160, width: 752, height: 96 },
+  },
+};
+
+/**
+ * Min, max and preview sizes of a creative.
+ * Sizes with a zero side (no limit) are skipped, equal sizes are merged.
+ */
+export const getCreativePreviewSizes = (limits: CreativeSizeLimits, preview: CreativeDimensions): CreativePreviewSize[] => {
+  const candidates: (CreativeDimensions & { key: CreativePreviewSizeKey })[] = [
+    { key: 'min', width: limits.minWidth, height: limits.minHeight },
+    { key: 'max', width: limits.maxWidth, height: limits.maxHeight },
+    { key: 'preview', width: preview.width, height: preview.height },
+  ];
+
+  return candidates.reduce<CreativePreviewSize[]>((sizes, { key, width, height }) => {
+    if (width <= 0 || height <= 0) return sizes;
+    const same = sizes.find((size) => size.width === width && size.height === height);
+    if (same) {
+      same.keys.push(key);
+    } else {
+      sizes.push({ keys: [key], width, height });
+    }
+    return sizes;
+  }, []);
+};
+
+/**
+ * Scale that fits a box into the available width without enlarging it
+ */
+export const getFitScale = (width: number, availableWidth: number): number => Math.min(1, availableWidth / width);
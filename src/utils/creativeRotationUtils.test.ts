@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { Creative } from '../types';
+import { getRotationDraft, getRotationTotal, toPercentages } from './creativeRotationUtils';
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+const creative = (id: string, changes: Partial<Creative> = {}): Creative => ({
+  id,
+  campaignId: '1',
+  name: { ARM: id, ENG: id, RUS: id },
+  minHeight: 0,
+  maxHeight: 0,
+  minWidth: 0,
+  maxWidth: 0,
+  dataUrl: '',
+  previewWidth: 300,
+  previewHeight: 200,
+  blocked: false,
+  moderationStatus: 'approved',
+  weight: 1,
+  ...changes,
+});
+
+describe('toPercentages', () => {
+  it('keeps exact shares', () => {
+    expect(toPercentages([1, 1, 2])).toEqual([25, 25, 50]);
+  });
+
+  it('rounds thirds to a total of 100', () => {
+    const percentages = toPercentages([1, 1, 1]);
+    expect(sum(percentages)).toBe(100);
+    expect([...percentages].sort()).toEqual([33, 33, 34]);
+  });
+
+  it('gives the leftover points to the largest remainders', () => {
+    // 14.29, 28.57, 57.14
+    expect(toPercentages([1, 2, 4])).toEqual([14, 29, 57]);
+  });
+
+  it('sums to 100 for uneven weights', () => {
+    [[7, 7, 7, 7, 7, 7], [1, 999], [3, 5, 11, 13, 17], [0.5, 0.25, 0.25], [1, 1, 1, 1, 1, 1, 1]].forEach((weights) => {
+      expect(sum(toPercentages(weights))).toBe(100);
+    });
+  });
+
+  it('splits all-zero weights evenly', () => {
+    expect(toPercentages([0, 0, 0, 0])).toEqual([25, 25, 25, 25]);
+  });
+
+  it('returns nothing for no weights', () => {
+    expect(toPercentages([])).toEqual([]);
+  });
+});
+
+describe('getRotationDraft', () => {
+  it('splits the traffic between servable creatives only', () => {
+    const draft = getRotationDraft([
+      creative('a', { weight: 3 }),
+      creative('b', { weight: 1 }),
+      creative('blocked', { weight: 5, blocked: true }),
+      creative('rejected', { weight: 5, moderationStatus: 'rejected' }),
+      creative('pending', { weight: 5, moderationStatus: 'pending' }),
+    ]);
+
+    expect(Object.keys(draft)).toEqual(['a', 'b']);
+    expect(draft.a.weight).toBe(75);
+    expect(draft.b.weight).toBe(25);
+    expect(getRotationTotal(draft)).toBe(100);
+  });
+});
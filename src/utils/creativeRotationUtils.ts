@@ -0,0 +1,116 @@
+import type { Creative, StatsTotals } from '../types';
+import { isCreativeServable } from './creativeModerationUtils';
+import { SECONDS_PER_DAY } from './dateUtils';
+
+/** Weight of creatives saved before rotation weights were introduced, splits traffic evenly */
+export const DEFAULT_CREATIVE_WEIGHT = 1;
+
+/** Share every creative keeps under auto-optimization so that weaker ones still collect data */
+export const MIN_OPTIMIZED_SHARE = 10;
+
+/** CTR prior used to smooth creatives with few impressions: 1 click per 100 impressions */
+const PRIOR_CLICKS = 1;
+const PRIOR_IMPRESSIONS = 100;
+
+/**
+ * Rotation settings of one creative as edited in the campaign dialog, weight in percent
+ */
+export interface CreativeRotationEntry {
+  weight: number;
+  startDate?: number;
+  endDate?: number;
+}
+
+/** Rotation settings by creative ID */
+export type CreativeRotationDraft = Record<string, CreativeRotationEntry>;
+
+export type CreativeRotationDateIssue = 'endBeforeStart' | 'outsideCampaign';
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Whole percentages proportional to the weights and summing to 100 (largest remainder rounding).
+ * All-zero weights are split evenly.
+ */
+export const toPercentages = (weights: number[]): number[] => {
+  if (weights.length === 0) return [];
+  const total = sum(weights);
+  if (total <= 0) return toPercentages(weights.map(() => 1));
+
+  const exact = weights.map((weight) => (Math.max(0, weight) * 100) / total);
+  const result = exact.map(Math.floor);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+
+  let missing = 100 - sum(result);
+  for (const { index } of byRemainder) {
+    if (missing <= 0) break;
+    result[index] += 1;
+    missing -= 1;
+  }
+  return result;
+};
+
+/**
+ * Rotation draft of the servable campaign creatives as they are saved, weights converted to percentages.
+ * Blocked and unapproved creatives get no traffic, so they are left out of the split.
+ */
+export const getRotationDraft = (creatives: Creative[]): CreativeRotationDraft => {
+  const servable = creatives.filter(isCreativeServable);
+  const percentages = toPercentages(servable.map((creative) => creative.weight));
+  return Object.fromEntries(
+    servable.map((creative, index) => [
+      creative.id,
+      { weight: percentages[index], startDate: creative.startDate, endDate: creative.endDate },
+    ])
+  );
+};
+
+/**
+ * Sum of the draft weights, 100 when the split is complete
+ */
+export const getRotationTotal = (draft: CreativeRotationDraft): number =>
+  sum(Object.values(draft).map((entry) => entry.weight));
+
+/**
+ * Percentages proportional to the smoothed CTR of each creative.
+ * Every creative keeps at least MIN_OPTIMIZED_SHARE (less when there are more than 10 creatives).
+ */
+export const getOptimizedPercentages = (stats: (StatsTotals | undefined)[]): number[] => {
+  if (stats.length === 0) return [];
+  const smoothed = stats.map(
+    (row) => ((row?.clicks ?? 0) + PRIOR_CLICKS) / ((row?.impressions ?? 0) + PRIOR_IMPRESSIONS)
+  );
+  const floor = Math.min(MIN_OPTIMIZED_SHARE, 100 / stats.length);
+  const free = 100 - floor * stats.length;
+  const total = sum(smoothed);
+  return toPercentages(smoothed.map((value) => floor + (free * value) / total));
+};
+
+/**
+ * Problem with the creative dates: end before start, or a day outside the campaign flight
+ */
+export const getRotationDateIssue = (
+  entry: CreativeRotationEntry,
+  campaign: { startDate: number; endDate: number }
+): CreativeRotationDateIssue | null => {
+  if (entry.startDate && entry.endDate && entry.endDate < entry.startDate) return 'endBeforeStart';
+  // Creative dates are whole days, the campaign may start and end mid-day
+  const firstDay = campaign.startDate - (campaign.startDate % SECONDS_PER_DAY);
+  const lastDay = campaign.endDate - (campaign.endDate % SECONDS_PER_DAY) + SECONDS_PER_DAY - 1;
+  const outside = (date?: number) => date !== undefined && (date < firstDay || date > lastDay);
+  if (outside(entry.startDate) || outside(entry.endDate)) return 'outsideCampaign';
+  return null;
+};
+
+/**
+ * Timestamp of a creative end date picked as a day: the rotation runs until the end of that day
+ */
+export const getEndOfDay = (dayStart: number): number => dayStart + SECONDS_PER_DAY - 1;
+
+/**
+ * Whether the rotation settings differ from the saved creative
+ */
+export const isRotationChanged = (creative: Creative, entry: CreativeRotationEntry): boolean =>
+  creative.weight !== entry.weight || creative.startDate !== entry.startDate || creative.endDate !== entry.endDate;
@@ -0,0 +1,53 @@
+/**
+ * Thumbnail HTML cache for the creatives gallery.
+ * Prepared srcdoc HTML is kept per dataUrl so scrolling back does not fetch and rebuild it again.
+ */
+
+/** Oldest entries are evicted above this size */
+const MAX_CACHED_THUMBNAILS = 300;
+
+const resolved = new Map<string, string | null>();
+const pending = new Map<string, Promise<string | null>>();
+
+/**
+ * Cached thumbnail HTML, undefined when it has not been loaded yet
+ */
+export const getCachedThumbnailHtml = (dataUrl: string): string | null | undefined => resolved.get(dataUrl);
+
+/**
+ * Load the thumbnail HTML once per dataUrl, concurrent callers share the same request.
+ * A failed load resolves to null without being cached, so the next caller tries again.
+ */
+export const loadThumbnailHtml = (
+  dataUrl: string,
+  load: (dataUrl: string) => Promise<string | null>
+): Promise<string | null> => {
+  if (resolved.has(dataUrl)) return Promise.resolve(resolved.get(dataUrl) ?? null);
+
+  const inFlight = pending.get(dataUrl);
+  if (inFlight) return inFlight;
+
+  const request = load(dataUrl).then(
+    (html) => {
+      pending.delete(dataUrl);
+      resolved.set(dataUrl, html);
+      if (resolved.size > MAX_CACHED_THUMBNAILS) {
+        const oldest = resolved.keys().next().value;
+        if (oldest !== undefined) resolved.delete(oldest);
+      }
+      return html;
+    },
+    () => {
+      pending.delete(dataUrl);
+      return null;
+    }
+  );
+  pending.set(dataUrl, request);
+  return request;
+};
+
+/**
+ * Scale that fits a box into the available area without enlarging it
+ */
+export const getContainScale = (width: number, height: number, availableWidth: number, availableHeight: number): number =>
+  Math.min(1, availableWidth / width, availableHeight / height);
@@ -0,0 +1,177 @@
+import type { Creative } from '../types';
+
+export type CreativeFileKind = 'html5' | 'image' | 'video';
+
+export type CreativeFileError = 'unsupportedType' | 'tooLarge' | 'noIndexHtml' | 'indexHtmlInFolder' | 'unreadable';
+
+export type CreativeDimensionIssue = 'tooNarrow' | 'tooWide' | 'tooShort' | 'tooTall';
+
+export type CreativeSizeLimits = Pick<Creative, 'minWidth' | 'maxWidth' | 'minHeight' | 'maxHeight'>;
+
+export interface CreativeDimensions {
+  width: number;
+  height: number;
+}
+
+export interface CreativeFileCheck {
+  kind: CreativeFileKind | null;
+  /** Pixel size of images and videos, null for HTML5 bundles */
+  dimensions: CreativeDimensions | null;
+  error?: CreativeFileError;
+}
+
+/**
+ * Value for the accept attribute of the file input
+ */
+export const CREATIVE_UPLOAD_ACCEPT = '.zip,application/zip,image/png,image/jpeg,image/webp,image/gif,video/mp4';
+
+const MB = 1024 * 1024;
+
+export const CREATIVE_MAX_FILE_SIZE: Record<CreativeFileKind, number> = {
+  html5: 10 * MB,
+  image: 5 * MB,
+  video: 50 * MB,
+};
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+const ZIP_TYPES = ['application/zip', 'application/x-zip-compressed'];
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp', 'gif'];
+const VIDEO_EXTENSIONS = ['mp4'];
+
+const getExtension = (name: string): string => name.split('.').pop()?.toLowerCase() || '';
+
+/**
+ * Kind of an uploaded file by MIME type, falling back to the extension
+ */
+export const getCreativeFileKind = (file: File): CreativeFileKind | null => {
+  const extension = getExtension(file.name);
+  if (IMAGE_TYPES.includes(file.type) || (!file.type && IMAGE_EXTENSIONS.includes(extension))) return 'image';
+  if (file.type === 'video/mp4' || (!file.type && VIDEO_EXTENSIONS.includes(extension))) return 'video';
+  if (ZIP_TYPES.includes(file.type) || extension === 'zip') return 'html5';
+  return null;
+};
+
+/**
+ * Media kind of a hosted creative URL, null for HTML creatives
+ */
+export const getCreativeUrlMediaKind = (url: string): 'image' | 'video' | null => {
+  if (url.startsWith('data:image/')) return 'image';
+  if (url.startsWith('data:video/')) return 'video';
+  if (!url.startsWith('http')) return null;
+
+  try {
+    const extension = getExtension(new URL(url).pathname);
+    if (IMAGE_EXTENSIONS.includes(extension)) return 'image';
+    if (VIDEO_EXTENSIONS.includes(extension)) return 'video';
+  } catch {
+    // Invalid URL, treated as HTML
+  }
+  return null;
+};
+
+/**
+ * Read the natural size of an image or the frame size of a video
+ */
+const readMediaDimensions = (file: File, kind: 'image' | 'video'): Promise<CreativeDimensions> => {
+  const objectUrl = URL.createObjectURL(file);
+
+  return new Promise<CreativeDimensions>((resolve, reject) => {
+    if (kind === 'image') {
+      const image = new Image();
+      image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+      image.onerror = () => reject(new Error('Failed to decode image'));
+      image.src = objectUrl;
+    } else {
+      const video = document.createElement('video');
+      video.preload = 'metadata';
+      video.onloadedmetadata = () => resolve({ width: video.videoWidth, height: video.videoHeight });
+      video.onerror = () => reject(new Error('Failed to read video metadata'));
+      video.src = objectUrl;
+    }
+  }).finally(() => URL.revokeObjectURL(objectUrl));
+};
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+/** End of central directory record (22 bytes) plus the longest possible comment */
+const ZIP_TAIL_SIZE = 22 + 0xffff;
+
+/**
+ * File names stored in a zip archive, read from its central directory.
+ * ZIP64 archives are not supported.
+ */
+export const listZipEntries = async (file: File): Promise<string[]> => {
+  const tailStart = Math.max(0, file.size - ZIP_TAIL_SIZE);
+  const tail = new DataView(await file.slice(tailStart).arrayBuffer());
+
+  let eocd = -1;
+  for (let offset = tail.byteLength - 22; offset >= 0; offset--) {
+    if (tail.getUint32(offset, true) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('Not a zip archive');
+
+  const entryCount = tail.getUint16(eocd + 10, true);
+  const directorySize = tail.getUint32(eocd + 12, true);
+  const directoryOffset = tail.getUint32(eocd + 16, true);
+  const directory = new DataView(await file.slice(directoryOffset, directoryOffset + directorySize).arrayBuffer());
+  const decoder = new TextDecoder();
+
+  const names: string[] = [];
+  let offset = 0;
+  for (let i = 0; i < entryCount && offset + 46 <= directory.byteLength; i++) {
+    if (directory.getUint32(offset, true) !== ZIP_CENTRAL_DIRECTORY_ENTRY) break;
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    names.push(decoder.decode(new Uint8Array(directory.buffer, offset + 46, nameLength)));
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return names;
+};
+
+/**
+ * Validate a file picked for upload: type, size, HTML5 bundle entry point and media dimensions
+ */
+export const checkCreativeFile = async (file: File): Promise<CreativeFileCheck> => {
+  const kind = getCreativeFileKind(file);
+  if (!kind) return { kind, dimensions: null, error: 'unsupportedType' };
+  if (file.size > CREATIVE_MAX_FILE_SIZE[kind]) return { kind, dimensions: null, error: 'tooLarge' };
+
+  try {
+    if (kind === 'html5') {
+      // The bundle is served from its root, so index.html zipped inside a folder is not found
+      const entries = await listZipEntries(file);
+      if (entries.includes('index.html')) return { kind, dimensions: null };
+      const inFolder = entries.some((entry) => /^[^/]+\/index\.html$/.test(entry));
+      return { kind, dimensions: null, error: inFolder ? 'indexHtmlInFolder' : 'noIndexHtml' };
+    }
+    return { kind, dimensions: await readMediaDimensions(file, kind) };
+  } catch {
+    return { kind, dimensions: null, error: 'unreadable' };
+  }
+};
+
+/**
+ * Compare media dimensions with the creative size limits, a zero maximum means no limit
+ */
+export const getDimensionIssues = (dimensions: CreativeDimensions, limits: CreativeSizeLimits): CreativeDimensionIssue[] => {
+  const issues: CreativeDimensionIssue[] = [];
+  if (dimensions.width < limits.minWidth) issues.push('tooNarrow');
+  if (limits.maxWidth > 0 && dimensions.width > limits.maxWidth) issues.push('tooWide');
+  if (dimensions.height < limits.minHeight) issues.push('tooShort');
+  if (limits.maxHeight > 0 && dimensions.height > limits.maxHeight) issues.push('tooTall');
+  return issues;
+};
+
+/**
+ * Human-readable file size
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes >= MB) return `${(bytes / MB).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+};
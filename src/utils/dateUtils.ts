@@ -1,6 +1,9 @@
 
 import { formatInTimeZone } from 'date-fns-tz';
 
+/** Length of a day in Unix timestamp seconds */
+export const SECONDS_PER_DAY = 86400;
+
 /**
  * Форматирует Unix timestamp (в секундах) в читаемый формат
  * Согласно ТЗ: для "ресторанных" timestamp значение считается уже локализованным,
@@ -68,3 +71,28 @@ export const dateInputToTimestamp = (dateString: string): number => {
     return 0;
   }
 };
+
+/**
+ * Converts Unix timestamp (seconds) to datetime input value (YYYY-MM-DDTHH:mm)
+ * @param timestamp - Unix timestamp in seconds
+ * @returns string in format YYYY-MM-DDTHH:mm for HTML datetime-local input
+ */
+export const timestampToDateTimeInput = (timestamp: number): string => {
+  try {
+    const date = new Date(timestamp * 1000);
+    return formatInTimeZone(date, 'UTC', "yyyy-MM-dd'T'HH:mm");
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Converts datetime input value (YYYY-MM-DDTHH:mm) to Unix timestamp (seconds)
+ * Parses the value as UTC, like dateInputToTimestamp
+ * @param value - Date and time in format YYYY-MM-DDTHH:mm
+ * @returns Unix timestamp in seconds
+ */
+export const dateTimeInputToTimestamp = (value: string): number => {
+  const time = new Date(value + ':00Z').getTime();
+  return Number.isNaN(time) ? 0 : Math.floor(time / 1000);
+};
@@ -0,0 +1,239 @@
+/**
+ * Persistent Error Log
+ * Keeps a ring buffer of application errors in IndexedDB and optionally
+ * reports them in batches to a backend endpoint.
+ *
+ * Must not use the logger itself: logger.error() writes into this module.
+ */
+
+import { env } from '../config/env';
+import { isApiError } from '../api/errors';
+
+const DB_NAME = 'trio-admin-error-log';
+const DB_VERSION = 1;
+const STORE_NAME = 'errors';
+
+export type ErrorLogSource = 'api' | 'boundary' | 'cell' | 'logger';
+
+export interface ErrorLogEntry {
+  id?: number;
+  /** Unix timestamp (milliseconds) */
+  timestamp: number;
+  source: ErrorLogSource;
+  /** Logger message, e.g. "Failed to save campaign" */
+  message: string;
+  errorName?: string;
+  errorMessage?: string;
+  stack?: string;
+  /** ApiError HTTP status code */
+  statusCode?: number;
+  /** ApiError application error code */
+  errorCode?: number;
+  /** Request URL for API errors */
+  url?: string;
+  method?: string;
+  /** Application route where the error happened */
+  route: string;
+  componentStack?: string;
+  context?: Record<string, unknown>;
+  appVersion: string;
+  /** Whether the entry was delivered to the error report endpoint */
+  reported: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and lazily create) the error log database
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('timestamp', 'timestamp');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Run a request inside a transaction and resolve with its result
+ */
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+
+  return new Promise<T | undefined>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Drop the oldest entries so that at most `maxEntries` remain
+ */
+const trimToCapacity = async (maxEntries: number): Promise<void> => {
+  const count = await runTransaction<number>('readonly', (store) => store.count());
+  const excess = (count ?? 0) - maxEntries;
+  if (excess <= 0) return;
+
+  await runTransaction('readwrite', (store) => {
+    let removed = 0;
+    const cursorRequest = store.index('timestamp').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || removed >= excess) return;
+      cursor.delete();
+      removed += 1;
+      cursor.continue();
+    };
+  });
+};
+
+/**
+ * Build an entry from a logger.error() call
+ */
+export const createErrorLogEntry = (
+  message: string,
+  error?: unknown,
+  context?: Record<string, unknown>
+): ErrorLogEntry => {
+  const { source, componentStack, url, method, ...rest } = context || {};
+  const apiError = isApiError(error) ? error : null;
+
+  let resolvedSource: ErrorLogSource = 'logger';
+  if (source === 'boundary' || source === 'cell') {
+    resolvedSource = source;
+  } else if (apiError) {
+    resolvedSource = 'api';
+  }
+
+  return {
+    timestamp: Date.now(),
+    source: resolvedSource,
+    message,
+    errorName: error instanceof Error ? error.name : undefined,
+    errorMessage: error instanceof Error ? error.message : error !== undefined ? String(error) : undefined,
+    stack: error instanceof Error ? error.stack : undefined,
+    statusCode: apiError?.statusCode,
+    errorCode: apiError?.errorCode,
+    url: typeof url === 'string' ? url : undefined,
+    method: typeof method === 'string' ? method : undefined,
+    route: typeof window !== 'undefined' ? window.location.pathname : '',
+    componentStack: typeof componentStack === 'string' ? componentStack : undefined,
+    context: Object.keys(rest).length > 0 ? rest : undefined,
+    appVersion: env.appVersion,
+    reported: false,
+  };
+};
+
+/**
+ * Persist an entry and schedule a batch report
+ */
+export const addErrorLogEntry = async (entry: ErrorLogEntry): Promise<void> => {
+  try {
+    await runTransaction('readwrite', (store) => store.add(entry));
+    await trimToCapacity(env.errorLogMaxEntries);
+    scheduleErrorReport();
+  } catch (storageError) {
+    console.warn('Failed to persist error log entry', storageError);
+  }
+};
+
+/**
+ * Get all stored entries, newest first
+ */
+export const getErrorLogEntries = async (): Promise<ErrorLogEntry[]> => {
+  const entries = await runTransaction<ErrorLogEntry[]>('readonly', (store) =>
+    store.getAll() as IDBRequest<ErrorLogEntry[]>
+  );
+  return (entries || []).sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * Remove all stored entries
+ */
+export const clearErrorLog = async (): Promise<void> => {
+  await runTransaction('readwrite', (store) => store.clear());
+};
+
+/**
+ * Whether batches are sent to a backend endpoint
+ */
+export const isErrorReportingEnabled = (): boolean => Boolean(env.errorReportUrl);
+
+let reportTimer: ReturnType<typeof setTimeout> | undefined;
+let reportInFlight = false;
+
+/**
+ * Send unreported entries to the configured endpoint.
+ * Uses plain fetch on purpose: realApiFetch logs failures, which would loop back here.
+ */
+export const flushErrorReports = async (): Promise<number> => {
+  if (!isErrorReportingEnabled() || reportInFlight) return 0;
+
+  reportInFlight = true;
+  try {
+    const pending = (await getErrorLogEntries())
+      .filter((entry) => !entry.reported)
+      .slice(0, env.errorReportBatchSize);
+    if (pending.length === 0) return 0;
+
+    const response = await fetch(env.errorReportUrl, {
+      method: 'POST',
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ entries: pending }),
+    });
+    if (!response.ok) {
+      throw new Error(`Error report endpoint responded with ${response.status}`);
+    }
+
+    await runTransaction('readwrite', (store) => {
+      pending.forEach((entry) => store.put({ ...entry, reported: true }));
+    });
+    return pending.length;
+  } catch (reportError) {
+    console.warn('Failed to send error reports', reportError);
+    return 0;
+  } finally {
+    reportInFlight = false;
+  }
+};
+
+/**
+ * Debounce reporting so that bursts of errors are sent as one batch
+ */
+const scheduleErrorReport = (): void => {
+  if (!isErrorReportingEnabled() || reportTimer !== undefined) return;
+
+  reportTimer = setTimeout(() => {
+    reportTimer = undefined;
+    void flushErrorReports();
+  }, env.errorReportInterval);
+};
@@ -0,0 +1,105 @@
+import type { Campaign } from '../types';
+import { getPeriodDays } from './statsUtils';
+import { SECONDS_PER_DAY } from './dateUtils';
+
+export interface GanttBar {
+  campaign: Campaign;
+  /** Day offset from the start of the range */
+  startDay: number;
+  /** Number of days the bar covers, at least 1 */
+  days: number;
+  /** Row inside the group, bars in the same lane never overlap */
+  lane: number;
+}
+
+export interface GanttCoverageSegment {
+  startDay: number;
+  days: number;
+  /** Campaigns running on these days */
+  count: number;
+}
+
+/**
+ * Start of the UTC day containing the timestamp
+ */
+export const getDayStart = (timestamp: number): number => timestamp - (timestamp % SECONDS_PER_DAY);
+
+/**
+ * Whole-day range covering all campaigns, padded by a few days on both sides
+ */
+export const getGanttRange = (campaigns: Campaign[], now: number, paddingDays = 7): { start: number; days: number } => {
+  const starts = campaigns.map((campaign) => campaign.startDate);
+  const ends = campaigns.map((campaign) => Math.max(campaign.startDate, campaign.endDate));
+  const start = getDayStart(Math.min(now, ...starts)) - paddingDays * SECONDS_PER_DAY;
+  const end = getDayStart(Math.max(now, ...ends)) + paddingDays * SECONDS_PER_DAY;
+
+  return { start, days: Math.round((end - start) / SECONDS_PER_DAY) + 1 };
+};
+
+/**
+ * Place the bars of a group in lanes so overlapping campaigns are stacked
+ */
+export const getGanttBars = (campaigns: Campaign[], rangeStart: number): GanttBar[] => {
+  const laneEnds: number[] = [];
+
+  return [...campaigns]
+    .sort((a, b) => a.startDate - b.startDate)
+    .map((campaign) => {
+      const startDay = Math.floor((getDayStart(campaign.startDate) - rangeStart) / SECONDS_PER_DAY);
+      const days = getPeriodDays(getDayStart(campaign.startDate), Math.max(campaign.startDate, campaign.endDate));
+      let lane = laneEnds.findIndex((end) => end <= startDay);
+      if (lane === -1) {
+        lane = laneEnds.length;
+        laneEnds.push(0);
+      }
+      laneEnds[lane] = startDay + days;
+
+      return { campaign, startDay, days, lane };
+    });
+};
+
+/**
+ * Split the range into segments with the same number of running (not blocked) campaigns.
+ * Segments with 0 are empty periods, segments with 2+ are overlaps.
+ */
+export const getCoverageSegments = (bars: GanttBar[], totalDays: number): GanttCoverageSegment[] => {
+  const counts = new Array<number>(totalDays).fill(0);
+  bars
+    .filter((bar) => !bar.campaign.blocked)
+    .forEach((bar) => {
+      for (let day = Math.max(0, bar.startDay); day < Math.min(totalDays, bar.startDay + bar.days); day++) {
+        counts[day] += 1;
+      }
+    });
+
+  const segments: GanttCoverageSegment[] = [];
+  counts.forEach((count, day) => {
+    const last = segments[segments.length - 1];
+    if (last && last.count === count) {
+      last.days += 1;
+    } else {
+      segments.push({ startDay: day, days: 1, count });
+    }
+  });
+  return segments;
+};
+
+/**
+ * New dates after dragging a bar by whole days
+ */
+export const shiftCampaignDates = (
+  campaign: Campaign,
+  mode: 'move' | 'start' | 'end',
+  deltaDays: number
+): Pick<Campaign, 'startDate' | 'endDate'> => {
+  const delta = deltaDays * SECONDS_PER_DAY;
+
+  switch (mode) {
+    case 'move':
+      return { startDate: campaign.startDate + delta, endDate: campaign.endDate + delta };
+    case 'start':
+      return { startDate: Math.min(campaign.startDate + delta, campaign.endDate), endDate: campaign.endDate };
+    case 'end':
+      return { startDate: campaign.startDate, endDate: Math.max(campaign.endDate + delta, campaign.startDate) };
+  }
+};
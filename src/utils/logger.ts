@@ -3,7 +3,8 @@
  * Provides consistent logging across the application with level control
  */
 
-import { env, isDevelopment } from '../config/env';
+import { env } from '../config/env';
+import { addErrorLogEntry, createErrorLogEntry } from './errorLog';
 
 export const LogLevel = {
   DEBUG: 0,
@@ -47,13 +48,14 @@ const formatMessage = (level: string, message: string, context?: string): string
 };
 
 /**
- * Log error to external service (placeholder for future implementation)
+ * Store error in the persistent error log (reported in batches when configured)
  */
-const sendToErrorService = (error: Error, context?: Record<string, unknown>): void => {
-  // TODO: Implement error reporting service (e.g., Sentry, LogRocket)
-  if (isDevelopment) {
-    console.log('📤 Would send to error service:', { error, context });
-  }
+const sendToErrorService = (
+  message: string,
+  error?: Error | unknown,
+  context?: Record<string, unknown>,
+): void => {
+  void addErrorLogEntry(createErrorLogEntry(message, error, context));
 };
 
 /**
@@ -112,14 +114,11 @@ class Logger {
     const formattedMessage = formatMessage('ERROR', message, this.context);
     console.error(formattedMessage, error ?? '', context ?? '');
 
-    // Send to error reporting service in production
-    if (!isDevelopment && error instanceof Error) {
-      sendToErrorService(error, {
-        message,
-        context: this.context,
-        ...context,
-      });
-    }
+    // Keep every error in the error log, including development
+    sendToErrorService(message, error, {
+      ...(this.context && { logger: this.context }),
+      ...context,
+    });
   }
 
   /**
@@ -0,0 +1,142 @@
+import type { Campaign, StatsPoint } from '../types';
+import { getPeriodDays } from './statsUtils';
+import { SECONDS_PER_DAY } from './dateUtils';
+
+/** Relative deviation from the plan still considered on track */
+const ON_TRACK_TOLERANCE = 0.1;
+
+export type PacingSettings = Pick<
+  Campaign,
+  'budget' | 'budgetDaily' | 'spendStrategy' | 'overdeliveryRatio' | 'startDate' | 'endDate'
+>;
+
+export type PacingState = 'ahead' | 'onTrack' | 'behind';
+
+export interface PacingDay {
+  /** Day start, unix seconds */
+  timestamp: number;
+  /** Spend planned for the day */
+  planned: number;
+  /** Spend planned up to and including the day */
+  cumulative: number;
+}
+
+export interface PacingPlan {
+  days: PacingDay[];
+  /** Daily budget, 0 when not limited */
+  dailyCap: number;
+  /** Daily budget plus the overdelivery allowance */
+  dailyCeiling: number;
+  /** Budget that cannot be spent before endDate at the daily cap */
+  unallocated: number;
+  /** Days where the daily cap flattens the strategy (asap always runs at the cap and is not counted) */
+  cappedDays: number;
+}
+
+export interface ActualSpendDay {
+  timestamp: number;
+  spend: number;
+  cumulative: number;
+}
+
+/**
+ * Highest spend the delivery engine allows per day
+ */
+export const getDailyCeiling = (budgetDaily: number, overdeliveryRatio: number): number => {
+  return budgetDaily * (1 + overdeliveryRatio / 100);
+};
+
+/**
+ * Ideal daily spend implied by the spend strategy:
+ * - even: the remaining budget is split equally over the remaining days
+ * - frontload: linearly decreasing shares, the first day gets the most
+ * - asap: every day spends as much as the daily cap allows
+ * Whatever the daily cap cuts off is carried over to the following days.
+ */
+export const getPacingPlan = (settings: PacingSettings): PacingPlan => {
+  const dailyCap = Math.max(0, settings.budgetDaily);
+  const dailyCeiling = getDailyCeiling(dailyCap, settings.overdeliveryRatio);
+  const totalDays = settings.endDate >= settings.startDate
+    ? getPeriodDays(settings.startDate, settings.endDate)
+    : 0;
+
+  const weights = Array.from({ length: totalDays }, (_, index) =>
+    settings.spendStrategy === 'frontload' ? totalDays - index : 1
+  );
+
+  let remaining = Math.max(0, settings.budget);
+  let remainingWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  let cumulative = 0;
+  let cappedDays = 0;
+
+  const days = weights.map((weight, index) => {
+    const wanted = settings.spendStrategy === 'asap' ? remaining : (remaining * weight) / remainingWeight;
+    const planned = dailyCap > 0 ? Math.min(wanted, dailyCap) : wanted;
+
+    if (settings.spendStrategy !== 'asap' && planned < wanted) {
+      cappedDays += 1;
+    }
+
+    remaining -= planned;
+    remainingWeight -= weight;
+    cumulative += planned;
+
+    return {
+      timestamp: settings.startDate + index * SECONDS_PER_DAY,
+      planned,
+      cumulative,
+    };
+  });
+
+  return {
+    days,
+    dailyCap,
+    dailyCeiling,
+    unallocated: totalDays > 0 ? remaining : Math.max(0, settings.budget),
+    cappedDays,
+  };
+};
+
+/**
+ * Align daily stats to the plan days and accumulate spend
+ */
+export const getActualSpend = (plan: PacingPlan, series: StatsPoint[]): ActualSpendDay[] => {
+  if (plan.days.length === 0) return [];
+
+  const startDate = plan.days[0].timestamp;
+  const spendByDay = new Map<number, number>();
+  series.forEach((point) => {
+    const dayIndex = Math.floor((point.timestamp - startDate) / SECONDS_PER_DAY);
+    if (dayIndex < 0 || dayIndex >= plan.days.length) return;
+    spendByDay.set(dayIndex, (spendByDay.get(dayIndex) || 0) + point.spend);
+  });
+
+  const lastDay = Math.max(-1, ...spendByDay.keys());
+  let cumulative = 0;
+
+  return plan.days.slice(0, lastDay + 1).map((day, index) => {
+    const spend = spendByDay.get(index) || 0;
+    cumulative += spend;
+    return { timestamp: day.timestamp, spend, cumulative };
+  });
+};
+
+/**
+ * Spend planned from the start of the flight up to `now` (unix seconds)
+ */
+export const getPlannedSpendToDate = (plan: PacingPlan, now: number): number => {
+  const passed = plan.days.filter((day) => day.timestamp <= now);
+  return passed.length > 0 ? passed[passed.length - 1].cumulative : 0;
+};
+
+/**
+ * Compare actual spend with the plan
+ */
+export const getPacingState = (spent: number, plannedToDate: number): PacingState => {
+  if (plannedToDate <= 0) return spent > 0 ? 'ahead' : 'onTrack';
+
+  const deviation = (spent - plannedToDate) / plannedToDate;
+  if (deviation > ON_TRACK_TOLERANCE) return 'ahead';
+  if (deviation < -ON_TRACK_TOLERANCE) return 'behind';
+  return 'onTrack';
+};
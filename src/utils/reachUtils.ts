@@ -0,0 +1,146 @@
+import type { Campaign, CampaignTarget, DaySchedule, RestaurantListItem, Schedule } from '../types';
+import { getWindowsMinutes, MINUTES_PER_DAY, TIME_STEP_MINUTES, WEEK_DAYS } from './timeWindowUtils';
+
+const HOURS_PER_DAY = 24;
+const HOURS_PER_WEEK = 7 * HOURS_PER_DAY;
+/**
+ * Rough impressions one slot produces per hour of delivery.
+ * No traffic stats are available at planning time, so the forecast is a range.
+ */
+const IMPRESSIONS_PER_SLOT_HOUR = { min: 20, max: 60 };
+
+export type TargetingRules = Pick<
+  Campaign,
+  'locationsMode' | 'locations' | 'restaurantTypesMode' | 'restaurantTypes' | 'menuTypesMode' | 'menuTypes'
+>;
+
+export interface ReachForecast {
+  /** Active restaurants passing the allow/deny rules */
+  matchingRestaurants: number;
+  /** Explicit targets, or matching restaurants when nothing is targeted */
+  deliveringRestaurants: number;
+  /** Explicitly targeted restaurants */
+  targetedRestaurants: number;
+  /** Explicitly targeted restaurants the allow/deny rules filter out */
+  excludedTargets: number;
+  /** Enabled slot × schedule hours per week over all delivering restaurants */
+  slotHoursPerWeek: number;
+  impressionsPerWeek: { min: number; max: number };
+}
+
+const matchesRule = (mode: 'allowed' | 'denied', ruleIds: string[], values: string[]): boolean => {
+  if (ruleIds.length === 0) return true;
+  const matches = values.some((value) => ruleIds.includes(value));
+  return mode === 'allowed' ? matches : !matches;
+};
+
+/**
+ * Check a restaurant against the campaign location, restaurant type and menu type rules
+ */
+export const matchesTargetingRules = (restaurant: RestaurantListItem, rules: TargetingRules): boolean => {
+  const typeIds = Array.isArray(restaurant.typeId) ? restaurant.typeId : [restaurant.typeId];
+  const menuTypeIds = Array.isArray(restaurant.menuTypeId) ? restaurant.menuTypeId : [restaurant.menuTypeId];
+
+  return (
+    matchesRule(rules.locationsMode, rules.locations, [restaurant.districtId]) &&
+    matchesRule(rules.restaurantTypesMode, rules.restaurantTypes, typeIds) &&
+    matchesRule(rules.menuTypesMode, rules.menuTypes, menuTypeIds)
+  );
+};
+
+/**
+ * Hours a single day of a schedule covers, overnight windows included in full
+ */
+export const getDayScheduleHours = (day: DaySchedule): number => {
+  return day.enabled ? getWindowsMinutes(day.windows) / 60 : 0;
+};
+
+/**
+ * Hours per week covered by at least one of the schedules.
+ * Overlapping schedules on the same slot are counted once; Sunday night windows wrap into Monday.
+ */
+export const getWeeklyHours = (schedules: Schedule[]): number => {
+  const stepsPerWeek = (7 * MINUTES_PER_DAY) / TIME_STEP_MINUTES;
+  const covered = new Set<number>();
+
+  schedules.forEach((schedule) => {
+    schedule.weekSchedule.forEach((day) => {
+      if (getDayScheduleHours(day) === 0) return;
+      const dayStart = WEEK_DAYS.indexOf(day.day) * MINUTES_PER_DAY;
+      day.windows.forEach((window) => {
+        for (let minute = window.startTime; minute < window.endTime; minute += TIME_STEP_MINUTES) {
+          covered.add(Math.floor((dayStart + minute) / TIME_STEP_MINUTES) % stepsPerWeek);
+        }
+      });
+    });
+  });
+
+  return (covered.size * TIME_STEP_MINUTES) / 60;
+};
+
+/**
+ * Estimate campaign reach from its rules, slots and explicit targets.
+ * Without explicit targets the campaign runs on every matching restaurant in
+ * every campaign slot around the clock.
+ */
+export const getReachForecast = (
+  rules: TargetingRules,
+  slotIds: string[],
+  targets: CampaignTarget[],
+  restaurants: RestaurantListItem[],
+  schedules: Schedule[],
+  allSlotIds: string[]
+): ReachForecast => {
+  const matchingIds = new Set(
+    restaurants
+      .filter((restaurant) => !restaurant.isBlocked && matchesTargetingRules(restaurant, rules))
+      .map((restaurant) => String(restaurant.id))
+  );
+  const campaignSlotIds = slotIds.length > 0 ? slotIds : allSlotIds;
+  const scheduleById = new Map(schedules.map((schedule) => [schedule.id, schedule]));
+
+  let slotHoursPerWeek = 0;
+  let deliveringRestaurants = 0;
+
+  if (targets.length > 0) {
+    targets
+      .filter((target) => matchingIds.has(String(target.id)))
+      .forEach((target) => {
+        deliveringRestaurants += 1;
+        target.slots
+          .filter((slot) => campaignSlotIds.includes(slot.id))
+          .forEach((slot) => {
+            // A slot without schedules runs around the clock
+            if (slot.schedules.length === 0) {
+              slotHoursPerWeek += HOURS_PER_WEEK;
+              return;
+            }
+            const slotSchedules = slot.schedules
+              .map((scheduleId) => scheduleById.get(scheduleId))
+              .filter((schedule): schedule is Schedule => Boolean(schedule && !schedule.blocked));
+            slotHoursPerWeek += getWeeklyHours(slotSchedules);
+          });
+      });
+  } else {
+    deliveringRestaurants = matchingIds.size;
+    slotHoursPerWeek = matchingIds.size * campaignSlotIds.length * HOURS_PER_WEEK;
+  }
+
+  const restaurantById = new Map(restaurants.map((restaurant) => [String(restaurant.id), restaurant]));
+  const excludedTargets = targets.filter((target) => {
+    const restaurant = restaurantById.get(String(target.id));
+    return restaurant !== undefined && !matchesTargetingRules(restaurant, rules);
+  }).length;
+
+  return {
+    matchingRestaurants: matchingIds.size,
+    deliveringRestaurants,
+    targetedRestaurants: targets.length,
+    excludedTargets,
+    slotHoursPerWeek,
+    impressionsPerWeek: {
+      min: slotHoursPerWeek * IMPRESSIONS_PER_SLOT_HOUR.min,
+      max: slotHoursPerWeek * IMPRESSIONS_PER_SLOT_HOUR.max,
+    },
+  };
+};
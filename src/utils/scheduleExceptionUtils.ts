@@ -0,0 +1,135 @@
+import type { DaySchedule, HolidayCalendar, Schedule, ScheduleException, TimeWindow } from '../types';
+import { WEEK_DAYS, getTimeWindowsIssue } from './timeWindowUtils';
+
+/** Where the hours of a day come from, in order of precedence */
+export type EffectiveHoursSource = 'exception' | 'holiday' | 'week';
+
+export interface EffectiveDayHours {
+  date: string;
+  source: EffectiveHoursSource;
+  enabled: boolean;
+  windows: TimeWindow[];
+  /** Holiday name or exception note */
+  label?: string;
+}
+
+export type ScheduleExceptionIssue = 'dateRequired' | 'endBeforeStart' | 'noWindows' | 'overlap';
+
+/**
+ * YYYY-MM-DD of a calendar day, month is zero-based as in Date
+ */
+export const toDateKey = (year: number, month: number, day: number): string =>
+  `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+/**
+ * Today as YYYY-MM-DD in local time
+ */
+export const getTodayKey = (): string => {
+  const now = new Date();
+  return toDateKey(now.getFullYear(), now.getMonth(), now.getDate());
+};
+
+/**
+ * Week day of a YYYY-MM-DD date. Computed in UTC so that DST changes never shift the day.
+ */
+export const getWeekDay = (date: string): DaySchedule['day'] => {
+  const [year, month, day] = date.split('-').map(Number);
+  const sundayBased = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  return WEEK_DAYS[(sundayBased + 6) % 7];
+};
+
+/**
+ * Days of a month as weeks starting on Monday, days outside the month are null
+ */
+export const getMonthWeeks = (year: number, month: number): Array<Array<string | null>> => {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const leading = WEEK_DAYS.indexOf(getWeekDay(toDateKey(year, month, 1)));
+  const cells: Array<string | null> = [
+    ...Array.from({ length: leading }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, index) => toDateKey(year, month, index + 1)),
+  ];
+  while (cells.length % 7 !== 0) cells.push(null);
+
+  const weeks: Array<Array<string | null>> = [];
+  for (let index = 0; index < cells.length; index += 7) {
+    weeks.push(cells.slice(index, index + 7));
+  }
+  return weeks;
+};
+
+const getRangeLength = (exception: ScheduleException): number =>
+  Date.parse(exception.endDate) - Date.parse(exception.startDate);
+
+/**
+ * Exception that applies to the date. When ranges overlap the shortest one wins,
+ * so a single day can override a longer range around it.
+ */
+export const findException = (exceptions: ScheduleException[], date: string): ScheduleException | undefined =>
+  exceptions
+    .filter((exception) => exception.startDate <= date && date <= exception.endDate)
+    .sort((a, b) => getRangeLength(a) - getRangeLength(b))[0];
+
+/**
+ * Hours a schedule runs on a date: its own exceptions first, then the holidays of
+ * its active calendars, then the weekly pattern
+ */
+export const getEffectiveHours = (
+  schedule: Pick<Schedule, 'weekSchedule' | 'exceptions' | 'holidayCalendarIds'>,
+  date: string,
+  calendars: HolidayCalendar[]
+): EffectiveDayHours => {
+  const exception = findException(schedule.exceptions, date);
+  if (exception) {
+    return {
+      date,
+      source: 'exception',
+      enabled: !exception.closed,
+      windows: exception.closed ? [] : exception.windows,
+      label: exception.note,
+    };
+  }
+
+  const holiday = calendars
+    .filter((calendar) => !calendar.blocked && schedule.holidayCalendarIds.includes(calendar.id))
+    .flatMap((calendar) => calendar.holidays)
+    .find((item) => item.date === date);
+  if (holiday) {
+    return { date, source: 'holiday', enabled: false, windows: [], label: holiday.name };
+  }
+
+  const weekDay = schedule.weekSchedule.find((day) => day.day === getWeekDay(date));
+  return {
+    date,
+    source: 'week',
+    enabled: Boolean(weekDay?.enabled),
+    windows: weekDay?.enabled ? weekDay.windows : [],
+  };
+};
+
+/**
+ * Problem with an edited exception: missing dates, range ending before it starts,
+ * or special hours without windows or with overlapping windows
+ */
+export const getExceptionIssue = (
+  exception: Pick<ScheduleException, 'startDate' | 'endDate' | 'closed' | 'windows'>
+): ScheduleExceptionIssue | null => {
+  if (!exception.startDate || !exception.endDate) return 'dateRequired';
+  if (exception.endDate < exception.startDate) return 'endBeforeStart';
+  if (exception.closed) return null;
+  if (exception.windows.length === 0) return 'noWindows';
+  return getTimeWindowsIssue(exception.windows) ? 'overlap' : null;
+};
+
+/**
+ * Holidays sorted by date, duplicates of the same date are dropped
+ */
+export const normalizeHolidays = <T extends { date: string }>(holidays: T[]): T[] => {
+  const seen = new Set<string>();
+  return [...holidays]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .filter((holiday) => {
+      if (seen.has(holiday.date)) return false;
+      seen.add(holiday.date);
+      return true;
+    });
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type { DaySchedule, TimeWindow } from '../types';
+import { WEEK_DAYS } from './timeWindowUtils';
+import { STEPS_PER_WEEK, cellsToWeekSchedule, getCellIndex, getWeekCells, shiftWeekSchedule } from './scheduleGridUtils';
+
+const week = (windows: Partial<Record<DaySchedule['day'], TimeWindow[]>>): DaySchedule[] =>
+  WEEK_DAYS.map((day) => ({ day, enabled: Boolean(windows[day]), windows: windows[day] || [] }));
+
+const hours = (start: number, end: number): TimeWindow => ({ startTime: start * 60, endTime: end * 60 });
+
+describe('cellsToWeekSchedule', () => {
+  it('turns the cells back into the same windows', () => {
+    const schedule = week({ Mon: [hours(9, 13), hours(14, 18)], Wed: [hours(12, 15)], Sat: [hours(10, 22)] });
+    expect(cellsToWeekSchedule(getWeekCells(schedule))).toEqual(schedule);
+  });
+
+  it('keeps an overnight block one window of the day it starts', () => {
+    const schedule = week({ Fri: [hours(22, 26)] });
+    const cells = getWeekCells(schedule);
+    expect(cells[getCellIndex(5, 1)]).toBe(true);
+    expect(cellsToWeekSchedule(cells)).toEqual(schedule);
+  });
+
+  it('wraps Sunday night into Monday', () => {
+    const schedule = week({ Sun: [hours(20, 27)] });
+    const cells = getWeekCells(schedule);
+    expect(cells[getCellIndex(0, 0)]).toBe(true);
+    expect(cellsToWeekSchedule(cells)).toEqual(schedule);
+  });
+
+  it('splits blocks longer than a day at midnight', () => {
+    const cells = getWeekCells(week({ Tue: [hours(0, 24)], Wed: [hours(0, 12)] }));
+    expect(cellsToWeekSchedule(cells)).toEqual(week({ Tue: [hours(0, 24)], Wed: [hours(0, 12)] }));
+  });
+
+  it('opens every day around the clock when all cells are covered', () => {
+    expect(cellsToWeekSchedule(new Array(STEPS_PER_WEEK).fill(true))).toEqual(
+      week(Object.fromEntries(WEEK_DAYS.map((day) => [day, [hours(0, 24)]])))
+    );
+  });
+
+  it('turns every day off without covered cells', () => {
+    expect(cellsToWeekSchedule(new Array(STEPS_PER_WEEK).fill(false))).toEqual(week({}));
+  });
+});
+
+describe('shiftWeekSchedule', () => {
+  it('moves hours past Sunday night back to Monday', () => {
+    expect(shiftWeekSchedule(week({ Sun: [hours(20, 23)] }), 3 * 60)).toEqual(week({ Sun: [hours(23, 26)] }));
+    expect(shiftWeekSchedule(week({ Mon: [hours(1, 5)] }), -2 * 60)).toEqual(week({ Sun: [hours(23, 27)] }));
+  });
+
+  it('keeps the schedule without a shift', () => {
+    const schedule = week({ Mon: [hours(9, 17)] });
+    expect(shiftWeekSchedule(schedule, 0)).toBe(schedule);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Week grid of a schedule: one cell per TIME_STEP_MINUTES from Monday 00:00 to Sunday 24:00.
+ * Overnight windows spill into the next day, Sunday night wraps into Monday.
+ */
+
+import type { DaySchedule, TimeWindow } from '../types';
+import { MINUTES_PER_DAY, TIME_STEP_MINUTES, WEEK_DAYS, sortTimeWindows } from './timeWindowUtils';
+
+export const STEPS_PER_HOUR = 60 / TIME_STEP_MINUTES;
+export const STEPS_PER_DAY = MINUTES_PER_DAY / TIME_STEP_MINUTES;
+export const STEPS_PER_WEEK = 7 * STEPS_PER_DAY;
+
+/**
+ * Covered cells of the enabled days
+ */
+export const getWeekCells = (weekSchedule: DaySchedule[]): boolean[] => {
+  const cells: boolean[] = new Array(STEPS_PER_WEEK).fill(false);
+  weekSchedule.forEach((day) => {
+    if (!day.enabled) return;
+    const dayStart = WEEK_DAYS.indexOf(day.day) * STEPS_PER_DAY;
+    day.windows.forEach((window) => {
+      const start = Math.floor(window.startTime / TIME_STEP_MINUTES);
+      const end = Math.ceil(window.endTime / TIME_STEP_MINUTES);
+      for (let step = start; step < end; step++) {
+        cells[(dayStart + step) % STEPS_PER_WEEK] = true;
+      }
+    });
+  });
+  return cells;
+};
+
+/**
+ * Number of schedules covering each cell
+ */
+export const getCoverageCounts = (weekSchedules: DaySchedule[][]): number[] => {
+  const counts: number[] = new Array(STEPS_PER_WEEK).fill(0);
+  weekSchedules.forEach((weekSchedule) => {
+    getWeekCells(weekSchedule).forEach((covered, step) => {
+      if (covered) counts[step] += 1;
+    });
+  });
+  return counts;
+};
+
+/**
+ * Week schedule drawn by the cells. A covered block becomes a window of the day it starts;
+ * blocks that run past midnight stay one overnight window while they last at most 24 hours,
+ * longer blocks are split at midnight. Days without windows are turned off.
+ */
+export const cellsToWeekSchedule = (cells: boolean[]): DaySchedule[] => {
+  const windowsByDay: TimeWindow[][] = WEEK_DAYS.map(() => []);
+
+  if (cells.every(Boolean)) {
+    windowsByDay.forEach((windows) => windows.push({ startTime: 0, endTime: MINUTES_PER_DAY }));
+  } else {
+    // Walk the week from an uncovered cell so that no block is cut by the array boundary
+    const offset = cells.indexOf(false);
+    let step = 0;
+    while (step < STEPS_PER_WEEK) {
+      if (!cells[(offset + step) % STEPS_PER_WEEK]) {
+        step += 1;
+        continue;
+      }
+      let end = step;
+      while (end < STEPS_PER_WEEK && cells[(offset + end) % STEPS_PER_WEEK]) end += 1;
+
+      let start = offset + step;
+      const blockEnd = offset + end;
+      while (start < blockEnd) {
+        const dayStart = Math.floor(start / STEPS_PER_DAY) * STEPS_PER_DAY;
+        const windowEnd = blockEnd - start <= STEPS_PER_DAY ? blockEnd : dayStart + STEPS_PER_DAY;
+        windowsByDay[(dayStart / STEPS_PER_DAY) % 7].push({
+          startTime: (start - dayStart) * TIME_STEP_MINUTES,
+          endTime: (windowEnd - dayStart) * TIME_STEP_MINUTES,
+        });
+        start = windowEnd;
+      }
+      step = end;
+    }
+  }
+
+  return WEEK_DAYS.map((day, index) => ({
+    day,
+    enabled: windowsByDay[index].length > 0,
+    windows: sortTimeWindows(windowsByDay[index]),
+  }));
+};
+
+/**
+ * Week schedule moved by whole steps, e.g. to show restaurant hours in another timezone.
+ * Hours pushed past Sunday night come back on Monday.
+ */
+export const shiftWeekSchedule = (weekSchedule: DaySchedule[], minutes: number): DaySchedule[] => {
+  const steps = Math.round(minutes / TIME_STEP_MINUTES);
+  if (steps === 0) return weekSchedule;
+  const cells = getWeekCells(weekSchedule);
+  return cellsToWeekSchedule(cells.map((_, step) => cells[(((step - steps) % STEPS_PER_WEEK) + STEPS_PER_WEEK) % STEPS_PER_WEEK]));
+};
+
+/**
+ * Cell index of a day row and a step within the day
+ */
+export const getCellIndex = (dayIndex: number, step: number): number => dayIndex * STEPS_PER_DAY + step;
@@ -0,0 +1,53 @@
+/**
+ * Where a schedule is used: campaign targets reference schedules per restaurant slot
+ * through `CampaignTargetSlot.schedules`.
+ */
+
+import type { Campaign } from '../types';
+
+export interface ScheduleUsageTarget {
+  restaurantId: string;
+  slotIds: string[];
+}
+
+export interface ScheduleUsage {
+  campaign: Campaign;
+  targets: ScheduleUsageTarget[];
+}
+
+export interface ScheduleUsageTotals {
+  campaigns: number;
+  restaurants: number;
+  slots: number;
+}
+
+/**
+ * Campaigns referencing the schedule, with the restaurants and slots it is set on
+ */
+export const getScheduleUsage = (scheduleId: string, campaigns: Campaign[]): ScheduleUsage[] =>
+  campaigns
+    .map((campaign) => ({
+      campaign,
+      targets: (campaign.targets || [])
+        .map((target) => ({
+          restaurantId: target.id,
+          slotIds: target.slots.filter((slot) => slot.schedules.includes(scheduleId)).map((slot) => slot.id),
+        }))
+        .filter((target) => target.slotIds.length > 0),
+    }))
+    .filter((usage) => usage.targets.length > 0);
+
+/**
+ * Distinct campaigns, restaurants and slots of the usage
+ */
+export const getScheduleUsageTotals = (usage: ScheduleUsage[]): ScheduleUsageTotals => {
+  const restaurants = new Set<string>();
+  const slots = new Set<string>();
+  usage.forEach(({ targets }) => {
+    targets.forEach((target) => {
+      restaurants.add(target.restaurantId);
+      target.slotIds.forEach((slotId) => slots.add(slotId));
+    });
+  });
+  return { campaigns: usage.length, restaurants: restaurants.size, slots: slots.size };
+};
@@ -0,0 +1,274 @@
+import { describe, expect, it } from 'vitest';
+import type { Campaign, Creative, RestaurantListItem, Schedule, Slot } from '../types';
+import { WEEK_DAYS } from './timeWindowUtils';
+import {
+  SIMULATION_HISTORY_SIZE,
+  advanceSlotSimulation,
+  getNextRotationStep,
+  isScheduleRunningAt,
+  resolveSlotCandidates,
+  startSlotSimulation,
+  type RotationState,
+  type RotationStep,
+  type SlotCandidate,
+  type SlotSimulatorData,
+} from './slotSimulatorUtils';
+
+const EMPTY_ROTATION: RotationState = { campaignCredits: {}, creativeCredits: {}, lastAdvertiserId: null };
+
+/** Monday, 5 January 2026, restaurant wall-clock time */
+const MONDAY = Date.parse('2026-01-05T00:00:00Z') / 1000;
+const at = (hours: number) => MONDAY + hours * 3600;
+
+const name = (value: string) => ({ ARM: value, ENG: value, RUS: value });
+
+const frequencyCap = { count: 0, window_sec: 0 };
+
+const campaign = (id: string, changes: Partial<Campaign> = {}): Campaign => ({
+  id,
+  advertiserId: 'x',
+  name: name(id),
+  startDate: at(-24 * 30),
+  endDate: at(24 * 30),
+  budget: 0,
+  budgetDaily: 0,
+  price: 1,
+  pricingModel: 'CPM',
+  spendStrategy: 'even',
+  frequencyCapStrategy: 'soft',
+  frequencyCap: {
+    per_user: { impressions: frequencyCap, clicks: frequencyCap },
+    per_session: { impressions: frequencyCap, clicks: frequencyCap },
+  },
+  priority: 1,
+  weight: 1,
+  overdeliveryRatio: 0,
+  locationsMode: 'allowed',
+  locations: [],
+  restaurantTypesMode: 'allowed',
+  restaurantTypes: [],
+  menuTypesMode: 'allowed',
+  menuTypes: [],
+  slots: [],
+  targets: [],
+  rotationAutoOptimize: false,
+  blocked: false,
+  ...changes,
+});
+
+const creative = (id: string, campaignId: string, changes: Partial<Creative> = {}): Creative => ({
+  id,
+  campaignId,
+  name: name(id),
+  minHeight: 0,
+  maxHeight: 0,
+  minWidth: 0,
+  maxWidth: 0,
+  dataUrl: '',
+  previewWidth: 300,
+  previewHeight: 200,
+  blocked: false,
+  moderationStatus: 'approved',
+  weight: 1,
+  ...changes,
+});
+
+/** Served candidate of a campaign with a single creative unless given */
+const candidate = (item: Campaign, creatives = [creative(`${item.id}-1`, String(item.id))]): SlotCandidate => ({
+  campaign: item,
+  creatives,
+  reasons: [],
+});
+
+const rotate = (served: SlotCandidate[], steps: number, noAdjacentSameAdvertiser = false): RotationStep[] => {
+  const result: RotationStep[] = [];
+  let state = EMPTY_ROTATION;
+  for (let index = 0; index < steps; index++) {
+    const next = getNextRotationStep(state, served, noAdjacentSameAdvertiser, index);
+    if (next.step) result.push(next.step);
+    state = next.state;
+  }
+  return result;
+};
+
+const countBy = (steps: RotationStep[], key: (step: RotationStep) => string) =>
+  steps.reduce<Record<string, number>>((counts, step) => ({ ...counts, [key(step)]: (counts[key(step)] || 0) + 1 }), {});
+
+describe('getNextRotationStep', () => {
+  it('shows campaigns in proportion to their weights, spread over the cycle', () => {
+    const steps = rotate([candidate(campaign('a', { weight: 3 })), candidate(campaign('b', { weight: 1, advertiserId: 'y' }))], 8);
+
+    expect(steps.map((step) => step.campaignId).join('')).toBe('aabaaaba');
+    expect(countBy(steps, (step) => step.campaignId)).toEqual({ a: 6, b: 2 });
+  });
+
+  it('rotates the creatives of a campaign by their weights', () => {
+    const served = [candidate(campaign('a'), [creative('c1', 'a', { weight: 1 }), creative('c2', 'a', { weight: 3 })])];
+
+    expect(countBy(rotate(served, 8), (step) => step.creativeId)).toEqual({ c1: 2, c2: 6 });
+  });
+
+  it('rotates evenly when every weight is zero', () => {
+    const steps = rotate([candidate(campaign('a', { weight: 0 })), candidate(campaign('b', { weight: 0, advertiserId: 'y' }))], 4);
+
+    expect(steps.map((step) => step.campaignId).join('')).toBe('abab');
+  });
+
+  it('never shows the same advertiser twice in a row with noAdjacentSameAdvertiser', () => {
+    const served = [
+      candidate(campaign('a', { weight: 3 })),
+      candidate(campaign('b', { weight: 1 })),
+      candidate(campaign('c', { weight: 1, advertiserId: 'y' })),
+    ];
+    const steps = rotate(served, 12, true);
+
+    expect(steps.map((step) => step.campaignId).join('')).toBe('acacacbcacac');
+    steps.slice(1).forEach((step, index) => {
+      expect(step.advertiserId).not.toBe(steps[index].advertiserId);
+      expect(step.adjacentSameAdvertiser).toBe(false);
+    });
+  });
+
+  it('repeats the only advertiser served and marks it', () => {
+    const steps = rotate([candidate(campaign('a')), candidate(campaign('b'))], 3, true);
+
+    expect(steps.map((step) => step.adjacentSameAdvertiser)).toEqual([false, true, true]);
+  });
+
+  it('shows nothing without served campaigns', () => {
+    const { step, state } = getNextRotationStep({ ...EMPTY_ROTATION, lastAdvertiserId: 'x' }, [], true, 0);
+
+    expect(step).toBeNull();
+    expect(state.lastAdvertiserId).toBeNull();
+  });
+});
+
+describe('advanceSlotSimulation', () => {
+  const settings = { rotationPeriod: 10, refreshTTL: 25, noAdjacentSameAdvertiser: false };
+
+  it('changes the ad every rotation period and resolves the candidates every refresh TTL', () => {
+    const served = [candidate(campaign('a')), candidate(campaign('b', { advertiserId: 'y' }))];
+    const refreshes: number[] = [];
+    const resolve = (elapsed: number) => {
+      refreshes.push(elapsed);
+      return served;
+    };
+
+    const simulation = advanceSlotSimulation(startSlotSimulation(served, settings), 65, settings, resolve);
+
+    expect(simulation.elapsed).toBe(65);
+    expect(simulation.stepStartedAt).toBe(60);
+    expect(simulation.history.map((step) => step.at)).toEqual([60, 50, 40, 30, 20, 10, 0]);
+    expect(refreshes).toEqual([25, 50]);
+    expect(simulation.refreshedAt).toBe(50);
+  });
+
+  it('keeps a limited history', () => {
+    const served = [candidate(campaign('a'))];
+    const simulation = advanceSlotSimulation(startSlotSimulation(served, settings), 1000, settings, () => served);
+
+    expect(simulation.history).toHaveLength(SIMULATION_HISTORY_SIZE);
+    expect(simulation.current).toBe(simulation.history[0]);
+  });
+});
+
+describe('resolveSlotCandidates', () => {
+  const restaurant: RestaurantListItem = {
+    id: 'r1',
+    name: name('Restaurant'),
+    crmUrl: '',
+    cityName: '',
+    districtName: '',
+    countryId: '1',
+    cityId: '1',
+    districtId: 'd1',
+    typeId: [],
+    priceSegmentId: [],
+    menuTypeId: [],
+    integrationTypeId: '',
+  };
+  const slot: Slot = { id: 's1', name: name('Slot'), type: 'MainLarge', isBlocked: false };
+  const schedule: Schedule = {
+    id: 'lunch',
+    name: name('Lunch'),
+    color: '#000000',
+    weekSchedule: WEEK_DAYS.map((day) => ({ day, enabled: day === 'Mon', windows: [{ startTime: 12 * 60, endTime: 15 * 60 }] })),
+    exceptions: [],
+    holidayCalendarIds: [],
+    blocked: false,
+  };
+  const targeted = { targets: [{ id: 'r1', slots: [{ id: 's1', schedules: ['lunch'], placements: [] }] }] };
+
+  const data: SlotSimulatorData = {
+    restaurant,
+    slot,
+    allSlotIds: ['s1', 's2'],
+    campaigns: [
+      campaign('top', { priority: 5 }),
+      campaign('lunch', { priority: 5, ...targeted }),
+      campaign('low', { priority: 1 }),
+      campaign('future', { priority: 9, startDate: at(24) }),
+      campaign('otherSlot', { priority: 9, slots: ['s2'] }),
+      campaign('unapproved', { priority: 9 }),
+    ],
+    advertisers: [],
+    creatives: [
+      creative('top-1', 'top'),
+      creative('lunch-1', 'lunch'),
+      creative('low-1', 'low'),
+      creative('future-1', 'future'),
+      creative('otherSlot-1', 'otherSlot'),
+      creative('unapproved-1', 'unapproved', { moderationStatus: 'pending' }),
+    ],
+    schedules: [schedule],
+    calendars: [],
+  };
+
+  const reasonsAt = (timestamp: number) =>
+    Object.fromEntries(resolveSlotCandidates(data, timestamp).map((item) => [item.campaign.id, item.reasons]));
+
+  it('serves the top priority campaigns and explains the others', () => {
+    expect(reasonsAt(at(13))).toEqual({
+      top: [],
+      lunch: [],
+      low: ['outranked'],
+      future: ['notStarted'],
+      otherSlot: ['slotNotInCampaign'],
+      unapproved: ['noCreatives'],
+    });
+  });
+
+  it('leaves out targeted campaigns outside their schedule', () => {
+    expect(reasonsAt(at(16)).lunch).toEqual(['outsideSchedule']);
+  });
+
+  it('keeps serving a campaign through its last day', () => {
+    const lastDay = { ...data, campaigns: [campaign('top', { startDate: at(-24), endDate: MONDAY })] };
+    const reasons = (timestamp: number) => resolveSlotCandidates(lastDay, timestamp)[0].reasons;
+
+    expect(reasons(at(23))).toEqual([]);
+    expect(reasons(at(24))).toEqual(['ended']);
+  });
+
+  it('lists the served campaigns first', () => {
+    expect(resolveSlotCandidates(data, at(13)).slice(0, 2).map((item) => item.campaign.id)).toEqual(['top', 'lunch']);
+  });
+});
+
+describe('isScheduleRunningAt', () => {
+  it('counts the overnight window of the previous day', () => {
+    const late: Schedule = {
+      id: 'late',
+      name: name('Late'),
+      color: '#000000',
+      weekSchedule: WEEK_DAYS.map((day) => ({ day, enabled: day === 'Sun', windows: [{ startTime: 22 * 60, endTime: 26 * 60 }] })),
+      exceptions: [],
+      holidayCalendarIds: [],
+      blocked: false,
+    };
+
+    expect(isScheduleRunningAt(late, at(1), [])).toBe(true);
+    expect(isScheduleRunningAt(late, at(2), [])).toBe(false);
+    expect(isScheduleRunningAt(late, at(23), [])).toBe(false);
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Slot simulator: which campaigns a restaurant slot can serve at a moment and how the tablet
+ * rotates them. Times are wall-clock timestamps of the restaurant (see dateUtils).
+ *
+ * Eligibility follows the reach forecast rules: a campaign without targets runs on every restaurant
+ * passing its rules in all its slots around the clock, a targeted slot without schedules runs around
+ * the clock. Only the highest priority among eligible campaigns is served, campaigns of that priority
+ * share the slot by weight and creatives share their campaign by weight.
+ */
+
+import type { Advertiser, Campaign, Creative, HolidayCalendar, RestaurantListItem, Schedule, Slot } from '../types';
+import { SECONDS_PER_DAY, timestampToDateInput } from './dateUtils';
+import { isCreativeServable } from './creativeModerationUtils';
+import { DEFAULT_CREATIVE_WEIGHT, getEndOfDay, toPercentages } from './creativeRotationUtils';
+import { matchesTargetingRules } from './reachUtils';
+import { getEffectiveHours } from './scheduleExceptionUtils';
+import { MINUTES_PER_DAY } from './timeWindowUtils';
+
+/** Rotation steps kept in the simulation history */
+export const SIMULATION_HISTORY_SIZE = 12;
+
+/**
+ * Why a campaign is not served in the slot, in the order they are checked
+ */
+export type SlotIneligibleReason =
+  | 'restaurantBlocked'
+  | 'slotBlocked'
+  | 'campaignBlocked'
+  | 'advertiserBlocked'
+  | 'notStarted'
+  | 'ended'
+  | 'slotNotInCampaign'
+  | 'excludedByRules'
+  | 'restaurantNotTargeted'
+  | 'slotNotTargeted'
+  | 'schedulesBlocked'
+  | 'outsideSchedule'
+  | 'noCreatives'
+  | 'outranked';
+
+export interface SlotCandidate {
+  campaign: Campaign;
+  /** Servable creatives of the campaign at the moment */
+  creatives: Creative[];
+  /** Empty when the campaign is served */
+  reasons: SlotIneligibleReason[];
+}
+
+export interface SlotSimulatorData {
+  restaurant: RestaurantListItem;
+  slot: Slot;
+  allSlotIds: string[];
+  campaigns: Campaign[];
+  advertisers: Advertiser[];
+  creatives: Creative[];
+  schedules: Schedule[];
+  calendars: HolidayCalendar[];
+}
+
+export interface SlotSimulationSettings {
+  rotationPeriod: number;
+  refreshTTL: number;
+  noAdjacentSameAdvertiser: boolean;
+}
+
+/** Smooth weighted round-robin credits by campaign and creative ID */
+export interface RotationState {
+  campaignCredits: Record<string, number>;
+  creativeCredits: Record<string, number>;
+  lastAdvertiserId: string | null;
+}
+
+export interface RotationStep {
+  campaignId: string;
+  creativeId: string;
+  advertiserId: string;
+  /** Same advertiser as the previous step */
+  adjacentSameAdvertiser: boolean;
+  /** Simulated seconds from the start when the step is shown */
+  at: number;
+}
+
+export interface SlotSimulation {
+  /** Simulated seconds from the start */
+  elapsed: number;
+  stepStartedAt: number;
+  refreshedAt: number;
+  /** Candidates as of the last refresh */
+  candidates: SlotCandidate[];
+  rotation: RotationState;
+  current: RotationStep | null;
+  /** Latest steps first, current one included */
+  history: RotationStep[];
+}
+
+const EMPTY_ROTATION: RotationState = { campaignCredits: {}, creativeCredits: {}, lastAdvertiserId: null };
+
+/**
+ * Whether one of the schedule windows covers the time. Overnight windows of the previous day count.
+ */
+export const isScheduleRunningAt = (schedule: Schedule, timestamp: number, calendars: HolidayCalendar[]): boolean => {
+  const minute = Math.floor((timestamp % SECONDS_PER_DAY) / 60);
+  const today = getEffectiveHours(schedule, timestampToDateInput(timestamp), calendars);
+  if (today.windows.some((window) => window.startTime <= minute && minute < window.endTime)) return true;
+
+  const yesterday = getEffectiveHours(schedule, timestampToDateInput(timestamp - SECONDS_PER_DAY), calendars);
+  return yesterday.windows.some((window) => minute + MINUTES_PER_DAY < window.endTime);
+};
+
+const isCreativeRunningAt = (creative: Creative, timestamp: number): boolean =>
+  isCreativeServable(creative) &&
+  (!creative.startDate || creative.startDate <= timestamp) &&
+  (!creative.endDate || timestamp <= creative.endDate);
+
+/**
+ * Every campaign with the reasons it is not served in the slot at the time.
+ * Eligible campaigns come first, by priority.
+ */
+export const resolveSlotCandidates = (data: SlotSimulatorData, timestamp: number): SlotCandidate[] => {
+  const { restaurant, slot, allSlotIds } = data;
+  const restaurantId = String(restaurant.id);
+  const slotId = String(slot.id);
+  const scheduleById = new Map(data.schedules.map((schedule) => [String(schedule.id), schedule]));
+
+  const candidates = data.campaigns.map((campaign): SlotCandidate => {
+    const reasons: SlotIneligibleReason[] = [];
+    if (restaurant.isBlocked) reasons.push('restaurantBlocked');
+    if (slot.isBlocked) reasons.push('slotBlocked');
+    if (campaign.blocked) reasons.push('campaignBlocked');
+    const advertiser = data.advertisers.find((item) => String(item.id) === String(campaign.advertiserId));
+    if (advertiser?.blocked) reasons.push('advertiserBlocked');
+    if (campaign.startDate > timestamp) reasons.push('notStarted');
+    // The end date is a day: the campaign runs until the end of it
+    if (getEndOfDay(campaign.endDate) < timestamp) reasons.push('ended');
+
+    const campaignSlotIds = campaign.slots.length > 0 ? campaign.slots : allSlotIds;
+    if (!campaignSlotIds.includes(slotId)) reasons.push('slotNotInCampaign');
+    if (!matchesTargetingRules(restaurant, campaign)) reasons.push('excludedByRules');
+
+    const targets = campaign.targets || [];
+    if (targets.length > 0) {
+      const target = targets.find((item) => String(item.id) === restaurantId);
+      const targetSlot = target?.slots.find((item) => String(item.id) === slotId);
+      if (!target) {
+        reasons.push('restaurantNotTargeted');
+      } else if (!targetSlot) {
+        reasons.push('slotNotTargeted');
+      } else if (targetSlot.schedules.length > 0) {
+        const schedules = targetSlot.schedules
+          .map((scheduleId) => scheduleById.get(String(scheduleId)))
+          .filter((schedule): schedule is Schedule => Boolean(schedule && !schedule.blocked));
+        if (schedules.length === 0) {
+          reasons.push('schedulesBlocked');
+        } else if (!schedules.some((schedule) => isScheduleRunningAt(schedule, timestamp, data.calendars))) {
+          reasons.push('outsideSchedule');
+        }
+      }
+    }
+
+    const creatives = data.creatives.filter(
+      (creative) => String(creative.campaignId) === String(campaign.id) && isCreativeRunningAt(creative, timestamp)
+    );
+    if (creatives.length === 0) reasons.push('noCreatives');
+
+    return { campaign, creatives, reasons };
+  });
+
+  const eligible = candidates.filter((candidate) => candidate.reasons.length === 0);
+  const topPriority = Math.max(...eligible.map((candidate) => candidate.campaign.priority));
+  eligible
+    .filter((candidate) => candidate.campaign.priority < topPriority)
+    .forEach((candidate) => candidate.reasons.push('outranked'));
+
+  return candidates.sort(
+    (a, b) => Number(a.reasons.length > 0) - Number(b.reasons.length > 0) || b.campaign.priority - a.campaign.priority
+  );
+};
+
+/**
+ * Campaigns the slot rotates: eligible and of the top priority
+ */
+export const getServedCandidates = (candidates: SlotCandidate[]): SlotCandidate[] =>
+  candidates.filter((candidate) => candidate.reasons.length === 0);
+
+/**
+ * Expected share of each served campaign in percent
+ */
+export const getCandidateShares = (served: SlotCandidate[]): number[] =>
+  toPercentages(served.map((candidate) => candidate.campaign.weight));
+
+/**
+ * Smooth weighted round-robin: every item gains its weight, the richest allowed item is picked
+ * and pays the total weight back. All-zero weights rotate evenly.
+ */
+const pickWeighted = <T>(
+  items: T[],
+  getId: (item: T) => string,
+  getWeight: (item: T) => number,
+  credits: Record<string, number>,
+  isAllowed: (item: T) => boolean = () => true
+): { item: T; credits: Record<string, number> } => {
+  const weights = items.map((item) => Math.max(0, getWeight(item)));
+  const even = weights.every((weight) => weight === 0);
+  const total = even ? items.length : weights.reduce((sum, weight) => sum + weight, 0);
+
+  const next = { ...credits };
+  items.forEach((item, index) => {
+    const id = getId(item);
+    next[id] = (next[id] || 0) + (even ? 1 : weights[index]);
+  });
+
+  const allowed = items.filter(isAllowed);
+  const pool = allowed.length > 0 ? allowed : items;
+  const item = pool.reduce((best, candidate) => (next[getId(candidate)] > next[getId(best)] ? candidate : best));
+  next[getId(item)] -= total;
+  return { item, credits: next };
+};
+
+/**
+ * Next ad of the rotation. With noAdjacentSameAdvertiser the previous advertiser is skipped
+ * unless it is the only one served.
+ */
+export const getNextRotationStep = (
+  state: RotationState,
+  served: SlotCandidate[],
+  noAdjacentSameAdvertiser: boolean,
+  at: number
+): { step: RotationStep | null; state: RotationState } => {
+  if (served.length === 0) return { step: null, state: { ...state, lastAdvertiserId: null } };
+
+  const campaignPick = pickWeighted(
+    served,
+    (candidate) => String(candidate.campaign.id),
+    (candidate) => candidate.campaign.weight,
+    state.campaignCredits,
+    (candidate) => !noAdjacentSameAdvertiser || String(candidate.campaign.advertiserId) !== state.lastAdvertiserId
+  );
+  const { campaign, creatives } = campaignPick.item;
+  const creativePick = pickWeighted(
+    creatives,
+    (creative) => String(creative.id),
+    (creative) => creative.weight ?? DEFAULT_CREATIVE_WEIGHT,
+    state.creativeCredits
+  );
+  const advertiserId = String(campaign.advertiserId);
+
+  return {
+    step: {
+      campaignId: String(campaign.id),
+      creativeId: String(creativePick.item.id),
+      advertiserId,
+      adjacentSameAdvertiser: advertiserId === state.lastAdvertiserId,
+      at,
+    },
+    state: { campaignCredits: campaignPick.credits, creativeCredits: creativePick.credits, lastAdvertiserId: advertiserId },
+  };
+};
+
+const withStep = (simulation: SlotSimulation, step: RotationStep | null, rotation: RotationState): SlotSimulation => ({
+  ...simulation,
+  rotation,
+  current: step,
+  history: step ? [step, ...simulation.history].slice(0, SIMULATION_HISTORY_SIZE) : simulation.history,
+});
+
+/**
+ * Simulation at its start, showing the first ad
+ */
+export const startSlotSimulation = (candidates: SlotCandidate[], settings: SlotSimulationSettings): SlotSimulation => {
+  const { step, state } = getNextRotationStep(EMPTY_ROTATION, getServedCandidates(candidates), settings.noAdjacentSameAdvertiser, 0);
+  return withStep(
+    { elapsed: 0, stepStartedAt: 0, refreshedAt: 0, candidates, rotation: EMPTY_ROTATION, current: null, history: [] },
+    step,
+    state
+  );
+};
+
+/**
+ * Simulation after some simulated seconds: the ad changes every rotation period and the
+ * candidates are resolved again every refresh TTL, as the tablet does
+ */
+export const advanceSlotSimulation = (
+  simulation: SlotSimulation,
+  seconds: number,
+  settings: SlotSimulationSettings,
+  resolve: (elapsed: number) => SlotCandidate[]
+): SlotSimulation => {
+  const rotationPeriod = Math.max(1, settings.rotationPeriod);
+  const refreshTTL = Math.max(1, settings.refreshTTL);
+  let next: SlotSimulation = { ...simulation, elapsed: simulation.elapsed + seconds };
+
+  while (next.elapsed >= next.stepStartedAt + rotationPeriod) {
+    const stepStartedAt = next.stepStartedAt + rotationPeriod;
+    next = { ...next, stepStartedAt };
+    if (stepStartedAt >= next.refreshedAt + refreshTTL) {
+      const refreshedAt = stepStartedAt - ((stepStartedAt - next.refreshedAt) % refreshTTL);
+      next = { ...next, refreshedAt, candidates: resolve(refreshedAt) };
+    }
+    const { step, state } = getNextRotationStep(
+      next.rotation,
+      getServedCandidates(next.candidates),
+      settings.noAdjacentSameAdvertiser,
+      stepStartedAt
+    );
+    next = withStep(next, step, state);
+  }
+
+  return next;
+};
@@ -0,0 +1,105 @@
+import type { Campaign, StatsPoint, StatsTotals } from '../types';
+import { SECONDS_PER_DAY } from './dateUtils';
+
+/**
+ * Format a spend amount with two decimals
+ */
+export const formatMoney = (value: number): string => {
+  return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+};
+
+/**
+ * Format a count rounded to an integer
+ */
+export const formatNumber = (value: number): string => {
+  return Math.round(value).toLocaleString();
+};
+
+/**
+ * Click-through rate in percent
+ */
+export const calculateCtr = (totals: StatsTotals): number => {
+  return totals.impressions > 0 ? (totals.clicks / totals.impressions) * 100 : 0;
+};
+
+/**
+ * Effective cost per thousand impressions
+ */
+export const calculateEcpm = (totals: StatsTotals): number => {
+  return totals.impressions > 0 ? (totals.spend / totals.impressions) * 1000 : 0;
+};
+
+/**
+ * Sum impressions, clicks and spend of several rows
+ */
+export const sumStats = (rows: StatsTotals[]): StatsTotals => {
+  return rows.reduce<StatsTotals>(
+    (acc, row) => ({
+      impressions: acc.impressions + row.impressions,
+      clicks: acc.clicks + row.clicks,
+      spend: acc.spend + row.spend,
+    }),
+    { impressions: 0, clicks: 0, spend: 0 }
+  );
+};
+
+/**
+ * Number of days covered by a [from, to] period (inclusive)
+ */
+export const getPeriodDays = (from: number, to: number): number => {
+  return Math.max(1, Math.ceil((to - from + 1) / SECONDS_PER_DAY));
+};
+
+/**
+ * Spend the campaign should have been charged for the delivered units
+ * according to its pricing model. CPV and CPA units are not tracked
+ * in delivery stats, so null is returned for them.
+ */
+export const getExpectedSpend = (
+  campaign: Pick<Campaign, 'pricingModel' | 'price'>,
+  totals: StatsTotals
+): number | null => {
+  switch (campaign.pricingModel) {
+    case 'CPM':
+      return (totals.impressions / 1000) * campaign.price;
+    case 'CPC':
+      return totals.clicks * campaign.price;
+    default:
+      return null;
+  }
+};
+
+export interface BudgetComparison {
+  /** Share of the total budget spent, in percent */
+  budgetUsedPercent: number;
+  /** Average spend per day over the period */
+  averageDailySpend: number;
+  /** Average daily spend relative to budgetDaily, in percent */
+  dailyBudgetUsedPercent: number;
+  /** Days in the series where spend exceeded budgetDaily */
+  daysOverDailyBudget: number;
+  /** Spend expected from the pricing model, null when not computable */
+  expectedSpend: number | null;
+}
+
+/**
+ * Compare delivered figures against campaign budget settings
+ */
+export const compareWithBudget = (
+  campaign: Pick<Campaign, 'budget' | 'budgetDaily' | 'pricingModel' | 'price'>,
+  totals: StatsTotals,
+  series: StatsPoint[],
+  periodDays: number
+): BudgetComparison => {
+  const averageDailySpend = totals.spend / Math.max(1, periodDays);
+
+  return {
+    budgetUsedPercent: campaign.budget > 0 ? (totals.spend / campaign.budget) * 100 : 0,
+    averageDailySpend,
+    dailyBudgetUsedPercent: campaign.budgetDaily > 0 ? (averageDailySpend / campaign.budgetDaily) * 100 : 0,
+    daysOverDailyBudget: campaign.budgetDaily > 0
+      ? series.filter((point) => point.spend > campaign.budgetDaily).length
+      : 0,
+    expectedSpend: getExpectedSpend(campaign, totals),
+  };
+};
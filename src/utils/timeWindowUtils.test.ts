@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatTimeWindow,
+  getTimeWindowsIssue,
+  getWindowsMinutes,
+  isOvernight,
+  toTimeWindow,
+  toTimeWindowFormValue,
+  windowsFromLegacyHours,
+} from './timeWindowUtils';
+
+const window = (startTime: string, endTime: string) => toTimeWindow({ startTime, endTime });
+
+describe('toTimeWindow', () => {
+  it('keeps a daytime window within the day', () => {
+    expect(window('09:00', '17:30')).toEqual({ startTime: 540, endTime: 1050 });
+  });
+
+  it('moves an end before the start to the next day', () => {
+    const overnight = window('22:00', '02:00');
+    expect(overnight).toEqual({ startTime: 1320, endTime: 1560 });
+    expect(isOvernight(overnight)).toBe(true);
+    expect(getWindowsMinutes([overnight])).toBe(240);
+    expect(formatTimeWindow(overnight)).toBe('22:00–02:00 (+1)');
+    expect(toTimeWindowFormValue(overnight)).toEqual({ startTime: '22:00', endTime: '02:00' });
+  });
+
+  it('treats equal start and end as the whole day', () => {
+    expect(window('00:00', '00:00')).toEqual({ startTime: 0, endTime: 1440 });
+    expect(isOvernight(window('00:00', '00:00'))).toBe(false);
+  });
+});
+
+describe('getTimeWindowsIssue', () => {
+  it('accepts separate windows', () => {
+    expect(getTimeWindowsIssue([window('12:00', '15:00'), window('19:00', '23:30')])).toBeNull();
+  });
+
+  it('flags overlapping windows of the day', () => {
+    expect(getTimeWindowsIssue([window('19:00', '23:00'), window('12:00', '19:30')])).toBe('overlap');
+  });
+
+  it('flags a window starting before the overnight window of the day ends', () => {
+    expect(getTimeWindowsIssue([window('22:00', '02:00'), window('23:00', '23:30')])).toBe('overlap');
+  });
+
+  it('flags an overnight window running into the next day', () => {
+    expect(getTimeWindowsIssue([window('22:00', '02:00')], [window('01:00', '09:00')])).toBe('overlapNextDay');
+  });
+
+  it('accepts an overnight window ending when the next day opens', () => {
+    expect(getTimeWindowsIssue([window('22:00', '02:00')], [window('02:00', '09:00')])).toBeNull();
+    expect(getTimeWindowsIssue([window('09:00', '17:00')], [window('00:00', '09:00')])).toBeNull();
+  });
+});
+
+describe('windowsFromLegacyHours', () => {
+  it('converts hours running past midnight to an overnight window', () => {
+    expect(windowsFromLegacyHours(22, 2)).toEqual([{ startTime: 1320, endTime: 1560 }]);
+    expect(windowsFromLegacyHours(8, 8)).toEqual([]);
+    expect(windowsFromLegacyHours()).toEqual([]);
+  });
+});
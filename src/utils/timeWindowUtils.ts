@@ -0,0 +1,111 @@
+import type { DaySchedule, TimeWindow } from '../types';
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+/** Days of a week schedule, Monday first */
+export const WEEK_DAYS: Array<DaySchedule['day']> = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/** Granularity of schedule times */
+export const TIME_STEP_MINUTES = 15;
+
+export type TimeWindowIssue = 'overlap' | 'overlapNextDay';
+
+/** Window as edited in forms, times as HH:mm */
+export interface TimeWindowFormValue {
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * Minutes from midnight as HH:mm, times of the next day wrap around
+ */
+export const minutesToTimeString = (minutes: number): string => {
+  const dayMinutes = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(dayMinutes / 60)).padStart(2, '0')}:${String(dayMinutes % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Minutes from midnight of an HH:mm string
+ */
+export const timeStringToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/**
+ * HH:mm options of a day in TIME_STEP_MINUTES steps
+ */
+export const generateTimeOptions = (): string[] => {
+  const options: string[] = [];
+  for (let minutes = 0; minutes < MINUTES_PER_DAY; minutes += TIME_STEP_MINUTES) {
+    options.push(minutesToTimeString(minutes));
+  }
+  return options;
+};
+
+/**
+ * Window of a form value. An end at or before the start ends on the next day,
+ * so 22:00–02:00 is an overnight window and 00:00–00:00 covers the whole day.
+ */
+export const toTimeWindow = ({ startTime, endTime }: TimeWindowFormValue): TimeWindow => {
+  const start = timeStringToMinutes(startTime);
+  const end = timeStringToMinutes(endTime);
+  return { startTime: start, endTime: end <= start ? end + MINUTES_PER_DAY : end };
+};
+
+/**
+ * Form value of a window
+ */
+export const toTimeWindowFormValue = (window: TimeWindow): TimeWindowFormValue => ({
+  startTime: minutesToTimeString(window.startTime),
+  endTime: minutesToTimeString(window.endTime),
+});
+
+/**
+ * Whether the window ends on the next day
+ */
+export const isOvernight = (window: TimeWindow): boolean => window.endTime > MINUTES_PER_DAY;
+
+/**
+ * Minutes covered by the windows
+ */
+export const getWindowsMinutes = (windows: TimeWindow[]): number =>
+  windows.reduce((total, window) => total + Math.max(0, window.endTime - window.startTime), 0);
+
+/**
+ * Window as "22:00–02:00 (+1)", the suffix marks an end on the next day
+ */
+export const formatTimeWindow = (window: TimeWindow): string =>
+  `${minutesToTimeString(window.startTime)}–${minutesToTimeString(window.endTime)}${isOvernight(window) ? ' (+1)' : ''}`;
+
+/**
+ * Windows sorted by start time
+ */
+export const sortTimeWindows = (windows: TimeWindow[]): TimeWindow[] =>
+  [...windows].sort((a, b) => a.startTime - b.startTime);
+
+/**
+ * Problem with the windows of one day: windows overlapping each other, or an overnight window
+ * running into the windows of the next day (22:00–02:00 followed by 01:00–09:00)
+ */
+export const getTimeWindowsIssue = (windows: TimeWindow[], nextDayWindows: TimeWindow[] = []): TimeWindowIssue | null => {
+  const sorted = sortTimeWindows(windows);
+  for (let index = 1; index < sorted.length; index++) {
+    if (sorted[index].startTime < sorted[index - 1].endTime) return 'overlap';
+  }
+
+  const spill = Math.max(0, ...windows.map((window) => window.endTime - MINUTES_PER_DAY));
+  if (nextDayWindows.some((window) => window.startTime < spill)) return 'overlapNextDay';
+  return null;
+};
+
+/**
+ * Windows of a schedule saved with whole hours before windows were introduced.
+ * An end before the start was shown as running past midnight, which it now does explicitly.
+ */
+export const windowsFromLegacyHours = (start?: number, end?: number): TimeWindow[] => {
+  if (start === undefined || end === undefined || start === end) return [];
+  const startTime = start * 60;
+  const endTime = end * 60;
+  return [{ startTime, endTime: endTime < startTime ? endTime + MINUTES_PER_DAY : endTime }];
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { City, Country } from '../types';
+import { DEFAULT_TIMEZONE, convertWallClock, getTimezoneShiftMinutes, resolveCityTimezone } from './timezoneUtils';
+
+/** Wall-clock timestamp of a local date and time, kept as if in UTC */
+const wallClock = (local: string) => Date.parse(`${local}Z`) / 1000;
+
+describe('convertWallClock', () => {
+  it('shifts by the winter and summer offsets of the target zone', () => {
+    expect(convertWallClock(wallClock('2026-01-15T12:00:00'), 'Asia/Yerevan', 'Europe/Berlin')).toBe(wallClock('2026-01-15T09:00:00'));
+    expect(convertWallClock(wallClock('2026-07-15T12:00:00'), 'Asia/Yerevan', 'Europe/Berlin')).toBe(wallClock('2026-07-15T10:00:00'));
+  });
+
+  it('follows the clock change when summer time starts', () => {
+    // Berlin moves from 02:00 CET to 03:00 CEST at 01:00 UTC on 29 March 2026
+    expect(convertWallClock(wallClock('2026-03-29T04:59:00'), 'Asia/Yerevan', 'Europe/Berlin')).toBe(wallClock('2026-03-29T01:59:00'));
+    expect(convertWallClock(wallClock('2026-03-29T05:00:00'), 'Asia/Yerevan', 'Europe/Berlin')).toBe(wallClock('2026-03-29T03:00:00'));
+  });
+
+  it('follows the clock change when summer time ends', () => {
+    // Berlin moves from 03:00 CEST back to 02:00 CET at 01:00 UTC on 25 October 2026
+    expect(convertWallClock(wallClock('2026-10-25T04:30:00'), 'Asia/Yerevan', 'Europe/Berlin')).toBe(wallClock('2026-10-25T02:30:00'));
+    expect(convertWallClock(wallClock('2026-10-25T05:30:00'), 'Asia/Yerevan', 'Europe/Berlin')).toBe(wallClock('2026-10-25T02:30:00'));
+  });
+
+  it('converts back to the same wall clock outside the clock change', () => {
+    const start = wallClock('2026-03-30T09:15:00');
+    const berlin = convertWallClock(start, 'Asia/Yerevan', 'Europe/Berlin');
+    expect(convertWallClock(berlin, 'Europe/Berlin', 'Asia/Yerevan')).toBe(start);
+  });
+
+  it('keeps the value in the same zone and empty dates', () => {
+    const start = wallClock('2026-03-29T02:30:00');
+    expect(convertWallClock(start, 'Europe/Berlin', 'Europe/Berlin')).toBe(start);
+    expect(convertWallClock(0, 'Asia/Yerevan', 'Europe/Berlin')).toBe(0);
+  });
+});
+
+describe('getTimezoneShiftMinutes', () => {
+  it('depends on the date for zones with summer time', () => {
+    expect(getTimezoneShiftMinutes('Asia/Yerevan', 'Europe/Berlin', new Date('2026-01-15T12:00:00Z'))).toBe(-180);
+    expect(getTimezoneShiftMinutes('Asia/Yerevan', 'Europe/Berlin', new Date('2026-07-15T12:00:00Z'))).toBe(-120);
+  });
+});
+
+describe('resolveCityTimezone', () => {
+  const countries: Country[] = [
+    { id: '1', name: 'Armenia', isBlocked: false },
+    { id: '2', name: 'Russia', isBlocked: false, timezone: 'Europe/Moscow' },
+  ];
+  const cities: City[] = [
+    { id: '10', name: 'Yerevan', countryId: '1', isBlocked: false },
+    { id: '20', name: 'Moscow', countryId: '2', isBlocked: false },
+    { id: '21', name: 'Novosibirsk', countryId: '2', isBlocked: false, timezone: 'Asia/Novosibirsk' },
+  ];
+
+  it('uses the city zone, then the country zone, then the default', () => {
+    expect(resolveCityTimezone('21', cities, countries)).toBe('Asia/Novosibirsk');
+    expect(resolveCityTimezone(20, cities, countries)).toBe('Europe/Moscow');
+    expect(resolveCityTimezone('10', cities, countries)).toBe(DEFAULT_TIMEZONE);
+    expect(resolveCityTimezone('99', cities, countries)).toBe(DEFAULT_TIMEZONE);
+  });
+});
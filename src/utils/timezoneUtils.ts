@@ -0,0 +1,83 @@
+/**
+ * Restaurant timezones. Campaign dates and schedule hours are wall-clock time of the restaurant
+ * (timestamps are kept as if in UTC, see dateUtils); these helpers show them in another zone.
+ */
+
+import { formatInTimeZone, fromZonedTime, getTimezoneOffset } from 'date-fns-tz';
+import type { City, Country, RestaurantListItem } from '../types';
+import { getCurrentTimestamp } from './dateUtils';
+
+/** Zone of locations without an explicit timezone */
+export const DEFAULT_TIMEZONE = 'Asia/Yerevan';
+
+const WALL_CLOCK_FORMAT = "yyyy-MM-dd'T'HH:mm:ss";
+
+/**
+ * Timezone of the browser
+ */
+export const getBrowserTimezone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/**
+ * Timezone of a city: its own, else its country's, else the default
+ */
+export const resolveCityTimezone = (cityId: string | number, cities: City[], countries: Country[]): string => {
+  const city = cities.find((item) => String(item.id) === String(cityId));
+  if (city?.timezone) return city.timezone;
+  const country = countries.find((item) => String(item.id) === String(city?.countryId));
+  return country?.timezone || DEFAULT_TIMEZONE;
+};
+
+/**
+ * Distinct timezones of the restaurants, most used first
+ */
+export const getRestaurantsTimezones = (
+  restaurantIds: string[],
+  restaurants: RestaurantListItem[],
+  cities: City[],
+  countries: Country[]
+): string[] => {
+  const usage = new Map<string, number>();
+  restaurantIds.forEach((id) => {
+    const restaurant = restaurants.find((item) => String(item.id) === String(id));
+    if (!restaurant) return;
+    const timezone = resolveCityTimezone(restaurant.cityId, cities, countries);
+    usage.set(timezone, (usage.get(timezone) || 0) + 1);
+  });
+  return [...usage.entries()].sort((a, b) => b[1] - a[1]).map(([timezone]) => timezone);
+};
+
+/**
+ * Distinct timezones set in the locations dictionary, with the default first
+ */
+export const getLocationsTimezones = (cities: City[], countries: Country[]): string[] => [
+  ...new Set([DEFAULT_TIMEZONE, ...countries.map((country) => country.timezone), ...cities.map((city) => city.timezone)].filter(
+    (timezone): timezone is string => Boolean(timezone)
+  )),
+];
+
+/**
+ * UTC offset of a zone as "UTC+04:00"
+ */
+export const formatTimezoneOffset = (timeZone: string, at: Date = new Date()): string =>
+  `UTC${formatInTimeZone(at, timeZone, 'xxx')}`;
+
+/**
+ * Minutes to add to wall-clock times of one zone to get the same moment in another
+ */
+export const getTimezoneShiftMinutes = (fromZone: string, toZone: string, at: Date = new Date()): number =>
+  (getTimezoneOffset(toZone, at) - getTimezoneOffset(fromZone, at)) / 60000;
+
+/**
+ * Wall-clock timestamp (seconds) of one zone as the wall-clock timestamp of the same moment in another
+ */
+export const convertWallClock = (timestamp: number, fromZone: string, toZone: string): number => {
+  if (!timestamp || fromZone === toZone) return timestamp;
+  const instant = fromZonedTime(formatInTimeZone(new Date(timestamp * 1000), 'UTC', WALL_CLOCK_FORMAT), fromZone);
+  return Math.floor(new Date(`${formatInTimeZone(instant, toZone, WALL_CLOCK_FORMAT)}Z`).getTime() / 1000);
+};
+
+/**
+ * Current time as a wall-clock timestamp of the zone, comparable with campaign dates
+ */
+export const getWallClockNow = (timeZone: string = DEFAULT_TIMEZONE): number =>
+  convertWallClock(getCurrentTimestamp(), 'UTC', timeZone);